@@ -0,0 +1,130 @@
+/**
+ * Runs the matching pipeline over the labeled title corpus, prints precision
+ * and recall per product type and false rejects per rejecting layer, and
+ * diffs the outcome against the previous run saved in matching-corpus/_last-run.json.
+ *
+ * Usage:
+ *   node scripts/matching-corpus.js           # report, diff and save as the new last run
+ *   node scripts/matching-corpus.js --check   # report and diff only; exit 1 if any title broke
+ *   node scripts/matching-corpus.js --live    # use reference data from MONGODB_URI (never saved)
+ *
+ * By default titles are matched against the reference data snapshot stored in
+ * the corpus, so code changes (thresholds, layers) can be measured in isolation.
+ * Reads the compiled pipeline from dist/, so run `npm run build` first.
+ */
+const fs = require('fs');
+const path = require('path');
+const {
+  ProductMatchingPipeline,
+  runMatchingCorpus,
+  diffCorpusRuns,
+  loadPipelineConfig,
+  connectDB,
+  disconnectDB,
+} = require('../dist');
+
+const CORPUS_PATH = path.join(__dirname, 'matching-corpus/corpus.json');
+const LAST_RUN_PATH = path.join(__dirname, 'matching-corpus/_last-run.json');
+
+function percent(value) {
+  return value === null ? '   -' : `${(value * 100).toFixed(0)}%`.padStart(4);
+}
+
+function printStats(heading, statsByKey) {
+  console.log(`\n${heading.padEnd(24)} expected  predicted  correct  precision  recall`);
+  for (const [key, stats] of Object.entries(statsByKey).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(
+      `  ${key.padEnd(22)} ${String(stats.expected).padStart(8)}  ${String(stats.predicted).padStart(9)}` +
+        `  ${String(stats.correct).padStart(7)}  ${percent(stats.precision).padStart(9)}  ${percent(stats.recall).padStart(6)}`,
+    );
+  }
+}
+
+function printLayerStats(statsByLayer) {
+  console.log(`\n${'Rejecting layer'.padEnd(24)} rejected  correct  false rejects  precision`);
+  for (const [layer, stats] of Object.entries(statsByLayer)) {
+    console.log(
+      `  ${layer.padEnd(22)} ${String(stats.rejected).padStart(8)}  ${String(stats.correct).padStart(7)}` +
+        `  ${String(stats.falseRejects).padStart(13)}  ${percent(stats.precision).padStart(9)}`,
+    );
+  }
+}
+
+function printResults(heading, results) {
+  if (results.length === 0) return;
+  console.log(`\n${heading} (${results.length}):`);
+  for (const result of results) {
+    const layer = result.rejectedBy ? ` [${result.rejectedBy}]` : '';
+    console.log(`  ${result.title}`);
+    console.log(`      expected ${result.expected}, got ${result.actual}${layer}`);
+  }
+}
+
+async function loadReferenceData(corpus, live) {
+  if (!live) return corpus.referenceData;
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.error('Set MONGODB_URI environment variable to use --live');
+    process.exit(1);
+  }
+
+  await connectDB(uri);
+  try {
+    return await loadPipelineConfig();
+  } finally {
+    await disconnectDB();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes('--check');
+  const live = args.includes('--live');
+
+  const corpus = JSON.parse(fs.readFileSync(CORPUS_PATH, 'utf-8'));
+  const pipeline = new ProductMatchingPipeline(await loadReferenceData(corpus, live));
+  const report = runMatchingCorpus(pipeline, corpus.entries);
+
+  console.log(
+    `Matched ${report.correct} of ${report.total} titles as labeled` +
+      (live ? ' (live reference data)' : ''),
+  );
+  printStats('Product type', report.byType);
+  printLayerStats(report.byLayer);
+  printResults(
+    'Not as labeled',
+    report.results.filter((r) => !r.correct),
+  );
+
+  if (!fs.existsSync(LAST_RUN_PATH)) {
+    console.log('\nNo previous run to compare against.');
+  } else {
+    const previous = JSON.parse(fs.readFileSync(LAST_RUN_PATH, 'utf-8'));
+    const diff = diffCorpusRuns(previous.results, report.results);
+
+    console.log(`\nPrevious run: ${previous.correct} of ${previous.total} titles as labeled`);
+    printResults('✗ Broken', diff.broken);
+    printResults('✓ Fixed', diff.fixed);
+    printResults('~ Still wrong, different outcome', diff.changed);
+    if (diff.added.length > 0) console.log(`\n${diff.added.length} titles added to the corpus`);
+    if (diff.removed.length > 0) {
+      console.log(`${diff.removed.length} titles removed from the corpus`);
+    }
+
+    if (check && diff.broken.length > 0) {
+      console.error(`\n${diff.broken.length} titles broke since the previous run`);
+      process.exit(1);
+    }
+  }
+
+  if (!check && !live) {
+    fs.writeFileSync(LAST_RUN_PATH, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nSaved run to ${path.relative(process.cwd(), LAST_RUN_PATH)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+/**
+ * Validates every shop config against the ShopConfig schema and reports all
+ * problems with file and path context. Exits non-zero if any config is invalid.
+ *
+ * Usage: node scripts/validate-shop-configs.js [dir]   (default: src/config/shops)
+ * Reads the compiled schema from dist/, so run `npm run build` first.
+ */
+const path = require('path');
+const { validateShopConfigDir } = require('../dist/shops');
+
+const dir = path.resolve(process.argv[2] ?? path.join(__dirname, '../src/config/shops'));
+const { configs, issues } = validateShopConfigDir(dir);
+
+const byFile = new Map();
+for (const issue of issues) {
+  const list = byFile.get(issue.file) ?? [];
+  list.push(issue);
+  byFile.set(issue.file, list);
+}
+
+for (const [file, fileIssues] of byFile) {
+  console.error(`✗ ${path.join(path.relative(process.cwd(), dir), file)}`);
+  for (const issue of fileIssues) {
+    console.error(`    ${issue.path}: ${issue.message}`);
+  }
+}
+
+const total = configs.length + byFile.size;
+if (issues.length > 0) {
+  console.error(
+    `\n${byFile.size} of ${total} shop configs invalid (${issues.length} issue${issues.length === 1 ? '' : 's'})`,
+  );
+  process.exit(1);
+}
+
+console.log(`✓ ${total} shop configs valid`);
@@ -6,4 +6,10 @@ export {
   isConnected,
 } from './db-connect';
 export * from './models';
-export { getFreshnessCutoff, buildBestPriceAggregation } from './query-utils';
+export {
+  getFreshnessCutoff,
+  buildBestPriceAggregation,
+  buildLatestShopPricesAggregation,
+  buildLatestResultsAggregation,
+} from './query-utils';
+export { loadPipelineConfig } from './pipeline-config';
@@ -0,0 +1,50 @@
+/**
+ * Seeds the synonym rule and language token collections with the matching
+ * pipeline's built-in defaults.
+ *
+ * Until seeded, the pipeline keeps using the built-in rules; after seeding they
+ * can be edited from the admin panel. Collections that already have documents
+ * are left untouched, so the script is safe to re-run.
+ *
+ * Usage:
+ *   MONGODB_URI=<uri> npx tsx packages/shared/src/database/migrations/seed-matching-rules.ts
+ */
+
+import mongoose from 'mongoose';
+import { SynonymRuleModel } from '../models/synonym-rule.model';
+import { LanguageTokenModel } from '../models/language-token.model';
+import { DEFAULT_SYNONYM_RULES, DEFAULT_LANGUAGE_TOKENS } from '../../matching';
+
+async function main(): Promise<void> {
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.error('Set MONGODB_URI environment variable');
+    process.exit(1);
+  }
+
+  await mongoose.connect(uri);
+  console.log('Connected to MongoDB\n');
+
+  if ((await SynonymRuleModel.countDocuments()) > 0) {
+    console.log('Synonym rules already present, skipping.');
+  } else {
+    await SynonymRuleModel.insertMany(
+      DEFAULT_SYNONYM_RULES.map((rule, order) => ({ ...rule, order })),
+    );
+    console.log(`Inserted ${DEFAULT_SYNONYM_RULES.length} synonym rules.`);
+  }
+
+  if ((await LanguageTokenModel.countDocuments()) > 0) {
+    console.log('Language tokens already present, skipping.');
+  } else {
+    await LanguageTokenModel.insertMany(DEFAULT_LANGUAGE_TOKENS);
+    console.log(`Inserted tokens for ${DEFAULT_LANGUAGE_TOKENS.length} languages.`);
+  }
+
+  await mongoose.disconnect();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
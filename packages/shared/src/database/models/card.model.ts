@@ -0,0 +1,29 @@
+/**
+ * Card MongoDB model.
+ * A single Pokemon TCG card from one set, identified in shop titles by its
+ * collector number and name. Watchlist products point at a card (plus an
+ * optional grade) to track singles and graded slabs.
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICardDoc extends Document {
+  id: string;
+  productSetId: string;
+  name: string;
+  /** Collector number as printed, e.g. "199/165" or "TG05/TG30". */
+  number: string;
+  rarity?: string;
+  imageUrl?: string;
+}
+
+const CardSchema = new Schema<ICardDoc>({
+  id: { type: String, required: true, unique: true },
+  productSetId: { type: String, required: true, index: true },
+  name: { type: String, required: true },
+  number: { type: String, required: true },
+  rarity: { type: String },
+  imageUrl: { type: String },
+});
+
+export const CardModel = mongoose.model<ICardDoc>('Card', CardSchema);
@@ -0,0 +1,34 @@
+/**
+ * ChannelPostState MongoDB model.
+ * Last price posted to a subscribed channel per product and shop, so an offer
+ * is posted again only after it drops further or disappears and comes back.
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IChannelPostStateDoc extends Document {
+  channelId: string;
+  productId: string;
+  shopId: string;
+  price: number;
+  updatedAt: Date;
+}
+
+const ChannelPostStateSchema = new Schema<IChannelPostStateDoc>(
+  {
+    channelId: { type: String, required: true },
+    productId: { type: String, required: true },
+    shopId: { type: String, required: true },
+    price: { type: Number, required: true },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+  },
+);
+
+ChannelPostStateSchema.index({ channelId: 1, productId: 1, shopId: 1 }, { unique: true });
+
+export const ChannelPostStateModel = mongoose.model<IChannelPostStateDoc>(
+  'ChannelPostState',
+  ChannelPostStateSchema,
+);
@@ -0,0 +1,52 @@
+/**
+ * ChannelSubscription MongoDB model.
+ * Binds a Discord server text channel to an offer filter; the notifications
+ * service posts matching offers there, independently of user watchlists.
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+/** Empty lists match everything; maxPrice null means no price limit. */
+export interface ChannelSubscriptionFilter {
+  productSetIds: string[];
+  productTypeIds: string[];
+  shopIds: string[];
+  maxPrice: number | null;
+}
+
+export interface IChannelSubscriptionDoc extends Document {
+  guildId: string;
+  channelId: string;
+  filter: ChannelSubscriptionFilter;
+  /** Discord user id of the admin who set up the feed. */
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChannelSubscriptionFilterSchema = new Schema<ChannelSubscriptionFilter>(
+  {
+    productSetIds: { type: [String], default: [] },
+    productTypeIds: { type: [String], default: [] },
+    shopIds: { type: [String], default: [] },
+    maxPrice: { type: Number, default: null },
+  },
+  { _id: false },
+);
+
+const ChannelSubscriptionSchema = new Schema<IChannelSubscriptionDoc>(
+  {
+    guildId: { type: String, required: true },
+    channelId: { type: String, required: true, unique: true },
+    filter: { type: ChannelSubscriptionFilterSchema, required: true },
+    createdBy: { type: String, required: true },
+  },
+  { timestamps: true },
+);
+
+ChannelSubscriptionSchema.index({ guildId: 1 });
+
+export const ChannelSubscriptionModel = mongoose.model<IChannelSubscriptionDoc>(
+  'ChannelSubscription',
+  ChannelSubscriptionSchema,
+);
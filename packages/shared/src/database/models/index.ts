@@ -9,8 +9,14 @@ export type {
 export { NotificationStateModel } from './notification-state.model';
 export type { INotificationStateDoc } from './notification-state.model';
 
-export { UserModel } from './user.model';
-export type { IUserDoc, IChannelData } from './user.model';
+export { UserModel, DEFAULT_NOTIFICATION_SCHEDULE } from './user.model';
+export type {
+  IUserDoc,
+  IChannelData,
+  IEmailChannelData,
+  IPushSubscription,
+  IWebhook,
+} from './user.model';
 
 export { UserWatchEntryModel } from './user-watch-entry.model';
 export type { IUserWatchEntryDoc } from './user-watch-entry.model';
@@ -18,11 +24,38 @@ export type { IUserWatchEntryDoc } from './user-watch-entry.model';
 export { ProductResultModel } from './product-result.model';
 export type { IProductResultDoc } from './product-result.model';
 
+export { ProductPriceHistoryModel } from './product-price-history.model';
+export type { IProductPriceHistoryDoc } from './product-price-history.model';
+
 export { ProductSetModel } from './product-set.model';
 export type { IProductSetDoc } from './product-set.model';
 
 export { ProductTypeModel } from './product-type.model';
 export type { IProductTypeDoc } from './product-type.model';
 
+export { CardModel } from './card.model';
+export type { ICardDoc } from './card.model';
+
 export { WatchlistProductModel } from './watchlist-product.model';
 export type { IWatchlistProductDoc } from './watchlist-product.model';
+
+export { ScanRunModel } from './scan-run.model';
+export type { IScanRunDoc } from './scan-run.model';
+
+export { UnmatchedTitleModel } from './unmatched-title.model';
+export type { IUnmatchedTitleDoc } from './unmatched-title.model';
+
+export { SynonymRuleModel } from './synonym-rule.model';
+export type { ISynonymRuleDoc } from './synonym-rule.model';
+
+export { LanguageTokenModel } from './language-token.model';
+export type { ILanguageTokenDoc } from './language-token.model';
+
+export { ChannelSubscriptionModel } from './channel-subscription.model';
+export type {
+  IChannelSubscriptionDoc,
+  ChannelSubscriptionFilter,
+} from './channel-subscription.model';
+
+export { ChannelPostStateModel } from './channel-post-state.model';
+export type { IChannelPostStateDoc } from './channel-post-state.model';
@@ -0,0 +1,23 @@
+/**
+ * LanguageToken MongoDB model.
+ * Words that mark a product title as a non-English print, one document per language
+ * (e.g. "japanese": ["jp", "japan", "japonski", ...]). Titles containing any of them
+ * are dropped by the matching pipeline.
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILanguageTokenDoc extends Document {
+  language: string;
+  tokens: string[];
+}
+
+const LanguageTokenSchema = new Schema<ILanguageTokenDoc>({
+  language: { type: String, required: true, unique: true },
+  tokens: { type: [String], default: [] },
+});
+
+export const LanguageTokenModel = mongoose.model<ILanguageTokenDoc>(
+  'LanguageToken',
+  LanguageTokenSchema,
+);
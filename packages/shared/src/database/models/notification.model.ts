@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { AlertTrigger } from '../../types';
 
 export interface INotificationPayload {
   productName: string;
@@ -8,12 +9,21 @@ export interface INotificationPayload {
   price: number;
   maxPrice: number;
   productUrl: string;
+  /** Rule that fired; absent on notifications created before alert rules existed. */
+  trigger?: AlertTrigger;
+  /** 7-day average price the drop was measured against ('price-drop' only). */
+  averagePrice?: number;
+  /** Product photo for rich alerts; absent when the product has none. */
+  imageUrl?: string;
+  /** Name of the set the product belongs to. */
+  productSetName?: string;
 }
 
-export type NotificationChannel = 'telegram' | 'discord';
+export type NotificationChannel = 'telegram' | 'discord' | 'email' | 'push' | 'webhook';
 
 export interface IDelivery {
   channel: NotificationChannel;
+  /** Chat or user id, email address, push endpoint or webhook id, depending on channel. */
   channelTarget: string;
   status: 'pending' | 'sent' | 'failed';
   attempts: number;
@@ -23,8 +33,11 @@ export interface IDelivery {
 
 export interface INotificationDoc extends Document {
   userId: string;
-  status: 'pending' | 'sending' | 'sent' | 'failed' | 'expired';
+  /** 'held' waits for the user's quiet hours or digest time to pass, see releaseAt. */
+  status: 'pending' | 'held' | 'sending' | 'sent' | 'failed' | 'expired';
   payload: INotificationPayload;
+  /** When a held notification becomes due; null if it was never held. */
+  releaseAt?: Date | null;
   deliveries: IDelivery[];
   createdAt: Date;
 }
@@ -38,13 +51,21 @@ const NotificationPayloadSchema = new Schema<INotificationPayload>(
     price: { type: Number, required: true },
     maxPrice: { type: Number, required: true },
     productUrl: { type: String, required: true },
+    trigger: { type: String, enum: ['max-price', 'restock', 'price-drop'] },
+    averagePrice: { type: Number },
+    imageUrl: { type: String },
+    productSetName: { type: String },
   },
   { _id: false },
 );
 
 const DeliverySchema = new Schema<IDelivery>(
   {
-    channel: { type: String, required: true, enum: ['telegram', 'discord'] },
+    channel: {
+      type: String,
+      required: true,
+      enum: ['telegram', 'discord', 'email', 'push', 'webhook'],
+    },
     channelTarget: { type: String, required: true },
     status: {
       type: String,
@@ -65,10 +86,11 @@ const NotificationSchema = new Schema<INotificationDoc>(
     status: {
       type: String,
       required: true,
-      enum: ['pending', 'sending', 'sent', 'failed', 'expired'],
+      enum: ['pending', 'held', 'sending', 'sent', 'failed', 'expired'],
       default: 'pending',
     },
     payload: { type: NotificationPayloadSchema, required: true },
+    releaseAt: { type: Date, default: null },
     deliveries: { type: [DeliverySchema], default: [] },
   },
   {
@@ -78,6 +100,7 @@ const NotificationSchema = new Schema<INotificationDoc>(
 
 NotificationSchema.index({ status: 1, createdAt: 1 });
 NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ status: 1, releaseAt: 1 });
 NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
 
 export const NotificationModel = mongoose.model<INotificationDoc>(
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Daily downsampled price history per product and shop.
+ * Unlike ProductResult (24h TTL), these documents are kept indefinitely so
+ * long-term price charts survive after the hourly results expire.
+ * Prices only track samples where the offer was available with a known price,
+ * so they are absent on days the shop never had it in stock.
+ */
+export interface IProductPriceHistoryDoc extends Document {
+  productId: string;
+  shopId: string;
+  dayBucket: string;
+  minPrice?: number;
+  maxPrice?: number;
+  closePrice?: number;
+  wasAvailable: boolean;
+  productUrl: string;
+  lastSeenAt: Date;
+  createdAt: Date;
+}
+
+const ProductPriceHistorySchema = new Schema<IProductPriceHistoryDoc>(
+  {
+    productId: { type: String, required: true },
+    shopId: { type: String, required: true },
+    dayBucket: { type: String, required: true },
+    minPrice: { type: Number },
+    maxPrice: { type: Number },
+    closePrice: { type: Number },
+    wasAvailable: { type: Boolean, default: false },
+    productUrl: { type: String, default: '' },
+    lastSeenAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+ProductPriceHistorySchema.index({ productId: 1, shopId: 1, dayBucket: 1 }, { unique: true });
+ProductPriceHistorySchema.index({ productId: 1, dayBucket: 1 });
+
+export const ProductPriceHistoryModel = mongoose.model<IProductPriceHistoryDoc>(
+  'ProductPriceHistory',
+  ProductPriceHistorySchema,
+);
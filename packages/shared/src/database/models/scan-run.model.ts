@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { ScanRun, ShopScanMetrics } from '../../types';
+
+/**
+ * One document per scrapper cycle with per-shop health metrics.
+ * Kept for 30 days — long enough for weekly trends in the admin panel.
+ */
+export interface IScanRunDoc extends Document, ScanRun {
+  createdAt: Date;
+}
+
+const ShopScanMetricsSchema = new Schema<ShopScanMetrics>(
+  {
+    shopId: { type: String, required: true },
+    engine: { type: String, required: true, enum: ['cheerio', 'playwright', 'json-api'] },
+    durationMs: { type: Number, required: true },
+    searches: { type: Number, default: 0 },
+    candidates: { type: Number, default: 0 },
+    matched: { type: Number, default: 0 },
+    unmatched: { type: Number, default: 0 },
+    found: { type: Number, default: 0 },
+    notFound: { type: Number, default: 0 },
+    errorCount: { type: Number, default: 0 },
+    timeouts: { type: Number, default: 0 },
+    breakerTripped: { type: Boolean, default: false },
+    errorMessages: { type: [String], default: [] },
+  },
+  { _id: false },
+);
+
+const ScanRunSchema = new Schema<IScanRunDoc>(
+  {
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, required: true },
+    durationMs: { type: Number, required: true },
+    fetchingTier: {
+      type: String,
+      enum: ['super-slow', 'slow', 'fast', 'super-fast', null],
+      default: null,
+    },
+    status: { type: String, required: true, enum: ['completed', 'failed'] },
+    error: { type: String },
+    resultsWritten: { type: Number, default: 0 },
+    notificationsCreated: { type: Number, default: 0 },
+    shops: { type: [ShopScanMetricsSchema], default: [] },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+ScanRunSchema.index({ startedAt: -1 });
+ScanRunSchema.index({ 'shops.shopId': 1, startedAt: -1 });
+ScanRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 });
+
+export const ScanRunModel = mongoose.model<IScanRunDoc>('ScanRun', ScanRunSchema);
@@ -0,0 +1,26 @@
+/**
+ * SynonymRule MongoDB model.
+ * One product-type synonym rule for the matching pipeline: a regex source applied to
+ * normalized titles and its canonical replacement (e.g. "\betb\b" → "elite trainer box").
+ *
+ * Rules are applied in ascending `order`, so more specific multi-token rules
+ * must sort before shorter ones they overlap with.
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISynonymRuleDoc extends Document {
+  pattern: string;
+  replacement: string;
+  order: number;
+}
+
+const SynonymRuleSchema = new Schema<ISynonymRuleDoc>({
+  pattern: { type: String, required: true },
+  replacement: { type: String, default: '' },
+  order: { type: Number, required: true },
+});
+
+SynonymRuleSchema.index({ order: 1 });
+
+export const SynonymRuleModel = mongoose.model<ISynonymRuleDoc>('SynonymRule', SynonymRuleSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { UnmatchedTitleReason } from '../../types';
+
+/**
+ * One document per shop + raw title the matching pipeline rejected.
+ * Upserted every cycle the title is seen; expires 30 days after it was last seen.
+ */
+export interface IUnmatchedTitleDoc extends Document {
+  shopId: string;
+  title: string;
+  normalizedTitle: string;
+  reason: UnmatchedTitleReason;
+  productTypeId: string | null;
+  url: string;
+  /** Number of scan cycles the title was seen in. */
+  seenCount: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  /** Hidden from the admin inbox; stays hidden when seen again. */
+  dismissed: boolean;
+}
+
+const UnmatchedTitleSchema = new Schema<IUnmatchedTitleDoc>({
+  shopId: { type: String, required: true },
+  title: { type: String, required: true },
+  normalizedTitle: { type: String, required: true },
+  reason: { type: String, required: true, enum: ['no-type', 'no-set', 'no-card'] },
+  productTypeId: { type: String, default: null },
+  url: { type: String, required: true },
+  seenCount: { type: Number, default: 0 },
+  firstSeenAt: { type: Date, required: true },
+  lastSeenAt: { type: Date, required: true },
+  dismissed: { type: Boolean, default: false },
+});
+
+UnmatchedTitleSchema.index({ shopId: 1, title: 1 }, { unique: true });
+UnmatchedTitleSchema.index({ dismissed: 1, normalizedTitle: 1 });
+UnmatchedTitleSchema.index({ lastSeenAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 });
+
+export const UnmatchedTitleModel = mongoose.model<IUnmatchedTitleDoc>(
+  'UnmatchedTitle',
+  UnmatchedTitleSchema,
+);
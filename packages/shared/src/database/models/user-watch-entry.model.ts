@@ -1,20 +1,37 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import type { WatchAlertRules } from '../../types';
 
 export interface IUserWatchEntryDoc extends Document {
   userId: Types.ObjectId;
   productId: string;
   maxPrice: number;
+  /** Extra triggers and filters on top of maxPrice; absent for plain price alerts. */
+  alertRules?: WatchAlertRules;
   isActive: boolean;
+  /** Alerts for this entry are skipped until then (snoozed from a notification). */
+  snoozedUntil?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const WatchAlertRulesSchema = new Schema<WatchAlertRules>(
+  {
+    anyRestock: { type: Boolean },
+    dropBelowAveragePercent: { type: Number },
+    shopIds: { type: [String], default: undefined },
+    minPrice: { type: Number },
+  },
+  { _id: false },
+);
+
 const UserWatchEntrySchema = new Schema<IUserWatchEntryDoc>(
   {
     userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     productId: { type: String, required: true },
     maxPrice: { type: Number, required: true },
+    alertRules: { type: WatchAlertRulesSchema },
     isActive: { type: Boolean, default: true },
+    snoozedUntil: { type: Date, default: null },
   },
   { timestamps: true },
 );
@@ -1,14 +1,53 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import type { NotificationSchedule, QuietHours } from '../../types';
 
 export interface IChannelData {
   channelId: string | null;
   linkToken: string | null;
 }
 
+/**
+ * Email channel: channelId is the verified address. A new address waits in
+ * pendingAddress until the user opens the link carrying linkToken, which is
+ * only accepted before linkTokenExpiresAt.
+ */
+export interface IEmailChannelData extends IChannelData {
+  pendingAddress: string | null;
+  linkTokenExpiresAt: Date | null;
+}
+
+/** A browser's Web Push subscription, as returned by PushManager.subscribe(). */
+export interface IPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  createdAt: Date;
+}
+
+/**
+ * Outbound webhook. Notifications are POSTed as JSON signed with `secret`;
+ * after too many failed requests in a row the webhook disables itself.
+ */
+export interface IWebhook {
+  _id: Types.ObjectId;
+  url: string;
+  secret: string;
+  disabled: boolean;
+  consecutiveFailures: number;
+  createdAt: Date;
+}
+
 export interface IUserDoc extends Document {
   clerkId: string;
   telegram: IChannelData | null;
   discord: IChannelData | null;
+  email: IEmailChannelData | null;
+  /** One entry per browser; expired ones are dropped when the push service answers 404/410. */
+  pushSubscriptions: IPushSubscription[];
+  webhooks: IWebhook[];
+  /** Shops the user never wants alerts from. A watch entry's own shop list overrides it. */
+  excludedShopIds: string[];
+  /** Quiet hours and digest timing; absent on users created before it existed. */
+  notificationSchedule?: NotificationSchedule;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,11 +60,70 @@ const ChannelSchema = new Schema<IChannelData>(
   { _id: false },
 );
 
+const EmailChannelSchema = new Schema<IEmailChannelData>(
+  {
+    channelId: { type: String, default: null },
+    linkToken: { type: String, default: null },
+    pendingAddress: { type: String, default: null },
+    linkTokenExpiresAt: { type: Date, default: null },
+  },
+  { _id: false },
+);
+
+const PushSubscriptionSchema = new Schema<IPushSubscription>(
+  {
+    endpoint: { type: String, required: true },
+    keys: {
+      p256dh: { type: String, required: true },
+      auth: { type: String, required: true },
+    },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const WebhookSchema = new Schema<IWebhook>({
+  url: { type: String, required: true },
+  secret: { type: String, required: true },
+  disabled: { type: Boolean, default: false },
+  consecutiveFailures: { type: Number, default: 0 },
+  createdAt: { type: Date, default: Date.now },
+});
+
+/** Applied to users who never set a schedule: no quiet hours, no digest. */
+export const DEFAULT_NOTIFICATION_SCHEDULE: NotificationSchedule = {
+  timezone: 'Europe/Warsaw',
+  quietHours: null,
+  digestTime: null,
+};
+
+const QuietHoursSchema = new Schema<QuietHours>(
+  {
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const NotificationScheduleSchema = new Schema<NotificationSchedule>(
+  {
+    timezone: { type: String, required: true, default: DEFAULT_NOTIFICATION_SCHEDULE.timezone },
+    quietHours: { type: QuietHoursSchema, default: null },
+    digestTime: { type: String, default: null },
+  },
+  { _id: false },
+);
+
 const UserSchema = new Schema<IUserDoc>(
   {
     clerkId: { type: String, required: true, unique: true },
     telegram: { type: ChannelSchema },
     discord: { type: ChannelSchema },
+    email: { type: EmailChannelSchema },
+    pushSubscriptions: { type: [PushSubscriptionSchema], default: [] },
+    webhooks: { type: [WebhookSchema], default: [] },
+    excludedShopIds: { type: [String], default: [] },
+    notificationSchedule: { type: NotificationScheduleSchema },
   },
   { timestamps: true },
 );
@@ -34,5 +132,7 @@ UserSchema.index({ 'telegram.linkToken': 1 }, { sparse: true });
 UserSchema.index({ 'telegram.channelId': 1 }, { unique: true, sparse: true });
 UserSchema.index({ 'discord.linkToken': 1 }, { sparse: true });
 UserSchema.index({ 'discord.channelId': 1 }, { unique: true, sparse: true });
+UserSchema.index({ 'email.linkToken': 1 }, { sparse: true });
+UserSchema.index({ 'pushSubscriptions.endpoint': 1 });
 
 export const UserModel = mongoose.model<IUserDoc>('User', UserSchema);
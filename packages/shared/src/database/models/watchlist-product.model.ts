@@ -3,6 +3,7 @@
  */
 
 import mongoose, { Schema, Document } from 'mongoose';
+import { DEFAULT_LANGUAGE } from '../../matching';
 
 export interface IWatchlistProductDoc extends Document {
   id: string;
@@ -10,6 +11,14 @@ export interface IWatchlistProductDoc extends Document {
   imageUrl: string;
   productSetId: string;
   productTypeId: string;
+  /** Print language (a language-token language, or "english"); part of the match key. */
+  language?: string;
+  /** Set for single cards; productTypeId is then the built-in single-card type. */
+  cardId?: string;
+  /** Grade of a graded slab, e.g. "psa 10". Unset for raw cards and sealed products. */
+  grade?: string;
+  /** Condition of a raw card ("nm", "lp", ...); unset matches a raw card in any condition. */
+  condition?: string;
   price?: {
     max: number;
     min?: number;
@@ -23,6 +32,10 @@ const WatchlistProductSchema = new Schema<IWatchlistProductDoc>({
   imageUrl: { type: String, required: true },
   productSetId: { type: String, required: true },
   productTypeId: { type: String, required: true },
+  language: { type: String, default: DEFAULT_LANGUAGE },
+  cardId: { type: String },
+  grade: { type: String },
+  condition: { type: String },
   price: {
     type: {
       max: { type: Number, required: true },
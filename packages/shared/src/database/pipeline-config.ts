@@ -0,0 +1,80 @@
+/**
+ * Loads matching pipeline reference data from MongoDB.
+ * Shared by the scrapper (once per run) and the API match explainer, so both
+ * see titles exactly the same way.
+ */
+
+import {
+  PipelineConfig,
+  MatchableProductType,
+  MatchableProductSet,
+  MatchableSynonymRule,
+  MatchableLanguageTokens,
+  MatchableCard,
+} from '../matching';
+import { ProductTypeModel } from './models/product-type.model';
+import { ProductSetModel } from './models/product-set.model';
+import { SynonymRuleModel } from './models/synonym-rule.model';
+import { LanguageTokenModel } from './models/language-token.model';
+import { CardModel } from './models/card.model';
+
+/**
+ * Product types, sets, synonym rules (in application order), language tokens and cards.
+ * An empty rules or tokens collection means it was never seeded, so the field is
+ * left unset and the pipeline falls back to its built-in defaults. Once seeded,
+ * the admin API refuses to delete the last rule or language, so an emptied
+ * collection can't bring the defaults back unnoticed.
+ */
+export async function loadPipelineConfig(): Promise<PipelineConfig> {
+  const [productTypeDocs, productSetDocs, synonymRuleDocs, languageTokenDocs, cardDocs] =
+    await Promise.all([
+      ProductTypeModel.find().select('id name matchingProfile contains').lean(),
+      ProductSetModel.find().select('id name series setNumber setAbbreviation').lean(),
+      SynonymRuleModel.find().sort({ order: 1 }).select('pattern replacement').lean(),
+      LanguageTokenModel.find().select('language tokens').lean(),
+      CardModel.find().select('id productSetId name number').lean(),
+    ]);
+
+  const productTypes: MatchableProductType[] = productTypeDocs.map((doc) => ({
+    id: doc.id,
+    name: doc.name,
+    matchingProfile: {
+      required: doc.matchingProfile?.required ?? [],
+      forbidden: doc.matchingProfile?.forbidden ?? [],
+    },
+    contains: doc.contains ?? [],
+  }));
+
+  const productSets: MatchableProductSet[] = productSetDocs.map((doc) => ({
+    id: doc.id,
+    name: doc.name,
+    series: doc.series,
+    setNumber: doc.setNumber,
+    setAbbreviation: doc.setAbbreviation,
+  }));
+
+  const synonymRules: MatchableSynonymRule[] = synonymRuleDocs.map((doc) => ({
+    pattern: doc.pattern,
+    replacement: doc.replacement,
+  }));
+
+  const languageTokens: MatchableLanguageTokens[] = languageTokenDocs.map((doc) => ({
+    language: doc.language,
+    tokens: doc.tokens,
+  }));
+
+  const cards: MatchableCard[] = cardDocs.map((doc) => ({
+    id: doc.id,
+    productSetId: doc.productSetId,
+    name: doc.name,
+    number: doc.number,
+  }));
+
+  return {
+    productTypes,
+    productSets,
+    cards,
+    ...(synonymRules.length > 0 && { synonymRules }),
+    ...(languageTokens.length > 0 && { languageTokens }),
+  };
+}
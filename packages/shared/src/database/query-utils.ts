@@ -54,3 +54,59 @@ export function buildBestPriceAggregation(productIds: string[], cutoff: Date): P
     { $replaceRoot: { newRoot: '$doc' } },
   ];
 }
+
+/**
+ * Builds a MongoDB aggregation pipeline with the freshest result per shop for
+ * one product, available or not, cheapest first.
+ *
+ * Returns raw pipeline stages — caller runs ProductResultModel.aggregate(stages).
+ */
+export function buildLatestShopPricesAggregation(productId: string, cutoff: Date): PipelineStage[] {
+  return [
+    {
+      $match: {
+        productId,
+        timestamp: { $gte: cutoff },
+      },
+    },
+    { $sort: { shopId: 1, timestamp: -1 } },
+    {
+      $group: {
+        _id: '$shopId',
+        shopId: { $first: '$shopId' },
+        price: { $first: '$price' },
+        isAvailable: { $first: '$isAvailable' },
+        productUrl: { $first: '$productUrl' },
+        timestamp: { $first: '$timestamp' },
+      },
+    },
+    { $sort: { price: 1 } },
+  ];
+}
+
+/**
+ * Builds a MongoDB aggregation pipeline with the freshest result per product
+ * and shop, available or not, so callers can tell a sold-out offer from one
+ * that was not scraped recently.
+ * Unlike buildBestPriceAggregation, a newer sold-out result hides older offers.
+ *
+ * Returns raw pipeline stages — caller runs ProductResultModel.aggregate(stages).
+ */
+export function buildLatestResultsAggregation(productIds: string[], cutoff: Date): PipelineStage[] {
+  return [
+    {
+      $match: {
+        productId: { $in: productIds },
+        timestamp: { $gte: cutoff },
+      },
+    },
+    { $sort: { productId: 1, shopId: 1, timestamp: -1 } },
+    {
+      $group: {
+        _id: { productId: '$productId', shopId: '$shopId' },
+        doc: { $first: '$$ROOT' },
+      },
+    },
+    { $replaceRoot: { newRoot: '$doc' } },
+  ];
+}
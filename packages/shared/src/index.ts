@@ -1,5 +1,7 @@
 export * from './database';
 export * from './logger';
+export * from './matching';
 export * from './shops';
 export * from './types';
 export { formatError } from './utils/format-error';
+export { isPublicAddress, isNonPublicHostname } from './utils/network-address';
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProductMatchingPipeline } from '../pipeline';
+import {
+  CORPUS_REJECT,
+  CorpusEntryResult,
+  CorpusReport,
+  MatchingCorpus,
+  diffCorpusRuns,
+  runMatchingCorpus,
+} from '../corpus';
+import { PipelineConfig } from '../types';
+
+// ── Test fixtures ──
+
+const CONFIG: PipelineConfig = {
+  productTypes: [
+    {
+      id: 'booster-box',
+      name: 'Booster Box',
+      matchingProfile: { required: ['booster', 'box'], forbidden: [] },
+      contains: [],
+    },
+    {
+      id: 'etb',
+      name: 'Elite Trainer Box',
+      matchingProfile: { required: ['elite', 'trainer', 'box'], forbidden: [] },
+      contains: [],
+    },
+  ],
+  productSets: [
+    {
+      id: 'sv08',
+      name: 'Surging Sparks',
+      series: 'Scarlet & Violet',
+      setNumber: 'SV8',
+      setAbbreviation: 'SSP',
+    },
+    {
+      id: 'sv07',
+      name: 'Stellar Crown',
+      series: 'Scarlet & Violet',
+      setNumber: 'SV7',
+      setAbbreviation: 'SCR',
+    },
+  ],
+};
+
+function result(title: string, actual: string, correct: boolean): CorpusEntryResult {
+  return { title, expected: 'etb|sv08|english', actual, rejectedBy: null, correct };
+}
+
+// ── Tests ──
+
+describe('runMatchingCorpus', () => {
+  const pipeline = new ProductMatchingPipeline(CONFIG);
+  let report: CorpusReport;
+
+  beforeAll(() => {
+    report = runMatchingCorpus(pipeline, [
+      { title: 'Surging Sparks Booster Box', expected: 'booster-box|sv08|english' },
+      { title: 'Stellar Crown Booster Box JP', expected: 'booster-box|sv07|japanese' },
+      // Labeled with the wrong set: counts against booster-box precision and etb recall
+      { title: 'Surging Sparks ETB', expected: 'etb|sv07|english' },
+      { title: 'Stellar Crown Booster Box Case', expected: CORPUS_REJECT },
+      { title: 'Booster Box', expected: CORPUS_REJECT },
+      { title: 'Surging Sparks Sticker Collection', expected: CORPUS_REJECT },
+      // No "box" in the title: the type layer rejects a title labeled as a match
+      { title: 'Stellar Crown Booster', expected: 'booster-box|sv07|english' },
+    ]);
+  });
+
+  it('scores each title against its label', () => {
+    expect(report.total).toBe(7);
+    expect(report.correct).toBe(4);
+    expect(report.results[1]).toMatchObject({ actual: 'booster-box|sv07|japanese', correct: true });
+    expect(report.results[2]).toMatchObject({ actual: 'etb|sv08|english', correct: false });
+    expect(report.results[4]).toMatchObject({
+      actual: CORPUS_REJECT,
+      rejectedBy: 'no-set',
+      correct: true,
+    });
+  });
+
+  it('reports precision and recall per product type', () => {
+    expect(report.byType['booster-box']).toEqual({
+      correct: 2,
+      predicted: 3,
+      expected: 3,
+      precision: 2 / 3,
+      recall: 2 / 3,
+    });
+    expect(report.byType['etb']).toEqual({
+      correct: 0,
+      predicted: 1,
+      expected: 1,
+      precision: 0,
+      recall: 0,
+    });
+  });
+
+  it('reports rejections and false rejects per layer', () => {
+    expect(report.byLayer['no-set']).toEqual({
+      rejected: 1,
+      correct: 1,
+      falseRejects: 0,
+      precision: 1,
+    });
+    expect(report.byLayer['no-type']).toEqual({
+      rejected: 2,
+      correct: 1,
+      falseRejects: 1,
+      precision: 1 / 2,
+    });
+    expect(report.byLayer['empty'].precision).toBeNull();
+  });
+});
+
+describe('diffCorpusRuns', () => {
+  it('classifies titles by how their outcome changed', () => {
+    const previous = [
+      result('fixed', CORPUS_REJECT, false),
+      result('broken', 'etb|sv08|english', true),
+      result('changed', CORPUS_REJECT, false),
+      result('same', 'etb|sv08|english', true),
+      result('removed', 'etb|sv08|english', true),
+    ];
+    const current = [
+      result('fixed', 'etb|sv08|english', true),
+      result('broken', CORPUS_REJECT, false),
+      result('changed', 'etb|sv07|english', false),
+      result('same', 'etb|sv08|english', true),
+      result('added', 'etb|sv08|english', true),
+    ];
+
+    const diff = diffCorpusRuns(previous, current);
+
+    expect(diff.fixed.map((r) => r.title)).toEqual(['fixed']);
+    expect(diff.broken.map((r) => r.title)).toEqual(['broken']);
+    expect(diff.changed.map((r) => r.title)).toEqual(['changed']);
+    expect(diff.added.map((r) => r.title)).toEqual(['added']);
+    expect(diff.removed.map((r) => r.title)).toEqual(['removed']);
+  });
+});
+
+describe('recorded matching corpus', () => {
+  const corpusDir = path.join(__dirname, '../../../scripts/matching-corpus');
+  const corpus: MatchingCorpus = JSON.parse(
+    fs.readFileSync(path.join(corpusDir, 'corpus.json'), 'utf-8'),
+  );
+  const lastRun: CorpusReport = JSON.parse(
+    fs.readFileSync(path.join(corpusDir, '_last-run.json'), 'utf-8'),
+  );
+
+  it('has unique titles', () => {
+    const titles = corpus.entries.map((entry) => entry.title);
+    expect(new Set(titles).size).toBe(titles.length);
+  });
+
+  it('matches every title the last recorded run got right', () => {
+    // Re-record with `npm run matching:corpus` after an intended change
+    const report = runMatchingCorpus(
+      new ProductMatchingPipeline(corpus.referenceData),
+      corpus.entries,
+    );
+    expect(diffCorpusRuns(lastRun.results, report.results).broken).toEqual([]);
+  });
+});
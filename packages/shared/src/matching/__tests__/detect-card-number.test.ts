@@ -0,0 +1,115 @@
+import {
+  DetectCardNumberLayer,
+  parseCardNumber,
+  parseCondition,
+  parseGrade,
+} from '../layers/detect-card-number';
+import { normalizeTitle } from '../layers/normalize';
+import { NormalizedTitle } from '../types';
+
+// ── Helpers ──
+
+function input(raw: string): NormalizedTitle {
+  return { raw, normalized: normalizeTitle(raw), language: 'english' };
+}
+
+const layer = new DetectCardNumberLayer();
+
+// ── Tests ──
+
+describe('parseCardNumber', () => {
+  it.each([
+    ['plain', 'Pikachu ex 238/191 Surging Sparks', '238/191'],
+    ['leading zeros', 'Pikachu ex 025/191', '25/191'],
+    ['spaces around slash', 'Pikachu ex 238 / 191', '238/191'],
+    ['hash prefix', 'Pikachu ex #238/191', '238/191'],
+    ['letter prefixes', 'Charizard TG05/TG30', 'TG5/TG30'],
+    ['lowercase letter prefixes', 'pikachu gg01/gg70', 'GG1/GG70'],
+  ])('reads %s', (_label, title, expected) => {
+    expect(parseCardNumber(title)).toBe(expected);
+  });
+
+  it.each([
+    ['no number', 'Surging Sparks Booster Box'],
+    ['a date', 'Preorder 12/10/2025 Booster Box'],
+    ['part of a longer token', 'Booster Box ABCDE12/34'],
+  ])('ignores titles with %s', (_label, title) => {
+    expect(parseCardNumber(title)).toBeNull();
+  });
+});
+
+describe('parseGrade', () => {
+  it.each([
+    ['PSA 10', 'psa 10'],
+    ['PSA10', 'psa 10'],
+    ['BGS 9.5', 'bgs 9.5'],
+    ['CGC 8,5', 'cgc 8.5'],
+    ['SGC-9', 'sgc 9'],
+  ])('reads %s', (grade, expected) => {
+    expect(parseGrade(`Pikachu ex 238/191 ${grade} Gem Mint`)).toBe(expected);
+  });
+
+  it('returns null for raw cards', () => {
+    expect(parseGrade('Pikachu ex 238/191 Near Mint')).toBeNull();
+  });
+
+  it('does not read grades out of longer numbers', () => {
+    expect(parseGrade('PSA 100 Pikachu ex')).toBeNull();
+  });
+});
+
+describe('parseCondition', () => {
+  it.each([
+    ['NM', 'nm'],
+    ['Near Mint', 'nm'],
+    ['near-mint', 'nm'],
+    ['LP', 'lp'],
+    ['Light Played', 'lp'],
+    ['Moderately Played', 'mp'],
+    ['HP', 'hp'],
+    ['Damaged', 'dmg'],
+  ])('reads %s', (condition, expected) => {
+    expect(parseCondition(`Pikachu ex 238/191 ${condition}`)).toBe(expected);
+  });
+
+  it('returns null when the title names no condition', () => {
+    expect(parseCondition('Pikachu ex 238/191 Surging Sparks')).toBeNull();
+  });
+
+  it('does not read conditions out of longer words', () => {
+    expect(parseCondition('Pikachu ex 238/191 NMX')).toBeNull();
+  });
+});
+
+describe('DetectCardNumberLayer', () => {
+  it('tags the card number and grade', () => {
+    expect(layer.execute(input('Pikachu ex 238/191 PSA 10'))).toMatchObject({
+      cardNumber: '238/191',
+      grade: 'psa 10',
+    });
+  });
+
+  it('leaves grade unset for raw cards', () => {
+    const tagged = layer.execute(input('Pikachu ex 238/191'));
+    expect(tagged.cardNumber).toBe('238/191');
+    expect(tagged).not.toHaveProperty('grade');
+  });
+
+  it('tags the condition of raw cards', () => {
+    expect(layer.execute(input('Pikachu ex 238/191 Lightly Played'))).toMatchObject({
+      cardNumber: '238/191',
+      condition: 'lp',
+    });
+  });
+
+  it('leaves condition unset for graded slabs', () => {
+    expect(layer.execute(input('Pikachu ex 238/191 PSA 9 Near Mint'))).not.toHaveProperty(
+      'condition',
+    );
+  });
+
+  it('passes sealed product titles through unchanged', () => {
+    const sealed = input('Surging Sparks Booster Box PSA');
+    expect(layer.execute(sealed)).toEqual(sealed);
+  });
+});
@@ -1,4 +1,4 @@
-import { FilterNonEnglishLayer } from '../layers/filter-non-english';
+import { DetectLanguageLayer, DEFAULT_LANGUAGE } from '../layers/detect-language';
 import { NormalizedTitle } from '../types';
 
 // ── Helpers ──
@@ -7,14 +7,18 @@ function input(normalized: string, raw?: string): NormalizedTitle {
   return { raw: raw ?? normalized, normalized };
 }
 
-const layer = new FilterNonEnglishLayer();
+const layer = new DetectLanguageLayer();
+
+function languageOf(normalized: string): string {
+  return layer.execute(input(normalized)).language;
+}
 
 // ── Tests ──
 
-describe('FilterNonEnglishLayer', () => {
+describe('DetectLanguageLayer', () => {
   // ── Japanese ──
 
-  describe('discards Japanese products', () => {
+  describe('detects Japanese products', () => {
     it.each([
       ['japan', 'pokemon tcg japan black bolt booster'],
       ['japanese', 'pokemon tcg japanese booster box'],
@@ -24,14 +28,14 @@ describe('FilterNonEnglishLayer', () => {
       ['japonska (Polish feminine)', 'pokemon tcg battle partners booster box japonska wersja sv9'],
       ['japonskie (Polish plural)', 'karty japonskie pokemon tcg'],
       ['japonscy (Polish masculine plural)', 'karty japonscy pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('japanese');
     });
   });
 
   // ── Korean ──
 
-  describe('discards Korean products', () => {
+  describe('detects Korean products', () => {
     it.each([
       ['korea', 'pokemon tcg korea white flare booster'],
       ['korean', 'pokemon tcg korean booster box'],
@@ -39,14 +43,14 @@ describe('FilterNonEnglishLayer', () => {
       ['koreanski (Polish masculine)', 'pokemon tcg koreanski booster box'],
       ['koreanska (Polish feminine)', 'pokemon tcg koreanska edycja booster box'],
       ['koreanskie (Polish plural)', 'karty koreanskie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('korean');
     });
   });
 
   // ── Chinese ──
 
-  describe('discards Chinese products', () => {
+  describe('detects Chinese products', () => {
     it.each([
       ['china', 'pokemon tcg china booster'],
       ['chinese', 'pokemon tcg chinese booster box'],
@@ -54,14 +58,14 @@ describe('FilterNonEnglishLayer', () => {
       ['chinski (Polish masculine)', 'pokemon tcg chinski booster box'],
       ['chinska (Polish feminine)', 'pokemon tcg chinska edycja booster'],
       ['chinskie (Polish plural)', 'karty chinskie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('chinese');
     });
   });
 
   // ── French ──
 
-  describe('discards French products', () => {
+  describe('detects French products', () => {
     it.each([
       ['french', 'pokemon tcg french booster box'],
       ['france', 'pokemon tcg surging sparks booster france'],
@@ -69,14 +73,14 @@ describe('FilterNonEnglishLayer', () => {
       ['francuski (Polish masculine)', 'pokemon tcg francuski booster box'],
       ['francuska (Polish feminine)', 'pokemon tcg francuska edycja booster'],
       ['francuskie (Polish plural)', 'karty francuskie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('french');
     });
   });
 
   // ── German ──
 
-  describe('discards German products', () => {
+  describe('detects German products', () => {
     it.each([
       ['german', 'pokemon tcg german booster box'],
       ['germany', 'pokemon tcg surging sparks booster germany'],
@@ -91,14 +95,14 @@ describe('FilterNonEnglishLayer', () => {
       ],
       ['niemiecka (Polish feminine)', 'pokemon tcg niemiecka edycja booster'],
       ['niemieckie (Polish plural)', 'karty niemieckie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('german');
     });
   });
 
   // ── Spanish ──
 
-  describe('discards Spanish products', () => {
+  describe('detects Spanish products', () => {
     it.each([
       ['spanish', 'pokemon tcg spanish booster box'],
       ['spain', 'pokemon tcg surging sparks sleeved booster spain'],
@@ -108,14 +112,14 @@ describe('FilterNonEnglishLayer', () => {
       ['hiszpanski (Polish masculine)', 'pokemon tcg hiszpanski booster box'],
       ['hiszpanska (Polish feminine)', 'pokemon tcg hiszpanska edycja booster'],
       ['hiszpanskie (Polish plural)', 'karty hiszpanskie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('spanish');
     });
   });
 
   // ── Italian ──
 
-  describe('discards Italian products', () => {
+  describe('detects Italian products', () => {
     it.each([
       ['italian', 'pokemon tcg italian booster box'],
       ['italy', 'pokemon tcg surging sparks booster italy'],
@@ -124,14 +128,14 @@ describe('FilterNonEnglishLayer', () => {
       ['wloski (Polish masculine)', 'pokemon tcg wloski booster box'],
       ['wloska (Polish feminine)', 'pokemon tcg wloska edycja booster'],
       ['wloskie (Polish plural)', 'karty wloskie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('italian');
     });
   });
 
   // ── Brazilian Portuguese ──
 
-  describe('discards Brazilian Portuguese products', () => {
+  describe('detects Brazilian Portuguese products', () => {
     it.each([
       ['portuguese', 'pokemon tcg portuguese booster box'],
       ['brazil', 'pokemon tcg brazil booster box'],
@@ -146,101 +150,90 @@ describe('FilterNonEnglishLayer', () => {
       ['brazylijski (Polish masculine)', 'pokemon tcg brazylijski booster box'],
       ['brazylijska (Polish feminine)', 'pokemon tcg brazylijska edycja booster'],
       ['brazylijskie (Polish plural)', 'karty brazylijskie pokemon tcg'],
-    ])('discards titles containing %s', (_label, title) => {
-      expect(layer.execute(input(title))).toBeNull();
+    ])('tags titles containing %s', (_label, title) => {
+      expect(languageOf(title)).toBe('portuguese');
     });
   });
 
   // ── Real-world examples from the user ──
 
-  describe('discards real-world non-English titles', () => {
-    it('discards Spanish product with "(ES)" suffix', () => {
+  describe('detects real-world non-English titles', () => {
+    it('detects Spanish product with "(ES)" suffix', () => {
       // After normalization: "pokemon tcg scarlet violet sv 8 surging sparks sleeved booster spain es"
       expect(
-        layer.execute(
-          input('pokemon tcg scarlet violet sv 8 surging sparks sleeved booster spain es'),
-        ),
-      ).toBeNull();
+        languageOf('pokemon tcg scarlet violet sv 8 surging sparks sleeved booster spain es'),
+      ).toBe('spanish');
     });
 
-    it('discards German product with "(niemiecki)" suffix', () => {
+    it('detects German product with "(niemiecki)" suffix', () => {
       // After normalization: "pokemon tcg scarlet and violet surging sparks booster bundle 6 niemiecki"
       expect(
-        layer.execute(
-          input('pokemon tcg scarlet and violet surging sparks booster bundle 6 niemiecki'),
-        ),
-      ).toBeNull();
+        languageOf('pokemon tcg scarlet and violet surging sparks booster bundle 6 niemiecki'),
+      ).toBe('german');
     });
   });
 
-  // ── Titles that MUST NOT be discarded (false-positive safety) ──
-
-  describe('does not discard English products', () => {
-    it('keeps normal English titles', () => {
-      expect(layer.execute(input('pokemon tcg surging sparks booster box'))).not.toBeNull();
-    });
-
-    it('does not match "jp" inside "jpy" (currency)', () => {
-      expect(layer.execute(input('pokemon tcg 5000 jpy gift card'))).not.toBeNull();
-    });
-
-    it('does not match "jp" inside other words', () => {
-      expect(layer.execute(input('some jpword product'))).not.toBeNull();
-    });
+  // ── Titles that MUST stay English (false-positive safety) ──
 
-    it('does not match "jpn" inside other words', () => {
-      expect(layer.execute(input('some jpnx product'))).not.toBeNull();
-    });
-
-    it('does not match "it" as a standalone word (English pronoun)', () => {
-      expect(layer.execute(input('pokemon tcg get it now booster box'))).not.toBeNull();
-    });
-
-    it('does not match "fr" inside longer words like "from" or "free"', () => {
-      expect(layer.execute(input('pokemon tcg free shipping from warehouse'))).not.toBeNull();
-    });
-
-    it('does not match "de" inside longer words like "deluxe"', () => {
-      expect(layer.execute(input('pokemon tcg deluxe edition booster box'))).not.toBeNull();
+  describe('tags English products as English', () => {
+    it.each([
+      ['normal English titles', 'pokemon tcg surging sparks booster box'],
+      ['"jp" inside "jpy" (currency)', 'pokemon tcg 5000 jpy gift card'],
+      ['"jp" inside other words', 'some jpword product'],
+      ['"jpn" inside other words', 'some jpnx product'],
+      ['"it" as a standalone word (English pronoun)', 'pokemon tcg get it now booster box'],
+      ['"fr" inside "from" or "free"', 'pokemon tcg free shipping from warehouse'],
+      ['"de" inside "deluxe"', 'pokemon tcg deluxe edition booster box'],
+      ['"es" inside "best"', 'pokemon tcg best value booster box'],
+      ['"br" inside "brand"', 'pokemon tcg brand new booster box'],
+      ['"pt" inside "empty"', 'pokemon tcg empty booster box wrapper'],
+      ['set names', 'pokemon tcg scarlet violet prismatic evolutions elite trainer box'],
+      ['set numbers', 'pokemon tcg black bolt booster box sv11b'],
+    ])('%s', (_label, title) => {
+      expect(languageOf(title)).toBe(DEFAULT_LANGUAGE);
     });
+  });
 
-    it('does not match "es" inside longer words like "best"', () => {
-      expect(layer.execute(input('pokemon tcg best value booster box'))).not.toBeNull();
-    });
+  // ── Passthrough behaviour ──
 
-    it('does not match "br" inside longer words like "brand"', () => {
-      expect(layer.execute(input('pokemon tcg brand new booster box'))).not.toBeNull();
+  describe('passthrough behaviour', () => {
+    it('preserves the raw and normalized fields', () => {
+      const result = layer.execute(
+        input('surging sparks booster box jp', 'Surging Sparks Booster Box JP'),
+      );
+      expect(result).toEqual({
+        raw: 'Surging Sparks Booster Box JP',
+        normalized: 'surging sparks booster box jp',
+        language: 'japanese',
+      });
     });
+  });
 
-    it('does not match "pt" inside longer words like "empty"', () => {
-      expect(layer.execute(input('pokemon tcg empty booster box wrapper'))).not.toBeNull();
-    });
+  // ── Configured tokens ──
 
-    it('keeps titles with set numbers that look similar', () => {
-      expect(
-        layer.execute(input('pokemon tcg scarlet violet prismatic evolutions elite trainer box')),
-      ).not.toBeNull();
+  describe('configured tokens', () => {
+    it('detects only the given languages', () => {
+      const custom = new DetectLanguageLayer([{ language: 'thai', tokens: ['thai'] }]);
+      expect(custom.execute(input('pokemon tcg thai booster')).language).toBe('thai');
+      expect(custom.execute(input('pokemon tcg japanese booster')).language).toBe(DEFAULT_LANGUAGE);
     });
 
-    it('keeps titles with only English content and no language indicators', () => {
-      expect(layer.execute(input('pokemon tcg black bolt booster box sv11b'))).not.toBeNull();
+    it('prefers the language configured first when several match', () => {
+      const custom = new DetectLanguageLayer([
+        { language: 'portuguese', tokens: ['br'] },
+        { language: 'japanese', tokens: ['jp'] },
+      ]);
+      expect(custom.execute(input('booster box jp br')).language).toBe('portuguese');
     });
-  });
-
-  // ── Passthrough behaviour ──
 
-  describe('passthrough behaviour', () => {
-    it('preserves the raw field when title passes through', () => {
-      const result = layer.execute(
-        input('surging sparks booster box', 'Surging Sparks Booster Box'),
-      );
-      expect(result).not.toBeNull();
-      expect(result!.raw).toBe('Surging Sparks Booster Box');
+    it('normalizes tokens like titles', () => {
+      const custom = new DetectLanguageLayer([{ language: 'spanish', tokens: ['Español'] }]);
+      expect(custom.execute(input('booster box espanol')).language).toBe('spanish');
     });
 
-    it('returns the exact same object reference on passthrough', () => {
-      const inp = input('surging sparks booster box');
-      expect(layer.execute(inp)).toBe(inp);
+    it('tags everything as English when no tokens are configured', () => {
+      const custom = new DetectLanguageLayer([{ language: 'thai', tokens: [] }]);
+      expect(custom.execute(input('pokemon tcg japanese booster')).language).toBe(DEFAULT_LANGUAGE);
     });
   });
 });
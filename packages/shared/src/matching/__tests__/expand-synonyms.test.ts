@@ -1,4 +1,8 @@
-import { ExpandSynonymsLayer } from '../layers/expand-synonyms';
+import {
+  DEFAULT_SYNONYM_RULES,
+  ExpandSynonymsLayer,
+  compileSynonymPattern,
+} from '../layers/expand-synonyms';
 import { NormalizedTitle } from '../types';
 
 // ── Helpers ──
@@ -152,4 +156,68 @@ describe('ExpandSynonymsLayer', () => {
       expect(layer.execute(input('surging sparks   etb')).normalized).not.toMatch(/\s{2,}/);
     });
   });
+
+  // ── Configured rules ──
+
+  describe('configured rules', () => {
+    it('applies only the given rules', () => {
+      const custom = new ExpandSynonymsLayer([
+        { pattern: '\\bupc\\b', replacement: 'ultra premium collection' },
+      ]);
+      expect(custom.execute(input('charizard upc')).normalized).toBe(
+        'charizard ultra premium collection',
+      );
+      expect(custom.execute(input('surging sparks etb')).normalized).toBe('surging sparks etb');
+    });
+
+    it('applies rules in the given order', () => {
+      const custom = new ExpandSynonymsLayer([
+        { pattern: '\\bbb\\b', replacement: 'booster box' },
+        { pattern: '\\bbooster box\\b', replacement: 'display' },
+      ]);
+      expect(custom.execute(input('bb')).normalized).toBe('display');
+    });
+
+    it('skips invalid patterns and keeps the rest', () => {
+      const logger = { debug: jest.fn(), warn: jest.fn() };
+      const custom = new ExpandSynonymsLayer(
+        [
+          { pattern: '(unclosed', replacement: 'x' },
+          { pattern: '\\betb\\b', replacement: 'elite trainer box' },
+        ],
+        logger,
+      );
+      expect(custom.execute(input('etb')).normalized).toBe('elite trainer box');
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Skipping invalid synonym rule',
+        expect.objectContaining({ pattern: '(unclosed' }),
+      );
+    });
+  });
+
+  describe('compileSynonymPattern', () => {
+    it('compiles a global regex', () => {
+      expect(compileSynonymPattern('\\betb\\b').flags).toBe('g');
+    });
+
+    it('rejects invalid regex source', () => {
+      expect(() => compileSynonymPattern('(unclosed')).toThrow();
+    });
+
+    it('rejects patterns that match an empty string', () => {
+      expect(() => compileSynonymPattern('x*')).toThrow('empty string');
+    });
+
+    it('rejects zero-width patterns that only match inside a title', () => {
+      expect(() => compileSynonymPattern('\\b')).toThrow('empty string');
+      expect(() => compileSynonymPattern('(?=box)')).toThrow('empty string');
+      expect(() => compileSynonymPattern('etb|(?=x)')).toThrow('empty string');
+    });
+
+    it('accepts the built-in rules', () => {
+      for (const rule of DEFAULT_SYNONYM_RULES) {
+        expect(() => compileSynonymPattern(rule.pattern)).not.toThrow();
+      }
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { MatchCardLayer, SINGLE_CARD_TYPE } from '../layers/match-card';
+import { normalizeTitle } from '../layers/normalize';
+import { parseCardNumber, parseCondition, parseGrade } from '../layers/detect-card-number';
+import { MatchableCard, MatchableProductSet, NormalizedTitle } from '../types';
+
+// ── Test fixtures ──
+
+const SETS: MatchableProductSet[] = [
+  {
+    id: 'sv08',
+    name: 'Surging Sparks',
+    series: 'Scarlet & Violet',
+    setNumber: 'SV8',
+    setAbbreviation: 'SSP',
+  },
+  {
+    id: 'sv07',
+    name: 'Stellar Crown',
+    series: 'Scarlet & Violet',
+    setNumber: 'SV7',
+    setAbbreviation: 'SCR',
+  },
+];
+
+const CARDS: MatchableCard[] = [
+  { id: 'sv08-pikachu-ex-238', productSetId: 'sv08', name: 'Pikachu ex', number: '238/191' },
+  { id: 'sv08-pikachu-ex-57', productSetId: 'sv08', name: 'Pikachu ex', number: '057/191' },
+  { id: 'sv08-milotic-ex-200', productSetId: 'sv08', name: 'Milotic ex', number: '200/191' },
+  // Same number as Milotic in another set, to exercise set disambiguation
+  { id: 'sv07-milotic-200', productSetId: 'sv07', name: 'Milotic', number: '200/191' },
+];
+
+// ── Helpers ──
+
+function input(raw: string): NormalizedTitle {
+  const cardNumber = parseCardNumber(raw) ?? undefined;
+  const grade = parseGrade(raw) ?? undefined;
+  const condition = parseCondition(raw) ?? undefined;
+  return {
+    raw,
+    normalized: normalizeTitle(raw),
+    language: 'english',
+    cardNumber,
+    grade,
+    condition,
+  };
+}
+
+const layer = new MatchCardLayer(CARDS, SETS);
+
+// ── Tests ──
+
+describe('MatchCardLayer', () => {
+  it('matches a card by number and name', () => {
+    const result = layer.execute(input('Pokemon TCG Pikachu ex 238/191 Surging Sparks'));
+    expect(result).toMatchObject({
+      productType: SINGLE_CARD_TYPE,
+      productSet: { id: 'sv08' },
+      card: { id: 'sv08-pikachu-ex-238' },
+      grade: null,
+      condition: null,
+      setMatchScore: 100,
+    });
+    expect(result!.typeMatchScore).toBeGreaterThanOrEqual(85);
+  });
+
+  it('tells apart printings of the same card by number', () => {
+    expect(layer.execute(input('Pikachu ex 057/191'))!.card!.id).toBe('sv08-pikachu-ex-57');
+  });
+
+  it('carries the grade of graded slabs', () => {
+    expect(layer.execute(input('PSA 10 Pikachu ex 238/191'))!.grade).toBe('psa 10');
+  });
+
+  it('carries the condition of raw cards', () => {
+    expect(layer.execute(input('Pikachu ex 238/191 Near Mint'))!.condition).toBe('nm');
+  });
+
+  it('rejects a title whose name does not match the card with that number', () => {
+    expect(layer.execute(input('Charizard ex 238/191'))).toBeNull();
+  });
+
+  it('rejects an unknown card number', () => {
+    expect(layer.execute(input('Pikachu ex 239/191'))).toBeNull();
+  });
+
+  it('returns null for titles without a card number', () => {
+    expect(layer.execute(input('Surging Sparks Booster Box'))).toBeNull();
+  });
+
+  describe('shared card numbers', () => {
+    it('picks the card whose set is named in the title', () => {
+      expect(layer.execute(input('Milotic ex 200/191 Surging Sparks'))!.card!.id).toBe(
+        'sv08-milotic-ex-200',
+      );
+      expect(layer.execute(input('Milotic 200/191 Stellar Crown'))!.card!.id).toBe(
+        'sv07-milotic-200',
+      );
+    });
+
+    it('rejects a title that fits several cards and names no set', () => {
+      expect(layer.execute(input('Milotic ex 200/191'))).toBeNull();
+    });
+  });
+
+  it('skips cards of unknown sets', () => {
+    const orphan = new MatchCardLayer(
+      [{ id: 'xx-pikachu', productSetId: 'unknown', name: 'Pikachu', number: '1/100' }],
+      SETS,
+    );
+    expect(orphan.execute(input('Pikachu 001/100'))).toBeNull();
+  });
+});
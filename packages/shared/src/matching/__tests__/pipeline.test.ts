@@ -1,4 +1,5 @@
 import { ProductMatchingPipeline } from '../pipeline';
+import { matchKeyOf, matchKeysOf } from '../match-key';
 import { PipelineConfig } from '../types';
 
 // ── Shared test config ──
@@ -80,6 +81,9 @@ const CONFIG: PipelineConfig = {
       setAbbreviation: 'PFL',
     },
   ],
+  cards: [
+    { id: 'sv08-pikachu-ex-238', productSetId: 'sv08', name: 'Pikachu ex', number: '238/191' },
+  ],
 };
 
 describe('ProductMatchingPipeline', () => {
@@ -145,6 +149,148 @@ describe('ProductMatchingPipeline', () => {
     });
   });
 
+  describe('evaluate()', () => {
+    it('reports no rejection for a matched title', () => {
+      const outcome = pipeline.evaluate('Surging Sparks Booster Box');
+      expect(outcome.rejectedBy).toBeNull();
+      expect(outcome.match!.productSet.id).toBe('sv08');
+    });
+
+    it('reports titles normalization rejects as empty', () => {
+      expect(pipeline.evaluate('ab')).toMatchObject({ rejectedBy: 'empty', normalized: null });
+    });
+
+    it('matches non-English titles tagged with their language', () => {
+      const outcome = pipeline.evaluate('Surging Sparks Booster Box JP');
+      expect(outcome.rejectedBy).toBeNull();
+      expect(outcome.match!.title.language).toBe('japanese');
+    });
+
+    it('reports titles without a product type', () => {
+      expect(pipeline.evaluate('Surging Sparks Random Product')).toMatchObject({
+        match: null,
+        rejectedBy: 'no-type',
+        normalized: 'surging sparks random product',
+        productType: null,
+      });
+    });
+
+    it('reports the matched type when only the set is missing', () => {
+      const outcome = pipeline.evaluate('Unknown Set Booster Box');
+      expect(outcome.rejectedBy).toBe('no-set');
+      expect(outcome.productType!.id).toBe('booster-box');
+    });
+  });
+
+  describe('trace()', () => {
+    it('records every layer output for a matched title', () => {
+      const trace = pipeline.trace('SV8 ETB');
+      expect(trace.setNumbersExpanded).toBe('Surging Sparks ETB');
+      expect(trace.normalized).toBe('surging sparks etb');
+      expect(trace.language).toBe('english');
+      expect(trace.synonymsExpanded).toBe('surging sparks elite trainer box');
+      expect(trace.typeMatch!.productType.id).toBe('etb');
+      expect(trace.typeMatch!.residualTitle).toBe('surging sparks');
+      expect(trace.setMatch!.productSet.id).toBe('sv08');
+      expect(trace.rejectedBy).toBeNull();
+      expect(trace.match).not.toBeNull();
+    });
+
+    it('stops recording at the rejecting layer', () => {
+      expect(pipeline.trace('Surging Sparks Random Product JP')).toMatchObject({
+        normalized: 'surging sparks random product jp',
+        language: 'japanese',
+        typeMatch: null,
+        setMatch: null,
+        rejectedBy: 'no-type',
+      });
+    });
+
+    it('keeps the type match when the set layer rejects', () => {
+      const trace = pipeline.trace('Unknown Set Booster Box');
+      expect(trace.rejectedBy).toBe('no-set');
+      expect(trace.typeMatch!.residualTitle).toBe('unknown set');
+      expect(trace.setMatch).toBeNull();
+    });
+  });
+
+  describe('single cards', () => {
+    it('matches titles with a card number to the card', () => {
+      const result = pipeline.match('Pokemon TCG Pikachu ex 238/191 Surging Sparks');
+      expect(result!.productType.id).toBe('single-card');
+      expect(result!.productSet.id).toBe('sv08');
+      expect(result!.card!.id).toBe('sv08-pikachu-ex-238');
+      expect(result!.grade).toBeNull();
+    });
+
+    it('matches graded slabs with their grade and language', () => {
+      const result = pipeline.match('PSA 10 Pikachu ex 238/191 JP');
+      expect(result!.grade).toBe('psa 10');
+      expect(result!.title.language).toBe('japanese');
+    });
+
+    it('does not fall back to sealed matching for card titles', () => {
+      expect(pipeline.evaluate('Surging Sparks Booster Box 238/191')).toMatchObject({
+        match: null,
+        rejectedBy: 'no-card',
+      });
+    });
+
+    it('matches sealed titles whose fraction is no catalog card number', () => {
+      const trace = pipeline.trace('Surging Sparks Booster Box (1/1)');
+      expect(trace.cardNumber).toBeNull();
+      expect(trace.match!.productType.id).toBe('booster-box');
+      expect(trace.match!.title.cardNumber).toBeUndefined();
+    });
+
+    it('records the card number and card match in the trace', () => {
+      const trace = pipeline.trace('Pikachu ex 238/191 BGS 9.5');
+      expect(trace.cardNumber).toEqual({ number: '238/191', grade: 'bgs 9.5', condition: null });
+      expect(trace.cardMatch!.card.id).toBe('sv08-pikachu-ex-238');
+      expect(trace.synonymsExpanded).toBeNull();
+      expect(trace.typeMatch).toBeNull();
+    });
+
+    it('keys raw cards by condition and files them under the any-condition key too', () => {
+      const result = pipeline.match('Pikachu ex 238/191 Surging Sparks NM')!;
+      expect(result.condition).toBe('nm');
+      expect(matchKeyOf(result)).toBe('single-card|sv08-pikachu-ex-238|nm|english');
+      expect(matchKeysOf(result)).toEqual([
+        'single-card|sv08-pikachu-ex-238|nm|english',
+        'single-card|sv08-pikachu-ex-238|raw|english',
+      ]);
+    });
+
+    it('files raw cards without a condition and graded slabs under one key', () => {
+      expect(matchKeysOf(pipeline.match('Pikachu ex 238/191')!)).toEqual([
+        'single-card|sv08-pikachu-ex-238|raw|english',
+      ]);
+      expect(matchKeysOf(pipeline.match('Pikachu ex 238/191 PSA 10')!)).toEqual([
+        'single-card|sv08-pikachu-ex-238|psa 10|english',
+      ]);
+    });
+
+    it('leaves sealed titles without a card number untouched', () => {
+      const trace = pipeline.trace('Surging Sparks Booster Box');
+      expect(trace.cardNumber).toBeNull();
+      expect(trace.cardMatch).toBeNull();
+      expect(trace.match!.card).toBeUndefined();
+    });
+  });
+
+  describe('configured reference data', () => {
+    it('uses synonym rules and language tokens from the config', () => {
+      const configured = new ProductMatchingPipeline({
+        ...CONFIG,
+        synonymRules: [{ pattern: '\\bbbx\\b', replacement: 'booster box' }],
+        languageTokens: [{ language: 'thai', tokens: ['thai'] }],
+      });
+      expect(configured.match('Surging Sparks BBX')!.productType.id).toBe('booster-box');
+      expect(configured.match('Surging Sparks ETB')).toBeNull();
+      expect(configured.match('Surging Sparks Booster Box Thai')!.title.language).toBe('thai');
+    });
+  });
+
   describe('generic set handling', () => {
     it('prefers specific set over generic in same series', () => {
       const result = pipeline.match('Phantasmal Flames Booster Box');
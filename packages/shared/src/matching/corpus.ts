@@ -0,0 +1,173 @@
+/**
+ * Regression corpus for the matching pipeline.
+ *
+ * A corpus is a list of real shop titles, each labeled with the match key the
+ * pipeline should produce ("typeId|setId|language", or the single-card key) or
+ * "reject". Running it
+ * measures precision and recall per product type and how often each rejecting
+ * layer stops a title that should match, and diffing two runs shows which titles a threshold, rule or catalog change fixed
+ * or broke.
+ */
+
+import { ProductMatchingPipeline } from './pipeline';
+import { matchKeyOf } from './match-key';
+import { MatchRejection, PipelineConfig } from './types';
+
+/** Label for titles the pipeline should not match to any product. */
+export const CORPUS_REJECT = 'reject';
+
+/** One labeled shop title. */
+export interface CorpusEntry {
+  title: string;
+  /** Match key (see match-key.ts), or CORPUS_REJECT. */
+  expected: string;
+  /** Why the label is what it is, for titles that look like they should match otherwise. */
+  note?: string;
+}
+
+/** Corpus file contents: the labeled titles plus the reference data they were labeled against. */
+export interface MatchingCorpus {
+  referenceData: PipelineConfig;
+  entries: CorpusEntry[];
+}
+
+/** Outcome of one corpus title. */
+export interface CorpusEntryResult {
+  title: string;
+  expected: string;
+  /** Match key (see match-key.ts), or CORPUS_REJECT. */
+  actual: string;
+  rejectedBy: MatchRejection | null;
+  correct: boolean;
+}
+
+/** Null precision/recall means there was nothing to divide by (no predictions or no labels). */
+export interface AccuracyStats {
+  correct: number;
+  predicted: number;
+  expected: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+/** Rejections by one layer. Precision is the share of its rejections labeled "reject". */
+export interface LayerStats {
+  rejected: number;
+  correct: number;
+  /** Rejected titles labeled with a match key: the layer stopped a title it should have let through. */
+  falseRejects: number;
+  precision: number | null;
+}
+
+export interface CorpusReport {
+  total: number;
+  correct: number;
+  /** Keyed by product type ID. A match only counts as correct when set and language are right too. */
+  byType: Record<string, AccuracyStats>;
+  /** Keyed by rejecting layer. */
+  byLayer: Record<MatchRejection, LayerStats>;
+  results: CorpusEntryResult[];
+}
+
+export interface CorpusDiff {
+  /** Wrong in the previous run, correct now. */
+  fixed: CorpusEntryResult[];
+  /** Correct in the previous run, wrong now. */
+  broken: CorpusEntryResult[];
+  /** Wrong in both runs, but with a different outcome. */
+  changed: CorpusEntryResult[];
+  /** Titles not present in the previous run. */
+  added: CorpusEntryResult[];
+  /** Titles no longer in the corpus. */
+  removed: CorpusEntryResult[];
+}
+
+const LAYERS: MatchRejection[] = ['empty', 'no-type', 'no-set', 'no-card'];
+
+/** Runs every corpus title through the pipeline and scores the outcomes against their labels. */
+export function runMatchingCorpus(
+  pipeline: ProductMatchingPipeline,
+  entries: CorpusEntry[],
+): CorpusReport {
+  const results = entries.map((entry): CorpusEntryResult => {
+    const outcome = pipeline.evaluate(entry.title);
+    const actual = outcome.match ? matchKeyOf(outcome.match) : CORPUS_REJECT;
+    return {
+      title: entry.title,
+      expected: entry.expected,
+      actual,
+      rejectedBy: outcome.rejectedBy,
+      correct: actual === entry.expected,
+    };
+  });
+
+  const byType: Record<string, AccuracyStats> = {};
+  const typeStats = (typeId: string) => (byType[typeId] ??= emptyStats());
+
+  for (const result of results) {
+    if (result.expected !== CORPUS_REJECT) typeStats(typeOf(result.expected)).expected++;
+    if (result.actual !== CORPUS_REJECT) {
+      const stats = typeStats(typeOf(result.actual));
+      stats.predicted++;
+      if (result.correct) stats.correct++;
+    }
+  }
+
+  for (const stats of Object.values(byType)) {
+    stats.precision = ratio(stats.correct, stats.predicted);
+    stats.recall = ratio(stats.correct, stats.expected);
+  }
+
+  const byLayer = {} as Record<MatchRejection, LayerStats>;
+  for (const layer of LAYERS) {
+    const rejected = results.filter((r) => r.rejectedBy === layer);
+    const correct = rejected.filter((r) => r.correct).length;
+    byLayer[layer] = {
+      rejected: rejected.length,
+      correct,
+      falseRejects: rejected.length - correct,
+      precision: ratio(correct, rejected.length),
+    };
+  }
+
+  return {
+    total: results.length,
+    correct: results.filter((r) => r.correct).length,
+    byType,
+    byLayer,
+    results,
+  };
+}
+
+/** Compares two runs title by title. */
+export function diffCorpusRuns(
+  previous: CorpusEntryResult[],
+  current: CorpusEntryResult[],
+): CorpusDiff {
+  const previousByTitle = new Map(previous.map((result) => [result.title, result]));
+  const currentTitles = new Set(current.map((result) => result.title));
+  const diff: CorpusDiff = { fixed: [], broken: [], changed: [], added: [], removed: [] };
+
+  for (const result of current) {
+    const before = previousByTitle.get(result.title);
+    if (!before) diff.added.push(result);
+    else if (result.correct && !before.correct) diff.fixed.push(result);
+    else if (!result.correct && before.correct) diff.broken.push(result);
+    else if (!result.correct && result.actual !== before.actual) diff.changed.push(result);
+  }
+
+  diff.removed = previous.filter((result) => !currentTitles.has(result.title));
+  return diff;
+}
+
+function typeOf(matchKey: string): string {
+  return matchKey.split('|')[0];
+}
+
+function emptyStats(): AccuracyStats {
+  return { correct: 0, predicted: 0, expected: 0, precision: null, recall: null };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
@@ -0,0 +1,56 @@
+/**
+ * Product matching pipeline — public API.
+ *
+ * Usage:
+ *   const pipeline = new ProductMatchingPipeline({ productTypes, productSets });
+ *   const result = pipeline.match("Pokemon TCG Surging Sparks Booster Box PL");
+ *   // => { productType, productSet, ... } or null
+ */
+
+export { ProductMatchingPipeline } from './pipeline';
+export { normalizeTitle } from './layers/normalize';
+export { DEFAULT_SYNONYM_RULES, compileSynonymPattern } from './layers/expand-synonyms';
+export { DEFAULT_LANGUAGE, DEFAULT_LANGUAGE_TOKENS } from './layers/detect-language';
+export {
+  CARD_CONDITIONS,
+  parseCardNumber,
+  parseCondition,
+  parseGrade,
+} from './layers/detect-card-number';
+export { SINGLE_CARD_TYPE } from './layers/match-card';
+export {
+  RAW_CARD_GRADE,
+  toMatchKey,
+  toCardMatchKey,
+  matchKeyOf,
+  matchKeysOf,
+  productMatchKey,
+} from './match-key';
+export type { MatchKeyProduct } from './match-key';
+export { CORPUS_REJECT, runMatchingCorpus, diffCorpusRuns } from './corpus';
+export type {
+  CorpusEntry,
+  CorpusEntryResult,
+  CorpusReport,
+  CorpusDiff,
+  AccuracyStats,
+  LayerStats,
+  MatchingCorpus,
+} from './corpus';
+export type {
+  MatchResult,
+  MatchOutcome,
+  MatchRejection,
+  MatchTrace,
+  PipelineConfig,
+  PipelineInput,
+  NormalizedTitle,
+  TypeMatchResult,
+  MatchableProductType,
+  MatchableProductSet,
+  MatchableCard,
+  MatchableSynonymRule,
+  MatchableLanguageTokens,
+  PipelineLogger,
+  PipelineLayer,
+} from './types';
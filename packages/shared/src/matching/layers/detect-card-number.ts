@@ -0,0 +1,81 @@
+/**
+ * Layer 4: Card number and grade detection.
+ *
+ * Single cards are listed with their collector number ("Pikachu ex 238/191",
+ * "Charizard TG05/TG30"). This layer tags titles that contain one, the grade
+ * of graded slabs ("PSA 10", "BGS 9.5") and the condition of raw cards
+ * ("NM", "Lightly Played"). Sealed titles can carry a
+ * fraction too ("Booster Box (1/1)", "pack 2/5"), so the pipeline only routes
+ * a tagged title to card matching when the catalog has a card with that number.
+ *
+ * Runs on the raw title, because normalization turns "238/191" into two
+ * unrelated numbers and "9.5" into "9 5".
+ *
+ * This layer never returns null: titles without a card number pass through
+ * unchanged.
+ */
+
+import { PipelineLayer, PipelineLogger, NormalizedTitle } from '../types';
+
+/**
+ * Number / set total, each optionally prefixed with up to four letters
+ * (Trainer Gallery "TG05/TG30", Galarian Gallery "GG01/GG70"). Surrounding
+ * slashes and word characters rule out dates and fractions inside longer tokens.
+ */
+const CARD_NUMBER = /(?<![\w/])#?([a-z]{0,4}\d{1,3})\s?\/\s?([a-z]{0,4}\d{1,3})(?![\w/])/i;
+
+/** Grading company followed by a whole or half grade, e.g. "PSA 10", "BGS 9.5", "CGC 8,5". */
+const GRADE = /\b(psa|bgs|cgc|sgc|tag|ace)\s?-?\s?(10|[1-9](?:[.,]5)?)(?![\d.,])/i;
+
+/** Condition abbreviations and spelled-out names of raw cards; the first group that matches wins. */
+const CONDITION =
+  /\b(?:(nm|near[\s-]?mint)|(lp|light(?:ly)?[\s-]?played)|(mp|moderately[\s-]?played)|(hp|heavily[\s-]?played)|(dmg|damaged))\b/i;
+
+/** Canonical conditions, in the order of the CONDITION groups. */
+export const CARD_CONDITIONS = ['nm', 'lp', 'mp', 'hp', 'dmg'] as const;
+
+/**
+ * Canonical form of a collector number: uppercase, leading zeros dropped from
+ * each part, so "025/165", "25 / 165" and "#25/165" all read "25/165".
+ * Returns null when the text contains no collector number.
+ */
+export function parseCardNumber(text: string): string | null {
+  const match = CARD_NUMBER.exec(text);
+  if (!match) return null;
+  return `${stripLeadingZeros(match[1])}/${stripLeadingZeros(match[2])}`;
+}
+
+/** Canonical form of a grade ("psa 10", "bgs 9.5"), or null when the text names none. */
+export function parseGrade(text: string): string | null {
+  const match = GRADE.exec(text);
+  if (!match) return null;
+  return `${match[1].toLowerCase()} ${match[2].replace(',', '.')}`;
+}
+
+/** Canonical condition ("nm", "lp", ...) of a raw card, or null when the text names none. */
+export function parseCondition(text: string): string | null {
+  const match = CONDITION.exec(text);
+  if (!match) return null;
+  return CARD_CONDITIONS[match.slice(1).findIndex(Boolean)];
+}
+
+function stripLeadingZeros(part: string): string {
+  return part.toUpperCase().replace(/^([A-Z]*)0+(?=\d)/, '$1');
+}
+
+export class DetectCardNumberLayer implements PipelineLayer<NormalizedTitle, NormalizedTitle> {
+  readonly name = 'detect-card-number';
+
+  constructor(private logger?: PipelineLogger) {}
+
+  execute(input: NormalizedTitle): NormalizedTitle {
+    const cardNumber = parseCardNumber(input.raw);
+    if (!cardNumber) return input;
+
+    // A graded slab's condition is its grade; "Gem Mint" and the like are ignored
+    const grade = parseGrade(input.raw);
+    const condition = grade ? null : parseCondition(input.raw);
+    this.logger?.debug('Card number detected', { title: input.raw, cardNumber, grade, condition });
+    return { ...input, cardNumber, ...(grade && { grade }), ...(condition && { condition }) };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Layer 3: Print language detection (post-normalization).
+ *
+ * Tags each title with the language of the Pokémon TCG print it describes,
+ * based on language tokens in the title. Titles without any token are English.
+ * Operates on already-normalized text (lowercase ASCII, spaces only).
+ *
+ * Covers all TCG print languages: Japanese, Korean, Chinese, French,
+ * German, Spanish, Italian, and Brazilian Portuguese.
+ *
+ * Tokens are reference data passed at construction (stored in MongoDB and
+ * edited from the admin panel); the built-in map below is the default.
+ *
+ * This layer never returns null: the language becomes part of the match key,
+ * so a Japanese booster box only matches watchlist products tagged Japanese.
+ */
+
+import { PipelineLayer, PipelineLogger, NormalizedTitle, MatchableLanguageTokens } from '../types';
+import { normalizeTitle } from './normalize';
+
+/** Language of titles without any language token. */
+export const DEFAULT_LANGUAGE = 'english';
+
+/**
+ * Built-in non-English language tokens grouped by language.
+ *
+ * Each array contains English names, native names, Polish translations, and
+ * ISO codes for that language. All tokens are post-normalization (lowercase
+ * ASCII, diacritics stripped).
+ *
+ * Word boundaries (\b) in the compiled regex ensure short codes like "jp"
+ * match only as whole words and NOT inside longer tokens like "jpy".
+ *
+ * IMPORTANT: "it" is deliberately excluded — it matches the English pronoun
+ * and would cause false positives. Italian is caught by longer tokens only.
+ */
+
+const LANGUAGE_TOKENS: Record<string, string[]> = {
+  japanese: ['jp', 'jpn', 'japan', 'japanese', 'japonski', 'japonska', 'japonskie', 'japonscy'],
+  korean: ['kr', 'korea', 'korean', 'koreanski', 'koreanska', 'koreanskie'],
+  chinese: ['cn', 'china', 'chinese', 'chinski', 'chinska', 'chinskie'],
+  french: ['fr', 'french', 'france', 'francuski', 'francuska', 'francuskie'],
+  german: [
+    'de',
+    'german',
+    'germany',
+    'deutsch',
+    'deutsche',
+    'deutscher',
+    'deutsches',
+    'niemiecki',
+    'niemiecka',
+    'niemieckie',
+  ],
+  spanish: [
+    'es',
+    'spanish',
+    'spain',
+    'espanol',
+    'espanola',
+    'hiszpanski',
+    'hiszpanska',
+    'hiszpanskie',
+  ],
+  italian: ['italian', 'italy', 'italiano', 'italiana', 'wloski', 'wloska', 'wloskie'],
+  portuguese: [
+    'pt',
+    'br',
+    'portuguese',
+    'brazil',
+    'brazilian',
+    'portugues',
+    'portuguesa',
+    'portugalski',
+    'portugalska',
+    'portugalskie',
+    'brazylijski',
+    'brazylijska',
+    'brazylijskie',
+  ],
+};
+
+/** Built-in tokens as pipeline reference data. */
+export const DEFAULT_LANGUAGE_TOKENS: MatchableLanguageTokens[] = Object.entries(
+  LANGUAGE_TOKENS,
+).map(([language, tokens]) => ({ language, tokens }));
+
+// ── Layer implementation ──
+
+interface LanguagePattern {
+  language: string;
+  pattern: RegExp;
+}
+
+export class DetectLanguageLayer implements PipelineLayer<NormalizedTitle, NormalizedTitle> {
+  readonly name = 'detect-language';
+
+  private patterns: LanguagePattern[];
+
+  constructor(
+    languageTokens: MatchableLanguageTokens[] = DEFAULT_LANGUAGE_TOKENS,
+    private logger?: PipelineLogger,
+  ) {
+    this.patterns = buildLanguagePatterns(languageTokens);
+  }
+
+  /** The first language (in configured order) with a token in the title wins. */
+  execute(input: NormalizedTitle): NormalizedTitle & { language: string } {
+    const detected = this.patterns.find(({ pattern }) => pattern.test(input.normalized));
+    if (!detected) return { ...input, language: DEFAULT_LANGUAGE };
+
+    this.logger?.debug('Non-English print detected', {
+      title: input.raw,
+      language: detected.language,
+    });
+    return { ...input, language: detected.language };
+  }
+}
+
+/**
+ * Whole-word alternation of each language's tokens; languages without tokens are skipped.
+ * Tokens are normalized like titles, which also leaves no regex metacharacters in them.
+ */
+function buildLanguagePatterns(languageTokens: MatchableLanguageTokens[]): LanguagePattern[] {
+  return languageTokens.flatMap(({ language, tokens }) => {
+    const normalized = tokens.map(normalizeTitle).filter(Boolean);
+    if (normalized.length === 0) return [];
+    return [{ language, pattern: new RegExp(`\\b(?:${normalized.join('|')})\\b`) }];
+  });
+}
@@ -9,20 +9,24 @@
  * normalization), which can match raw set numbers like "SV3.5" and "ME02.5"
  * literally before the dot and zero-padding are transformed by normalization.
  *
+ * Rules are reference data passed at construction (stored in MongoDB and
+ * edited from the admin panel). The built-in rules below are used when none
+ * are configured, and are what a fresh database is seeded with.
+ *
  * This layer never returns null: if no expansion applies the input passes
  * through unchanged, which is the correct behaviour.
  */
 
-import { PipelineLayer, NormalizedTitle } from '../types';
+import { PipelineLayer, NormalizedTitle, MatchableSynonymRule, PipelineLogger } from '../types';
 
-/** A single synonym rule: a word-boundary regex and its canonical replacement. */
+/** A single compiled synonym rule: a word-boundary regex and its canonical replacement. */
 interface SynonymRule {
   pattern: RegExp;
   replacement: string;
 }
 
 /**
- * Static product-type synonym rules.
+ * Built-in product-type synonym rules.
  * Order is significant: rules are applied top-to-bottom. More specific rules
  * (multi-token patterns) should come before shorter ones where overlap is possible.
  * All patterns match against already-normalised (lowercase, ASCII) text.
@@ -71,21 +75,77 @@ const PRODUCT_TYPE_SYNONYM_RULES: SynonymRule[] = [
   { pattern: /\bmini\s+tin\s+(?:komplet|zestaw)\s+5\b/g, replacement: 'mini tin bundle' },
 ];
 
+/** Built-in rules as pipeline reference data (pattern sources, same order). */
+export const DEFAULT_SYNONYM_RULES: MatchableSynonymRule[] = PRODUCT_TYPE_SYNONYM_RULES.map(
+  (rule) => ({ pattern: rule.pattern.source, replacement: rule.replacement }),
+);
+
+/**
+ * Titles a new pattern is tried against: an empty one plus a typical
+ * normalized title with words, digits and set codes in it.
+ */
+const EMPTY_MATCH_SAMPLES = ['', 'pokemon tcg scarlet violet 151 sv3 5 booster box 36 x etb 10'];
+
+/**
+ * Compiles a synonym pattern the way the layer applies it (global, case-sensitive
+ * against normalized text). Throws if the source is not a valid regex or can
+ * match zero characters (`x*`, `\b`, `(?=x)`), which would insert the
+ * replacement at a position instead of replacing text.
+ */
+export function compileSynonymPattern(pattern: string): RegExp {
+  const regex = new RegExp(pattern, 'g');
+  const hasEmptyMatch = EMPTY_MATCH_SAMPLES.some((sample) =>
+    [...sample.matchAll(regex)].some((match) => match[0] === ''),
+  );
+  if (hasEmptyMatch) {
+    throw new Error('Pattern must not match an empty string');
+  }
+  return regex;
+}
+
 // ── Layer implementation ──
 
 export class ExpandSynonymsLayer implements PipelineLayer<NormalizedTitle, NormalizedTitle> {
   readonly name = 'expand-synonyms';
 
+  private rules: SynonymRule[];
+
+  constructor(
+    rules: MatchableSynonymRule[] = DEFAULT_SYNONYM_RULES,
+    private logger?: PipelineLogger,
+  ) {
+    this.rules = this.compileRules(rules);
+  }
+
   execute(input: NormalizedTitle): NormalizedTitle {
     let expanded = input.normalized;
 
-    for (const rule of PRODUCT_TYPE_SYNONYM_RULES) {
+    for (const rule of this.rules) {
       expanded = expanded.replace(rule.pattern, rule.replacement);
     }
 
     // Collapse any extra whitespace that replacements may have introduced
     expanded = expanded.replace(/\s+/g, ' ').trim();
 
-    return { raw: input.raw, normalized: expanded };
+    return { ...input, normalized: expanded };
+  }
+
+  /** Compiles rules in order; invalid patterns are skipped so one bad rule can't stop a scan. */
+  private compileRules(rules: MatchableSynonymRule[]): SynonymRule[] {
+    const compiled: SynonymRule[] = [];
+    for (const rule of rules) {
+      try {
+        compiled.push({
+          pattern: compileSynonymPattern(rule.pattern),
+          replacement: rule.replacement,
+        });
+      } catch (error) {
+        this.logger?.warn('Skipping invalid synonym rule', {
+          pattern: rule.pattern,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return compiled;
   }
 }
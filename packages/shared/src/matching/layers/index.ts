@@ -0,0 +1,18 @@
+export { ExpandSetNumbersLayer } from './expand-set-numbers';
+export { NormalizeLayer, normalizeTitle } from './normalize';
+export { DetectLanguageLayer, DEFAULT_LANGUAGE, DEFAULT_LANGUAGE_TOKENS } from './detect-language';
+export {
+  CARD_CONDITIONS,
+  DetectCardNumberLayer,
+  parseCardNumber,
+  parseCondition,
+  parseGrade,
+} from './detect-card-number';
+export {
+  ExpandSynonymsLayer,
+  DEFAULT_SYNONYM_RULES,
+  compileSynonymPattern,
+} from './expand-synonyms';
+export { MatchProductTypeLayer } from './match-product-type';
+export { MatchProductSetLayer } from './match-product-set';
+export { MatchCardLayer, SINGLE_CARD_TYPE } from './match-card';
@@ -0,0 +1,162 @@
+/**
+ * Card matching (single-card titles only).
+ *
+ * Titles tagged with a collector number skip product type and set matching and
+ * are matched here instead: the card must have the same collector number and
+ * every token of its name must appear in the title. Collector numbers repeat
+ * across sets, so when several cards qualify the one whose set is named in the
+ * title wins.
+ *
+ * Matches use the built-in single-card product type and the card's own set,
+ * so they flow through the same match keys and watchlist lookup as sealed
+ * products.
+ */
+
+import * as fuzz from 'fuzzball';
+import {
+  PipelineLayer,
+  PipelineLogger,
+  NormalizedTitle,
+  MatchResult,
+  MatchableCard,
+  MatchableProductSet,
+  MatchableProductType,
+} from '../types';
+import { normalizeTitle } from './normalize';
+import { parseCardNumber } from './detect-card-number';
+
+const NAME_TOKEN_THRESHOLD = 85;
+
+/** Product type of every single-card match. Built in, not stored with the other product types. */
+export const SINGLE_CARD_TYPE: MatchableProductType = {
+  id: 'single-card',
+  name: 'Single Card',
+  matchingProfile: { required: [], forbidden: [] },
+  contains: [],
+};
+
+/** Pre-processed card for efficient matching. Built once at construction. */
+interface ProcessedCard {
+  card: MatchableCard;
+  set: MatchableProductSet;
+  nameTokens: string[];
+  setNameTokens: string[];
+}
+
+interface CardCandidate {
+  processed: ProcessedCard;
+  score: number;
+}
+
+export class MatchCardLayer implements PipelineLayer<NormalizedTitle, MatchResult> {
+  readonly name = 'match-card';
+
+  /** Keyed by canonical collector number. */
+  private cardsByNumber = new Map<string, ProcessedCard[]>();
+
+  constructor(
+    cards: MatchableCard[],
+    productSets: MatchableProductSet[],
+    private logger?: PipelineLogger,
+  ) {
+    const setsById = new Map(productSets.map((set) => [set.id, set]));
+
+    for (const card of cards) {
+      const set = setsById.get(card.productSetId);
+      const number = parseCardNumber(card.number);
+      if (!set || !number) {
+        this.logger?.warn('Card skipped: unknown set or malformed number', {
+          card: card.id,
+          productSetId: card.productSetId,
+          number: card.number,
+        });
+        continue;
+      }
+
+      const processed: ProcessedCard = {
+        card,
+        set,
+        nameTokens: tokenize(normalizeTitle(card.name)),
+        setNameTokens: tokenize(normalizeTitle(set.name)),
+      };
+      const existing = this.cardsByNumber.get(number) ?? [];
+      existing.push(processed);
+      this.cardsByNumber.set(number, existing);
+    }
+  }
+
+  /** Whether any catalog card has this canonical collector number. */
+  hasCardNumber(cardNumber: string): boolean {
+    return this.cardsByNumber.has(cardNumber);
+  }
+
+  execute(input: NormalizedTitle): MatchResult | null {
+    if (!input.cardNumber) return null;
+
+    const titleTokens = tokenize(input.normalized);
+    const candidates: CardCandidate[] = [];
+    for (const processed of this.cardsByNumber.get(input.cardNumber) ?? []) {
+      const score = scoreContainment(processed.nameTokens, titleTokens);
+      if (score !== null) candidates.push({ processed, score });
+    }
+
+    if (candidates.length === 0) {
+      this.logger?.debug('No card matched', {
+        title: input.normalized,
+        cardNumber: input.cardNumber,
+      });
+      return null;
+    }
+
+    const winners =
+      candidates.length > 1
+        ? candidates.filter(
+            (c) => scoreContainment(c.processed.setNameTokens, titleTokens) !== null,
+          )
+        : candidates;
+
+    if (winners.length !== 1) {
+      this.logger?.warn('Multiple cards matched, dismissing', {
+        title: input.normalized,
+        cardNumber: input.cardNumber,
+        cards: candidates.map((c) => ({ id: c.processed.card.id, score: c.score })),
+      });
+      return null;
+    }
+
+    const winner = winners[0];
+    return {
+      title: input,
+      productType: SINGLE_CARD_TYPE,
+      productSet: winner.processed.set,
+      typeMatchScore: winner.score,
+      setMatchScore: 100,
+      card: winner.processed.card,
+      grade: input.grade ?? null,
+      condition: input.condition ?? null,
+    };
+  }
+}
+
+// ── Pure utility functions ──
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Every needle token must fuzzily appear among the title tokens.
+ * Returns the average score, or null if any token is below threshold.
+ */
+function scoreContainment(needleTokens: string[], titleTokens: string[]): number | null {
+  if (needleTokens.length === 0 || titleTokens.length === 0) return null;
+
+  const scores: number[] = [];
+  for (const needle of needleTokens) {
+    const best = Math.max(...titleTokens.map((token) => fuzz.ratio(needle, token)));
+    if (best < NAME_TOKEN_THRESHOLD) return null;
+    scores.push(best);
+  }
+
+  return Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length);
+}
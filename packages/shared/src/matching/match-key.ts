@@ -0,0 +1,75 @@
+/**
+ * Match keys link pipeline results to watchlist products: a title matches
+ * every product with the same type, set and print language. Single cards are
+ * keyed by card and grade (or raw-card condition) instead of set, so a PSA 10
+ * slab never matches a watch on the raw card, and an LP card never matches a
+ * watch on NM copies.
+ */
+
+import { MatchResult } from './types';
+import { DEFAULT_LANGUAGE } from './layers/detect-language';
+import { SINGLE_CARD_TYPE } from './layers/match-card';
+
+/**
+ * Grade segment of single-card keys for ungraded cards in any condition. Raw
+ * cards with a condition ("nm", "lp", ...) put the condition there instead.
+ */
+export const RAW_CARD_GRADE = 'raw';
+
+/** Fields of a watchlist product that determine its match key. */
+export interface MatchKeyProduct {
+  productTypeId: string;
+  productSetId: string;
+  language?: string;
+  cardId?: string;
+  grade?: string;
+  condition?: string;
+}
+
+/** "productTypeId|productSetId|language". */
+export function toMatchKey(
+  productTypeId: string,
+  productSetId: string,
+  language: string = DEFAULT_LANGUAGE,
+): string {
+  return `${productTypeId}|${productSetId}|${language}`;
+}
+
+/**
+ * "single-card|cardId|grade|language". The grade segment is the grade of a
+ * slab, else the condition of a raw card, else "raw".
+ */
+export function toCardMatchKey(
+  cardId: string,
+  grade?: string | null,
+  language: string = DEFAULT_LANGUAGE,
+  condition?: string | null,
+): string {
+  return `${SINGLE_CARD_TYPE.id}|${cardId}|${grade || condition || RAW_CARD_GRADE}|${language}`;
+}
+
+/** The most specific key of a match: the one corpus labels use. */
+export function matchKeyOf(match: MatchResult): string {
+  if (match.card) {
+    return toCardMatchKey(match.card.id, match.grade, match.title.language, match.condition);
+  }
+  return toMatchKey(match.productType.id, match.productSet.id, match.title.language);
+}
+
+/**
+ * Every key a match is filed under: matchKeyOf(), plus the plain raw-card key
+ * for raw cards with a condition, so watches on any condition see them too.
+ */
+export function matchKeysOf(match: MatchResult): string[] {
+  const key = matchKeyOf(match);
+  if (!match.card || match.grade || !match.condition) return [key];
+  return [key, toCardMatchKey(match.card.id, null, match.title.language)];
+}
+
+/** Key a watchlist product is indexed by, matching one of matchKeysOf() for its titles. */
+export function productMatchKey(product: MatchKeyProduct): string {
+  if (product.cardId) {
+    return toCardMatchKey(product.cardId, product.grade, product.language, product.condition);
+  }
+  return toMatchKey(product.productTypeId, product.productSetId, product.language);
+}
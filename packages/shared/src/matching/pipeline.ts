@@ -0,0 +1,125 @@
+/**
+ * Product matching pipeline.
+ *
+ * Chains seven layers sequentially:
+ *   1. Expand Set Numbers:   raw title → raw title (set numbers replaced before normalization)
+ *   2. Normalize:            raw title → NormalizedTitle
+ *   3. Detect Language:      NormalizedTitle → NormalizedTitle (tag the print language)
+ *   4. Detect Card Number:   NormalizedTitle → NormalizedTitle (tag card number, grade and condition)
+ *   5. Expand Synonyms:      NormalizedTitle → NormalizedTitle (type abbreviations expanded)
+ *   6. Match Type:           NormalizedTitle → TypeMatchResult
+ *   7. Match Set:            TypeMatchResult → MatchResult
+ *
+ * Titles tagged with a card number that a catalog card has leave after layer 4
+ * and go to card matching (NormalizedTitle → MatchResult) instead of layers 5-7;
+ * any other number ("Booster Box (1/1)") is ignored and the title continues.
+ *
+ * If layer 2, 6, 7 or card matching returns null the pipeline stops early;
+ * evaluate() reports which one, and trace() also returns every intermediate
+ * layer output. Layers 1 and 3-5 never return null: they pass the title through
+ * unchanged when nothing applies, and layer 3 defaults to English.
+ * Constructed once with reference data, reused for many titles.
+ */
+
+import { PipelineConfig, PipelineLogger, MatchResult, MatchOutcome, MatchTrace } from './types';
+import { ExpandSetNumbersLayer } from './layers/expand-set-numbers';
+import { NormalizeLayer } from './layers/normalize';
+import { DetectLanguageLayer } from './layers/detect-language';
+import { DetectCardNumberLayer } from './layers/detect-card-number';
+import { ExpandSynonymsLayer } from './layers/expand-synonyms';
+import { MatchProductTypeLayer } from './layers/match-product-type';
+import { MatchProductSetLayer } from './layers/match-product-set';
+import { MatchCardLayer } from './layers/match-card';
+
+export class ProductMatchingPipeline {
+  private expandSetNumbersLayer: ExpandSetNumbersLayer;
+  private normalizeLayer: NormalizeLayer;
+  private detectLanguageLayer: DetectLanguageLayer;
+  private detectCardNumberLayer: DetectCardNumberLayer;
+  private expandSynonymsLayer: ExpandSynonymsLayer;
+  private matchTypeLayer: MatchProductTypeLayer;
+  private matchSetLayer: MatchProductSetLayer;
+  private matchCardLayer: MatchCardLayer;
+
+  constructor(config: PipelineConfig, logger?: PipelineLogger) {
+    this.expandSetNumbersLayer = new ExpandSetNumbersLayer(config.productSets, logger);
+    this.normalizeLayer = new NormalizeLayer();
+    this.detectLanguageLayer = new DetectLanguageLayer(config.languageTokens, logger);
+    this.detectCardNumberLayer = new DetectCardNumberLayer(logger);
+    this.expandSynonymsLayer = new ExpandSynonymsLayer(config.synonymRules, logger);
+    this.matchTypeLayer = new MatchProductTypeLayer(config.productTypes, logger);
+    this.matchSetLayer = new MatchProductSetLayer(config.productSets, logger);
+    this.matchCardLayer = new MatchCardLayer(config.cards ?? [], config.productSets, logger);
+  }
+
+  /** Runs the full pipeline. Returns MatchResult on success, null on failure. */
+  match(rawTitle: string): MatchResult | null {
+    return this.evaluate(rawTitle).match;
+  }
+
+  /** Runs the full pipeline and reports which layer rejected the title, if any. */
+  evaluate(rawTitle: string): MatchOutcome {
+    const trace = this.trace(rawTitle);
+    return {
+      match: trace.match,
+      rejectedBy: trace.rejectedBy,
+      normalized: trace.synonymsExpanded ?? trace.normalized,
+      productType: trace.typeMatch?.productType ?? null,
+    };
+  }
+
+  /** Runs the full pipeline and records the output of every layer it reached. */
+  trace(rawTitle: string): MatchTrace {
+    const withSetNumbers = this.expandSetNumbersLayer.execute({ rawTitle });
+    const trace: MatchTrace = {
+      setNumbersExpanded: withSetNumbers.rawTitle,
+      normalized: null,
+      language: null,
+      cardNumber: null,
+      cardMatch: null,
+      synonymsExpanded: null,
+      typeMatch: null,
+      setMatch: null,
+      rejectedBy: null,
+      match: null,
+    };
+
+    const normalized = this.normalizeLayer.execute(withSetNumbers);
+    if (!normalized) return { ...trace, rejectedBy: 'empty' };
+    trace.normalized = normalized.normalized;
+
+    const tagged = this.detectLanguageLayer.execute(normalized);
+    trace.language = tagged.language;
+
+    const withCardNumber = this.detectCardNumberLayer.execute(tagged);
+    if (withCardNumber.cardNumber && this.matchCardLayer.hasCardNumber(withCardNumber.cardNumber)) {
+      trace.cardNumber = {
+        number: withCardNumber.cardNumber,
+        grade: withCardNumber.grade ?? null,
+        condition: withCardNumber.condition ?? null,
+      };
+
+      const cardMatch = this.matchCardLayer.execute(withCardNumber);
+      if (!cardMatch) return { ...trace, rejectedBy: 'no-card' };
+      trace.cardMatch = { card: cardMatch.card!, score: cardMatch.typeMatchScore };
+      return { ...trace, match: cardMatch };
+    }
+
+    const expanded = this.expandSynonymsLayer.execute(tagged);
+    trace.synonymsExpanded = expanded.normalized;
+
+    const typeMatch = this.matchTypeLayer.execute(expanded);
+    if (!typeMatch) return { ...trace, rejectedBy: 'no-type' };
+    trace.typeMatch = {
+      productType: typeMatch.matchedType,
+      score: typeMatch.typeMatchScore,
+      residualTitle: typeMatch.residualTitle,
+    };
+
+    const match = this.matchSetLayer.execute(typeMatch);
+    if (!match) return { ...trace, rejectedBy: 'no-set' };
+    trace.setMatch = { productSet: match.productSet, score: match.setMatchScore };
+
+    return { ...trace, match };
+  }
+}
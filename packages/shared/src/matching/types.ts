@@ -0,0 +1,181 @@
+/**
+ * Product matching pipeline types.
+ *
+ * Defines the data flowing between pipeline layers and the public API.
+ * Each layer transforms one type into the next; null means "no match."
+ */
+
+// ── Reference data (loaded from DB, passed at pipeline construction) ──
+
+/** Product type used as pipeline reference data. */
+export interface MatchableProductType {
+  id: string;
+  name: string;
+  matchingProfile: {
+    required: string[];
+    forbidden: string[];
+  };
+  /** IDs of product types that are direct ingredients of this type (e.g. Tin contains Booster). */
+  contains: string[];
+}
+
+/** Product set used as pipeline reference data. */
+export interface MatchableProductSet {
+  id: string;
+  name: string;
+  series: string;
+  /** Official set number, e.g. "SV8" or "ME2.5". Used by the synonym expansion layer. */
+  setNumber: string;
+  /** Three-letter set abbreviation, e.g. "SSP" or "PFL". Used by the synonym expansion layer. */
+  setAbbreviation: string;
+}
+
+/**
+ * Synonym rule used as pipeline reference data: a regex source applied
+ * globally to normalized titles, each match replaced with `replacement`.
+ */
+export interface MatchableSynonymRule {
+  pattern: string;
+  replacement: string;
+}
+
+/** Single card used as pipeline reference data. */
+export interface MatchableCard {
+  id: string;
+  productSetId: string;
+  name: string;
+  /** Collector number as printed, e.g. "199/165" or "TG05/TG30". */
+  number: string;
+}
+
+/** Tokens marking a title as a non-English print, for one language. */
+export interface MatchableLanguageTokens {
+  language: string;
+  tokens: string[];
+}
+
+// ── Data flowing through the pipeline ──
+
+/** Input to the pipeline. */
+export interface PipelineInput {
+  rawTitle: string;
+}
+
+/** Output of Layer 1 (normalization). */
+export interface NormalizedTitle {
+  raw: string;
+  normalized: string;
+  /** Print language, set by the language detection layer (unset before it runs). */
+  language?: string;
+  /** Normalized collector number ("199/165"), set by the card number layer for single-card titles. */
+  cardNumber?: string;
+  /** Grading company and grade ("psa 10"), set by the card number layer for graded slabs. */
+  grade?: string;
+  /** Condition of a raw card ("nm", "lp", ...), set by the card number layer when the title names one. */
+  condition?: string;
+}
+
+/** Output of Layer 2 (product type matching). */
+export interface TypeMatchResult {
+  title: NormalizedTitle;
+  matchedType: MatchableProductType;
+  residualTitle: string;
+  typeMatchScore: number;
+}
+
+/**
+ * Output of Layer 3 (product set matching) or of card matching. Final pipeline result.
+ *
+ * Single cards match the built-in single-card product type and the card's own set;
+ * typeMatchScore is then the card name score and setMatchScore is always 100.
+ */
+export interface MatchResult {
+  title: NormalizedTitle;
+  productType: MatchableProductType;
+  productSet: MatchableProductSet;
+  typeMatchScore: number;
+  setMatchScore: number;
+  /** Matched card, for single-card titles only. */
+  card?: MatchableCard;
+  /** Grade of a graded slab ("psa 10"); null for raw cards, unset for sealed products. */
+  grade?: string | null;
+  /** Condition of a raw card ("nm"); null when the title names none, unset for sealed products. */
+  condition?: string | null;
+}
+
+/** Where the pipeline stopped for a title it could not match. */
+export type MatchRejection = 'empty' | 'no-type' | 'no-set' | 'no-card';
+
+/** Full pipeline outcome: the match, or the layer that rejected the title. */
+export interface MatchOutcome {
+  match: MatchResult | null;
+  /** Null when the title matched. */
+  rejectedBy: MatchRejection | null;
+  /** Normalized title as the rejecting layer saw it (null when normalization itself failed). */
+  normalized: string | null;
+  /** Product type matched before the set layer rejected the title (partial match). */
+  productType: MatchableProductType | null;
+}
+
+/** Per-layer record of one pipeline run, for explaining why a title did or didn't match. */
+export interface MatchTrace {
+  /** Layer 1 output: raw title with set numbers replaced by set names. */
+  setNumbersExpanded: string;
+  /** Layer 2 output. Null when normalization left nothing to match. */
+  normalized: string | null;
+  /** Layer 3 output. Null when normalization left nothing to match. */
+  language: string | null;
+  /**
+   * Layer 4 output: collector number, grade and condition. Null when the title has
+   * no card number or no catalog card has it.
+   */
+  cardNumber: { number: string; grade: string | null; condition: string | null } | null;
+  /** Card matching output, for titles with a card number. */
+  cardMatch: {
+    card: MatchableCard;
+    score: number;
+  } | null;
+  /** Layer 5 output. Null when an earlier layer rejected the title or it names a card. */
+  synonymsExpanded: string | null;
+  /** Layer 6 output: matched type, its score and the title left for set matching. */
+  typeMatch: {
+    productType: MatchableProductType;
+    score: number;
+    residualTitle: string;
+  } | null;
+  /** Layer 7 output. */
+  setMatch: {
+    productSet: MatchableProductSet;
+    score: number;
+  } | null;
+  rejectedBy: MatchRejection | null;
+  match: MatchResult | null;
+}
+
+// ── Pipeline layer interface ──
+
+/** Generic pipeline layer. Returns TOut on match, null on failure. */
+export interface PipelineLayer<TIn, TOut> {
+  readonly name: string;
+  execute(input: TIn): TOut | null;
+}
+
+// ── Pipeline configuration ──
+
+/** Reference data passed to the pipeline at construction. */
+export interface PipelineConfig {
+  productTypes: MatchableProductType[];
+  productSets: MatchableProductSet[];
+  /** Applied in array order. Defaults to the built-in rules when omitted. */
+  synonymRules?: MatchableSynonymRule[];
+  /** Defaults to the built-in language tokens when omitted. */
+  languageTokens?: MatchableLanguageTokens[];
+  /** Cards single-card titles are matched against. No single-card matches when omitted. */
+  cards?: MatchableCard[];
+}
+
+/** Optional logger for pipeline operations. */
+export interface PipelineLogger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+}
@@ -1,5 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import type { ShopConfig } from '../types';
+import { ShopConfigIssue, validateShopConfig } from './shop-config.schema';
+
+export {
+  shopConfigSchema,
+  selectorSchema,
+  validateShopConfig,
+  type ShopConfigIssue,
+  type ShopConfigValidationResult,
+} from './shop-config.schema';
 
 export interface ShopInfo {
   id: string;
@@ -8,20 +18,99 @@ export interface ShopInfo {
   disabled?: boolean;
 }
 
+/**
+ * A schema violation located in a specific config file.
+ */
+export interface ShopConfigFileIssue extends ShopConfigIssue {
+  file: string;
+}
+
+/**
+ * Thrown at load time when any shop config file is invalid.
+ * Lists every issue across all files, not just the first.
+ */
+export class ShopConfigValidationError extends Error {
+  constructor(public readonly issues: ShopConfigFileIssue[]) {
+    super(
+      `Invalid shop config (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n` +
+        issues.map((i) => `  ${i.file} ${i.path}: ${i.message}`).join('\n'),
+    );
+    this.name = 'ShopConfigValidationError';
+  }
+}
+
 export function getShopConfigDir(): string {
   return path.join(__dirname, '../config/shops');
 }
 
+/**
+ * Parses and validates every `*.json` config in a directory, collecting issues
+ * instead of throwing. Also reports ids that are used by more than one file.
+ */
+export function validateShopConfigDir(dir: string = getShopConfigDir()): {
+  configs: ShopConfig[];
+  issues: ShopConfigFileIssue[];
+} {
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .sort();
+  const configs: ShopConfig[] = [];
+  const issues: ShopConfigFileIssue[] = [];
+  const fileById = new Map<string, string>();
+
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+    } catch (error) {
+      issues.push({
+        file,
+        path: '(root)',
+        message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      continue;
+    }
+
+    const result = validateShopConfig(raw);
+    if (!result.success) {
+      issues.push(...result.issues.map((issue) => ({ file, ...issue })));
+      continue;
+    }
+
+    const existing = fileById.get(result.config.id);
+    if (existing) {
+      issues.push({
+        file,
+        path: 'id',
+        message: `Duplicate id '${result.config.id}' (also used by ${existing})`,
+      });
+      continue;
+    }
+
+    fileById.set(result.config.id, file);
+    configs.push(result.config);
+  }
+
+  return { configs, issues };
+}
+
+/**
+ * Loads all shop configs, throwing ShopConfigValidationError if any file is invalid.
+ */
+export function loadShopConfigs(dir: string = getShopConfigDir()): ShopConfig[] {
+  const { configs, issues } = validateShopConfigDir(dir);
+  if (issues.length > 0) {
+    throw new ShopConfigValidationError(issues);
+  }
+  return configs;
+}
+
 export function loadShopInfos(): ShopInfo[] {
-  const dir = getShopConfigDir();
-  const files = fs.readdirSync(dir).filter((f) => f.endsWith('.json'));
-  return files.map((f) => {
-    const content = JSON.parse(fs.readFileSync(path.join(dir, f), 'utf-8'));
-    return {
-      id: content.id,
-      name: content.name,
-      baseUrl: content.baseUrl,
-      disabled: content.disabled,
-    };
-  });
+  return loadShopConfigs().map((config) => ({
+    id: config.id,
+    name: config.name,
+    baseUrl: config.baseUrl,
+    disabled: config.disabled,
+  }));
 }
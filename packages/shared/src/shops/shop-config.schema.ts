@@ -0,0 +1,220 @@
+/**
+ * Runtime schema for shop configuration files.
+ * Mirrors `types/shop-config.types.ts` — keep both in sync when adding fields.
+ */
+
+import { z } from 'zod';
+import type { ShopConfig } from '../types';
+
+const selectorValueSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)], {
+  errorMap: () => ({ message: 'Expected a non-empty string or array of strings' }),
+});
+
+const JSON_ATTRIBUTE_FIELDS = ['attribute', 'jsonFilter', 'jsonExpect', 'condition'] as const;
+
+export const selectorSchema = z
+  .object({
+    type: z.enum(['css', 'xpath', 'text', 'json-attribute']),
+    value: selectorValueSchema,
+    extract: z.enum(['href', 'text', 'innerHTML', 'ownText']).optional(),
+    format: z.enum(['european', 'us']).optional(),
+    matchSelf: z.boolean().optional(),
+    attribute: z.string().min(1).optional(),
+    jsonFilter: z.string().min(1).optional(),
+    jsonExpect: z.unknown().optional(),
+    condition: z.enum(['some', 'every', 'none']).optional(),
+  })
+  .strict()
+  .superRefine((selector, ctx) => {
+    if (selector.type === 'json-attribute') {
+      for (const field of ['attribute', 'jsonFilter'] as const) {
+        if (!selector[field]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `Required for json-attribute selectors`,
+          });
+        }
+      }
+      return;
+    }
+
+    for (const field of JSON_ATTRIBUTE_FIELDS) {
+      if (selector[field] !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `Only valid for json-attribute selectors (type is '${selector.type}')`,
+        });
+      }
+    }
+  });
+
+const selectorListSchema = z.array(selectorSchema).min(1);
+
+/**
+ * `Selector | Selector[]`. Dispatches on the input shape instead of using
+ * z.union, so issues point inside the selector rather than at the union.
+ */
+const selectorOrListSchema = z.any().superRefine((value, ctx) => {
+  const schema = Array.isArray(value) ? selectorListSchema : selectorSchema;
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+  }
+});
+
+const paginationSchema = z
+  .object({
+    nextPage: selectorSchema.optional(),
+    pageUrl: z
+      .string()
+      .refine((url) => url.includes('{page}'), 'Must contain a {page} placeholder')
+      .optional(),
+    maxPages: z.number().int().min(1).optional(),
+  })
+  .strict()
+  .refine((p) => p.nextPage || p.pageUrl, 'Set nextPage or pageUrl');
+
+const shopSelectorsSchema = z
+  .object({
+    searchPage: z
+      .object({
+        article: selectorSchema,
+        productUrl: selectorSchema,
+        title: selectorSchema.optional(),
+        titleFromUrl: z.boolean().optional(),
+        price: selectorSchema.optional(),
+        available: selectorOrListSchema.optional(),
+        unavailable: selectorOrListSchema.optional(),
+        pagination: paginationSchema.optional(),
+      })
+      .strict(),
+    productPage: z
+      .object({
+        title: selectorSchema.optional(),
+        price: selectorSchema,
+        available: selectorOrListSchema,
+        unavailable: selectorOrListSchema.optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+const jsonApiSchema = z
+  .object({
+    platform: z.enum(['shopify', 'woocommerce-store-api', 'shoper']),
+    fields: z
+      .object({
+        items: z.string().optional(),
+        title: z.string().min(1).optional(),
+        url: z.string().min(1).optional(),
+        price: z.string().min(1).optional(),
+        available: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const shopConfigSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and hyphens'),
+    name: z.string().min(1),
+    disabled: z.boolean().optional(),
+    engine: z.enum(['cheerio', 'playwright', 'json-api']).optional(),
+    fetchingTier: z.enum(['super-slow', 'slow', 'fast', 'super-fast']).optional(),
+    antiBot: z
+      .object({
+        requestDelayMs: z.number().min(0).optional(),
+        maxConcurrency: z.number().int().min(1).optional(),
+        useProxy: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    baseUrl: z.string().url(),
+    searchUrl: z.string().min(1),
+    directHitPattern: z
+      .string()
+      .superRefine((pattern, ctx) => {
+        try {
+          new RegExp(pattern);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid regex: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      })
+      .optional(),
+    selectors: shopSelectorsSchema.optional(),
+    jsonApi: jsonApiSchema.optional(),
+    customScraper: z.string().min(1).optional(),
+  })
+  .strict()
+  .superRefine((shop, ctx) => {
+    if (shop.engine === 'json-api') {
+      if (!shop.jsonApi) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['jsonApi'],
+          message: `Required when engine is 'json-api'`,
+        });
+      }
+      return;
+    }
+
+    if (!shop.selectors) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['selectors'],
+        message: `Required when engine is '${shop.engine ?? 'cheerio'}'`,
+      });
+    }
+    if (shop.jsonApi) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['jsonApi'],
+        message: `Only used when engine is 'json-api'`,
+      });
+    }
+  });
+
+/**
+ * A single schema violation, with a dotted path into the config (e.g. `selectors.productPage.price.type`).
+ */
+export interface ShopConfigIssue {
+  path: string;
+  message: string;
+}
+
+export type ShopConfigValidationResult =
+  | { success: true; config: ShopConfig }
+  | { success: false; issues: ShopConfigIssue[] };
+
+function formatIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((segment, i) =>
+      typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`,
+    )
+    .join('');
+}
+
+/**
+ * Validates a parsed shop config. Collects every issue rather than stopping at the first.
+ */
+export function validateShopConfig(raw: unknown): ShopConfigValidationResult {
+  const result = shopConfigSchema.safeParse(raw);
+  if (result.success) {
+    return { success: true, config: result.data as ShopConfig };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    })),
+  };
+}
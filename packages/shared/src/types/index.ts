@@ -1,4 +1,8 @@
 export type { ProductResult } from './product-result.types';
+export type { ShopScanMetrics, ScanRun, ScanRunStatus } from './scan-run.types';
+export type { UnmatchedTitleReason, UnmatchedTitleSighting } from './unmatched-title.types';
+export type { WatchAlertRules, AlertTrigger } from './watch-alert.types';
+export type { NotificationSchedule, QuietHours } from './notification-schedule.types';
 export type {
   Selector,
   SelectorType,
@@ -9,4 +13,9 @@ export type {
   ScrapingEngine,
   FetchingTier,
   AntiBotConfig,
+  PaginationConfig,
+  ShopSelectors,
+  JsonApiPlatform,
+  JsonApiFieldMap,
+  JsonApiConfig,
 } from './shop-config.types';
@@ -0,0 +1,19 @@
+/**
+ * Per-user delivery timing for alerts.
+ * Written by the API, applied by the notifications service before sending.
+ */
+
+/** A daily window in the user's timezone, as 'HH:mm'. Wraps past midnight when start > end. */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NotificationSchedule {
+  /** IANA timezone the times below are in, e.g. 'Europe/Warsaw'. */
+  timezone: string;
+  /** Alerts raised inside this window are held until it ends. */
+  quietHours: QuietHours | null;
+  /** Daily 'HH:mm'. When set, alerts are held and bundled into one message per channel at this time. */
+  digestTime: string | null;
+}
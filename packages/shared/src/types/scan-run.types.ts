@@ -0,0 +1,50 @@
+/**
+ * Scan cycle reports.
+ * Written by the scrapper once per cycle, read by the API admin endpoints.
+ */
+
+import type { FetchingTier, ScrapingEngine } from './shop-config.types';
+
+/**
+ * What happened to one shop during a scan cycle.
+ */
+export interface ShopScanMetrics {
+  shopId: string;
+  engine: ScrapingEngine;
+  durationMs: number;
+  /** Set searches that completed (failed searches count as errors). */
+  searches: number;
+  /** Search result candidates seen across all searches, before matching. */
+  candidates: number;
+  matched: number;
+  unmatched: number;
+  /** Watchlist products with a result written this cycle. */
+  found: number;
+  /** Watchlist products with no matching candidate in any search. */
+  notFound: number;
+  /** Failed searches and product pages, timeouts included. */
+  errorCount: number;
+  timeouts: number;
+  breakerTripped: boolean;
+  /** First few distinct error messages, for diagnosis without the logs. */
+  errorMessages: string[];
+}
+
+export type ScanRunStatus = 'completed' | 'failed';
+
+/**
+ * One scrapper cycle (a single cron execution).
+ */
+export interface ScanRun {
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  /** FETCHING_TIER the cycle ran for, or null when all tiers were scanned. */
+  fetchingTier: FetchingTier | null;
+  status: ScanRunStatus;
+  /** Set when status is 'failed'. */
+  error?: string;
+  resultsWritten: number;
+  notificationsCreated: number;
+  shops: ShopScanMetrics[];
+}
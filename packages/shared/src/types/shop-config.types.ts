@@ -40,7 +40,7 @@ export interface Selector {
   condition?: JsonCondition;
 }
 
-export type ScrapingEngine = 'cheerio' | 'playwright';
+export type ScrapingEngine = 'cheerio' | 'playwright' | 'json-api';
 export type FetchingTier = 'super-slow' | 'slow' | 'fast' | 'super-fast';
 
 /**
@@ -52,6 +52,60 @@ export interface AntiBotConfig {
   useProxy?: boolean; // Route requests through rotating proxy. Default: false
 }
 
+/**
+ * Search result pagination. Either follow a "next page" link or build page URLs
+ * from a template — `pageUrl` wins when both are set.
+ */
+export interface PaginationConfig {
+  nextPage?: Selector; // Optional: "next page" link, href is followed (extract defaults to 'href')
+  pageUrl?: string; // Optional: search URL template for pages 2+ with {query} and {page} placeholders
+  maxPages?: number; // Optional: max search pages to read, including the first. Default: 3
+}
+
+/** Storefront platforms with a built-in JSON search field mapping. */
+export type JsonApiPlatform = 'shopify' | 'woocommerce-store-api' | 'shoper';
+
+/**
+ * Dot-notation paths into the JSON search response.
+ * `items` is resolved from the response root, the rest from each item.
+ */
+export interface JsonApiFieldMap {
+  items?: string; // Path to the product array. Empty string = the response itself is the array
+  title?: string;
+  url?: string;
+  price?: string;
+  available?: string;
+}
+
+/**
+ * JSON search endpoint settings for `engine: 'json-api'`.
+ * `searchUrl` must point at the JSON endpoint; the platform preset supplies
+ * the field mapping and `fields` overrides individual paths.
+ */
+export interface JsonApiConfig {
+  platform: JsonApiPlatform;
+  fields?: JsonApiFieldMap; // Optional: per-shop overrides of the preset paths
+}
+
+export interface ShopSelectors {
+  searchPage: {
+    article: Selector;
+    productUrl: Selector;
+    title?: Selector;
+    titleFromUrl?: boolean;
+    price?: Selector; // Optional: price within article element
+    available?: Selector | Selector[]; // Optional: any match = product is available
+    unavailable?: Selector | Selector[]; // Optional: any match = product is unavailable
+    pagination?: PaginationConfig; // Optional: follow search results beyond the first page
+  };
+  productPage: {
+    title?: Selector; // Optional: for direct hit validation
+    price: Selector;
+    available: Selector | Selector[];
+    unavailable?: Selector | Selector[]; // Optional: any match (and no `available` match) = unavailable
+  };
+}
+
 export interface ShopConfig {
   id: string;
   name: string;
@@ -62,21 +116,7 @@ export interface ShopConfig {
   baseUrl: string;
   searchUrl: string; // Use {query} placeholder for search term
   directHitPattern?: string; // Optional: regex pattern to detect search redirect to product page
-  selectors: {
-    searchPage: {
-      article: Selector;
-      productUrl: Selector;
-      title?: Selector;
-      titleFromUrl?: boolean;
-      price?: Selector; // Optional: price within article element
-      available?: Selector | Selector[]; // Optional: any match = product is available
-      unavailable?: Selector | Selector[]; // Optional: any match = product is unavailable
-    };
-    productPage: {
-      title?: Selector; // Optional: for direct hit validation
-      price: Selector;
-      available: Selector | Selector[];
-    };
-  };
+  selectors?: ShopSelectors; // Required for HTML engines (cheerio, playwright)
+  jsonApi?: JsonApiConfig; // Required for engine 'json-api'
   customScraper?: string; // Optional: path to custom scraper class
 }
@@ -0,0 +1,22 @@
+/**
+ * Search result titles the matching pipeline could not map to a product type and set.
+ * Written by the scrapper, browsed in the admin panel to grow the matching rules.
+ */
+
+/** Pipeline layer that rejected the title. */
+export type UnmatchedTitleReason = 'no-type' | 'no-set' | 'no-card';
+
+/**
+ * One unmatched title as seen in one scan cycle.
+ */
+export interface UnmatchedTitleSighting {
+  shopId: string;
+  title: string;
+  /** Title as the rejecting layer saw it — used to group the same product across shops. */
+  normalizedTitle: string;
+  reason: UnmatchedTitleReason;
+  /** Product type matched before the set layer rejected the title ('no-set' only). */
+  productTypeId: string | null;
+  url: string;
+  seenAt: Date;
+}
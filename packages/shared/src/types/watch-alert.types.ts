@@ -0,0 +1,26 @@
+/**
+ * Alert rules a user can attach to a watch entry on top of its maxPrice.
+ * Written by the API, evaluated by the scrapper's notification dispatcher.
+ */
+
+/**
+ * Optional per-entry rules. Triggers (price at or below maxPrice, anyRestock,
+ * dropBelowAveragePercent) are alternatives — any one of them is enough.
+ * Filters (shopIds, minPrice) apply to every trigger.
+ */
+export interface WatchAlertRules {
+  /** Notify whenever the product comes back in stock, regardless of price. */
+  anyRestock?: boolean;
+  /** Notify when the price is at least this many percent below the product's 7-day average. */
+  dropBelowAveragePercent?: number;
+  /**
+   * Only consider offers from these shops. Replaces the user's excluded shops for
+   * this entry; unset or empty means every shop the user hasn't excluded.
+   */
+  shopIds?: string[];
+  /** Skip offers cheaper than this — usually mispriced or fake listings. */
+  minPrice?: number;
+}
+
+/** Which rule fired a notification. */
+export type AlertTrigger = 'max-price' | 'restock' | 'price-drop';
@@ -0,0 +1,47 @@
+import { isNonPublicHostname, isPublicAddress } from '../network-address';
+
+describe('isPublicAddress', () => {
+  it.each(['93.184.216.34', '1.1.1.1', '2606:4700:4700::1111'])('accepts %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.10',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '255.255.255.255',
+    '::1',
+    '::',
+    'fd12:3456::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:192.168.0.1',
+  ])('rejects %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it('rejects values that are not IP addresses', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+  });
+});
+
+describe('isNonPublicHostname', () => {
+  it.each(['localhost', 'LOCALHOST.', 'api.localhost', '127.0.0.1', '[::1]', '10.0.0.8'])(
+    'flags %s',
+    (hostname) => {
+      expect(isNonPublicHostname(hostname)).toBe(true);
+    },
+  );
+
+  it.each(['hooks.example.com', '93.184.216.34', '[2606:4700:4700::1111]'])(
+    'leaves %s to DNS checks',
+    (hostname) => {
+      expect(isNonPublicHostname(hostname)).toBe(false);
+    },
+  );
+});
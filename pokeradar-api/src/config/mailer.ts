@@ -0,0 +1,12 @@
+import nodemailer from 'nodemailer';
+import { env } from './env';
+
+// Null without SMTP settings; sending then fails with a clear error
+export const mailer = env.SMTP_HOST
+  ? nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_PORT === 465,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    })
+  : null;
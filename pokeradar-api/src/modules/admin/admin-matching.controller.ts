@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { AdminMatchingService } from './admin-matching.service';
+
+const matchingService = new AdminMatchingService();
+
+export class AdminMatchingController {
+  async explain(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const results = await matchingService.explain(req.body.titles);
+      res.json(results);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // -- Synonym rules --
+
+  async listSynonyms(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await matchingService.listSynonymRules();
+      res.json(rules);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createSynonym(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await matchingService.createSynonymRule(req.body);
+      res.status(201).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSynonym(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await matchingService.updateSynonymRule(req.params.id as string, req.body);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async removeSynonym(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await matchingService.deleteSynonymRule(req.params.id as string);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async reorderSynonyms(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await matchingService.reorderSynonymRules(req.body.ids);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // -- Language tokens --
+
+  async listLanguages(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const languages = await matchingService.listLanguageTokens();
+      res.json(languages);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createLanguage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const language = await matchingService.createLanguageTokens(req.body);
+      res.status(201).json(language);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateLanguage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const language = await matchingService.updateLanguageTokens(
+        req.params.language as string,
+        req.body.tokens,
+      );
+      res.json(language);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async removeLanguage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await matchingService.deleteLanguageTokens(req.params.language as string);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
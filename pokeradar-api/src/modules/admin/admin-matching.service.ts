@@ -0,0 +1,230 @@
+import { isValidObjectId } from 'mongoose';
+import {
+  loadPipelineConfig,
+  normalizeTitle,
+  ProductMatchingPipeline,
+  MatchRejection,
+  SynonymRuleModel,
+  LanguageTokenModel,
+} from '@pokeradar/shared';
+import { AppError, NotFoundError, ConflictError } from '../../shared/middleware';
+
+/**
+ * Per-layer trace of one title, as the scrapper would see it with the
+ * product types, sets and matching rules currently in the database.
+ */
+export interface AdminMatchExplanation {
+  title: string;
+  setNumbersExpanded: string;
+  normalized: string | null;
+  synonymsExpanded: string | null;
+  language: string | null;
+  cardNumber: string | null;
+  grade: string | null;
+  condition: string | null;
+  card: {
+    id: string;
+    name: string;
+    number: string;
+    score: number;
+  } | null;
+  type: {
+    id: string;
+    name: string;
+    score: number;
+    residualTitle: string;
+  } | null;
+  set: {
+    id: string;
+    name: string;
+    score: number;
+  } | null;
+  rejectedBy: MatchRejection | null;
+}
+
+export interface AdminSynonymRule {
+  id: string;
+  pattern: string;
+  replacement: string;
+  order: number;
+}
+
+export interface AdminLanguageTokens {
+  language: string;
+  tokens: string[];
+}
+
+export class AdminMatchingService {
+  async explain(titles: string[]): Promise<AdminMatchExplanation[]> {
+    const pipeline = new ProductMatchingPipeline(await loadPipelineConfig());
+
+    return titles.map((title) => {
+      const trace = pipeline.trace(title);
+      return {
+        title,
+        setNumbersExpanded: trace.setNumbersExpanded,
+        normalized: trace.normalized,
+        synonymsExpanded: trace.synonymsExpanded,
+        language: trace.language,
+        cardNumber: trace.cardNumber?.number ?? null,
+        grade: trace.cardNumber?.grade ?? null,
+        condition: trace.cardNumber?.condition ?? null,
+        card: trace.cardMatch && {
+          id: trace.cardMatch.card.id,
+          name: trace.cardMatch.card.name,
+          number: trace.cardMatch.card.number,
+          score: trace.cardMatch.score,
+        },
+        type: trace.typeMatch && {
+          id: trace.typeMatch.productType.id,
+          name: trace.typeMatch.productType.name,
+          score: trace.typeMatch.score,
+          residualTitle: trace.typeMatch.residualTitle,
+        },
+        set: trace.setMatch && {
+          id: trace.setMatch.productSet.id,
+          name: trace.setMatch.productSet.name,
+          score: trace.setMatch.score,
+        },
+        rejectedBy: trace.rejectedBy,
+      };
+    });
+  }
+
+  // -- Synonym rules --
+
+  async listSynonymRules(): Promise<AdminSynonymRule[]> {
+    const rules = await SynonymRuleModel.find().sort({ order: 1 }).lean();
+    return rules.map(toSynonymRule);
+  }
+
+  /** New rules are appended, so they apply after every existing rule. */
+  async createSynonymRule(data: {
+    pattern: string;
+    replacement: string;
+  }): Promise<AdminSynonymRule> {
+    const last = await SynonymRuleModel.findOne().sort({ order: -1 }).select('order').lean();
+    const rule = await SynonymRuleModel.create({
+      pattern: data.pattern,
+      replacement: data.replacement.trim(),
+      order: last ? last.order + 1 : 0,
+    });
+    return toSynonymRule(rule);
+  }
+
+  async updateSynonymRule(
+    id: string,
+    data: { pattern?: string; replacement?: string },
+  ): Promise<AdminSynonymRule> {
+    const rule = isValidObjectId(id) ? await SynonymRuleModel.findById(id) : null;
+    if (!rule) throw new NotFoundError('Synonym rule not found');
+
+    if (data.pattern !== undefined) rule.pattern = data.pattern;
+    if (data.replacement !== undefined) rule.replacement = data.replacement.trim();
+    await rule.save();
+    return toSynonymRule(rule);
+  }
+
+  /**
+   * The last rule can't be deleted: an empty collection reads as never seeded
+   * and the pipeline would silently fall back to the built-in rules.
+   */
+  async deleteSynonymRule(id: string): Promise<void> {
+    const rule = isValidObjectId(id) ? await SynonymRuleModel.exists({ _id: id }) : null;
+    if (!rule) throw new NotFoundError('Synonym rule not found');
+    if ((await SynonymRuleModel.countDocuments()) <= 1) {
+      throw new ConflictError(
+        'Cannot delete the last synonym rule: with none left the built-in rules apply',
+      );
+    }
+
+    await SynonymRuleModel.deleteOne({ _id: id });
+  }
+
+  /** Rewrites rule order from the given IDs, which must list every rule exactly once. */
+  async reorderSynonymRules(ids: string[]): Promise<void> {
+    const existing = await SynonymRuleModel.find().select('_id').lean();
+    const existingIds = new Set(existing.map((rule) => rule._id.toString()));
+
+    if (new Set(ids).size !== ids.length || ids.length !== existingIds.size) {
+      throw new AppError(400, 'Order must list every synonym rule exactly once');
+    }
+    if (ids.some((id) => !existingIds.has(id))) {
+      throw new AppError(400, 'Order contains an unknown synonym rule');
+    }
+
+    await SynonymRuleModel.bulkWrite(
+      ids.map((id, order) => ({
+        updateOne: { filter: { _id: id }, update: { $set: { order } } },
+      })),
+    );
+  }
+
+  // -- Language tokens --
+
+  async listLanguageTokens(): Promise<AdminLanguageTokens[]> {
+    const languages = await LanguageTokenModel.find().sort({ language: 1 }).lean();
+    return languages.map((doc) => ({ language: doc.language, tokens: doc.tokens }));
+  }
+
+  async createLanguageTokens(data: {
+    language: string;
+    tokens: string[];
+  }): Promise<AdminLanguageTokens> {
+    const language = data.language.trim().toLowerCase();
+    const existing = await LanguageTokenModel.findOne({ language }).lean();
+    if (existing) throw new ConflictError('Tokens for this language already exist');
+
+    const tokens = toLanguageTokens(data.tokens);
+    await LanguageTokenModel.create({ language, tokens });
+    return { language, tokens };
+  }
+
+  async updateLanguageTokens(language: string, tokens: string[]): Promise<AdminLanguageTokens> {
+    const doc = await LanguageTokenModel.findOne({ language });
+    if (!doc) throw new NotFoundError('Language not found');
+
+    doc.tokens = toLanguageTokens(tokens);
+    await doc.save();
+    return { language, tokens: doc.tokens };
+  }
+
+  /** Same as synonym rules: the last language would bring back the built-in list. */
+  async deleteLanguageTokens(language: string): Promise<void> {
+    const doc = await LanguageTokenModel.exists({ language });
+    if (!doc) throw new NotFoundError('Language not found');
+    if ((await LanguageTokenModel.countDocuments()) <= 1) {
+      throw new ConflictError(
+        'Cannot delete the last language: with none left the built-in list applies',
+      );
+    }
+
+    await LanguageTokenModel.deleteOne({ language });
+  }
+}
+
+function toSynonymRule(rule: {
+  _id: { toString(): string };
+  pattern: string;
+  replacement: string;
+  order: number;
+}): AdminSynonymRule {
+  return {
+    id: rule._id.toString(),
+    pattern: rule.pattern,
+    replacement: rule.replacement,
+    order: rule.order,
+  };
+}
+
+/**
+ * Stores tokens the way the pipeline compares them: normalized and without duplicates.
+ * Throws when nothing is left, since a language without tokens can never be detected.
+ */
+function toLanguageTokens(tokens: string[]): string[] {
+  const normalized = [...new Set(tokens.map(normalizeTitle).filter(Boolean))];
+  if (normalized.length === 0) {
+    throw new AppError(400, 'Tokens must contain at least one letter or digit');
+  }
+  return normalized;
+}
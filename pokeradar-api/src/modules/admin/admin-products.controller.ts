@@ -164,4 +164,42 @@ export class AdminProductsController {
       next(error);
     }
   }
+
+  // -- Cards --
+
+  async listCards(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const cards = await productsService.listCards();
+      res.json(cards);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createCard(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const card = await productsService.createCard(req.body);
+      res.status(201).json(card);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateCard(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const card = await productsService.updateCard(req.params.id as string, req.body);
+      res.json(card);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async removeCard(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await productsService.deleteCard(req.params.id as string);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -1,15 +1,22 @@
 import {
+  DEFAULT_LANGUAGE,
+  DEFAULT_LANGUAGE_TOKENS,
+  SINGLE_CARD_TYPE,
+  parseCondition,
+  parseGrade,
   loadShopInfos,
   ShopInfo,
   WatchlistProductModel,
   ProductResultModel,
   ProductSetModel,
   ProductTypeModel,
+  CardModel,
+  LanguageTokenModel,
   UserWatchEntryModel,
   NotificationStateModel,
   NotificationModel,
 } from '@pokeradar/shared';
-import { NotFoundError, ConflictError } from '../../shared/middleware';
+import { AppError, NotFoundError, ConflictError } from '../../shared/middleware';
 import { ImageService } from '../../shared/services/image.service';
 
 const imageService = new ImageService();
@@ -32,6 +39,10 @@ export interface AdminProduct {
   imageUrl: string;
   productSetId: string;
   productTypeId: string;
+  language: string;
+  cardId?: string;
+  grade?: string;
+  condition?: string;
   disabled?: boolean;
   price?: { max: number; min?: number };
   shopFinds: AdminProductShopFind[];
@@ -103,6 +114,10 @@ export class AdminProductsService {
         imageUrl: p.imageUrl,
         productSetId: p.productSetId,
         productTypeId: p.productTypeId,
+        language: p.language ?? DEFAULT_LANGUAGE,
+        cardId: p.cardId,
+        grade: p.grade,
+        condition: p.condition,
         disabled: p.disabled,
         price: p.price,
         shopFinds,
@@ -127,15 +142,25 @@ export class AdminProductsService {
     id: string;
     name: string;
     imageUrl: string;
-    productSetId: string;
-    productTypeId: string;
+    productSetId?: string;
+    productTypeId?: string;
+    cardId?: string;
+    grade?: string;
+    condition?: string;
+    language?: string;
     price?: { max: number; min?: number };
     disabled?: boolean;
   }) {
     const existing = await WatchlistProductModel.findOne({ id: data.id }).lean();
     if (existing) throw new ConflictError('Product with this ID already exists');
 
-    const product = await WatchlistProductModel.create(data);
+    await this.applyCard(data);
+    if (data.language) await this.assertLanguageKnown(data.language);
+
+    const product = await WatchlistProductModel.create({
+      ...data,
+      language: data.language?.toLowerCase(),
+    });
 
     if (product.imageUrl) {
       const renamed = await imageService.renameImage(product.imageUrl, 'products', data.id);
@@ -152,11 +177,45 @@ export class AdminProductsService {
     const product = await WatchlistProductModel.findOne({ id });
     if (!product) throw new NotFoundError('Product not found');
 
+    await this.applyCard(data);
+    // A language since removed from the matching rules can stay on the product
+    if (typeof data.language === 'string' && data.language.toLowerCase() !== product.language) {
+      await this.assertLanguageKnown(data.language);
+    }
     Object.assign(product, data);
+    if (typeof data.language === 'string') product.language = data.language.toLowerCase();
+    if (data.grade === null) product.grade = undefined;
+    if (data.condition === null) product.condition = undefined;
     await product.save();
     return product.toObject();
   }
 
+  /**
+   * Singles take their set and product type from the card, so a moved card
+   * keeps its products in step. Grades and conditions are stored in canonical
+   * form ("psa 10", "nm").
+   */
+  private async applyCard(data: {
+    cardId?: unknown;
+    grade?: unknown;
+    condition?: unknown;
+    productSetId?: unknown;
+    productTypeId?: unknown;
+  }): Promise<void> {
+    if (typeof data.cardId === 'string') {
+      const card = await CardModel.findOne({ id: data.cardId }).lean();
+      if (!card) throw new AppError(400, 'Unknown card');
+      data.productSetId = card.productSetId;
+      data.productTypeId = SINGLE_CARD_TYPE.id;
+    }
+    if (typeof data.grade === 'string') {
+      data.grade = parseGrade(data.grade) ?? undefined;
+    }
+    if (typeof data.condition === 'string') {
+      data.condition = parseCondition(data.condition) ?? undefined;
+    }
+  }
+
   async deleteProduct(id: string): Promise<void> {
     const product = await WatchlistProductModel.findOne({ id });
     if (!product) throw new NotFoundError('Product not found');
@@ -258,7 +317,10 @@ export class AdminProductsService {
       await imageService.deleteImage(set.imageUrl);
     }
 
-    await ProductSetModel.deleteOne({ id });
+    await Promise.all([
+      ProductSetModel.deleteOne({ id }),
+      CardModel.deleteMany({ productSetId: id }),
+    ]);
   }
 
   async uploadSetImage(id: string, buffer: Buffer): Promise<string> {
@@ -317,4 +379,76 @@ export class AdminProductsService {
 
     await ProductTypeModel.deleteOne({ id });
   }
+
+  // -- Cards --
+
+  async listCards() {
+    return CardModel.find().sort({ productSetId: 1, number: 1 }).lean();
+  }
+
+  async createCard(data: {
+    id: string;
+    productSetId: string;
+    name: string;
+    number: string;
+    rarity?: string;
+    imageUrl?: string;
+  }) {
+    const existing = await CardModel.findOne({ id: data.id }).lean();
+    if (existing) throw new ConflictError('Card with this ID already exists');
+    await this.assertSetExists(data.productSetId);
+
+    const card = await CardModel.create(data);
+    return card.toObject();
+  }
+
+  async updateCard(id: string, data: Record<string, unknown>) {
+    const card = await CardModel.findOne({ id });
+    if (!card) throw new NotFoundError('Card not found');
+
+    if (typeof data.productSetId === 'string' && data.productSetId !== card.productSetId) {
+      await this.assertSetExists(data.productSetId);
+      await WatchlistProductModel.updateMany(
+        { cardId: id },
+        { $set: { productSetId: data.productSetId } },
+      );
+    }
+    if (data.rarity === null) data.rarity = undefined;
+
+    Object.assign(card, data);
+    await card.save();
+    return card.toObject();
+  }
+
+  async deleteCard(id: string): Promise<void> {
+    const card = await CardModel.findOne({ id });
+    if (!card) throw new NotFoundError('Card not found');
+
+    const products = await WatchlistProductModel.find({ cardId: id }, 'id').lean();
+    for (const product of products) {
+      await this.deleteProduct(product.id);
+    }
+
+    await CardModel.deleteOne({ id });
+  }
+
+  private async assertSetExists(productSetId: string): Promise<void> {
+    const set = await ProductSetModel.exists({ id: productSetId });
+    if (!set) throw new AppError(400, 'Unknown product set');
+  }
+
+  /**
+   * A product's language must be one the pipeline can tag titles with: the
+   * default or a language from the matching rules (the built-in list until seeded).
+   */
+  private async assertLanguageKnown(language: string): Promise<void> {
+    const normalized = language.toLowerCase();
+    if (normalized === DEFAULT_LANGUAGE) return;
+
+    const configured = await LanguageTokenModel.find().select('language').lean();
+    const languages = configured.length > 0 ? configured : DEFAULT_LANGUAGE_TOKENS;
+    if (!languages.some((entry) => entry.language === normalized)) {
+      throw new AppError(400, `Unknown language "${language}"; add its tokens in matching rules`);
+    }
+  }
 }
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { AdminScansService } from './admin-scans.service';
+
+const scansService = new AdminScansService();
+
+export class AdminScansController {
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+      const tier = req.query.tier as string | undefined;
+
+      const result = await scansService.listScanRuns({
+        page,
+        limit,
+        tier: tier || undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { loadShopInfos, ScanRunModel, ShopScanMetrics } from '@pokeradar/shared';
+import { PaginatedResponse } from './admin-notifications.service';
+
+export interface AdminScanRunShop extends ShopScanMetrics {
+  shopName: string;
+}
+
+export interface AdminScanRunItem {
+  id: string;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  fetchingTier: string | null;
+  status: string;
+  error: string | null;
+  resultsWritten: number;
+  notificationsCreated: number;
+  shopsScanned: number;
+  /** Shops that hit at least one error or tripped the circuit breaker. */
+  shopsFailed: number;
+  shops: AdminScanRunShop[];
+}
+
+export class AdminScansService {
+  async listScanRuns(params: {
+    page: number;
+    limit: number;
+    tier?: string;
+  }): Promise<PaginatedResponse<AdminScanRunItem>> {
+    const { page, limit, tier } = params;
+    const filter: Record<string, unknown> = {};
+
+    if (tier) filter.fetchingTier = tier;
+
+    const [runs, total] = await Promise.all([
+      ScanRunModel.find(filter)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      ScanRunModel.countDocuments(filter),
+    ]);
+
+    const shopNames = new Map(loadShopInfos().map((s) => [s.id, s.name]));
+
+    return {
+      data: runs.map((run) => {
+        // Failing shops first, so the drill-down opens on what needs attention
+        const shops = run.shops
+          .map((shop) => ({ ...shop, shopName: shopNames.get(shop.shopId) ?? shop.shopId }))
+          .sort(
+            (a, b) => Number(isFailed(b)) - Number(isFailed(a)) || a.shopId.localeCompare(b.shopId),
+          );
+
+        return {
+          id: run._id.toString(),
+          startedAt: run.startedAt,
+          finishedAt: run.finishedAt,
+          durationMs: run.durationMs,
+          fetchingTier: run.fetchingTier ?? null,
+          status: run.status,
+          error: run.error ?? null,
+          resultsWritten: run.resultsWritten,
+          notificationsCreated: run.notificationsCreated,
+          shopsScanned: shops.length,
+          shopsFailed: shops.filter(isFailed).length,
+          shops,
+        };
+      }),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
+
+function isFailed(shop: ShopScanMetrics): boolean {
+  return shop.errorCount > 0 || shop.breakerTripped;
+}
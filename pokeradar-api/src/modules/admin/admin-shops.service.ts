@@ -4,8 +4,26 @@ import {
   ProductResultModel,
   WatchlistProductModel,
   ProductSetModel,
+  ScanRunModel,
 } from '@pokeradar/shared';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_DAYS = 7;
+const RECENT_RUNS_LIMIT = 20;
+
+/**
+ * A shop's entry in its most recent scan run.
+ */
+export interface AdminShopLastRun {
+  startedAt: Date;
+  durationMs: number;
+  found: number;
+  notFound: number;
+  errorCount: number;
+  timeouts: number;
+  breakerTripped: boolean;
+}
+
 export interface AdminShopSummary {
   shopId: string;
   shopName: string;
@@ -14,9 +32,35 @@ export interface AdminShopSummary {
   findsLastHour: number;
   availableLastHour: number;
   findsLastWeek: number;
+  lastRun: AdminShopLastRun | null;
   hasWarning: boolean;
 }
 
+/**
+ * Per-day totals of a shop's scan run entries (UTC days, oldest first).
+ */
+export interface AdminShopTrendDay {
+  date: string;
+  runs: number;
+  found: number;
+  notFound: number;
+  candidates: number;
+  matched: number;
+  unmatched: number;
+  errorCount: number;
+  timeouts: number;
+  breakerTrips: number;
+  avgDurationMs: number;
+}
+
+export interface AdminShopRun extends AdminShopLastRun {
+  searches: number;
+  candidates: number;
+  matched: number;
+  unmatched: number;
+  errorMessages: string[];
+}
+
 export interface AdminShopProduct {
   productId: string;
   productName: string;
@@ -38,9 +82,75 @@ export interface AdminShopDetail {
   availableCount: number;
   totalCount: number;
   hasWarning: boolean;
+  lastRun: AdminShopLastRun | null;
+  trend: AdminShopTrendDay[];
+  recentRuns: AdminShopRun[];
   products: AdminShopProduct[];
 }
 
+/**
+ * $project/$group fields of AdminShopLastRun, read from an unwound ScanRun.
+ */
+const lastRunProjection = {
+  startedAt: '$startedAt',
+  durationMs: '$shops.durationMs',
+  found: '$shops.found',
+  notFound: '$shops.notFound',
+  errorCount: '$shops.errorCount',
+  timeouts: '$shops.timeouts',
+  breakerTripped: '$shops.breakerTripped',
+};
+
+function toLastRun(run: AdminShopRun): AdminShopLastRun {
+  const { startedAt, durationMs, found, notFound, errorCount, timeouts, breakerTripped } = run;
+  return { startedAt, durationMs, found, notFound, errorCount, timeouts, breakerTripped };
+}
+
+/**
+ * Buckets runs into one entry per UTC day for the last TREND_DAYS days,
+ * including days without runs so the series has no gaps.
+ */
+function buildTrend(runs: AdminShopRun[], now: Date): AdminShopTrendDay[] {
+  const days = new Map<string, AdminShopTrendDay & { totalDurationMs: number }>();
+  for (let i = TREND_DAYS - 1; i >= 0; i--) {
+    const date = new Date(now.getTime() - i * DAY_MS).toISOString().slice(0, 10);
+    days.set(date, {
+      date,
+      runs: 0,
+      found: 0,
+      notFound: 0,
+      candidates: 0,
+      matched: 0,
+      unmatched: 0,
+      errorCount: 0,
+      timeouts: 0,
+      breakerTrips: 0,
+      avgDurationMs: 0,
+      totalDurationMs: 0,
+    });
+  }
+
+  for (const run of runs) {
+    const day = days.get(new Date(run.startedAt).toISOString().slice(0, 10));
+    if (!day) continue;
+    day.runs++;
+    day.found += run.found;
+    day.notFound += run.notFound;
+    day.candidates += run.candidates;
+    day.matched += run.matched;
+    day.unmatched += run.unmatched;
+    day.errorCount += run.errorCount;
+    day.timeouts += run.timeouts;
+    day.breakerTrips += run.breakerTripped ? 1 : 0;
+    day.totalDurationMs += run.durationMs;
+  }
+
+  return Array.from(days.values()).map(({ totalDurationMs, ...day }) => ({
+    ...day,
+    avgDurationMs: day.runs > 0 ? Math.round(totalDurationMs / day.runs) : 0,
+  }));
+}
+
 export class AdminShopsService {
   async listShops(): Promise<AdminShopSummary[]> {
     const shops = loadShopInfos();
@@ -83,10 +193,31 @@ export class AdminShopsService {
       ]),
     );
 
+    const weekAgo = new Date(Date.now() - TREND_DAYS * DAY_MS);
+    const runTotals = await ScanRunModel.aggregate<{
+      _id: string;
+      findsLastWeek: number;
+      lastRun: AdminShopLastRun;
+    }>([
+      { $match: { startedAt: { $gte: weekAgo } } },
+      { $sort: { startedAt: -1 } },
+      { $unwind: '$shops' },
+      {
+        $group: {
+          _id: '$shops.shopId',
+          findsLastWeek: { $sum: '$shops.found' },
+          lastRun: { $first: lastRunProjection },
+        },
+      },
+    ]);
+    const runMap = new Map(runTotals.map((r) => [r._id, r]));
+
     return shops.map((shop: ShopInfo) => {
       const entry = hourlyMap.get(shop.id);
       const findsLastHour = entry?.count ?? 0;
       const availableLastHour = entry?.availableCount ?? 0;
+      const runs = runMap.get(shop.id);
+      const lastRun = runs?.lastRun ?? null;
       return {
         shopId: shop.id,
         shopName: shop.name,
@@ -94,8 +225,9 @@ export class AdminShopsService {
         disabled: shop.disabled ?? false,
         findsLastHour,
         availableLastHour,
-        findsLastWeek: 0, // Deprecated but kept for backwards compatibility
-        hasWarning: !shop.disabled && findsLastHour === 0,
+        findsLastWeek: runs?.findsLastWeek ?? 0,
+        lastRun,
+        hasWarning: !shop.disabled && (findsLastHour === 0 || Boolean(lastRun?.breakerTripped)),
       };
     });
   }
@@ -106,17 +238,30 @@ export class AdminShopsService {
     if (!shop) return null;
 
     const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const weekAgo = new Date(Date.now() - TREND_DAYS * DAY_MS);
 
-    const [hourlyCount, weeklyCount, latestResults] = await Promise.all([
+    const [hourlyCount, shopRuns, latestResults] = await Promise.all([
       ProductResultModel.countDocuments({
         shopId,
         timestamp: { $gte: hourAgo },
       }),
-      ProductResultModel.countDocuments({
-        shopId,
-        timestamp: { $gte: weekAgo },
-      }),
+      ScanRunModel.aggregate<AdminShopRun>([
+        { $match: { startedAt: { $gte: weekAgo }, 'shops.shopId': shopId } },
+        { $sort: { startedAt: -1 } },
+        { $unwind: '$shops' },
+        { $match: { 'shops.shopId': shopId } },
+        {
+          $project: {
+            _id: 0,
+            ...lastRunProjection,
+            searches: '$shops.searches',
+            candidates: '$shops.candidates',
+            matched: '$shops.matched',
+            unmatched: '$shops.unmatched',
+            errorMessages: '$shops.errorMessages',
+          },
+        },
+      ]),
       ProductResultModel.aggregate([
         { $match: { shopId, timestamp: { $gte: hourAgo } } },
         { $sort: { timestamp: -1 } },
@@ -166,15 +311,20 @@ export class AdminShopsService {
     ).length;
     const totalCount = latestResults.length;
 
+    const lastRun = shopRuns[0] ?? null;
+
     return {
       shopId: shop.id,
       shopName: shop.name,
       baseUrl: shop.baseUrl,
       findsLastHour: hourlyCount,
-      findsLastWeek: weeklyCount,
+      findsLastWeek: shopRuns.reduce((sum, run) => sum + run.found, 0),
       availableCount,
       totalCount,
-      hasWarning: !shop.disabled && hourlyCount === 0,
+      hasWarning: !shop.disabled && (hourlyCount === 0 || Boolean(lastRun?.breakerTripped)),
+      lastRun: lastRun && toLastRun(lastRun),
+      trend: buildTrend(shopRuns, new Date()),
+      recentRuns: shopRuns.slice(0, RECENT_RUNS_LIMIT),
       products: latestResults.map((r: Record<string, unknown>) => {
         const productId = r.productId as string;
         const product = productMap.get(productId);
@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { AdminUnmatchedService } from './admin-unmatched.service';
+
+const unmatchedService = new AdminUnmatchedService();
+
+export class AdminUnmatchedController {
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+      const reason = req.query.reason as string | undefined;
+      const shopId = req.query.shopId as string | undefined;
+      const search = req.query.search as string | undefined;
+
+      const result = await unmatchedService.listGroups({
+        page,
+        limit,
+        reason: reason || undefined,
+        shopId: shopId || undefined,
+        search: search?.trim() || undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async dismiss(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dismissed = await unmatchedService.dismiss(req.body.normalizedTitle);
+      res.json({ dismissed });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { PipelineStage } from 'mongoose';
+import { loadShopInfos, UnmatchedTitleModel, ProductTypeModel } from '@pokeradar/shared';
+import { PaginatedResponse } from './admin-notifications.service';
+
+const EXAMPLES_LIMIT = 5;
+
+export interface AdminUnmatchedExample {
+  shopId: string;
+  shopName: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * Unmatched titles grouped by normalized title, so the same product listed
+ * by several shops shows up once.
+ */
+export interface AdminUnmatchedGroup {
+  normalizedTitle: string;
+  reason: string;
+  productTypeId: string | null;
+  productTypeName: string | null;
+  /** Sum of per-shop sightings (one per shop per scan cycle). */
+  seenCount: number;
+  shopCount: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  examples: AdminUnmatchedExample[];
+}
+
+interface UnmatchedGroupRow {
+  _id: string;
+  reason: string;
+  productTypeId: string | null;
+  seenCount: number;
+  shopIds: string[];
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  examples: Array<{ shopId: string; title: string; url: string }>;
+}
+
+export class AdminUnmatchedService {
+  async listGroups(params: {
+    page: number;
+    limit: number;
+    reason?: string;
+    shopId?: string;
+    search?: string;
+  }): Promise<PaginatedResponse<AdminUnmatchedGroup>> {
+    const { page, limit, reason, shopId, search } = params;
+    const match: Record<string, unknown> = { dismissed: false };
+
+    if (reason) match.reason = reason;
+    if (shopId) match.shopId = shopId;
+    if (search) {
+      match.normalizedTitle = { $regex: escapeRegex(search.toLowerCase()) };
+    }
+
+    const pipeline: PipelineStage[] = [
+      { $match: match },
+      { $sort: { lastSeenAt: -1 } },
+      {
+        $group: {
+          _id: '$normalizedTitle',
+          reason: { $first: '$reason' },
+          productTypeId: { $first: '$productTypeId' },
+          seenCount: { $sum: '$seenCount' },
+          shopIds: { $addToSet: '$shopId' },
+          firstSeenAt: { $min: '$firstSeenAt' },
+          lastSeenAt: { $max: '$lastSeenAt' },
+          examples: { $push: { shopId: '$shopId', title: '$title', url: '$url' } },
+        },
+      },
+      { $sort: { seenCount: -1, lastSeenAt: -1 } },
+      {
+        $facet: {
+          data: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            { $addFields: { examples: { $slice: ['$examples', EXAMPLES_LIMIT] } } },
+          ],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ];
+
+    const [result] = await UnmatchedTitleModel.aggregate<{
+      data: UnmatchedGroupRow[];
+      total: Array<{ count: number }>;
+    }>(pipeline);
+    const rows = result?.data ?? [];
+    const total = result?.total[0]?.count ?? 0;
+
+    const shopNames = new Map(loadShopInfos().map((s) => [s.id, s.name]));
+    const typeIds = [
+      ...new Set(rows.map((r) => r.productTypeId).filter((id): id is string => Boolean(id))),
+    ];
+    const types =
+      typeIds.length > 0
+        ? await ProductTypeModel.find({ id: { $in: typeIds } })
+            .select('id name')
+            .lean()
+        : [];
+    const typeNames = new Map(types.map((t) => [t.id, t.name]));
+
+    return {
+      data: rows.map((row) => ({
+        normalizedTitle: row._id,
+        reason: row.reason,
+        productTypeId: row.productTypeId,
+        productTypeName: row.productTypeId ? (typeNames.get(row.productTypeId) ?? null) : null,
+        seenCount: row.seenCount,
+        shopCount: row.shopIds.length,
+        firstSeenAt: row.firstSeenAt,
+        lastSeenAt: row.lastSeenAt,
+        examples: row.examples.map((e) => ({
+          ...e,
+          shopName: shopNames.get(e.shopId) ?? e.shopId,
+        })),
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Hides a title group from the inbox. Shops that keep listing it stay hidden.
+   */
+  async dismiss(normalizedTitle: string): Promise<number> {
+    const result = await UnmatchedTitleModel.updateMany(
+      { normalizedTitle },
+      { $set: { dismissed: true } },
+    );
+    return result.modifiedCount;
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -4,6 +4,9 @@ import { AdminShopsController } from './admin-shops.controller';
 import { AdminProductsController } from './admin-products.controller';
 import { AdminUsersController } from './admin-users.controller';
 import { AdminNotificationsController } from './admin-notifications.controller';
+import { AdminScansController } from './admin-scans.controller';
+import { AdminUnmatchedController } from './admin-unmatched.controller';
+import { AdminMatchingController } from './admin-matching.controller';
 import {
   createProductSchema,
   updateProductSchema,
@@ -11,6 +14,15 @@ import {
   updateProductSetSchema,
   createProductTypeSchema,
   updateProductTypeSchema,
+  createCardSchema,
+  updateCardSchema,
+  dismissUnmatchedSchema,
+  explainMatchSchema,
+  createSynonymRuleSchema,
+  updateSynonymRuleSchema,
+  reorderSynonymRulesSchema,
+  createLanguageTokensSchema,
+  updateLanguageTokensSchema,
 } from './admin.validation';
 
 const router = Router();
@@ -18,10 +30,14 @@ const shopsCtrl = new AdminShopsController();
 const productsCtrl = new AdminProductsController();
 const usersCtrl = new AdminUsersController();
 const notificationsCtrl = new AdminNotificationsController();
+const scansCtrl = new AdminScansController();
+const unmatchedCtrl = new AdminUnmatchedController();
+const matchingCtrl = new AdminMatchingController();
 
 // Shop monitoring
 router.get('/shops', (req, res, next) => shopsCtrl.list(req, res, next));
 router.get('/shops/:shopId', (req, res, next) => shopsCtrl.getById(req, res, next));
+router.get('/scans', (req, res, next) => scansCtrl.list(req, res, next));
 
 // WatchlistProducts CRUD
 router.get('/products', (req, res, next) => productsCtrl.list(req, res, next));
@@ -65,6 +81,54 @@ router.patch('/product-types/:id', validate(updateProductTypeSchema), (req, res,
 );
 router.delete('/product-types/:id', (req, res, next) => productsCtrl.removeType(req, res, next));
 
+// Cards CRUD
+router.get('/cards', (req, res, next) => productsCtrl.listCards(req, res, next));
+router.post('/cards', validate(createCardSchema), (req, res, next) =>
+  productsCtrl.createCard(req, res, next),
+);
+router.patch('/cards/:id', validate(updateCardSchema), (req, res, next) =>
+  productsCtrl.updateCard(req, res, next),
+);
+router.delete('/cards/:id', (req, res, next) => productsCtrl.removeCard(req, res, next));
+
+// Matching playground
+router.post('/matching/explain', validate(explainMatchSchema), (req, res, next) =>
+  matchingCtrl.explain(req, res, next),
+);
+
+// Matching rules CRUD
+router.get('/matching/synonyms', (req, res, next) => matchingCtrl.listSynonyms(req, res, next));
+router.post('/matching/synonyms', validate(createSynonymRuleSchema), (req, res, next) =>
+  matchingCtrl.createSynonym(req, res, next),
+);
+router.put('/matching/synonyms/order', validate(reorderSynonymRulesSchema), (req, res, next) =>
+  matchingCtrl.reorderSynonyms(req, res, next),
+);
+router.patch('/matching/synonyms/:id', validate(updateSynonymRuleSchema), (req, res, next) =>
+  matchingCtrl.updateSynonym(req, res, next),
+);
+router.delete('/matching/synonyms/:id', (req, res, next) =>
+  matchingCtrl.removeSynonym(req, res, next),
+);
+router.get('/matching/languages', (req, res, next) => matchingCtrl.listLanguages(req, res, next));
+router.post('/matching/languages', validate(createLanguageTokensSchema), (req, res, next) =>
+  matchingCtrl.createLanguage(req, res, next),
+);
+router.patch(
+  '/matching/languages/:language',
+  validate(updateLanguageTokensSchema),
+  (req, res, next) => matchingCtrl.updateLanguage(req, res, next),
+);
+router.delete('/matching/languages/:language', (req, res, next) =>
+  matchingCtrl.removeLanguage(req, res, next),
+);
+
+// Unmatched-title inbox
+router.get('/unmatched', (req, res, next) => unmatchedCtrl.list(req, res, next));
+router.post('/unmatched/dismiss', validate(dismissUnmatchedSchema), (req, res, next) =>
+  unmatchedCtrl.dismiss(req, res, next),
+);
+
 // Users
 router.get('/users', (req, res, next) => usersCtrl.search(req, res, next));
 router.get('/users/:clerkId', (req, res, next) => usersCtrl.getById(req, res, next));
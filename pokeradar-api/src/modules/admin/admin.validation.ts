@@ -1,24 +1,62 @@
 import { z } from 'zod';
+import {
+  compileSynonymPattern,
+  parseCardNumber,
+  parseCondition,
+  parseGrade,
+} from '@pokeradar/shared';
+
+const cardNumber = z
+  .string()
+  .trim()
+  .refine((value) => parseCardNumber(value) !== null, 'Number must look like "238/191"');
+
+const grade = z
+  .string()
+  .trim()
+  .refine((value) => parseGrade(value) !== null, 'Grade must look like "PSA 10" or "BGS 9.5"');
+
+/** Raw-card condition; ignored in the match key when the product also has a grade. */
+const condition = z
+  .string()
+  .trim()
+  .refine(
+    (value) => parseCondition(value) !== null,
+    'Condition must be one of NM, LP, MP, HP or DMG',
+  );
 
 export const createProductSchema = z.object({
-  body: z.object({
-    id: z
-      .string()
-      .trim()
-      .min(1)
-      .regex(/^[a-z0-9-]+$/, 'ID must be lowercase alphanumeric with hyphens'),
-    name: z.string().trim().min(1),
-    imageUrl: z.string().trim().url().optional(),
-    productSetId: z.string().trim().min(1),
-    productTypeId: z.string().trim().min(1),
-    price: z
-      .object({
-        max: z.number().positive(),
-        min: z.number().positive().optional(),
-      })
-      .optional(),
-    disabled: z.boolean().optional(),
-  }),
+  body: z
+    .object({
+      id: z
+        .string()
+        .trim()
+        .min(1)
+        .regex(/^[a-z0-9-]+$/, 'ID must be lowercase alphanumeric with hyphens'),
+      name: z.string().trim().min(1),
+      imageUrl: z.string().trim().url().optional(),
+      productSetId: z.string().trim().min(1).optional(),
+      productTypeId: z.string().trim().min(1).optional(),
+      cardId: z.string().trim().min(1).optional(),
+      grade: grade.optional(),
+      condition: condition.optional(),
+      language: z
+        .string()
+        .trim()
+        .min(1)
+        .regex(/^[a-z-]+$/i, 'Language must contain only letters and hyphens')
+        .optional(),
+      price: z
+        .object({
+          max: z.number().positive(),
+          min: z.number().positive().optional(),
+        })
+        .optional(),
+      disabled: z.boolean().optional(),
+    })
+    .refine((body) => body.cardId || (body.productSetId && body.productTypeId), {
+      message: 'Set and product type are required unless the product is a single card',
+    }),
 });
 
 export const updateProductSchema = z.object({
@@ -27,6 +65,15 @@ export const updateProductSchema = z.object({
     imageUrl: z.string().trim().url().optional(),
     productSetId: z.string().trim().min(1).optional(),
     productTypeId: z.string().trim().min(1).optional(),
+    cardId: z.string().trim().min(1).optional(),
+    grade: grade.nullable().optional(),
+    condition: condition.nullable().optional(),
+    language: z
+      .string()
+      .trim()
+      .min(1)
+      .regex(/^[a-z-]+$/i, 'Language must contain only letters and hyphens')
+      .optional(),
     price: z
       .object({
         max: z.number().positive(),
@@ -93,3 +140,88 @@ export const updateProductTypeSchema = z.object({
     contains: z.array(z.string().trim().min(1)).optional(),
   }),
 });
+
+export const createCardSchema = z.object({
+  body: z.object({
+    id: z
+      .string()
+      .trim()
+      .min(1)
+      .regex(/^[a-z0-9-]+$/, 'ID must be lowercase alphanumeric with hyphens'),
+    productSetId: z.string().trim().min(1),
+    name: z.string().trim().min(1),
+    number: cardNumber,
+    rarity: z.string().trim().min(1).optional(),
+    imageUrl: z.string().trim().url().optional(),
+  }),
+});
+
+export const updateCardSchema = z.object({
+  body: z.object({
+    productSetId: z.string().trim().min(1).optional(),
+    name: z.string().trim().min(1).optional(),
+    number: cardNumber.optional(),
+    rarity: z.string().trim().min(1).nullable().optional(),
+    imageUrl: z.string().trim().url().optional(),
+  }),
+});
+
+export const dismissUnmatchedSchema = z.object({
+  body: z.object({
+    normalizedTitle: z.string().min(1),
+  }),
+});
+
+export const explainMatchSchema = z.object({
+  body: z.object({
+    titles: z.array(z.string().trim().min(1)).min(1).max(20),
+  }),
+});
+
+const synonymPattern = z.string().superRefine((pattern, ctx) => {
+  try {
+    compileSynonymPattern(pattern);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : 'Invalid pattern',
+    });
+  }
+});
+
+export const createSynonymRuleSchema = z.object({
+  body: z.object({
+    pattern: synonymPattern,
+    replacement: z.string(),
+  }),
+});
+
+export const updateSynonymRuleSchema = z.object({
+  body: z.object({
+    pattern: synonymPattern.optional(),
+    replacement: z.string().optional(),
+  }),
+});
+
+export const reorderSynonymRulesSchema = z.object({
+  body: z.object({
+    ids: z.array(z.string().min(1)),
+  }),
+});
+
+export const createLanguageTokensSchema = z.object({
+  body: z.object({
+    language: z
+      .string()
+      .trim()
+      .min(1)
+      .regex(/^[a-z-]+$/i, 'Language must contain only letters and hyphens'),
+    tokens: z.array(z.string().trim().min(1)).min(1),
+  }),
+});
+
+export const updateLanguageTokensSchema = z.object({
+  body: z.object({
+    tokens: z.array(z.string().trim().min(1)).min(1),
+  }),
+});
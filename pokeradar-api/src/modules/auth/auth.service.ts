@@ -1,5 +1,5 @@
 import { clerkClient } from '@clerk/express';
-import { UserModel } from '@pokeradar/shared';
+import { UserModel, DEFAULT_NOTIFICATION_SCHEDULE } from '@pokeradar/shared';
 import { UserProfileResponse } from '../../shared/types';
 
 export class AuthService {
@@ -22,6 +22,20 @@ export class AuthService {
         linked: (user.discord?.channelId ?? null) !== null,
         linkToken: user.discord?.linkToken ?? null,
       },
+      emailChannel: {
+        linked: (user.email?.channelId ?? null) !== null,
+        address: user.email?.channelId ?? null,
+        pendingAddress: user.email?.pendingAddress ?? null,
+      },
+      pushChannel: {
+        linked: (user.pushSubscriptions?.length ?? 0) > 0,
+        endpoints: (user.pushSubscriptions ?? []).map((s) => s.endpoint),
+      },
+      webhookChannel: {
+        linked: (user.webhooks ?? []).some((w) => !w.disabled),
+      },
+      excludedShopIds: user.excludedShopIds ?? [],
+      notificationSchedule: user.notificationSchedule ?? DEFAULT_NOTIFICATION_SCHEDULE,
     };
   }
 }
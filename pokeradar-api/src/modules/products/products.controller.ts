@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { ProductsService } from './products.service';
+import { PriceHistoryRange } from '../../shared/types';
 
 const productsService = new ProductsService();
 
@@ -41,4 +42,20 @@ export class ProductsController {
       next(error);
     }
   }
+
+  async getHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = req.params.id as string;
+      const product = await productsService.getById(id);
+      if (!product) {
+        res.status(404).json({ error: 'Product not found' });
+        return;
+      }
+      const range = (req.query.range as PriceHistoryRange | undefined) ?? '30d';
+      const history = await productsService.getHistory(id, range);
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { ProductsController } from './products.controller';
+import { validate } from '../../shared/middleware';
+import { historyQuerySchema } from './products.validation';
 
 const router = Router();
 const controller = new ProductsController();
@@ -7,5 +9,8 @@ const controller = new ProductsController();
 router.get('/', (req, res, next) => controller.list(req, res, next));
 router.get('/:id', (req, res, next) => controller.getById(req, res, next));
 router.get('/:id/prices', (req, res, next) => controller.getPrices(req, res, next));
+router.get('/:id/history', validate(historyQuerySchema), (req, res, next) =>
+  controller.getHistory(req, res, next),
+);
 
 export default router;
@@ -1,15 +1,32 @@
 import {
   WatchlistProductModel,
   ProductResultModel,
+  ProductPriceHistoryModel,
   getFreshnessCutoff,
   buildBestPriceAggregation,
+  buildLatestShopPricesAggregation,
+  DEFAULT_LANGUAGE,
 } from '@pokeradar/shared';
-import { Product, ProductWithPrice, ProductPriceResponse } from '../../shared/types';
+import {
+  Product,
+  ProductWithPrice,
+  ProductPriceResponse,
+  PriceHistoryRange,
+  ProductPriceHistoryResponse,
+} from '../../shared/types';
+
+const RANGE_DAYS: Record<PriceHistoryRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  all: null,
+};
 
 export class ProductsService {
   async listAll(): Promise<ProductWithPrice[]> {
     const docs = await WatchlistProductModel.find()
-      .select('id name imageUrl productSetId disabled')
+      .select('id name imageUrl productSetId language disabled')
       .lean();
 
     const products: Product[] = docs.map((doc) => ({
@@ -17,6 +34,7 @@ export class ProductsService {
       name: doc.name,
       imageUrl: doc.imageUrl,
       productSetId: doc.productSetId,
+      language: doc.language ?? DEFAULT_LANGUAGE,
       disabled: doc.disabled,
     }));
 
@@ -33,7 +51,7 @@ export class ProductsService {
 
   async getById(id: string): Promise<Product | null> {
     const doc = await WatchlistProductModel.findOne({ id })
-      .select('id name imageUrl productSetId disabled')
+      .select('id name imageUrl productSetId language disabled')
       .lean();
     if (!doc) return null;
     return {
@@ -41,6 +59,7 @@ export class ProductsService {
       name: doc.name,
       imageUrl: doc.imageUrl,
       productSetId: doc.productSetId,
+      language: doc.language ?? DEFAULT_LANGUAGE,
       disabled: doc.disabled,
     };
   }
@@ -48,26 +67,9 @@ export class ProductsService {
   async getPrices(productId: string): Promise<ProductPriceResponse[]> {
     const cutoff = getFreshnessCutoff();
 
-    const results = await ProductResultModel.aggregate([
-      {
-        $match: {
-          productId,
-          timestamp: { $gte: cutoff },
-        },
-      },
-      { $sort: { shopId: 1, timestamp: -1 } },
-      {
-        $group: {
-          _id: '$shopId',
-          shopId: { $first: '$shopId' },
-          price: { $first: '$price' },
-          isAvailable: { $first: '$isAvailable' },
-          productUrl: { $first: '$productUrl' },
-          timestamp: { $first: '$timestamp' },
-        },
-      },
-      { $sort: { price: 1 } },
-    ]);
+    const results = await ProductResultModel.aggregate(
+      buildLatestShopPricesAggregation(productId, cutoff),
+    );
 
     return results.map((r) => ({
       shopId: r.shopId,
@@ -78,6 +80,36 @@ export class ProductsService {
     }));
   }
 
+  async getHistory(
+    productId: string,
+    range: PriceHistoryRange,
+  ): Promise<ProductPriceHistoryResponse> {
+    const days = RANGE_DAYS[range];
+    const filter: Record<string, unknown> = { productId };
+    if (days !== null) {
+      const from = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+      filter.dayBucket = { $gte: from.toISOString().slice(0, 10) };
+    }
+
+    const docs = await ProductPriceHistoryModel.find(filter)
+      .sort({ dayBucket: 1, shopId: 1 })
+      .lean();
+
+    return {
+      productId,
+      range,
+      points: docs.map((doc) => ({
+        day: doc.dayBucket,
+        shopId: doc.shopId,
+        minPrice: doc.minPrice ?? null,
+        maxPrice: doc.maxPrice ?? null,
+        closePrice: doc.closePrice ?? null,
+        wasAvailable: doc.wasAvailable,
+        productUrl: doc.productUrl,
+      })),
+    };
+  }
+
   private async getBestPrices(
     productIds: string[],
   ): Promise<Map<string, { bestPrice: number; shopId: string; productUrl: string }>> {
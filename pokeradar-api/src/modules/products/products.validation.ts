@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const historyQuerySchema = z.object({
+  query: z.object({
+    range: z.enum(['7d', '30d', '90d', '1y', 'all']).optional(),
+  }),
+});
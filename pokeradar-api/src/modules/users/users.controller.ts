@@ -49,6 +49,131 @@ export class UsersController {
     }
   }
 
+  async requestEmailLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const address = String(req.body.address).trim().toLowerCase();
+      const result = await usersService.requestEmailLink(req.user!.userId, address);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await usersService.verifyEmail(req.user!.userId, req.body.token);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async unlinkEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await usersService.unlinkEmail(req.user!.userId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async subscribePush(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { endpoint, keys } = req.body;
+      const result = await usersService.subscribePush(req.user!.userId, {
+        endpoint,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async unsubscribePush(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await usersService.unsubscribePush(req.user!.userId, req.body.endpoint);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listWebhooks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const webhooks = await usersService.listWebhooks(req.user!.userId);
+      res.json(webhooks);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const url = String(req.body.url).trim();
+      const webhook = await usersService.createWebhook(req.user!.userId, url);
+      res.status(201).json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async enableWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const webhook = await usersService.enableWebhook(
+        req.user!.userId,
+        req.params.webhookId as string,
+      );
+      res.json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await usersService.deleteWebhook(
+        req.user!.userId,
+        req.params.webhookId as string,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getShops(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const shops = await usersService.getShopPreferences(req.user!.userId);
+      res.json(shops);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateExcludedShops(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const shops = await usersService.updateExcludedShops(req.user!.userId, req.body.shopIds);
+      res.json(shops);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateNotificationSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { timezone, quietHours, digestTime } = req.body;
+      const schedule = await usersService.updateNotificationSchedule(req.user!.userId, {
+        timezone,
+        quietHours,
+        digestTime,
+      });
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async streamLinkStatus(req: Request, res: Response, _next: NextFunction): Promise<void> {
     res.setHeader('Content-Type', 'text/event-stream');
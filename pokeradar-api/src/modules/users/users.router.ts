@@ -1,5 +1,15 @@
 import { Router } from 'express';
 import { UsersController } from './users.controller';
+import { emailLinkRateLimiter, validate } from '../../shared/middleware';
+import {
+  requestEmailLinkSchema,
+  verifyEmailSchema,
+  subscribePushSchema,
+  unsubscribePushSchema,
+  createWebhookSchema,
+  updateExcludedShopsSchema,
+  updateNotificationScheduleSchema,
+} from './users.validation';
 
 const router = Router();
 const controller = new UsersController();
@@ -16,5 +26,37 @@ router.post('/me/discord/link-token', (req, res, next) =>
   controller.generateDiscordLinkToken(req, res, next),
 );
 router.delete('/me/discord', (req, res, next) => controller.unlinkDiscord(req, res, next));
+router.post('/me/email', emailLinkRateLimiter, validate(requestEmailLinkSchema), (req, res, next) =>
+  controller.requestEmailLink(req, res, next),
+);
+router.post('/me/email/verify', validate(verifyEmailSchema), (req, res, next) =>
+  controller.verifyEmail(req, res, next),
+);
+router.delete('/me/email', (req, res, next) => controller.unlinkEmail(req, res, next));
+router.post('/me/push', validate(subscribePushSchema), (req, res, next) =>
+  controller.subscribePush(req, res, next),
+);
+router.delete('/me/push', validate(unsubscribePushSchema), (req, res, next) =>
+  controller.unsubscribePush(req, res, next),
+);
+router.get('/me/webhooks', (req, res, next) => controller.listWebhooks(req, res, next));
+router.post('/me/webhooks', validate(createWebhookSchema), (req, res, next) =>
+  controller.createWebhook(req, res, next),
+);
+router.post('/me/webhooks/:webhookId/enable', (req, res, next) =>
+  controller.enableWebhook(req, res, next),
+);
+router.delete('/me/webhooks/:webhookId', (req, res, next) =>
+  controller.deleteWebhook(req, res, next),
+);
+router.get('/me/shops', (req, res, next) => controller.getShops(req, res, next));
+router.put('/me/shops/excluded', validate(updateExcludedShopsSchema), (req, res, next) =>
+  controller.updateExcludedShops(req, res, next),
+);
+router.put(
+  '/me/notification-schedule',
+  validate(updateNotificationScheduleSchema),
+  (req, res, next) => controller.updateNotificationSchedule(req, res, next),
+);
 
 export default router;
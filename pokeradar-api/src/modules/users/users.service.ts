@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { Types } from 'mongoose';
+import { Types, isValidObjectId } from 'mongoose';
 import type { ChangeStreamUpdateDocument } from 'mongodb';
 import { clerkClient } from '@clerk/express';
 import {
@@ -7,9 +7,69 @@ import {
   UserWatchEntryModel,
   NotificationStateModel,
   NotificationModel,
+  loadShopInfos,
+  DEFAULT_NOTIFICATION_SCHEDULE,
 } from '@pokeradar/shared';
-import { UserProfileResponse, LinkTokenResponse } from '../../shared/types';
-import { NotFoundError } from '../../shared/middleware';
+import type {
+  IEmailChannelData,
+  IPushSubscription,
+  IUserDoc,
+  IWebhook,
+  NotificationSchedule,
+} from '@pokeradar/shared';
+import {
+  UserProfileResponse,
+  LinkTokenResponse,
+  ShopPreferenceResponse,
+  EmailChannelStatus,
+  PushChannelStatus,
+  WebhookResponse,
+  CreatedWebhookResponse,
+} from '../../shared/types';
+import { AppError, ConflictError, NotFoundError } from '../../shared/middleware';
+import { EmailService, EMAIL_LINK_TTL_HOURS } from '../../shared/services/email.service';
+
+const emailService = new EmailService();
+
+function toEmailChannelStatus(email: IEmailChannelData | null | undefined): EmailChannelStatus {
+  return {
+    linked: (email?.channelId ?? null) !== null,
+    address: email?.channelId ?? null,
+    pendingAddress: email?.pendingAddress ?? null,
+  };
+}
+
+function toPushChannelStatus(subscriptions: IPushSubscription[] | undefined): PushChannelStatus {
+  const endpoints = (subscriptions ?? []).map((s) => s.endpoint);
+  return { linked: endpoints.length > 0, endpoints };
+}
+
+/** Webhooks a user may register. */
+export const MAX_WEBHOOKS = 5;
+
+/** Minimum time between two verification emails for one user. */
+export const EMAIL_LINK_COOLDOWN_MINUTES = 2;
+
+function toWebhookResponse(webhook: IWebhook): WebhookResponse {
+  return {
+    id: webhook._id.toString(),
+    url: webhook.url,
+    disabled: webhook.disabled,
+    consecutiveFailures: webhook.consecutiveFailures,
+    createdAt: webhook.createdAt,
+  };
+}
+
+/** True while the user still has somewhere to receive notifications. */
+function hasLinkedChannel(user: IUserDoc): boolean {
+  return (
+    user.telegram?.channelId != null ||
+    user.discord?.channelId != null ||
+    user.email?.channelId != null ||
+    (user.pushSubscriptions?.length ?? 0) > 0 ||
+    (user.webhooks ?? []).some((w) => !w.disabled)
+  );
+}
 
 export interface UnlinkResult {
   watchlistCleared: boolean;
@@ -36,9 +96,58 @@ export class UsersService {
         linked: user.discord?.channelId !== null && user.discord?.channelId !== undefined,
         linkToken: user.discord?.linkToken ?? null,
       },
+      emailChannel: toEmailChannelStatus(user.email),
+      pushChannel: toPushChannelStatus(user.pushSubscriptions),
+      webhookChannel: { linked: (user.webhooks ?? []).some((w) => !w.disabled) },
+      excludedShopIds: user.excludedShopIds ?? [],
+      notificationSchedule: user.notificationSchedule ?? DEFAULT_NOTIFICATION_SCHEDULE,
     };
   }
 
+  /**
+   * Lists shops alerts can come from, flagged with the user's exclusions.
+   * Disabled shops are left out unless the user already excluded them.
+   */
+  async getShopPreferences(userId: string): Promise<ShopPreferenceResponse[]> {
+    const user = await UserModel.findById(userId).select('excludedShopIds').lean();
+    if (!user) throw new NotFoundError('User not found');
+
+    const excluded = new Set(user.excludedShopIds ?? []);
+    return loadShopInfos()
+      .filter((shop) => !shop.disabled || excluded.has(shop.id))
+      .map((shop) => ({ id: shop.id, name: shop.name, excluded: excluded.has(shop.id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateExcludedShops(userId: string, shopIds: string[]): Promise<ShopPreferenceResponse[]> {
+    const known = new Set(loadShopInfos().map((shop) => shop.id));
+    const unknown = shopIds.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new AppError(400, `Unknown shops: ${unknown.join(', ')}`);
+    }
+
+    const user = await UserModel.findByIdAndUpdate(userId, {
+      $set: { excludedShopIds: [...new Set(shopIds)] },
+    });
+    if (!user) throw new NotFoundError('User not found');
+
+    return this.getShopPreferences(userId);
+  }
+
+  async updateNotificationSchedule(
+    userId: string,
+    schedule: NotificationSchedule,
+  ): Promise<NotificationSchedule> {
+    const user = await UserModel.findByIdAndUpdate(
+      userId,
+      { $set: { notificationSchedule: schedule } },
+      { new: true },
+    ).lean();
+    if (!user) throw new NotFoundError('User not found');
+
+    return user.notificationSchedule ?? DEFAULT_NOTIFICATION_SCHEDULE;
+  }
+
   async generateTelegramLinkToken(userId: string): Promise<LinkTokenResponse> {
     const token = crypto.randomUUID();
 
@@ -62,8 +171,7 @@ export class UsersService {
 
     if (!user) throw new NotFoundError('User not found');
 
-    const hasOtherChannel = user.discord?.channelId != null;
-    if (!hasOtherChannel) {
+    if (!hasLinkedChannel(user)) {
       return this.clearWatchlistForUser(userId);
     }
 
@@ -93,8 +201,198 @@ export class UsersService {
 
     if (!user) throw new NotFoundError('User not found');
 
-    const hasOtherChannel = user.telegram?.channelId != null;
-    if (!hasOtherChannel) {
+    if (!hasLinkedChannel(user)) {
+      return this.clearWatchlistForUser(userId);
+    }
+
+    return { watchlistCleared: false };
+  }
+
+  /**
+   * Stores the address as pending and mails it a verification link that
+   * expires after EMAIL_LINK_TTL_HOURS. The current verified address, if any,
+   * keeps receiving alerts until then. Refuses a new link within
+   * EMAIL_LINK_COOLDOWN_MINUTES of the previous one, whose issue time is
+   * EMAIL_LINK_TTL_HOURS before its expiry.
+   */
+  async requestEmailLink(userId: string, address: string): Promise<EmailChannelStatus> {
+    const token = crypto.randomUUID();
+    const ttlMs = EMAIL_LINK_TTL_HOURS * 60 * 60 * 1000;
+    const expiresAt = new Date(Date.now() + ttlMs);
+    const lastExpiryAllowed = new Date(
+      Date.now() + ttlMs - EMAIL_LINK_COOLDOWN_MINUTES * 60 * 1000,
+    );
+
+    const user = await UserModel.findOneAndUpdate(
+      { _id: userId, 'email.linkTokenExpiresAt': { $not: { $gt: lastExpiryAllowed } } },
+      {
+        $set: {
+          'email.pendingAddress': address,
+          'email.linkToken': token,
+          'email.linkTokenExpiresAt': expiresAt,
+        },
+      },
+      { new: true },
+    ).lean();
+
+    if (!user) {
+      if (!(await UserModel.exists({ _id: userId }))) throw new NotFoundError('User not found');
+      throw new AppError(
+        429,
+        `Please wait ${EMAIL_LINK_COOLDOWN_MINUTES} minutes before requesting another verification email`,
+      );
+    }
+
+    await emailService.sendVerificationEmail(address, token);
+
+    return toEmailChannelStatus(user.email);
+  }
+
+  async verifyEmail(userId: string, token: string): Promise<EmailChannelStatus> {
+    const user = await UserModel.findOne({
+      _id: userId,
+      'email.linkToken': token,
+      'email.linkTokenExpiresAt': { $gt: new Date() },
+    }).lean();
+    if (!user?.email?.pendingAddress) {
+      throw new AppError(400, 'Invalid or expired verification token');
+    }
+
+    const updated = await UserModel.findByIdAndUpdate(
+      userId,
+      {
+        $set: {
+          'email.channelId': user.email.pendingAddress,
+          'email.pendingAddress': null,
+          'email.linkToken': null,
+          'email.linkTokenExpiresAt': null,
+        },
+      },
+      { new: true },
+    ).lean();
+
+    return toEmailChannelStatus(updated?.email);
+  }
+
+  async unlinkEmail(userId: string): Promise<UnlinkResult> {
+    const user = await UserModel.findOneAndUpdate(
+      { _id: userId },
+      {
+        $set: {
+          'email.channelId': null,
+          'email.pendingAddress': null,
+          'email.linkToken': null,
+          'email.linkTokenExpiresAt': null,
+        },
+      },
+      { new: true },
+    );
+
+    if (!user) throw new NotFoundError('User not found');
+
+    if (!hasLinkedChannel(user)) {
+      return this.clearWatchlistForUser(userId);
+    }
+
+    return { watchlistCleared: false };
+  }
+
+  /**
+   * Adds this browser's push subscription to the user. A browser keeps its
+   * endpoint across sign-ins, so it is first taken away from whoever had it.
+   */
+  async subscribePush(
+    userId: string,
+    subscription: Pick<IPushSubscription, 'endpoint' | 'keys'>,
+  ): Promise<PushChannelStatus> {
+    await UserModel.updateMany(
+      { 'pushSubscriptions.endpoint': subscription.endpoint },
+      { $pull: { pushSubscriptions: { endpoint: subscription.endpoint } } },
+    );
+
+    const user = await UserModel.findByIdAndUpdate(
+      userId,
+      { $push: { pushSubscriptions: { ...subscription, createdAt: new Date() } } },
+      { new: true },
+    ).lean();
+
+    if (!user) throw new NotFoundError('User not found');
+
+    return toPushChannelStatus(user.pushSubscriptions);
+  }
+
+  async unsubscribePush(userId: string, endpoint: string): Promise<UnlinkResult> {
+    const user = await UserModel.findOneAndUpdate(
+      { _id: userId },
+      { $pull: { pushSubscriptions: { endpoint } } },
+      { new: true },
+    );
+
+    if (!user) throw new NotFoundError('User not found');
+
+    if (!hasLinkedChannel(user)) {
+      return this.clearWatchlistForUser(userId);
+    }
+
+    return { watchlistCleared: false };
+  }
+
+  async listWebhooks(userId: string): Promise<WebhookResponse[]> {
+    const user = await UserModel.findById(userId).select('webhooks').lean();
+    if (!user) throw new NotFoundError('User not found');
+
+    return (user.webhooks ?? []).map(toWebhookResponse);
+  }
+
+  /** Registers a webhook with a fresh signing secret, the only response that carries it. */
+  async createWebhook(userId: string, url: string): Promise<CreatedWebhookResponse> {
+    const user = await UserModel.findById(userId).select('webhooks').lean();
+    if (!user) throw new NotFoundError('User not found');
+
+    const webhooks = user.webhooks ?? [];
+    if (webhooks.some((w) => w.url === url)) {
+      throw new ConflictError('Webhook with this URL already exists');
+    }
+    if (webhooks.length >= MAX_WEBHOOKS) {
+      throw new AppError(400, `At most ${MAX_WEBHOOKS} webhooks are allowed`);
+    }
+
+    const updated = await UserModel.findByIdAndUpdate(
+      userId,
+      { $push: { webhooks: { url, secret: crypto.randomBytes(32).toString('hex') } } },
+      { new: true },
+    ).lean();
+
+    const webhook = updated!.webhooks[updated!.webhooks.length - 1];
+    return { ...toWebhookResponse(webhook), secret: webhook.secret };
+  }
+
+  /** Turns a webhook that disabled itself after failures back on. */
+  async enableWebhook(userId: string, webhookId: string): Promise<WebhookResponse> {
+    const user = isValidObjectId(webhookId)
+      ? await UserModel.findOneAndUpdate(
+          { _id: userId, 'webhooks._id': webhookId },
+          { $set: { 'webhooks.$.disabled': false, 'webhooks.$.consecutiveFailures': 0 } },
+          { new: true },
+        ).lean()
+      : null;
+    const webhook = user?.webhooks.find((w) => w._id.toString() === webhookId);
+    if (!webhook) throw new NotFoundError('Webhook not found');
+
+    return toWebhookResponse(webhook);
+  }
+
+  async deleteWebhook(userId: string, webhookId: string): Promise<UnlinkResult> {
+    const user = isValidObjectId(webhookId)
+      ? await UserModel.findOneAndUpdate(
+          { _id: userId, 'webhooks._id': webhookId },
+          { $pull: { webhooks: { _id: webhookId } } },
+          { new: true },
+        )
+      : null;
+    if (!user) throw new NotFoundError('Webhook not found');
+
+    if (!hasLinkedChannel(user)) {
       return this.clearWatchlistForUser(userId);
     }
 
@@ -118,7 +416,7 @@ export class UsersService {
       NotificationModel.deleteMany({
         userId,
         'payload.productId': { $in: productIds },
-        status: 'pending',
+        status: { $in: ['pending', 'held'] },
       }),
     ]);
 
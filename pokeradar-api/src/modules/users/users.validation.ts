@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { isNonPublicHostname } from '@pokeradar/shared';
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+function isKnownTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const updateNotificationScheduleSchema = z.object({
+  body: z.object({
+    timezone: z.string().refine(isKnownTimezone, 'Unknown timezone'),
+    quietHours: z.object({ start: clockTime, end: clockTime }).nullable(),
+    digestTime: clockTime.nullable(),
+  }),
+});
+
+export const requestEmailLinkSchema = z.object({
+  body: z.object({
+    address: z.string().trim().toLowerCase().email(),
+  }),
+});
+
+export const verifyEmailSchema = z.object({
+  body: z.object({
+    token: z.string().min(1),
+  }),
+});
+
+const pushEndpoint = z.string().url().startsWith('https://');
+
+export const subscribePushSchema = z.object({
+  body: z.object({
+    endpoint: pushEndpoint,
+    keys: z.object({
+      p256dh: z.string().min(1),
+      auth: z.string().min(1),
+    }),
+  }),
+});
+
+export const unsubscribePushSchema = z.object({
+  body: z.object({
+    endpoint: pushEndpoint,
+  }),
+});
+
+export const createWebhookSchema = z.object({
+  body: z.object({
+    url: z
+      .string()
+      .trim()
+      .url()
+      .startsWith('https://')
+      // Names resolving to such addresses are rejected by the notifications service on delivery
+      .refine(
+        (url) => !isNonPublicHostname(new URL(url).hostname),
+        'Webhook URL must point to a public host',
+      ),
+  }),
+});
+
+export const updateExcludedShopsSchema = z.object({
+  body: z.object({
+    shopIds: z.array(z.string().min(1)),
+  }),
+});
@@ -15,8 +15,13 @@ export class WatchlistController {
 
   async add(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { productId, maxPrice } = req.body;
-      const entry = await watchlistService.addEntry(req.user!.userId, productId, maxPrice);
+      const { productId, maxPrice, alertRules } = req.body;
+      const entry = await watchlistService.addEntry(
+        req.user!.userId,
+        productId,
+        maxPrice,
+        alertRules,
+      );
       res.status(201).json(entry);
     } catch (error) {
       next(error);
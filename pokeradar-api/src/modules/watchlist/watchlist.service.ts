@@ -4,43 +4,64 @@ import {
   WatchlistProductModel,
   NotificationModel,
   NotificationStateModel,
+  IUserWatchEntryDoc,
+  WatchAlertRules,
+  loadShopInfos,
 } from '@pokeradar/shared';
-import { NotFoundError } from '../../shared/middleware';
+import { AppError, NotFoundError } from '../../shared/middleware';
 import { WatchlistEntryResponse } from '../../shared/types';
 
+type WatchEntryFields = Pick<IUserWatchEntryDoc, 'productId' | 'maxPrice' | 'alertRules'> & {
+  _id: Types.ObjectId;
+  createdAt: Date;
+};
+
+function toResponse(entry: WatchEntryFields): WatchlistEntryResponse {
+  return {
+    id: entry._id.toString(),
+    productId: entry.productId,
+    maxPrice: entry.maxPrice,
+    alertRules: entry.alertRules,
+    createdAt: entry.createdAt,
+  };
+}
+
 export class WatchlistService {
   async getUserWatchlist(userId: string): Promise<WatchlistEntryResponse[]> {
     const entries = await UserWatchEntryModel.find({
       userId: new Types.ObjectId(userId),
     }).lean();
 
-    return entries.map((entry) => ({
-      id: entry._id.toString(),
-      productId: entry.productId,
-      maxPrice: entry.maxPrice,
-      createdAt: entry.createdAt,
-    }));
+    return entries.map(toResponse);
   }
 
-  async addEntry(userId: string, productId: string, maxPrice: number) {
+  async addEntry(
+    userId: string,
+    productId: string,
+    maxPrice: number,
+    alertRules?: WatchAlertRules,
+  ): Promise<WatchlistEntryResponse> {
     const product = await WatchlistProductModel.findOne({ id: productId }).lean();
     if (!product) throw new NotFoundError('Product not found in catalog');
+    if (alertRules) this.assertShopsExist(alertRules);
 
     const entry = await UserWatchEntryModel.create({
       userId: new Types.ObjectId(userId),
       productId,
       maxPrice,
+      alertRules,
     });
 
-    return {
-      id: entry._id.toString(),
-      productId: entry.productId,
-      maxPrice: entry.maxPrice,
-      createdAt: entry.createdAt,
-    };
+    return toResponse(entry);
   }
 
-  async updateEntry(userId: string, entryId: string, updates: { maxPrice?: number }) {
+  async updateEntry(
+    userId: string,
+    entryId: string,
+    updates: { maxPrice?: number; alertRules?: WatchAlertRules },
+  ): Promise<WatchlistEntryResponse> {
+    if (updates.alertRules) this.assertShopsExist(updates.alertRules);
+
     const entry = await UserWatchEntryModel.findOneAndUpdate(
       {
         _id: new Types.ObjectId(entryId),
@@ -52,12 +73,7 @@ export class WatchlistService {
 
     if (!entry) throw new NotFoundError('Watch entry not found');
 
-    return {
-      id: entry._id.toString(),
-      productId: entry.productId,
-      maxPrice: entry.maxPrice,
-      createdAt: entry.createdAt,
-    };
+    return toResponse(entry);
   }
 
   async deleteEntry(userId: string, entryId: string): Promise<void> {
@@ -76,8 +92,18 @@ export class WatchlistService {
       NotificationModel.deleteMany({
         userId,
         'payload.productId': entry.productId,
-        status: 'pending',
+        status: { $in: ['pending', 'held'] },
       }),
     ]);
   }
+
+  private assertShopsExist(alertRules: WatchAlertRules): void {
+    if (!alertRules.shopIds?.length) return;
+
+    const known = new Set(loadShopInfos().map((shop) => shop.id));
+    const unknown = alertRules.shopIds.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new AppError(400, `Unknown shops: ${unknown.join(', ')}`);
+    }
+  }
 }
@@ -1,14 +1,45 @@
 import { z } from 'zod';
 
+const alertRules = z.object({
+  anyRestock: z.boolean().optional(),
+  dropBelowAveragePercent: z.number().positive().max(99).optional(),
+  shopIds: z.array(z.string().min(1)).optional(),
+  minPrice: z.number().positive().optional(),
+});
+
+/** An entry whose minPrice is not below its maxPrice could never alert. */
+function refineMinBelowMax(
+  body: { maxPrice?: number; alertRules?: { minPrice?: number } },
+  ctx: z.RefinementCtx,
+): void {
+  const minPrice = body.alertRules?.minPrice;
+  if (body.maxPrice !== undefined && minPrice !== undefined && minPrice >= body.maxPrice) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['alertRules', 'minPrice'],
+      message: 'Minimum price must be below the maximum price',
+    });
+  }
+}
+
 export const addWatchEntrySchema = z.object({
-  body: z.object({
-    productId: z.string().min(1),
-    maxPrice: z.number().positive(),
-  }),
+  body: z
+    .object({
+      productId: z.string().min(1),
+      maxPrice: z.number().positive(),
+      alertRules: alertRules.optional(),
+    })
+    .superRefine(refineMinBelowMax),
 });
 
 export const updateWatchEntrySchema = z.object({
-  body: z.object({
-    maxPrice: z.number().positive(),
-  }),
+  body: z
+    .object({
+      maxPrice: z.number().positive().optional(),
+      alertRules: alertRules.optional(),
+    })
+    .refine((body) => body.maxPrice !== undefined || body.alertRules !== undefined, {
+      message: 'Nothing to update',
+    })
+    .superRefine(refineMinBelowMax),
 });
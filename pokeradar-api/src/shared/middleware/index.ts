@@ -2,5 +2,5 @@ export { authMiddleware, clerkAuthMiddleware, resolveDbUser } from './auth.middl
 export { adminMiddleware } from './admin.middleware';
 export { errorMiddleware, AppError, NotFoundError, ConflictError } from './error.middleware';
 export { validate } from './validate.middleware';
-export { globalRateLimiter, authRateLimiter } from './rate-limit.middleware';
+export { globalRateLimiter, authRateLimiter, emailLinkRateLimiter } from './rate-limit.middleware';
 export { imageUpload } from './upload.middleware';
@@ -13,6 +13,16 @@ export const globalRateLimiter = rateLimit({
   message: { error: 'Too many requests, please try again later' },
 });
 
+/** Verification emails per user (signed-in routes only), on top of the per-request cooldown. */
+export const emailLinkRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.userId ?? keyGenerator(req),
+  message: { error: 'Too many verification emails requested, please try again later' },
+});
+
 export const authRateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 10,
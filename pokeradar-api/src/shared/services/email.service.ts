@@ -0,0 +1,39 @@
+import { mailer } from '../../config/mailer';
+import { env } from '../../config/env';
+import { AppError } from '../middleware/error.middleware';
+
+/** How long a verification link stays valid. */
+export const EMAIL_LINK_TTL_HOURS = 24;
+
+export class EmailService {
+  /**
+   * Sends the link that confirms a notification address. The link opens the
+   * settings page, which posts the token back while the user is signed in.
+   */
+  async sendVerificationEmail(address: string, token: string): Promise<void> {
+    if (!mailer) {
+      throw new AppError(500, 'Email not configured: SMTP settings missing');
+    }
+
+    const link = `${env.FRONTEND_URL}/ustawienia?emailToken=${encodeURIComponent(token)}`;
+
+    await mailer.sendMail({
+      from: env.EMAIL_FROM,
+      to: address,
+      subject: 'Potwierdź adres e-mail w pokeradar',
+      text: [
+        'Aby otrzymywać powiadomienia o cenach na ten adres, potwierdź go:',
+        link,
+        '',
+        `Link jest ważny przez ${EMAIL_LINK_TTL_HOURS} godziny.`,
+        'Jeśli to nie Ty, zignoruj tę wiadomość.',
+      ].join('\n'),
+      html: [
+        '<p>Aby otrzymywać powiadomienia o cenach na ten adres, potwierdź go:</p>',
+        `<p><a href="${link}">Potwierdź adres e-mail</a></p>`,
+        `<p>Link jest ważny przez ${EMAIL_LINK_TTL_HOURS} godziny.</p>`,
+        '<p>Jeśli to nie Ty, zignoruj tę wiadomość.</p>',
+      ].join('\n'),
+    });
+  }
+}
@@ -1,7 +1,10 @@
+import type { NotificationSchedule, WatchAlertRules } from '@pokeradar/shared';
+
 export interface WatchlistEntryResponse {
   id: string;
   productId: string;
   maxPrice: number;
+  alertRules?: WatchAlertRules;
   createdAt: Date;
 }
 
@@ -13,19 +16,82 @@ export interface ProductPriceResponse {
   timestamp: Date;
 }
 
+export type PriceHistoryRange = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export interface PriceHistoryPoint {
+  day: string;
+  shopId: string;
+  minPrice: number | null;
+  maxPrice: number | null;
+  closePrice: number | null;
+  wasAvailable: boolean;
+  productUrl: string;
+}
+
+export interface ProductPriceHistoryResponse {
+  productId: string;
+  range: PriceHistoryRange;
+  points: PriceHistoryPoint[];
+}
+
 export interface ChannelStatus {
   linked: boolean;
   linkToken: string | null;
 }
 
+export interface EmailChannelStatus {
+  linked: boolean;
+  /** Verified address notifications go to. */
+  address: string | null;
+  /** Address waiting for the user to open the verification link. */
+  pendingAddress: string | null;
+}
+
+export interface PushChannelStatus {
+  linked: boolean;
+  /** Endpoints of the browsers subscribed to push, one per browser. */
+  endpoints: string[];
+}
+
+export interface WebhookChannelStatus {
+  /** True while at least one webhook is enabled. */
+  linked: boolean;
+}
+
+export interface WebhookResponse {
+  id: string;
+  url: string;
+  /** Set after too many failed requests in a row; re-enable to resume. */
+  disabled: boolean;
+  consecutiveFailures: number;
+  createdAt: Date;
+}
+
+/** Returned once, on creation; lists and updates never include the secret. */
+export interface CreatedWebhookResponse extends WebhookResponse {
+  /** HMAC key the receiver uses to check the X-Pokeradar-Signature header. */
+  secret: string;
+}
+
 export interface UserProfileResponse {
   id: string;
   email: string;
   displayName: string;
   telegram: ChannelStatus;
   discord: ChannelStatus;
+  emailChannel: EmailChannelStatus;
+  pushChannel: PushChannelStatus;
+  webhookChannel: WebhookChannelStatus;
+  excludedShopIds: string[];
+  notificationSchedule: NotificationSchedule;
 }
 
 export interface LinkTokenResponse {
   linkToken: string;
 }
+
+export interface ShopPreferenceResponse {
+  id: string;
+  name: string;
+  excluded: boolean;
+}
@@ -5,7 +5,16 @@ export type { ProductSet } from './product-set.types';
 export type {
   WatchlistEntryResponse,
   ProductPriceResponse,
+  PriceHistoryRange,
+  PriceHistoryPoint,
+  ProductPriceHistoryResponse,
   ChannelStatus,
+  EmailChannelStatus,
+  PushChannelStatus,
+  WebhookChannelStatus,
+  WebhookResponse,
+  CreatedWebhookResponse,
   UserProfileResponse,
   LinkTokenResponse,
+  ShopPreferenceResponse,
 } from './api-responses.types';
@@ -3,6 +3,7 @@ export interface Product {
   name: string;
   imageUrl: string;
   productSetId: string;
+  language: string;
   disabled?: boolean;
 }
 
@@ -1,8 +1,11 @@
+import type { WatchAlertRules } from '@pokeradar/shared';
+
 export interface UserWatchEntry {
   id: string;
   userId: string;
   productId: string;
   maxPrice: number;
+  alertRules?: WatchAlertRules;
   createdAt: Date;
   updatedAt: Date;
 }
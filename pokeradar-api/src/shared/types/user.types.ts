@@ -1,8 +1,26 @@
+import type { NotificationSchedule } from '@pokeradar/shared';
+
 export interface User {
   id: string;
   clerkId: string;
   telegram: { channelId: string | null; linkToken: string | null };
   discord: { channelId: string | null; linkToken: string | null };
+  email: { channelId: string | null; linkToken: string | null; pendingAddress: string | null };
+  pushSubscriptions: {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+    createdAt: Date;
+  }[];
+  webhooks: {
+    id: string;
+    url: string;
+    secret: string;
+    disabled: boolean;
+    consecutiveFailures: number;
+    createdAt: Date;
+  }[];
+  excludedShopIds: string[];
+  notificationSchedule?: NotificationSchedule;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -1,4 +1,8 @@
-import { WatchlistProductModel, ProductResultModel } from '@pokeradar/shared';
+import {
+  WatchlistProductModel,
+  ProductResultModel,
+  ProductPriceHistoryModel,
+} from '@pokeradar/shared';
 
 export async function seedProducts() {
   await WatchlistProductModel.create([
@@ -63,3 +67,41 @@ export async function seedProductResults(productId: string) {
     },
   ]);
 }
+
+export async function seedPriceHistory(productId: string) {
+  const day = (daysAgo: number) =>
+    new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  await ProductPriceHistoryModel.create([
+    {
+      productId,
+      shopId: 'shop-a',
+      dayBucket: day(0),
+      minPrice: 179.99,
+      maxPrice: 189.99,
+      closePrice: 179.99,
+      wasAvailable: true,
+      productUrl: 'https://shop-a.pl/product/1',
+      lastSeenAt: new Date(),
+    },
+    {
+      productId,
+      shopId: 'shop-b',
+      dayBucket: day(3),
+      wasAvailable: false,
+      productUrl: 'https://shop-b.pl/product/1',
+      lastSeenAt: new Date(),
+    },
+    {
+      productId,
+      shopId: 'shop-a',
+      dayBucket: day(60),
+      minPrice: 149.99,
+      maxPrice: 149.99,
+      closePrice: 149.99,
+      wasAvailable: true,
+      productUrl: 'https://shop-a.pl/product/1',
+      lastSeenAt: new Date(),
+    },
+  ]);
+}
@@ -1,7 +1,7 @@
 import request from 'supertest';
 import app from '../../../src/app';
 import { createTestUser } from '../../helpers/auth.helper';
-import { seedProducts, seedProductResults } from '../../helpers/db.helper';
+import { seedProducts, seedProductResults, seedPriceHistory } from '../../helpers/db.helper';
 
 describe('Products API', () => {
   let token: string;
@@ -115,4 +115,43 @@ describe('Products API', () => {
       expect(res.status).toBe(404);
     });
   });
+
+  describe('GET /products/:id/history', () => {
+    it('should default to the last 30 days sorted by day', async () => {
+      await seedPriceHistory('pokemon-151-booster-box');
+
+      const res = await request(app).get('/products/pokemon-151-booster-box/history');
+
+      expect(res.status).toBe(200);
+      expect(res.body.productId).toBe('pokemon-151-booster-box');
+      expect(res.body.range).toBe('30d');
+      expect(res.body.points).toHaveLength(2);
+      expect(res.body.points[0].shopId).toBe('shop-b');
+      expect(res.body.points[0].minPrice).toBeNull();
+      expect(res.body.points[0].wasAvailable).toBe(false);
+      expect(res.body.points[1].closePrice).toBe(179.99);
+    });
+
+    it('should include older days for a wider range', async () => {
+      await seedPriceHistory('pokemon-151-booster-box');
+
+      const res = await request(app).get('/products/pokemon-151-booster-box/history?range=all');
+
+      expect(res.status).toBe(200);
+      expect(res.body.points).toHaveLength(3);
+      expect(res.body.points[0].minPrice).toBe(149.99);
+    });
+
+    it('should return 400 for an unknown range', async () => {
+      const res = await request(app).get('/products/pokemon-151-booster-box/history?range=5y');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 for nonexistent product', async () => {
+      const res = await request(app).get('/products/nonexistent/history');
+
+      expect(res.status).toBe(404);
+    });
+  });
 });
@@ -8,6 +8,11 @@ import {
   NotificationStateModel,
   NotificationModel,
 } from '@pokeradar/shared';
+import { mailer } from '../../../src/config/mailer';
+
+jest.mock('../../../src/config/mailer', () => ({
+  mailer: { sendMail: jest.fn().mockResolvedValue({}) },
+}));
 
 describe('Users API', () => {
   let token: string;
@@ -45,6 +50,485 @@ describe('Users API', () => {
     });
   });
 
+  describe('email channel', () => {
+    const sendMail = mailer!.sendMail as jest.Mock;
+
+    beforeEach(() => {
+      sendMail.mockClear();
+    });
+
+    it('should store a pending address and mail a verification link', async () => {
+      const res = await request(app)
+        .post('/users/me/email')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ address: ' Trainer@Example.com ' });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        linked: false,
+        address: null,
+        pendingAddress: 'trainer@example.com',
+      });
+
+      const user = await UserModel.findById(userId).lean();
+      expect(sendMail).toHaveBeenCalledTimes(1);
+      const mail = sendMail.mock.calls[0][0];
+      expect(mail.to).toBe('trainer@example.com');
+      expect(mail.text).toContain(`emailToken=${user!.email!.linkToken}`);
+    });
+
+    it('should link the address once the token is verified', async () => {
+      await request(app)
+        .post('/users/me/email')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ address: 'trainer@example.com' });
+      const pending = await UserModel.findById(userId).lean();
+
+      const res = await request(app)
+        .post('/users/me/email/verify')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ token: pending!.email!.linkToken });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        linked: true,
+        address: 'trainer@example.com',
+        pendingAddress: null,
+      });
+
+      const profile = await request(app).get('/users/me').set('Authorization', `Bearer ${token}`);
+      expect(profile.body.emailChannel.linked).toBe(true);
+    });
+
+    it('should return 400 for a wrong verification token', async () => {
+      await request(app)
+        .post('/users/me/email')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ address: 'trainer@example.com' });
+
+      const res = await request(app)
+        .post('/users/me/email/verify')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ token: 'not-the-token' });
+
+      expect(res.status).toBe(400);
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.email!.channelId).toBeNull();
+    });
+
+    it('should return 400 for an expired verification token', async () => {
+      await request(app)
+        .post('/users/me/email')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ address: 'trainer@example.com' });
+      const pending = await UserModel.findByIdAndUpdate(
+        userId,
+        { $set: { 'email.linkTokenExpiresAt': new Date(Date.now() - 1000) } },
+        { new: true },
+      ).lean();
+
+      const res = await request(app)
+        .post('/users/me/email/verify')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ token: pending!.email!.linkToken });
+
+      expect(res.status).toBe(400);
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.email!.channelId).toBeNull();
+    });
+
+    it('should refuse another verification email within the cooldown', async () => {
+      const send = () =>
+        request(app)
+          .post('/users/me/email')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ address: 'trainer@example.com' });
+      await send();
+
+      const res = await send();
+      expect(res.status).toBe(429);
+      expect(sendMail).toHaveBeenCalledTimes(1);
+
+      // Issued before the cooldown: the link expires correspondingly sooner
+      await UserModel.updateOne(
+        { _id: userId },
+        { $set: { 'email.linkTokenExpiresAt': new Date(Date.now() + 23 * 60 * 60 * 1000) } },
+      );
+      expect((await send()).status).toBe(200);
+      expect(sendMail).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 400 for an invalid address', async () => {
+      const res = await request(app)
+        .post('/users/me/email')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ address: 'not-an-email' });
+
+      expect(res.status).toBe(400);
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should clear the watchlist when unlinking the last channel', async () => {
+      await UserModel.updateOne(
+        { _id: userId },
+        {
+          $set: {
+            email: { channelId: 'trainer@example.com', linkToken: null, pendingAddress: null },
+          },
+        },
+      );
+      await UserWatchEntryModel.create({
+        userId: new Types.ObjectId(userId),
+        productId: 'pokemon-151-booster-box',
+        maxPrice: 150,
+      });
+
+      const res = await request(app)
+        .delete('/users/me/email')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.watchlistCleared).toBe(true);
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.email!.channelId).toBeNull();
+    });
+
+    it('should keep the watchlist when unlinking Telegram while email is linked', async () => {
+      await UserModel.updateOne(
+        { _id: userId },
+        {
+          $set: {
+            telegram: { channelId: '123456', linkToken: null },
+            email: { channelId: 'trainer@example.com', linkToken: null, pendingAddress: null },
+          },
+        },
+      );
+      await UserWatchEntryModel.create({
+        userId: new Types.ObjectId(userId),
+        productId: 'pokemon-151-booster-box',
+        maxPrice: 150,
+      });
+
+      const res = await request(app)
+        .delete('/users/me/telegram')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.body.watchlistCleared).toBe(false);
+      expect(await UserWatchEntryModel.countDocuments({ userId })).toBe(1);
+    });
+  });
+
+  describe('push subscriptions', () => {
+    const subscription = {
+      endpoint: 'https://push.example.com/sub-1',
+      keys: { p256dh: 'p256dh-key', auth: 'auth-secret' },
+    };
+
+    it('should store a subscription and report it on the profile', async () => {
+      const res = await request(app)
+        .post('/users/me/push')
+        .set('Authorization', `Bearer ${token}`)
+        .send(subscription);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ linked: true, endpoints: [subscription.endpoint] });
+
+      const profile = await request(app).get('/users/me').set('Authorization', `Bearer ${token}`);
+      expect(profile.body.pushChannel.endpoints).toEqual([subscription.endpoint]);
+    });
+
+    it('should not duplicate a browser that subscribes again', async () => {
+      for (let i = 0; i < 2; i++) {
+        await request(app)
+          .post('/users/me/push')
+          .set('Authorization', `Bearer ${token}`)
+          .send(subscription);
+      }
+
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.pushSubscriptions).toHaveLength(1);
+    });
+
+    it('should move the subscription away from a previous user of the browser', async () => {
+      const other = await createTestUser();
+      await UserModel.updateOne(
+        { _id: other.user._id },
+        { $set: { pushSubscriptions: [subscription] } },
+      );
+
+      await request(app)
+        .post('/users/me/push')
+        .set('Authorization', `Bearer ${token}`)
+        .send(subscription);
+
+      const previous = await UserModel.findById(other.user._id).lean();
+      expect(previous!.pushSubscriptions).toHaveLength(0);
+    });
+
+    it('should reject a non-https endpoint', async () => {
+      const res = await request(app)
+        .post('/users/me/push')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...subscription, endpoint: 'http://push.example.com/sub-1' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should remove a subscription and clear the watchlist when it was the last channel', async () => {
+      await UserModel.updateOne({ _id: userId }, { $set: { pushSubscriptions: [subscription] } });
+      await UserWatchEntryModel.create({
+        userId: new Types.ObjectId(userId),
+        productId: 'pokemon-151-booster-box',
+        maxPrice: 150,
+      });
+
+      const res = await request(app)
+        .delete('/users/me/push')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ endpoint: subscription.endpoint });
+
+      expect(res.status).toBe(200);
+      expect(res.body.watchlistCleared).toBe(true);
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.pushSubscriptions).toHaveLength(0);
+    });
+
+    it('should keep the watchlist when Telegram unlinks but push remains', async () => {
+      await UserModel.updateOne(
+        { _id: userId },
+        { $set: { 'telegram.channelId': '123456789', pushSubscriptions: [subscription] } },
+      );
+      await UserWatchEntryModel.create({
+        userId: new Types.ObjectId(userId),
+        productId: 'pokemon-151-booster-box',
+        maxPrice: 150,
+      });
+
+      const res = await request(app)
+        .delete('/users/me/telegram')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.body.watchlistCleared).toBe(false);
+    });
+  });
+
+  describe('webhooks', () => {
+    const url = 'https://hooks.example.com/pokeradar';
+
+    async function createWebhook(body: Record<string, unknown> = { url }) {
+      return request(app)
+        .post('/users/me/webhooks')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+    }
+
+    it('should register a webhook with a signing secret', async () => {
+      const res = await createWebhook();
+
+      expect(res.status).toBe(201);
+      expect(res.body.url).toBe(url);
+      expect(res.body.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(res.body.disabled).toBe(false);
+
+      const list = await request(app)
+        .get('/users/me/webhooks')
+        .set('Authorization', `Bearer ${token}`);
+      expect(list.body.map((w: { id: string }) => w.id)).toEqual([res.body.id]);
+      expect(list.body[0]).not.toHaveProperty('secret');
+
+      const profile = await request(app).get('/users/me').set('Authorization', `Bearer ${token}`);
+      expect(profile.body.webhookChannel.linked).toBe(true);
+    });
+
+    it('should reject a non-https URL', async () => {
+      const res = await createWebhook({ url: 'http://hooks.example.com/pokeradar' });
+      expect(res.status).toBe(400);
+    });
+
+    it.each([
+      'https://localhost/hook',
+      'https://127.0.0.1/hook',
+      'https://10.0.0.5/hook',
+      'https://192.168.1.20:8443/hook',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/hook',
+    ])('should reject the non-public URL %s', async (privateUrl) => {
+      const res = await createWebhook({ url: privateUrl });
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject the same URL twice', async () => {
+      await createWebhook();
+      const res = await createWebhook();
+      expect(res.status).toBe(409);
+    });
+
+    it('should cap the number of webhooks', async () => {
+      for (let i = 0; i < 5; i++) {
+        await createWebhook({ url: `${url}/${i}` });
+      }
+      const res = await createWebhook({ url: `${url}/5` });
+      expect(res.status).toBe(400);
+    });
+
+    it('should re-enable a webhook disabled after failures', async () => {
+      const created = await createWebhook();
+      await UserModel.updateOne(
+        { _id: userId, 'webhooks._id': created.body.id },
+        { $set: { 'webhooks.$.disabled': true, 'webhooks.$.consecutiveFailures': 15 } },
+      );
+
+      const res = await request(app)
+        .post(`/users/me/webhooks/${created.body.id}/enable`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.disabled).toBe(false);
+      expect(res.body.consecutiveFailures).toBe(0);
+    });
+
+    it('should delete a webhook and clear the watchlist when it was the last channel', async () => {
+      const created = await createWebhook();
+      await UserWatchEntryModel.create({
+        userId: new Types.ObjectId(userId),
+        productId: 'pokemon-151-booster-box',
+        maxPrice: 150,
+      });
+
+      const res = await request(app)
+        .delete(`/users/me/webhooks/${created.body.id}`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.watchlistCleared).toBe(true);
+    });
+
+    it("should return 404 for another user's webhook", async () => {
+      const other = await createTestUser();
+      const created = await request(app)
+        .post('/users/me/webhooks')
+        .set('Authorization', `Bearer ${other.token}`)
+        .send({ url });
+
+      const res = await request(app)
+        .delete(`/users/me/webhooks/${created.body.id}`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 404 for a malformed id', async () => {
+      const res = await request(app)
+        .delete('/users/me/webhooks/not-an-id')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /users/me/shops', () => {
+    it('should list shops with none excluded by default', async () => {
+      const res = await request(app).get('/users/me/shops').set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.length).toBeGreaterThan(0);
+      expect(res.body[0]).toEqual(
+        expect.objectContaining({ id: expect.any(String), name: expect.any(String) }),
+      );
+      expect(res.body.every((shop: { excluded: boolean }) => !shop.excluded)).toBe(true);
+    });
+  });
+
+  describe('PUT /users/me/shops/excluded', () => {
+    it('should store excluded shops and flag them in the shop list', async () => {
+      const res = await request(app)
+        .put('/users/me/shops/excluded')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ shopIds: ['cardfan'] });
+
+      expect(res.status).toBe(200);
+      const excluded = res.body.filter((shop: { excluded: boolean }) => shop.excluded);
+      expect(excluded.map((shop: { id: string }) => shop.id)).toEqual(['cardfan']);
+
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.excludedShopIds).toEqual(['cardfan']);
+
+      const profile = await request(app).get('/users/me').set('Authorization', `Bearer ${token}`);
+      expect(profile.body.excludedShopIds).toEqual(['cardfan']);
+    });
+
+    it('should return 400 for unknown shops', async () => {
+      const res = await request(app)
+        .put('/users/me/shops/excluded')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ shopIds: ['no-such-shop'] });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 for invalid body', async () => {
+      const res = await request(app)
+        .put('/users/me/shops/excluded')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ shopIds: 'cardfan' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('PUT /users/me/notification-schedule', () => {
+    it('should return the default schedule on the profile', async () => {
+      const res = await request(app).get('/users/me').set('Authorization', `Bearer ${token}`);
+
+      expect(res.body.notificationSchedule).toEqual({
+        timezone: 'Europe/Warsaw',
+        quietHours: null,
+        digestTime: null,
+      });
+    });
+
+    it('should store quiet hours and digest time', async () => {
+      const schedule = {
+        timezone: 'Europe/Berlin',
+        quietHours: { start: '23:00', end: '07:30' },
+        digestTime: '08:00',
+      };
+
+      const res = await request(app)
+        .put('/users/me/notification-schedule')
+        .set('Authorization', `Bearer ${token}`)
+        .send(schedule);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual(schedule);
+
+      const user = await UserModel.findById(userId).lean();
+      expect(user!.notificationSchedule).toEqual(schedule);
+    });
+
+    it('should return 400 for an unknown timezone', async () => {
+      const res = await request(app)
+        .put('/users/me/notification-schedule')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ timezone: 'Mars/Olympus', quietHours: null, digestTime: null });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 for malformed times', async () => {
+      const res = await request(app)
+        .put('/users/me/notification-schedule')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          timezone: 'Europe/Warsaw',
+          quietHours: { start: '24:00', end: '7:00' },
+          digestTime: null,
+        });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
   describe('POST /users/me/telegram/link-token', () => {
     it('should generate and return a link token', async () => {
       const res = await request(app)
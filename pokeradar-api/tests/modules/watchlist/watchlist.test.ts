@@ -58,6 +58,49 @@ describe('Watchlist API', () => {
 
       expect(res.status).toBe(400);
     });
+
+    it('should store alert rules', async () => {
+      const alertRules = {
+        anyRestock: true,
+        dropBelowAveragePercent: 15,
+        shopIds: ['cardfan'],
+        minPrice: 50,
+      };
+
+      const res = await request(app)
+        .post('/watchlist')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ productId: 'pokemon-151-booster-box', maxPrice: 180, alertRules });
+
+      expect(res.status).toBe(201);
+      expect(res.body.alertRules).toEqual(alertRules);
+    });
+
+    it('should return 400 for unknown shops in alert rules', async () => {
+      const res = await request(app)
+        .post('/watchlist')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          productId: 'pokemon-151-booster-box',
+          maxPrice: 180,
+          alertRules: { shopIds: ['no-such-shop'] },
+        });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 when minPrice is not below maxPrice', async () => {
+      const res = await request(app)
+        .post('/watchlist')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          productId: 'pokemon-151-booster-box',
+          maxPrice: 180,
+          alertRules: { minPrice: 180 },
+        });
+
+      expect(res.status).toBe(400);
+    });
   });
 
   describe('GET /watchlist', () => {
@@ -120,6 +163,40 @@ describe('Watchlist API', () => {
       expect(res.body.maxPrice).toBe(220);
     });
 
+    it('should replace alert rules without touching maxPrice', async () => {
+      const created = await request(app)
+        .post('/watchlist')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          productId: 'pokemon-151-booster-box',
+          maxPrice: 180,
+          alertRules: { anyRestock: true, minPrice: 50 },
+        });
+
+      const res = await request(app)
+        .patch(`/watchlist/${created.body.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ alertRules: { dropBelowAveragePercent: 20 } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.maxPrice).toBe(180);
+      expect(res.body.alertRules).toEqual({ dropBelowAveragePercent: 20 });
+    });
+
+    it('should return 400 for an empty update', async () => {
+      const created = await request(app)
+        .post('/watchlist')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ productId: 'pokemon-151-booster-box', maxPrice: 180 });
+
+      const res = await request(app)
+        .patch(`/watchlist/${created.body.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(res.status).toBe(400);
+    });
+
     it('should return 404 for another users entry', async () => {
       const other = await createTestUser({});
 
@@ -0,0 +1,22 @@
+// Service worker for Web Push notifications sent by pokeradar-notifications.
+// Payload: { title, body, url?, tag? } — see formatPushNotification there.
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  const message = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: '/pokeradar.png',
+      badge: '/favicon.png',
+      tag: message.tag,
+      data: { url: message.url ?? '/' },
+    }),
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow(event.notification.data.url));
+});
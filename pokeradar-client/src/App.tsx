@@ -3,8 +3,11 @@ import { MainLayout } from '@/components/layout/main-layout';
 import { AdminLayout } from '@/components/layout/admin-layout';
 import { WatchlistPage } from '@/pages/watchlist-page';
 import { SettingsPage } from '@/pages/settings-page';
+import { ProductPage } from '@/pages/product-page';
 import { AdminShopsPage } from '@/pages/admin/admin-shops-page';
 import { AdminShopDetailPage } from '@/pages/admin/admin-shop-detail-page';
+import { AdminScansPage } from '@/pages/admin/admin-scans-page';
+import { AdminUnmatchedPage } from '@/pages/admin/admin-unmatched-page';
 import { AdminProductsPage } from '@/pages/admin/admin-products-page';
 import { AdminUsersPage } from '@/pages/admin/admin-users-page';
 import { AdminUserDetailPage } from '@/pages/admin/admin-user-detail-page';
@@ -21,12 +24,15 @@ export default function App() {
         <Route element={<MainLayout />}>
           <Route path="/" element={<WatchlistPage />} />
           <Route path="/ustawienia" element={<SettingsPage />} />
+          <Route path="/produkt/:id" element={<ProductPage />} />
         </Route>
         <Route path="/admin" element={<AdminLayout />}>
           <Route index element={<Navigate to="/admin/shops" replace />} />
           <Route path="shops" element={<AdminShopsPage />} />
           <Route path="shops/:shopId" element={<AdminShopDetailPage />} />
+          <Route path="scans" element={<AdminScansPage />} />
           <Route path="products" element={<AdminProductsPage />} />
+          <Route path="unmatched" element={<AdminUnmatchedPage />} />
           <Route path="users" element={<AdminUsersPage />} />
           <Route path="users/:clerkId" element={<AdminUserDetailPage />} />
           <Route path="notifications" element={<AdminNotificationsPage />} />
@@ -1,4 +1,14 @@
-import type { Product, ProductSet, WatchlistEntry, UserProfile, LinkToken } from '@/types';
+import type {
+  Product,
+  ProductPrice,
+  ProductPriceHistory,
+  ProductSet,
+  WatchlistEntry,
+  UserProfile,
+  LinkToken,
+  ShopPreference,
+  Webhook,
+} from '@/types';
 
 export const mockProducts: Product[] = [
   {
@@ -52,6 +62,48 @@ export const mockProducts: Product[] = [
   },
 ];
 
+export const mockProductPrices: ProductPrice[] = [
+  {
+    shopId: 'shop-a',
+    price: 179.99,
+    isAvailable: true,
+    productUrl: 'https://shop-a.com/pikachu',
+    timestamp: '2024-02-01T12:00:00Z',
+  },
+  {
+    shopId: 'shop-b',
+    price: null,
+    isAvailable: false,
+    productUrl: 'https://shop-b.com/pikachu',
+    timestamp: '2024-02-01T12:00:00Z',
+  },
+];
+
+export const mockPriceHistory: ProductPriceHistory = {
+  productId: 'prod-1',
+  range: '30d',
+  points: [
+    {
+      day: '2024-01-30',
+      shopId: 'shop-a',
+      minPrice: 169.99,
+      maxPrice: 189.99,
+      closePrice: 189.99,
+      wasAvailable: true,
+      productUrl: 'https://shop-a.com/pikachu',
+    },
+    {
+      day: '2024-01-31',
+      shopId: 'shop-a',
+      minPrice: 179.99,
+      maxPrice: 179.99,
+      closePrice: 179.99,
+      wasAvailable: true,
+      productUrl: 'https://shop-a.com/pikachu',
+    },
+  ],
+};
+
 export const mockProductSets: ProductSet[] = [
   {
     id: 'set-1',
@@ -88,6 +140,11 @@ export const mockUser: UserProfile = {
   displayName: 'Test User',
   telegram: { linked: true, linkToken: 'abc123token' },
   discord: { linked: false, linkToken: null },
+  emailChannel: { linked: false, address: null, pendingAddress: null },
+  pushChannel: { linked: false, endpoints: [] },
+  webhookChannel: { linked: false },
+  excludedShopIds: [],
+  notificationSchedule: { timezone: 'Europe/Warsaw', quietHours: null, digestTime: null },
 };
 
 export const mockUserNoTelegram: UserProfile = {
@@ -96,6 +153,11 @@ export const mockUserNoTelegram: UserProfile = {
   displayName: 'Test User',
   telegram: { linked: false, linkToken: null },
   discord: { linked: false, linkToken: null },
+  emailChannel: { linked: false, address: null, pendingAddress: null },
+  pushChannel: { linked: false, endpoints: [] },
+  webhookChannel: { linked: false },
+  excludedShopIds: [],
+  notificationSchedule: { timezone: 'Europe/Warsaw', quietHours: null, digestTime: null },
 };
 
 export const mockUserBothLinked: UserProfile = {
@@ -104,8 +166,28 @@ export const mockUserBothLinked: UserProfile = {
   displayName: 'Test User',
   telegram: { linked: true, linkToken: null },
   discord: { linked: true, linkToken: null },
+  emailChannel: { linked: false, address: null, pendingAddress: null },
+  pushChannel: { linked: false, endpoints: [] },
+  webhookChannel: { linked: false },
+  excludedShopIds: [],
+  notificationSchedule: { timezone: 'Europe/Warsaw', quietHours: null, digestTime: null },
 };
 
 export const mockTelegramToken: LinkToken = {
   linkToken: 'abc123token',
 };
+
+export const mockWebhooks: Webhook[] = [
+  {
+    id: 'webhook-1',
+    url: 'https://hooks.example.com/pokeradar',
+    disabled: false,
+    consecutiveFailures: 0,
+    createdAt: '2024-01-01T00:00:00Z',
+  },
+];
+
+export const mockShopPreferences: ShopPreference[] = [
+  { id: 'shop-a', name: 'Shop A', excluded: false },
+  { id: 'shop-b', name: 'Shop B', excluded: true },
+];
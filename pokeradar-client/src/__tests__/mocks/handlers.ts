@@ -1,5 +1,15 @@
 import { http, HttpResponse } from 'msw';
-import { mockProducts, mockProductSets, mockWatchlist, mockUser, mockTelegramToken } from './data';
+import {
+  mockProducts,
+  mockProductPrices,
+  mockPriceHistory,
+  mockProductSets,
+  mockWatchlist,
+  mockUser,
+  mockTelegramToken,
+  mockShopPreferences,
+  mockWebhooks,
+} from './data';
 
 const API = 'http://localhost:3000';
 
@@ -9,6 +19,21 @@ export const handlers = [
     return HttpResponse.json(mockProducts);
   }),
 
+  http.get(`${API}/products/:id`, ({ params }) => {
+    const product = mockProducts.find((p) => p.id === params.id);
+    if (!product) return HttpResponse.json({ error: 'Product not found' }, { status: 404 });
+    return HttpResponse.json(product);
+  }),
+
+  http.get(`${API}/products/:id/prices`, () => {
+    return HttpResponse.json(mockProductPrices);
+  }),
+
+  http.get(`${API}/products/:id/history`, ({ request }) => {
+    const range = new URL(request.url).searchParams.get('range') ?? '30d';
+    return HttpResponse.json({ ...mockPriceHistory, range });
+  }),
+
   // Product Sets
   http.get(`${API}/product-sets`, () => {
     return HttpResponse.json(mockProductSets);
@@ -70,6 +95,100 @@ export const handlers = [
     return HttpResponse.json(mockUser);
   }),
 
+  // Email
+  http.post(`${API}/users/me/email`, async ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    const body = (await request.json()) as { address: string };
+    return HttpResponse.json({ linked: false, address: null, pendingAddress: body.address });
+  }),
+
+  http.post(`${API}/users/me/email/verify`, ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json({ linked: true, address: 'test@example.com', pendingAddress: null });
+  }),
+
+  http.delete(`${API}/users/me/email`, ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json({ watchlistCleared: false });
+  }),
+
+  // Web Push
+  http.post(`${API}/users/me/push`, async ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    const body = (await request.json()) as { endpoint: string };
+    return HttpResponse.json({ linked: true, endpoints: [body.endpoint] });
+  }),
+
+  http.delete(`${API}/users/me/push`, ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json({ watchlistCleared: false });
+  }),
+
+  // Webhooks
+  http.get(`${API}/users/me/webhooks`, ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json(mockWebhooks);
+  }),
+
+  http.post(`${API}/users/me/webhooks`, async ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    const body = (await request.json()) as { url: string };
+    return HttpResponse.json(
+      {
+        id: 'webhook-new',
+        url: body.url,
+        secret: 'd4e5f6',
+        disabled: false,
+        consecutiveFailures: 0,
+        createdAt: '2024-01-02T00:00:00Z',
+      },
+      { status: 201 },
+    );
+  }),
+
+  http.post(`${API}/users/me/webhooks/:id/enable`, ({ request, params }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    const webhook = mockWebhooks.find((w) => w.id === params.id);
+    if (!webhook) return new HttpResponse(null, { status: 404 });
+    return HttpResponse.json({ ...webhook, disabled: false, consecutiveFailures: 0 });
+  }),
+
+  http.delete(`${API}/users/me/webhooks/:id`, ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json({ watchlistCleared: false });
+  }),
+
+  // Shop preferences
+  http.get(`${API}/users/me/shops`, ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json(mockShopPreferences);
+  }),
+
+  http.put(`${API}/users/me/shops/excluded`, async ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    const body = (await request.json()) as { shopIds: string[] };
+    return HttpResponse.json(
+      mockShopPreferences.map((shop) => ({ ...shop, excluded: body.shopIds.includes(shop.id) })),
+    );
+  }),
+
+  http.put(`${API}/users/me/notification-schedule`, async ({ request }) => {
+    const auth = request.headers.get('Authorization');
+    if (!auth) return new HttpResponse(null, { status: 401 });
+    return HttpResponse.json(await request.json());
+  }),
+
   // Link status stream (SSE)
   http.get(`${API}/users/me/link-status/stream`, () => {
     return new HttpResponse(null, { status: 200 });
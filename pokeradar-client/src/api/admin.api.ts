@@ -2,6 +2,16 @@ import { apiClient } from './client';
 
 // ===== TYPES =====
 
+export interface AdminShopLastRun {
+  startedAt: string;
+  durationMs: number;
+  found: number;
+  notFound: number;
+  errorCount: number;
+  timeouts: number;
+  breakerTripped: boolean;
+}
+
 export interface AdminShopSummary {
   shopId: string;
   shopName: string;
@@ -10,9 +20,32 @@ export interface AdminShopSummary {
   findsLastHour: number;
   availableLastHour: number;
   findsLastWeek: number;
+  lastRun: AdminShopLastRun | null;
   hasWarning: boolean;
 }
 
+export interface AdminShopTrendDay {
+  date: string;
+  runs: number;
+  found: number;
+  notFound: number;
+  candidates: number;
+  matched: number;
+  unmatched: number;
+  errorCount: number;
+  timeouts: number;
+  breakerTrips: number;
+  avgDurationMs: number;
+}
+
+export interface AdminShopRun extends AdminShopLastRun {
+  searches: number;
+  candidates: number;
+  matched: number;
+  unmatched: number;
+  errorMessages: string[];
+}
+
 export interface AdminShopProduct {
   productId: string;
   productName: string;
@@ -34,6 +67,9 @@ export interface AdminShopDetail {
   availableCount: number;
   totalCount: number;
   hasWarning: boolean;
+  lastRun: AdminShopLastRun | null;
+  trend: AdminShopTrendDay[];
+  recentRuns: AdminShopRun[];
   products: AdminShopProduct[];
 }
 
@@ -53,6 +89,11 @@ export interface AdminProduct {
   imageUrl: string;
   productSetId: string;
   productTypeId: string;
+  language: string;
+  cardId?: string;
+  grade?: string;
+  /** Raw-card condition ("nm", "lp", ...); unset matches any condition. */
+  condition?: string;
   disabled?: boolean;
   price?: { max: number; min?: number };
   shopFinds: AdminProductShopFind[];
@@ -76,6 +117,27 @@ export interface ProductType {
   contains: string[];
 }
 
+export interface Card {
+  id: string;
+  productSetId: string;
+  name: string;
+  number: string;
+  rarity?: string;
+  imageUrl?: string;
+}
+
+export interface SynonymRule {
+  id: string;
+  pattern: string;
+  replacement: string;
+  order: number;
+}
+
+export interface LanguageTokens {
+  language: string;
+  tokens: string[];
+}
+
 export interface AdminUserSearchItem {
   clerkId: string;
   email: string;
@@ -141,6 +203,69 @@ export interface AdminNotification {
   createdAt: string;
 }
 
+export interface AdminScanRunShop {
+  shopId: string;
+  shopName: string;
+  engine: string;
+  durationMs: number;
+  searches: number;
+  candidates: number;
+  matched: number;
+  unmatched: number;
+  found: number;
+  notFound: number;
+  errorCount: number;
+  timeouts: number;
+  breakerTripped: boolean;
+  errorMessages: string[];
+}
+
+export interface AdminScanRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  fetchingTier: string | null;
+  status: string;
+  error: string | null;
+  resultsWritten: number;
+  notificationsCreated: number;
+  shopsScanned: number;
+  shopsFailed: number;
+  shops: AdminScanRunShop[];
+}
+
+export type UnmatchedReason = 'no-type' | 'no-set' | 'no-card';
+
+export interface AdminUnmatchedGroup {
+  normalizedTitle: string;
+  reason: UnmatchedReason;
+  productTypeId: string | null;
+  productTypeName: string | null;
+  seenCount: number;
+  shopCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  examples: Array<{ shopId: string; shopName: string; title: string; url: string }>;
+}
+
+export type MatchRejection = 'empty' | UnmatchedReason;
+
+export interface AdminMatchExplanation {
+  title: string;
+  setNumbersExpanded: string;
+  normalized: string | null;
+  synonymsExpanded: string | null;
+  language: string | null;
+  cardNumber: string | null;
+  grade: string | null;
+  condition: string | null;
+  card: { id: string; name: string; number: string; score: number } | null;
+  type: { id: string; name: string; score: number; residualTitle: string } | null;
+  set: { id: string; name: string; score: number } | null;
+  rejectedBy: MatchRejection | null;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -157,6 +282,30 @@ export const adminApi = {
   getShop: (shopId: string) =>
     apiClient.get<AdminShopDetail>(`/admin/shops/${shopId}`).then((r) => r.data),
 
+  // Scan runs
+  getScanRuns: (params?: { page?: number; limit?: number; tier?: string }) =>
+    apiClient.get<PaginatedResponse<AdminScanRun>>('/admin/scans', { params }).then((r) => r.data),
+
+  // Unmatched titles
+  getUnmatched: (params?: {
+    page?: number;
+    limit?: number;
+    reason?: string;
+    shopId?: string;
+    search?: string;
+  }) =>
+    apiClient
+      .get<PaginatedResponse<AdminUnmatchedGroup>>('/admin/unmatched', { params })
+      .then((r) => r.data),
+  dismissUnmatched: (normalizedTitle: string) =>
+    apiClient.post('/admin/unmatched/dismiss', { normalizedTitle }).then((r) => r.data),
+
+  // Matching playground
+  explainMatch: (titles: string[]) =>
+    apiClient
+      .post<AdminMatchExplanation[]>('/admin/matching/explain', { titles })
+      .then((r) => r.data),
+
   // Products
   getProducts: () => apiClient.get<AdminProduct[]>('/admin/products').then((r) => r.data),
   createProduct: (data: unknown) => apiClient.post('/admin/products', data).then((r) => r.data),
@@ -216,6 +365,31 @@ export const adminApi = {
     apiClient.patch(`/admin/product-types/${id}`, data).then((r) => r.data),
   deleteProductType: (id: string) => apiClient.delete(`/admin/product-types/${id}`),
 
+  // Cards
+  getCards: () => apiClient.get<Card[]>('/admin/cards').then((r) => r.data),
+  createCard: (data: unknown) => apiClient.post('/admin/cards', data).then((r) => r.data),
+  updateCard: (id: string, data: unknown) =>
+    apiClient.patch(`/admin/cards/${id}`, data).then((r) => r.data),
+  deleteCard: (id: string) => apiClient.delete(`/admin/cards/${id}`),
+
+  // Matching rules
+  getSynonymRules: () =>
+    apiClient.get<SynonymRule[]>('/admin/matching/synonyms').then((r) => r.data),
+  createSynonymRule: (data: unknown) =>
+    apiClient.post('/admin/matching/synonyms', data).then((r) => r.data),
+  updateSynonymRule: (id: string, data: unknown) =>
+    apiClient.patch(`/admin/matching/synonyms/${id}`, data).then((r) => r.data),
+  deleteSynonymRule: (id: string) => apiClient.delete(`/admin/matching/synonyms/${id}`),
+  reorderSynonymRules: (ids: string[]) => apiClient.put('/admin/matching/synonyms/order', { ids }),
+  getLanguageTokens: () =>
+    apiClient.get<LanguageTokens[]>('/admin/matching/languages').then((r) => r.data),
+  createLanguageTokens: (data: unknown) =>
+    apiClient.post('/admin/matching/languages', data).then((r) => r.data),
+  updateLanguageTokens: (language: string, tokens: string[]) =>
+    apiClient.patch(`/admin/matching/languages/${language}`, { tokens }).then((r) => r.data),
+  deleteLanguageTokens: (language: string) =>
+    apiClient.delete(`/admin/matching/languages/${language}`),
+
   // Users
   searchUsers: (query: string) =>
     apiClient
@@ -1,7 +1,13 @@
 import { apiClient } from './client';
-import type { Product } from '@/types';
+import type { Product, ProductPrice, ProductPriceHistory, PriceHistoryRange } from '@/types';
 
 export const productsApi = {
   getAll: () => apiClient.get<Product[]>('/products').then((r) => r.data),
   getById: (id: string) => apiClient.get<Product>(`/products/${id}`).then((r) => r.data),
+  getPrices: (id: string) =>
+    apiClient.get<ProductPrice[]>(`/products/${id}/prices`).then((r) => r.data),
+  getHistory: (id: string, range: PriceHistoryRange) =>
+    apiClient
+      .get<ProductPriceHistory>(`/products/${id}/history`, { params: { range } })
+      .then((r) => r.data),
 };
@@ -1,5 +1,15 @@
 import { apiClient } from './client';
-import type { UserProfile, LinkToken, UnlinkResult } from '@/types';
+import type {
+  UserProfile,
+  LinkToken,
+  UnlinkResult,
+  ShopPreference,
+  NotificationSchedule,
+  EmailChannelStatus,
+  PushChannelStatus,
+  Webhook,
+} from '@/types';
+import type { PushSubscriptionPayload } from '@/lib/push';
 
 export const usersApi = {
   getProfile: () => apiClient.get<UserProfile>('/users/me').then((r) => r.data),
@@ -9,4 +19,27 @@ export const usersApi = {
   generateDiscordToken: () =>
     apiClient.post<LinkToken>('/users/me/discord/link-token').then((r) => r.data),
   unlinkDiscord: () => apiClient.delete<UnlinkResult>('/users/me/discord').then((r) => r.data),
+  requestEmailLink: (address: string) =>
+    apiClient.post<EmailChannelStatus>('/users/me/email', { address }).then((r) => r.data),
+  verifyEmail: (token: string) =>
+    apiClient.post<EmailChannelStatus>('/users/me/email/verify', { token }).then((r) => r.data),
+  unlinkEmail: () => apiClient.delete<UnlinkResult>('/users/me/email').then((r) => r.data),
+  subscribePush: (subscription: PushSubscriptionPayload) =>
+    apiClient.post<PushChannelStatus>('/users/me/push', subscription).then((r) => r.data),
+  unsubscribePush: (endpoint: string) =>
+    apiClient.delete<UnlinkResult>('/users/me/push', { data: { endpoint } }).then((r) => r.data),
+  getWebhooks: () => apiClient.get<Webhook[]>('/users/me/webhooks').then((r) => r.data),
+  createWebhook: (url: string) =>
+    apiClient.post<Webhook>('/users/me/webhooks', { url }).then((r) => r.data),
+  enableWebhook: (id: string) =>
+    apiClient.post<Webhook>(`/users/me/webhooks/${id}/enable`).then((r) => r.data),
+  deleteWebhook: (id: string) =>
+    apiClient.delete<UnlinkResult>(`/users/me/webhooks/${id}`).then((r) => r.data),
+  getShops: () => apiClient.get<ShopPreference[]>('/users/me/shops').then((r) => r.data),
+  updateExcludedShops: (shopIds: string[]) =>
+    apiClient.put<ShopPreference[]>('/users/me/shops/excluded', { shopIds }).then((r) => r.data),
+  updateNotificationSchedule: (schedule: NotificationSchedule) =>
+    apiClient
+      .put<NotificationSchedule>('/users/me/notification-schedule', schedule)
+      .then((r) => r.data),
 };
@@ -28,4 +28,14 @@ describe('DeleteRowButton', () => {
     expect(onClick).toHaveBeenCalledOnce();
     expect(parentClick).not.toHaveBeenCalled();
   });
+
+  it('explains and ignores clicks when disabled', async () => {
+    const onClick = vi.fn();
+    render(<DeleteRowButton onClick={onClick} disabled title="Nie można usunąć" />);
+    const button = screen.getByRole('button');
+    expect(button).toBeDisabled();
+    expect(button).toHaveAttribute('title', 'Nie można usunąć');
+    await userEvent.click(button);
+    expect(onClick).not.toHaveBeenCalled();
+  });
 });
@@ -3,13 +3,18 @@ import { Trash2 } from 'lucide-react';
 
 interface DeleteRowButtonProps {
   onClick: () => void;
+  disabled?: boolean;
+  /** Tooltip, e.g. why the row can't be deleted. */
+  title?: string;
 }
 
-export function DeleteRowButton({ onClick }: DeleteRowButtonProps) {
+export function DeleteRowButton({ onClick, disabled, title }: DeleteRowButtonProps) {
   return (
     <Button
       variant="ghost"
       size="sm"
+      disabled={disabled}
+      title={title}
       onClick={(e) => {
         e.stopPropagation();
         onClick();
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useExplainMatch } from '@/hooks/use-admin';
+import { toast } from 'sonner';
+import { getErrorMessage } from '@/lib/error-utils';
+import type { AdminMatchExplanation, MatchRejection } from '@/api/admin.api';
+
+const REJECTION_LABELS: Record<MatchRejection, string> = {
+  empty: 'Pusty tytuł',
+  'no-type': 'Brak typu',
+  'no-set': 'Brak setu',
+  'no-card': 'Brak karty',
+};
+
+/** Runs pasted titles through the matching pipeline and shows what each layer produced. */
+export function MatchPlayground() {
+  const [input, setInput] = useState('');
+  const explain = useExplainMatch();
+
+  const titles = input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const handleExplain = async () => {
+    try {
+      await explain.mutateAsync(titles.slice(0, 20));
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się przetestować tytułów'));
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-base">Test dopasowania</CardTitle>
+        <CardDescription>
+          Wklej tytuły ze sklepów (jeden na linię, maks. 20), aby sprawdzić, jak dopasuje je scraper
+          przy obecnych typach i setach.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="np. Pokemon TCG Surging Sparks Booster Box"
+          rows={4}
+        />
+        <Button onClick={handleExplain} disabled={titles.length === 0 || explain.isPending}>
+          Testuj
+        </Button>
+
+        {explain.data?.map((result, idx) => (
+          <MatchTrace key={`${idx}-${result.title}`} result={result} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MatchTrace({ result }: { result: AdminMatchExplanation }) {
+  return (
+    <div className="border rounded-md p-3 text-sm space-y-1">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-medium break-all">{result.title}</span>
+        {result.rejectedBy ? (
+          <Badge variant="destructive">{REJECTION_LABELS[result.rejectedBy]}</Badge>
+        ) : (
+          <Badge variant="secondary">Dopasowano</Badge>
+        )}
+      </div>
+      <TraceRow label="Numery setów" value={result.setNumbersExpanded} />
+      <TraceRow label="Znormalizowany" value={result.normalized} />
+      <TraceRow label="Synonimy" value={result.synonymsExpanded} />
+      <TraceRow label="Język" value={result.language} />
+      <TraceRow label="Numer karty" value={result.cardNumber} />
+      <TraceRow label="Ocena" value={result.grade} />
+      <TraceRow label="Stan" value={result.condition?.toUpperCase() ?? null} />
+      <TraceRow
+        label="Karta"
+        value={
+          result.card &&
+          `${result.card.name} ${result.card.number} (${result.card.score.toFixed(1)})`
+        }
+      />
+      <TraceRow
+        label="Typ"
+        value={result.type && `${result.type.name} (${result.type.score.toFixed(1)})`}
+      />
+      <TraceRow label="Reszta tytułu" value={result.type?.residualTitle ?? null} />
+      <TraceRow
+        label="Set"
+        value={result.set && `${result.set.name} (${result.set.score.toFixed(1)})`}
+      />
+    </div>
+  );
+}
+
+function TraceRow({ label, value }: { label: string; value: string | null }) {
+  return (
+    <div className="flex gap-4">
+      <span className="text-muted-foreground w-32 shrink-0">{label}</span>
+      <span className="font-mono break-all">{value ?? '-'}</span>
+    </div>
+  );
+}
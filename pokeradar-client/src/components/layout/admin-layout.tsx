@@ -3,11 +3,13 @@ import { Outlet, NavLink, Link } from 'react-router-dom';
 import { AdminGuard } from '@/components/auth/admin-guard';
 import { Toaster } from '@/components/ui/sonner';
 import { Button } from '@/components/ui/button';
-import { Store, Package, Users, Bell, ArrowLeft, Menu } from 'lucide-react';
+import { Store, Activity, Package, Inbox, Users, Bell, ArrowLeft, Menu } from 'lucide-react';
 
 const NAV_ITEMS = [
   { to: '/admin/shops', label: 'Sklepy', icon: Store },
+  { to: '/admin/scans', label: 'Skany', icon: Activity },
   { to: '/admin/products', label: 'Produkty', icon: Package },
+  { to: '/admin/unmatched', label: 'Niedopasowane', icon: Inbox },
   { to: '/admin/users', label: 'Użytkownicy', icon: Users },
   { to: '/admin/notifications', label: 'Powiadomienia', icon: Bell },
 ];
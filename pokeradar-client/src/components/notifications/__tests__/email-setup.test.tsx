@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthContext } from '@/context/auth-context-value';
+import { EmailSetup } from '@/components/notifications/email/email-setup';
+import { mockUser } from '../../../__tests__/mocks/data';
+import { server } from '../../../__tests__/mocks/server';
+import { http, HttpResponse } from 'msw';
+import type { ReactNode } from 'react';
+
+const authValue = {
+  user: { id: mockUser.id, email: mockUser.email, displayName: mockUser.displayName },
+  isAuthenticated: true,
+  isLoading: false,
+  login: () => {},
+  logout: async () => {},
+};
+
+function makeWrapper(initialEntry = '/ustawienia') {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 }, mutations: { retry: false } },
+  });
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <QueryClientProvider client={queryClient}>
+        <AuthContext.Provider value={authValue}>
+          <MemoryRouter initialEntries={[initialEntry]}>{children}</MemoryRouter>
+        </AuthContext.Provider>
+      </QueryClientProvider>
+    );
+  };
+}
+
+describe('EmailSetup', () => {
+  it('sends a verification link and shows the pending address', async () => {
+    const user = userEvent.setup();
+    render(<EmailSetup />, { wrapper: makeWrapper() });
+
+    await user.type(screen.getByLabelText('Adres e-mail'), 'trainer@example.com');
+    await user.click(screen.getByRole('button', { name: 'Wyślij link' }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText(/Wysłaliśmy link weryfikacyjny na trainer@example.com/),
+      ).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: 'Wyślij ponownie' })).toBeInTheDocument();
+  });
+
+  it('verifies the token from the link in the email', async () => {
+    let verifiedToken: string | undefined;
+    // The profile reflects the verified address once the token was accepted
+    server.use(
+      http.get('http://localhost:3000/users/me', () =>
+        HttpResponse.json({
+          ...mockUser,
+          emailChannel: {
+            linked: verifiedToken !== undefined,
+            address: verifiedToken ? 'trainer@example.com' : null,
+            pendingAddress: null,
+          },
+        }),
+      ),
+      http.post('http://localhost:3000/users/me/email/verify', async ({ request }) => {
+        verifiedToken = ((await request.json()) as { token: string }).token;
+        return HttpResponse.json({
+          linked: true,
+          address: 'trainer@example.com',
+          pendingAddress: null,
+        });
+      }),
+    );
+
+    render(<EmailSetup />, { wrapper: makeWrapper('/ustawienia?emailToken=tok-123') });
+
+    await waitFor(() => {
+      expect(screen.getByText('trainer@example.com')).toBeInTheDocument();
+    });
+    expect(verifiedToken).toBe('tok-123');
+  });
+
+  it('shows the linked address with an unlink button', async () => {
+    server.use(
+      http.get('http://localhost:3000/users/me', () =>
+        HttpResponse.json({
+          ...mockUser,
+          emailChannel: { linked: true, address: 'trainer@example.com', pendingAddress: null },
+        }),
+      ),
+    );
+
+    render(<EmailSetup />, { wrapper: makeWrapper() });
+
+    await waitFor(() => {
+      expect(screen.getByText('trainer@example.com')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: /Odłącz/ })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AuthContext } from '@/context/auth-context-value';
+import { PushSetup } from '@/components/notifications/push/push-setup';
+import * as push from '@/lib/push';
+import { mockUser } from '../../../__tests__/mocks/data';
+import { server } from '../../../__tests__/mocks/server';
+import { http, HttpResponse } from 'msw';
+import type { ReactNode } from 'react';
+
+vi.mock('@/lib/push', () => ({
+  isPushSupported: vi.fn(),
+  getVapidPublicKey: vi.fn(),
+  getBrowserPushSubscription: vi.fn(),
+  subscribeBrowserToPush: vi.fn(),
+  unsubscribeBrowserFromPush: vi.fn(),
+}));
+
+const ENDPOINT = 'https://push.example.com/sub-1';
+
+const authValue = {
+  user: { id: mockUser.id, email: mockUser.email, displayName: mockUser.displayName },
+  isAuthenticated: true,
+  isLoading: false,
+  login: () => {},
+  logout: async () => {},
+};
+
+function makeWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 }, mutations: { retry: false } },
+  });
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <QueryClientProvider client={queryClient}>
+        <AuthContext.Provider value={authValue}>{children}</AuthContext.Provider>
+      </QueryClientProvider>
+    );
+  };
+}
+
+describe('PushSetup', () => {
+  beforeEach(() => {
+    vi.mocked(push.isPushSupported).mockReturnValue(true);
+    vi.mocked(push.getVapidPublicKey).mockReturnValue('vapid-public-key');
+    vi.mocked(push.getBrowserPushSubscription).mockResolvedValue(null);
+    vi.stubGlobal('Notification', { permission: 'default' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('explains when the browser cannot receive push notifications', () => {
+    vi.mocked(push.isPushSupported).mockReturnValue(false);
+    render(<PushSetup />, { wrapper: makeWrapper() });
+
+    expect(screen.getByText('Ta przeglądarka nie obsługuje powiadomień push.')).toBeInTheDocument();
+  });
+
+  it('subscribes this browser and saves the subscription', async () => {
+    vi.mocked(push.subscribeBrowserToPush).mockResolvedValue({
+      endpoint: ENDPOINT,
+      keys: { p256dh: 'p256dh-key', auth: 'auth-secret' },
+    });
+    const user = userEvent.setup();
+    render(<PushSetup />, { wrapper: makeWrapper() });
+
+    await user.click(await screen.findByRole('button', { name: 'Włącz w tej przeglądarce' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Ta przeglądarka otrzymuje powiadomienia push')).toBeInTheDocument();
+    });
+    expect(push.subscribeBrowserToPush).toHaveBeenCalledWith('vapid-public-key');
+  });
+
+  it('tells the user when notifications are blocked', async () => {
+    vi.stubGlobal('Notification', { permission: 'denied' });
+    render(<PushSetup />, { wrapper: makeWrapper() });
+
+    expect(
+      await screen.findByText(/Powiadomienia są zablokowane w ustawieniach przeglądarki/),
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('unsubscribes this browser', async () => {
+    let removedEndpoint: string | undefined;
+    server.use(
+      http.get('http://localhost:3000/users/me', () =>
+        HttpResponse.json({
+          ...mockUser,
+          telegram: { linked: true, linkToken: null },
+          pushChannel: { linked: true, endpoints: [ENDPOINT] },
+        }),
+      ),
+      http.delete('http://localhost:3000/users/me/push', async ({ request }) => {
+        removedEndpoint = ((await request.json()) as { endpoint: string }).endpoint;
+        return HttpResponse.json({ watchlistCleared: false });
+      }),
+    );
+    vi.mocked(push.getBrowserPushSubscription).mockResolvedValue({
+      endpoint: ENDPOINT,
+    } as PushSubscription);
+    vi.mocked(push.unsubscribeBrowserFromPush).mockResolvedValue(ENDPOINT);
+    const user = userEvent.setup();
+    render(<PushSetup />, { wrapper: makeWrapper() });
+
+    await user.click(await screen.findByRole('button', { name: 'Odłącz' }));
+
+    expect(
+      await screen.findByRole('button', { name: 'Włącz w tej przeglądarce' }),
+    ).toBeInTheDocument();
+    expect(removedEndpoint).toBe(ENDPOINT);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AuthContext } from '@/context/auth-context-value';
+import { WebhookSetup } from '@/components/notifications/webhook/webhook-setup';
+import { mockUser, mockWebhooks } from '../../../__tests__/mocks/data';
+import { server } from '../../../__tests__/mocks/server';
+import { http, HttpResponse } from 'msw';
+import type { ReactNode } from 'react';
+
+const authValue = {
+  user: { id: mockUser.id, email: mockUser.email, displayName: mockUser.displayName },
+  isAuthenticated: true,
+  isLoading: false,
+  login: () => {},
+  logout: async () => {},
+};
+
+function makeWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 }, mutations: { retry: false } },
+  });
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <QueryClientProvider client={queryClient}>
+        <AuthContext.Provider value={authValue}>{children}</AuthContext.Provider>
+      </QueryClientProvider>
+    );
+  };
+}
+
+describe('WebhookSetup', () => {
+  it('lists webhooks without a signing secret', async () => {
+    render(<WebhookSetup />, { wrapper: makeWrapper() });
+
+    expect(await screen.findByText('https://hooks.example.com/pokeradar')).toBeInTheDocument();
+    expect(screen.queryByText(/Sekret podpisu/)).not.toBeInTheDocument();
+  });
+
+  it('adds a webhook and shows its secret once', async () => {
+    const user = userEvent.setup();
+    render(<WebhookSetup />, { wrapper: makeWrapper() });
+
+    await user.type(await screen.findByLabelText('Adres webhooka'), 'https://ha.example.com/hook');
+    await user.click(screen.getByRole('button', { name: 'Dodaj' }));
+
+    expect(await screen.findByText('https://ha.example.com/hook')).toBeInTheDocument();
+    expect(screen.getByText('d4e5f6')).toBeInTheDocument();
+  });
+
+  it('re-enables a webhook disabled after failures', async () => {
+    server.use(
+      http.get('http://localhost:3000/users/me/webhooks', () =>
+        HttpResponse.json([{ ...mockWebhooks[0], disabled: true, consecutiveFailures: 15 }]),
+      ),
+    );
+    const user = userEvent.setup();
+    render(<WebhookSetup />, { wrapper: makeWrapper() });
+
+    expect(await screen.findByText('Wyłączony po 15 błędach')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Włącz ponownie' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Wyłączony po 15 błędach')).not.toBeInTheDocument();
+    });
+  });
+
+  it('removes a webhook', async () => {
+    server.use(http.get('http://localhost:3000/watchlist', () => HttpResponse.json([])));
+    const user = userEvent.setup();
+    render(<WebhookSetup />, { wrapper: makeWrapper() });
+
+    await user.click(
+      await screen.findByRole('button', { name: 'Usuń https://hooks.example.com/pokeradar' }),
+    );
+
+    await waitFor(() => {
+      expect(screen.queryByText('https://hooks.example.com/pokeradar')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { LinkedChannelStatus } from '@/components/notifications/linked-channel-s
 import { useUnlinkDiscord } from '@/hooks/use-discord';
 import { useUserProfile } from '@/hooks/use-user-profile';
 import { useWatchlist } from '@/hooks/use-watchlist';
+import { hasOtherLinkedChannel } from '@/lib/notification-channels';
 import { toast } from 'sonner';
 
 export function DiscordStatus() {
@@ -9,7 +10,7 @@ export function DiscordStatus() {
   const { data: profile } = useUserProfile();
   const { data: watchlist } = useWatchlist();
 
-  const isLastChannel = !profile?.telegram.linked;
+  const isLastChannel = !hasOtherLinkedChannel(profile, 'discord');
   const watchlistCount = watchlist?.length ?? 0;
 
   const handleUnlink = () => {
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useRequestEmailLink } from '@/hooks/use-email';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { Loader2, MailCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+export function EmailAddressForm() {
+  const { data: profile } = useUserProfile();
+  const requestLink = useRequestEmailLink();
+  const pendingAddress = profile?.emailChannel.pendingAddress ?? null;
+  const [address, setAddress] = useState(pendingAddress ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestLink.mutate(address.trim(), {
+      onError: () => toast.error('Nie udało się wysłać linku weryfikacyjnego'),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="adres@example.com"
+          aria-label="Adres e-mail"
+          required
+        />
+        <Button type="submit" size="sm" className="h-9" disabled={requestLink.isPending}>
+          {requestLink.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {pendingAddress ? 'Wyślij ponownie' : 'Wyślij link'}
+        </Button>
+      </div>
+      {pendingAddress && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <MailCheck className="h-3.5 w-3.5 shrink-0" />
+          Wysłaliśmy link weryfikacyjny na {pendingAddress}. Otwórz go, aby zakończyć.
+        </p>
+      )}
+    </form>
+  );
+}
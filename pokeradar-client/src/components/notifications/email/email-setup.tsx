@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { useVerifyEmail } from '@/hooks/use-email';
+import { EmailAddressForm } from './email-address-form';
+import { EmailStatus } from './email-status';
+import { toast } from 'sonner';
+
+/** Query param carried by the link in the verification email. */
+const EMAIL_TOKEN_PARAM = 'emailToken';
+
+export function EmailSetup() {
+  const { data: profile } = useUserProfile();
+  const { mutate: verifyEmail } = useVerifyEmail();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const handledToken = useRef<string | null>(null);
+
+  const token = searchParams.get(EMAIL_TOKEN_PARAM);
+
+  useEffect(() => {
+    if (!token || handledToken.current === token) return;
+    handledToken.current = token;
+
+    setSearchParams(
+      (params) => {
+        params.delete(EMAIL_TOKEN_PARAM);
+        return params;
+      },
+      { replace: true },
+    );
+    verifyEmail(token, {
+      onSuccess: () => toast.success('Adres e-mail potwierdzony! Powiadomienia będą tam trafiać.'),
+      onError: () => toast.error('Link weryfikacyjny jest nieprawidłowy lub wygasł'),
+    });
+  }, [token, verifyEmail, setSearchParams]);
+
+  if (profile?.emailChannel.linked) {
+    return <EmailStatus />;
+  }
+
+  return <EmailAddressForm />;
+}
@@ -0,0 +1,42 @@
+import { LinkedChannelStatus } from '@/components/notifications/linked-channel-status';
+import { useUnlinkEmail } from '@/hooks/use-email';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { hasOtherLinkedChannel } from '@/lib/notification-channels';
+import { toast } from 'sonner';
+
+export function EmailStatus() {
+  const unlinkEmail = useUnlinkEmail();
+  const { data: profile } = useUserProfile();
+  const { data: watchlist } = useWatchlist();
+
+  const isLastChannel = !hasOtherLinkedChannel(profile, 'email');
+  const watchlistCount = watchlist?.length ?? 0;
+
+  const handleUnlink = () => {
+    unlinkEmail.mutate(undefined, {
+      onSuccess: () => {
+        toast.success('Adres e-mail został odłączony');
+      },
+      onError: () => {
+        toast.error('Nie udało się odłączyć adresu e-mail');
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">
+        Powiadomienia trafiają na{' '}
+        <span className="font-medium">{profile?.emailChannel.address}</span>
+      </p>
+      <LinkedChannelStatus
+        channelName="e-mail"
+        isPending={unlinkEmail.isPending}
+        onUnlink={handleUnlink}
+        isLastChannel={isLastChannel}
+        watchlistCount={watchlistCount}
+      />
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ interface LinkedChannelStatusProps {
   onUnlink: () => void;
   isLastChannel?: boolean;
   watchlistCount?: number;
+  /** Replaces the default "Konto … jest połączone" line. */
+  statusText?: string;
 }
 
 export function LinkedChannelStatus({
@@ -16,6 +18,7 @@ export function LinkedChannelStatus({
   onUnlink,
   isLastChannel = false,
   watchlistCount = 0,
+  statusText,
 }: LinkedChannelStatusProps) {
   const showConfirmation = isLastChannel && watchlistCount > 0;
 
@@ -33,7 +36,7 @@ export function LinkedChannelStatus({
   return (
     <div className="flex items-center justify-between">
       <p className="text-xs text-muted-foreground">
-        Konto {channelName} jest połączone z pokeradar
+        {statusText ?? `Konto ${channelName} jest połączone z pokeradar`}
       </p>
       {showConfirmation ? (
         <ConfirmDialog
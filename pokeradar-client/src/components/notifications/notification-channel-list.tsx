@@ -3,6 +3,10 @@ import { TelegramSetup } from './telegram/telegram-setup';
 import { TelegramIcon } from './telegram/telegram-icon';
 import { DiscordSetup } from './discord/discord-setup';
 import { DiscordIcon } from './discord/discord-icon';
+import { EmailSetup } from './email/email-setup';
+import { PushSetup } from './push/push-setup';
+import { WebhookSetup } from './webhook/webhook-setup';
+import { BellRing, Mail, Webhook } from 'lucide-react';
 import { useUserProfile } from '@/hooks/use-user-profile';
 import type { ComponentType } from 'react';
 import type { LucideIcon } from 'lucide-react';
@@ -37,6 +41,33 @@ const NOTIFICATION_CHANNELS: NotificationChannelConfig[] = [
     isAvailable: true,
     getIsLinked: (profile) => profile?.discord.linked ?? false,
   },
+  {
+    id: 'email',
+    name: 'E-mail',
+    description: 'Otrzymuj powiadomienia na zweryfikowany adres e-mail',
+    icon: Mail,
+    component: EmailSetup,
+    isAvailable: true,
+    getIsLinked: (profile) => profile?.emailChannel.linked ?? false,
+  },
+  {
+    id: 'push',
+    name: 'Przeglądarka',
+    description: 'Otrzymuj powiadomienia push na komputerze lub telefonie',
+    icon: BellRing,
+    component: PushSetup,
+    isAvailable: true,
+    getIsLinked: (profile) => profile?.pushChannel.linked ?? false,
+  },
+  {
+    id: 'webhook',
+    name: 'Webhook',
+    description: 'Przekazuj powiadomienia do Home Assistant, Slacka lub własnych skryptów',
+    icon: Webhook,
+    component: WebhookSetup,
+    isAvailable: true,
+    getIsLinked: (profile) => profile?.webhookChannel.linked ?? false,
+  },
 ];
 
 export function NotificationChannelList() {
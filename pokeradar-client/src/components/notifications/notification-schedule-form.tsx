@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { useUpdateNotificationSchedule } from '@/hooks/use-notification-schedule';
+import { toast } from 'sonner';
+import type { NotificationSchedule } from '@/types';
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+const DEFAULT_DIGEST_TIME = '08:00';
+
+function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function ScheduleFields({ schedule }: { schedule: NotificationSchedule }) {
+  const updateSchedule = useUpdateNotificationSchedule();
+  const timezone = browserTimezone();
+
+  const [quietEnabled, setQuietEnabled] = useState(schedule.quietHours !== null);
+  const [quietStart, setQuietStart] = useState(
+    schedule.quietHours?.start ?? DEFAULT_QUIET_HOURS.start,
+  );
+  const [quietEnd, setQuietEnd] = useState(schedule.quietHours?.end ?? DEFAULT_QUIET_HOURS.end);
+  const [digestEnabled, setDigestEnabled] = useState(schedule.digestTime !== null);
+  const [digestTime, setDigestTime] = useState(schedule.digestTime ?? DEFAULT_DIGEST_TIME);
+
+  const handleSave = () => {
+    // Times are saved in the browser's timezone, so moving keeps local hours
+    updateSchedule.mutate(
+      {
+        timezone,
+        quietHours: quietEnabled ? { start: quietStart, end: quietEnd } : null,
+        digestTime: digestEnabled ? digestTime : null,
+      },
+      {
+        onSuccess: () => toast.success('Harmonogram powiadomień zapisany'),
+        onError: () => toast.error('Nie udało się zapisać harmonogramu'),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <Label htmlFor="quiet-hours">Godziny ciszy</Label>
+            <p className="text-xs text-muted-foreground">
+              Powiadomienia z tego okresu dostaniesz zbiorczo po jego zakończeniu.
+            </p>
+          </div>
+          <Switch id="quiet-hours" checked={quietEnabled} onCheckedChange={setQuietEnabled} />
+        </div>
+        {quietEnabled && (
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor="quiet-start" className="font-normal">
+              Od
+            </Label>
+            <Input
+              id="quiet-start"
+              type="time"
+              value={quietStart}
+              onChange={(e) => setQuietStart(e.target.value)}
+              className="w-28"
+            />
+            <Label htmlFor="quiet-end" className="font-normal">
+              do
+            </Label>
+            <Input
+              id="quiet-end"
+              type="time"
+              value={quietEnd}
+              onChange={(e) => setQuietEnd(e.target.value)}
+              className="w-28"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <Label htmlFor="digest">Podsumowanie dzienne</Label>
+            <p className="text-xs text-muted-foreground">
+              Wszystkie powiadomienia w jednej wiadomości o wybranej godzinie.
+            </p>
+          </div>
+          <Switch id="digest" checked={digestEnabled} onCheckedChange={setDigestEnabled} />
+        </div>
+        {digestEnabled && (
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor="digest-time" className="font-normal">
+              Godzina
+            </Label>
+            <Input
+              id="digest-time"
+              type="time"
+              value={digestTime}
+              onChange={(e) => setDigestTime(e.target.value)}
+              className="w-28"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">Strefa czasowa: {timezone}</p>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={updateSchedule.isPending || !quietStart || !quietEnd || !digestTime}
+        >
+          Zapisz
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Quiet hours and daily digest settings.
+ */
+export function NotificationScheduleForm() {
+  const { data: profile, isLoading } = useUserProfile();
+
+  return (
+    <Card className="py-0">
+      <CardContent className="p-6">
+        {isLoading || !profile ? (
+          <div className="space-y-3">
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-full" />
+          </div>
+        ) : (
+          <ScheduleFields schedule={profile.notificationSchedule} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
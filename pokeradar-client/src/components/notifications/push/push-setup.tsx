@@ -0,0 +1,85 @@
+import { Button } from '@/components/ui/button';
+import { LinkedChannelStatus } from '@/components/notifications/linked-channel-status';
+import { useBrowserPushEndpoint, useSubscribePush, useUnsubscribePush } from '@/hooks/use-push';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { hasOtherLinkedChannel } from '@/lib/notification-channels';
+import { getVapidPublicKey, isPushSupported } from '@/lib/push';
+import { BellRing, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+export function PushSetup() {
+  const { data: profile } = useUserProfile();
+  const { data: watchlist } = useWatchlist();
+  const { data: browserEndpoint } = useBrowserPushEndpoint();
+  const subscribePush = useSubscribePush();
+  const unsubscribePush = useUnsubscribePush();
+
+  if (!isPushSupported() || !getVapidPublicKey()) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Ta przeglądarka nie obsługuje powiadomień push.
+      </p>
+    );
+  }
+
+  const endpoints = profile?.pushChannel.endpoints ?? [];
+  const isThisBrowserSubscribed = !!browserEndpoint && endpoints.includes(browserEndpoint);
+  const otherDevices = endpoints.filter((e) => e !== browserEndpoint).length;
+
+  if (isThisBrowserSubscribed) {
+    const isLastChannel = !hasOtherLinkedChannel(profile, 'push') && otherDevices === 0;
+
+    const handleUnsubscribe = () => {
+      unsubscribePush.mutate(undefined, {
+        onSuccess: () => toast.success('Powiadomienia push wyłączone w tej przeglądarce'),
+        onError: () => toast.error('Nie udało się wyłączyć powiadomień push'),
+      });
+    };
+
+    return (
+      <LinkedChannelStatus
+        channelName="powiadomienia push"
+        statusText="Ta przeglądarka otrzymuje powiadomienia push"
+        isPending={unsubscribePush.isPending}
+        onUnlink={handleUnsubscribe}
+        isLastChannel={isLastChannel}
+        watchlistCount={watchlist?.length ?? 0}
+      />
+    );
+  }
+
+  const isBlocked = Notification.permission === 'denied';
+
+  const handleSubscribe = () => {
+    subscribePush.mutate(undefined, {
+      onSuccess: () => toast.success('Powiadomienia push włączone!'),
+      onError: () => toast.error('Nie udało się włączyć powiadomień push'),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {otherDevices > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Powiadomienia push są aktywne na innych urządzeniach ({otherDevices}).
+        </p>
+      )}
+      {isBlocked ? (
+        <p className="text-xs text-muted-foreground">
+          Powiadomienia są zablokowane w ustawieniach przeglądarki. Zezwól na nie dla tej strony,
+          aby je włączyć.
+        </p>
+      ) : (
+        <Button size="sm" onClick={handleSubscribe} disabled={subscribePush.isPending}>
+          {subscribePush.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <BellRing className="mr-2 h-4 w-4" />
+          )}
+          Włącz w tej przeglądarce
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useShopPreferences, useUpdateExcludedShops } from '@/hooks/use-shop-preferences';
+import { toast } from 'sonner';
+
+/**
+ * Global shop exclusions for alerts.
+ * Watch entries with their own shop list ignore these.
+ */
+export function ShopPreferences() {
+  const { data: shops, isLoading } = useShopPreferences();
+  const updateExcluded = useUpdateExcludedShops();
+
+  const handleToggle = (shopId: string, notify: boolean) => {
+    const excluded = (shops ?? []).filter((s) => s.excluded).map((s) => s.id);
+    const next = notify ? excluded.filter((id) => id !== shopId) : [...excluded, shopId];
+    updateExcluded.mutate(next, {
+      onError: () => toast.error('Nie udało się zapisać sklepów'),
+    });
+  };
+
+  return (
+    <Card className="py-0">
+      <CardContent className="p-6 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Wybierz sklepy, z których chcesz dostawać powiadomienia. Produkty z własną listą sklepów
+          na liście obserwowanych korzystają z niej zamiast tych ustawień.
+        </p>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {shops?.map((shop) => (
+              <div key={shop.id} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`shop-${shop.id}`} className="font-normal">
+                  {shop.name}
+                </Label>
+                <Switch
+                  id={`shop-${shop.id}`}
+                  checked={!shop.excluded}
+                  onCheckedChange={(checked) => handleToggle(shop.id, checked)}
+                  disabled={updateExcluded.isPending}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
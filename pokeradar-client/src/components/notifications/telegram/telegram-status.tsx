@@ -2,6 +2,7 @@ import { LinkedChannelStatus } from '@/components/notifications/linked-channel-s
 import { useUnlinkTelegram } from '@/hooks/use-telegram';
 import { useUserProfile } from '@/hooks/use-user-profile';
 import { useWatchlist } from '@/hooks/use-watchlist';
+import { hasOtherLinkedChannel } from '@/lib/notification-channels';
 import { toast } from 'sonner';
 
 export function TelegramStatus() {
@@ -9,7 +10,7 @@ export function TelegramStatus() {
   const { data: profile } = useUserProfile();
   const { data: watchlist } = useWatchlist();
 
-  const isLastChannel = !profile?.discord.linked;
+  const isLastChannel = !hasOtherLinkedChannel(profile, 'telegram');
   const watchlistCount = watchlist?.length ?? 0;
 
   const handleUnlink = () => {
@@ -0,0 +1,103 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CopyTokenBox } from '@/components/notifications/copy-token-box';
+import { useDeleteWebhook, useEnableWebhook } from '@/hooks/use-webhooks';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Webhook } from '@/types';
+
+interface WebhookItemProps {
+  webhook: Webhook;
+  /** Removing this webhook would leave the user without any channel. */
+  isLastChannel: boolean;
+  watchlistCount: number;
+}
+
+export function WebhookItem({ webhook, isLastChannel, watchlistCount }: WebhookItemProps) {
+  const deleteWebhook = useDeleteWebhook();
+  const enableWebhook = useEnableWebhook();
+
+  const handleDelete = () => {
+    deleteWebhook.mutate(webhook.id, {
+      onSuccess: () => toast.success('Webhook został usunięty'),
+      onError: () => toast.error('Nie udało się usunąć webhooka'),
+    });
+  };
+
+  const handleEnable = () => {
+    enableWebhook.mutate(webhook.id, {
+      onSuccess: () => toast.success('Webhook włączony ponownie'),
+      onError: () => toast.error('Nie udało się włączyć webhooka'),
+    });
+  };
+
+  const deleteButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 shrink-0"
+      aria-label={`Usuń ${webhook.url}`}
+      disabled={deleteWebhook.isPending}
+      onClick={isLastChannel && watchlistCount > 0 ? undefined : handleDelete}
+    >
+      {deleteWebhook.isPending ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <Trash2 className="h-4 w-4" />
+      )}
+    </Button>
+  );
+
+  return (
+    <li className="space-y-2 rounded-md border border-border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <code className="text-xs break-all font-mono">{webhook.url}</code>
+        {isLastChannel && watchlistCount > 0 ? (
+          <ConfirmDialog
+            trigger={deleteButton}
+            icon={Trash2}
+            title="Usunąć webhook?"
+            description={
+              <>
+                To jedyny skonfigurowany kanał powiadomień.
+                <br />
+                <br />
+                <span className="font-medium text-foreground">
+                  Usunięcie wyczyści Twoją listę obserwowanych ({watchlistCount}).
+                </span>
+              </>
+            }
+            confirmLabel="Usuń i wyczyść"
+            isPending={deleteWebhook.isPending}
+            onConfirm={handleDelete}
+          />
+        ) : (
+          deleteButton
+        )}
+      </div>
+      {webhook.disabled && (
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant="destructive">Wyłączony po {webhook.consecutiveFailures} błędach</Badge>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleEnable}
+            disabled={enableWebhook.isPending}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Włącz ponownie
+          </Button>
+        </div>
+      )}
+      {webhook.secret && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Sekret podpisu — skopiuj go teraz, nie pokażemy go ponownie
+          </p>
+          <CopyTokenBox token={webhook.secret} />
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useCreateWebhook, useWebhooks } from '@/hooks/use-webhooks';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { hasOtherLinkedChannel } from '@/lib/notification-channels';
+import { WebhookItem } from './webhook-item';
+import { Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+/** Mirrors the API's per-user limit. */
+const MAX_WEBHOOKS = 5;
+
+export function WebhookSetup() {
+  const { data: profile } = useUserProfile();
+  const { data: watchlist } = useWatchlist();
+  const { data: webhooks, isLoading } = useWebhooks();
+  const createWebhook = useCreateWebhook();
+  const [url, setUrl] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createWebhook.mutate(url.trim(), {
+      onSuccess: () => {
+        setUrl('');
+        toast.success('Webhook dodany');
+      },
+      onError: () => toast.error('Nie udało się dodać webhooka'),
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-9 w-full" />;
+  }
+
+  const list = webhooks ?? [];
+  const enabledCount = list.filter((w) => !w.disabled).length;
+  const otherChannels = hasOtherLinkedChannel(profile, 'webhook');
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Wysyłamy powiadomienia jako JSON (POST). Nagłówek X-Pokeradar-Signature zawiera
+        sha256=HMAC(sekret, &quot;X-Pokeradar-Timestamp.treść&quot;).
+      </p>
+      {list.length > 0 && (
+        <ul className="space-y-2">
+          {list.map((webhook) => (
+            <WebhookItem
+              key={webhook.id}
+              webhook={webhook}
+              isLastChannel={!otherChannels && !webhook.disabled && enabledCount === 1}
+              watchlistCount={watchlist?.length ?? 0}
+            />
+          ))}
+        </ul>
+      )}
+      {list.length < MAX_WEBHOOKS && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhook"
+            aria-label="Adres webhooka"
+            required
+          />
+          <Button type="submit" size="sm" className="h-9" disabled={createWebhook.isPending}>
+            {createWebhook.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Dodaj
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PriceHistoryChart } from '@/components/products/price-history-chart';
+import type { DailyLowestPrice } from '@/lib/price-history';
+
+function day(date: string, price: number | null): DailyLowestPrice {
+  return { day: date, price, shopId: price === null ? null : 'shop-a' };
+}
+
+describe('PriceHistoryChart', () => {
+  it('spaces points by date rather than by position', () => {
+    const { container } = render(
+      <PriceHistoryChart
+        data={[day('2024-01-01', 100), day('2024-01-02', 110), day('2024-01-05', 120)]}
+        lowestEver={null}
+      />,
+    );
+
+    // Plot runs from x=72 to x=624; 2024-01-02 is a quarter of the way through the range
+    const line = container.querySelector('polyline');
+    expect(
+      line
+        ?.getAttribute('points')
+        ?.split(' ')
+        .map((p) => p.split(',')[0]),
+    ).toEqual(['72', '210']);
+  });
+
+  it('breaks the line over days missing from the history', () => {
+    const { container } = render(
+      <PriceHistoryChart
+        data={[day('2024-01-01', 100), day('2024-01-02', 110), day('2024-01-05', 120)]}
+        lowestEver={null}
+      />,
+    );
+
+    expect(container.querySelectorAll('polyline')).toHaveLength(1);
+    expect(container.querySelectorAll('.text-primary circle')).toHaveLength(1);
+  });
+
+  it('draws the max price line and keeps it within the plot', () => {
+    render(
+      <PriceHistoryChart
+        data={[day('2024-01-01', 100), day('2024-01-02', 110)]}
+        lowestEver={null}
+        maxPrice={80}
+      />,
+    );
+
+    expect(screen.getByText(/Twoja cena maks\.:/)).toHaveTextContent('80,00');
+    // The y axis extends down to the max price
+    expect(screen.getAllByText(/80,00/)).toHaveLength(2);
+  });
+
+  it('shows an empty state without any prices', () => {
+    render(<PriceHistoryChart data={[day('2024-01-01', null)]} lowestEver={null} maxPrice={80} />);
+
+    expect(screen.getByText('Brak historii cen w wybranym okresie')).toBeInTheDocument();
+  });
+});
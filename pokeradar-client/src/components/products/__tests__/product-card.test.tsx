@@ -108,10 +108,20 @@ describe('ProductCard', () => {
         <ProductCard product={product} entry={entry} watchlistDisabled={false} />
       </Wrapper>,
     );
-    const link = screen.getByRole('link');
+    const link = screen.getByRole('link', { name: /179,99/ });
     expect(link).toHaveAttribute('href', 'https://shop-a.com/pikachu');
   });
 
+  it('links product name to the product page', () => {
+    render(
+      <Wrapper>
+        <ProductCard product={product} entry={undefined} watchlistDisabled={false} />
+      </Wrapper>,
+    );
+    const link = screen.getByRole('link', { name: 'Pikachu VMAX' });
+    expect(link).toHaveAttribute('href', '/produkt/prod-1');
+  });
+
   it('has a watchlist toggle with correct aria-label', () => {
     render(
       <Wrapper>
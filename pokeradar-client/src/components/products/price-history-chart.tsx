@@ -0,0 +1,133 @@
+import { formatPLN, formatShortDate } from '@/lib/format';
+import { dayDiff, type DailyLowestPrice, type LowestEverPrice } from '@/lib/price-history';
+
+interface PriceHistoryChartProps {
+  data: DailyLowestPrice[];
+  lowestEver: LowestEverPrice | null;
+  /** The user's alert threshold, drawn as a reference line when the product is watched. */
+  maxPrice?: number | null;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 24, left: 72 };
+
+/**
+ * Lightweight SVG line chart of the lowest daily price, on a date axis.
+ * Days without an available offer, or missing from the history altogether,
+ * break the line rather than being interpolated.
+ */
+export function PriceHistoryChart({ data, lowestEver, maxPrice = null }: PriceHistoryChartProps) {
+  const prices = data.map((d) => d.price).filter((p): p is number => p !== null);
+
+  if (prices.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground italic py-8 text-center">
+        Brak historii cen w wybranym okresie
+      </p>
+    );
+  }
+
+  const bounds = maxPrice === null ? prices : [...prices, maxPrice];
+  const min = Math.min(...bounds);
+  const max = Math.max(...bounds);
+  const spread = max - min || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const firstDay = data[0].day;
+  const lastDay = data[data.length - 1].day;
+  const totalDays = dayDiff(firstDay, lastDay);
+
+  const x = (day: string) =>
+    PADDING.left +
+    (totalDays === 0 ? plotWidth / 2 : (dayDiff(firstDay, day) / totalDays) * plotWidth);
+  const y = (price: number) => PADDING.top + (1 - (price - min) / spread) * plotHeight;
+
+  // Split into continuous segments so unavailable days render as gaps
+  const segments: Array<Array<{ x: number; y: number }>> = [];
+  let current: Array<{ x: number; y: number }> = [];
+  data.forEach((d, i) => {
+    if (i > 0 && dayDiff(data[i - 1].day, d.day) > 1 && current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+    if (d.price === null) {
+      if (current.length > 0) segments.push(current);
+      current = [];
+      return;
+    }
+    current.push({ x: x(d.day), y: y(d.price) });
+  });
+  if (current.length > 0) segments.push(current);
+
+  const lowestInRange = lowestEver !== null && data.some((d) => d.day === lowestEver.day);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Wykres najniższej ceny dziennej"
+    >
+      <g className="text-muted-foreground" fontSize="11" fill="currentColor">
+        <text x={PADDING.left - 8} y={y(max) + 4} textAnchor="end">
+          {formatPLN(max)}
+        </text>
+        <text x={PADDING.left - 8} y={y(min) + 4} textAnchor="end">
+          {formatPLN(min)}
+        </text>
+        <text x={x(firstDay)} y={HEIGHT - 6} textAnchor="start">
+          {formatShortDate(firstDay)}
+        </text>
+        {totalDays > 0 && (
+          <text x={x(lastDay)} y={HEIGHT - 6} textAnchor="end">
+            {formatShortDate(lastDay)}
+          </text>
+        )}
+      </g>
+
+      <g className="text-border" stroke="currentColor" strokeDasharray="4 4">
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(max)} y2={y(max)} />
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(min)} y2={y(min)} />
+      </g>
+
+      {maxPrice !== null && (
+        <g className="text-amber-500" stroke="currentColor" fill="currentColor" fontSize="11">
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(maxPrice)}
+            y2={y(maxPrice)}
+            strokeDasharray="6 3"
+          />
+          <text x={WIDTH - PADDING.right} y={y(maxPrice) - 4} textAnchor="end" stroke="none">
+            {`Twoja cena maks.: ${formatPLN(maxPrice)}`}
+          </text>
+        </g>
+      )}
+
+      <g className="text-primary" stroke="currentColor" fill="currentColor">
+        {segments.map((segment, i) =>
+          segment.length === 1 ? (
+            <circle key={i} cx={segment[0].x} cy={segment[0].y} r={2.5} />
+          ) : (
+            <polyline
+              key={i}
+              points={segment.map((p) => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              strokeWidth={2}
+            />
+          ),
+        )}
+      </g>
+
+      {lowestEver && lowestInRange && (
+        <g className="text-green-500" fill="currentColor">
+          <circle cx={x(lowestEver.day)} cy={y(lowestEver.price)} r={5} />
+          <title>{`Najniższa cena: ${formatPLN(lowestEver.price)} (${lowestEver.shopId})`}</title>
+        </g>
+      )}
+    </svg>
+  );
+}
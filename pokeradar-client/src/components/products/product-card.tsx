@@ -1,3 +1,4 @@
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ExternalLink } from '@/components/ui/external-link';
@@ -52,12 +53,19 @@ export function ProductCard({ product, entry, watchlistDisabled }: ProductCardPr
               Niedostępny
             </Badge>
           )}
+          {product.language && product.language !== 'english' && (
+            <Badge variant="secondary" className="absolute top-1 left-1 text-xs capitalize">
+              {product.language}
+            </Badge>
+          )}
         </div>
 
         {/* Info */}
         <div className="flex flex-col flex-1 px-2.5 py-2 sm:px-3 sm:py-1.5 gap-2.5 sm:gap-1.5">
           <h3 className="font-medium text-sm sm:text-xs leading-tight line-clamp-2 sm:min-h-[1.85rem]">
-            {product.name}
+            <Link to={`/produkt/${product.id}`} className="hover:text-primary hover:underline">
+              {product.name}
+            </Link>
           </h3>
           <div className="flex items-center justify-between gap-2">
             {product.currentBestUrl ? (
@@ -75,6 +83,8 @@ export function ProductCard({ product, entry, watchlistDisabled }: ProductCardPr
                 entryId={entry.id}
                 currentMaxPrice={entry.maxPrice}
                 currentBestPrice={product.currentBestPrice}
+                productId={product.id}
+                alertRules={entry.alertRules}
                 disabled={watchlistDisabled || !!product.disabled}
               />
             </div>
@@ -229,4 +229,46 @@ describe('MaxPriceInput', () => {
     renderInput({ currentBestPrice: 150 });
     expect(screen.getByRole('slider')).toBeInTheDocument();
   });
+
+  describe('alert rules', () => {
+    it('hides the rules editor without a product id', () => {
+      renderInput();
+      expect(screen.queryByText('Więcej warunków')).not.toBeInTheDocument();
+    });
+
+    it('prefills saved rules when expanded', async () => {
+      const user = userEvent.setup();
+      renderInput({ productId: 'pokemon-151-booster-box', alertRules: { minPrice: 50 } });
+
+      await user.click(screen.getByText('Więcej warunków'));
+
+      expect(screen.getByLabelText('Pomijaj oferty tańsze niż (zł)')).toHaveValue(50);
+      expect(screen.getByRole('switch')).not.toBeChecked();
+    });
+
+    it('sends PATCH with the edited rules on save', async () => {
+      let patchedRules: unknown;
+      server.use(
+        http.patch('http://localhost:3000/watchlist/watch-1', async ({ request }) => {
+          const body = (await request.json()) as { alertRules: unknown };
+          patchedRules = body.alertRules;
+          return HttpResponse.json({ id: 'watch-1', maxPrice: 200, alertRules: body.alertRules });
+        }),
+      );
+
+      const user = userEvent.setup();
+      renderInput({ productId: 'pokemon-151-booster-box' });
+
+      await user.click(screen.getByText('Więcej warunków'));
+      await user.click(screen.getByRole('switch'));
+      fireEvent.change(screen.getByLabelText('Spadek poniżej średniej z 7 dni (%)'), {
+        target: { value: '15' },
+      });
+      await user.click(screen.getByRole('button', { name: 'Zapisz warunki' }));
+
+      await waitFor(() =>
+        expect(patchedRules).toEqual({ anyRestock: true, dropBelowAveragePercent: 15 }),
+      );
+    });
+  });
 });
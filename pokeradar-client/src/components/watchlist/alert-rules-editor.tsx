@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuCheckboxItem,
+} from '@/components/ui/dropdown-menu';
+import { useProductPrices } from '@/hooks/use-products';
+import { useUpdateWatchEntry } from '@/hooks/use-watchlist';
+import { ChevronDown } from 'lucide-react';
+import { toast } from 'sonner';
+import type { WatchAlertRules } from '@/types';
+
+interface AlertRulesEditorProps {
+  entryId: string;
+  productId: string;
+  alertRules: WatchAlertRules | undefined;
+  disabled?: boolean;
+}
+
+function parseOptionalNumber(value: string): number | undefined | null {
+  if (value.trim() === '') return undefined;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Alert conditions beyond the price limit.
+ * Mounted only while expanded, so the shop list loads on demand.
+ */
+export function AlertRulesEditor({
+  entryId,
+  productId,
+  alertRules,
+  disabled = false,
+}: AlertRulesEditorProps) {
+  const { data: prices } = useProductPrices(productId);
+  const updateEntry = useUpdateWatchEntry();
+
+  const [anyRestock, setAnyRestock] = useState(alertRules?.anyRestock ?? false);
+  const [dropPercent, setDropPercent] = useState(
+    alertRules?.dropBelowAveragePercent?.toString() ?? '',
+  );
+  const [minPrice, setMinPrice] = useState(alertRules?.minPrice?.toString() ?? '');
+  const [shopIds, setShopIds] = useState<string[]>(alertRules?.shopIds ?? []);
+
+  // Shops that currently list the product, plus any already selected that dropped off
+  const shopOptions = [...new Set([...(prices ?? []).map((p) => p.shopId), ...shopIds])].sort();
+
+  const handleSave = () => {
+    const parsedDrop = parseOptionalNumber(dropPercent);
+    const parsedMin = parseOptionalNumber(minPrice);
+    if (parsedDrop === null || (parsedDrop !== undefined && (parsedDrop < 1 || parsedDrop > 99))) {
+      toast.error('Spadek ceny musi być liczbą od 1 do 99');
+      return;
+    }
+    if (parsedMin === null || (parsedMin !== undefined && parsedMin <= 0)) {
+      toast.error('Cena minimalna musi być większa od zera');
+      return;
+    }
+
+    const rules: WatchAlertRules = {};
+    if (anyRestock) rules.anyRestock = true;
+    if (parsedDrop !== undefined) rules.dropBelowAveragePercent = parsedDrop;
+    if (parsedMin !== undefined) rules.minPrice = parsedMin;
+    if (shopIds.length > 0) rules.shopIds = shopIds;
+
+    updateEntry.mutate(
+      { id: entryId, data: { alertRules: rules } },
+      {
+        onSuccess: () => toast.success('Warunki powiadomień zapisane'),
+        onError: () => toast.error('Nie udało się zapisać warunków'),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-2.5 pt-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${entryId}-any-restock`} className="text-xs font-normal">
+          Każda dostawa, niezależnie od ceny
+        </Label>
+        <Switch
+          id={`${entryId}-any-restock`}
+          size="sm"
+          checked={anyRestock}
+          onCheckedChange={setAnyRestock}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${entryId}-drop`} className="text-xs font-normal">
+          Spadek poniżej średniej z 7 dni (%)
+        </Label>
+        <Input
+          id={`${entryId}-drop`}
+          type="number"
+          value={dropPercent}
+          onChange={(e) => setDropPercent(e.target.value)}
+          placeholder="np. 15"
+          className="h-7 w-20 text-right text-xs md:text-xs"
+          min={1}
+          max={99}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${entryId}-min-price`} className="text-xs font-normal">
+          Pomijaj oferty tańsze niż (zł)
+        </Label>
+        <Input
+          id={`${entryId}-min-price`}
+          type="number"
+          value={minPrice}
+          onChange={(e) => setMinPrice(e.target.value)}
+          placeholder="np. 50"
+          className="h-7 w-20 text-right text-xs md:text-xs"
+          min={1}
+          step={0.01}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span>Sklepy</span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="xs"
+              className="font-normal"
+              type="button"
+              disabled={disabled || shopOptions.length === 0}
+            >
+              {shopIds.length === 0 ? 'Jak w ustawieniach' : `${shopIds.length} wybranych`}
+              <ChevronDown className="size-3.5 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {shopOptions.map((shopId) => (
+              <DropdownMenuCheckboxItem
+                key={shopId}
+                checked={shopIds.includes(shopId)}
+                onCheckedChange={(checked) =>
+                  setShopIds(checked ? [...shopIds, shopId] : shopIds.filter((id) => id !== shopId))
+                }
+                onSelect={(e) => e.preventDefault()}
+              >
+                {shopId}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Button
+        size="xs"
+        className="w-full"
+        onClick={handleSave}
+        disabled={disabled || updateEntry.isPending}
+      >
+        Zapisz warunki
+      </Button>
+    </div>
+  );
+}
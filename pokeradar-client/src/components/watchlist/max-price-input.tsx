@@ -1,14 +1,21 @@
 import { useEffect, useRef, useState } from 'react';
 import { Slider } from '@/components/ui/slider';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertRulesEditor } from '@/components/watchlist/alert-rules-editor';
 import { useDebounce } from '@/hooks/use-debounce';
 import { useUpdateWatchEntry } from '@/hooks/use-watchlist';
 import { formatPLN } from '@/lib/format';
 import { toast } from 'sonner';
+import { ChevronDown } from 'lucide-react';
+import type { WatchAlertRules } from '@/types';
 
 interface MaxPriceInputProps {
   entryId: string;
   currentMaxPrice: number;
   currentBestPrice: number | null;
+  /** Enables the alert rules editor below the slider. */
+  productId?: string;
+  alertRules?: WatchAlertRules;
   disabled?: boolean;
 }
 
@@ -16,6 +23,8 @@ export function MaxPriceInput({
   entryId,
   currentMaxPrice,
   currentBestPrice,
+  productId,
+  alertRules,
   disabled = false,
 }: MaxPriceInputProps) {
   const [value, setValue] = useState(currentMaxPrice);
@@ -136,6 +145,25 @@ export function MaxPriceInput({
           aria-hidden={!hasSlider}
         />
       </div>
+      {productId && (
+        <Collapsible>
+          <CollapsibleTrigger
+            disabled={disabled}
+            className="group flex w-full items-center justify-between text-xs text-muted-foreground hover:text-foreground disabled:pointer-events-none"
+          >
+            Więcej warunków
+            <ChevronDown className="size-3.5 transition-transform group-data-[state=open]:rotate-180" />
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <AlertRulesEditor
+              entryId={entryId}
+              productId={productId}
+              alertRules={alertRules}
+              disabled={disabled}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+      )}
     </div>
   );
 }
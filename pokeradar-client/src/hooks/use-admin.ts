@@ -27,6 +27,45 @@ export function useAdminShopDetail(shopId: string) {
   });
 }
 
+// Scan runs
+export function useAdminScanRuns(params?: { page?: number; limit?: number; tier?: string }) {
+  return useQuery({
+    queryKey: ['admin', 'scans', params],
+    queryFn: () => adminApi.getScanRuns(params),
+  });
+}
+
+// Unmatched titles
+export function useAdminUnmatched(params?: {
+  page?: number;
+  limit?: number;
+  reason?: string;
+  shopId?: string;
+  search?: string;
+}) {
+  return useQuery({
+    queryKey: ['admin', 'unmatched', params],
+    queryFn: () => adminApi.getUnmatched(params),
+  });
+}
+
+export function useDismissUnmatched() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (normalizedTitle: string) => adminApi.dismissUnmatched(normalizedTitle),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['admin', 'unmatched'] });
+    },
+  });
+}
+
+// Matching playground
+export function useExplainMatch() {
+  return useMutation({
+    mutationFn: (titles: string[]) => adminApi.explainMatch(titles),
+  });
+}
+
 // Products
 export function useAdminProducts() {
   return useQuery({
@@ -184,6 +223,119 @@ export function useDeleteProductType() {
   });
 }
 
+// Cards
+
+export function useAdminCards() {
+  return useQuery({
+    queryKey: ['admin', 'cards'],
+    queryFn: adminApi.getCards,
+  });
+}
+
+export function useCreateCard() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: unknown) => adminApi.createCard(data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'cards'] }),
+  });
+}
+
+export function useUpdateCard() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: unknown }) => adminApi.updateCard(id, data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['admin', 'cards'] });
+      qc.invalidateQueries({ queryKey: ['admin', 'products'] });
+    },
+  });
+}
+
+export function useDeleteCard() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => adminApi.deleteCard(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['admin', 'cards'] });
+      qc.invalidateQueries({ queryKey: ['admin', 'products'] });
+      qc.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+}
+
+// Matching rules
+export function useAdminSynonymRules() {
+  return useQuery({
+    queryKey: ['admin', 'synonym-rules'],
+    queryFn: adminApi.getSynonymRules,
+  });
+}
+
+export function useCreateSynonymRule() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: unknown) => adminApi.createSynonymRule(data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'synonym-rules'] }),
+  });
+}
+
+export function useUpdateSynonymRule() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: unknown }) =>
+      adminApi.updateSynonymRule(id, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'synonym-rules'] }),
+  });
+}
+
+export function useDeleteSynonymRule() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => adminApi.deleteSynonymRule(id),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'synonym-rules'] }),
+  });
+}
+
+export function useReorderSynonymRules() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (ids: string[]) => adminApi.reorderSynonymRules(ids),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'synonym-rules'] }),
+  });
+}
+
+export function useAdminLanguageTokens() {
+  return useQuery({
+    queryKey: ['admin', 'language-tokens'],
+    queryFn: adminApi.getLanguageTokens,
+  });
+}
+
+export function useCreateLanguageTokens() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: unknown) => adminApi.createLanguageTokens(data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'language-tokens'] }),
+  });
+}
+
+export function useUpdateLanguageTokens() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ language, tokens }: { language: string; tokens: string[] }) =>
+      adminApi.updateLanguageTokens(language, tokens),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'language-tokens'] }),
+  });
+}
+
+export function useDeleteLanguageTokens() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (language: string) => adminApi.deleteLanguageTokens(language),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['admin', 'language-tokens'] }),
+  });
+}
+
 // Users
 export function useAdminUserSearch(query: string) {
   return useQuery({
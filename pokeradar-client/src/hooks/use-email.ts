@@ -0,0 +1,44 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { usersApi } from '@/api/users.api';
+import type { EmailChannelStatus, UserProfile, UnlinkResult } from '@/types';
+
+function useSetEmailChannel() {
+  const queryClient = useQueryClient();
+  return (emailChannel: EmailChannelStatus) =>
+    queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) =>
+      prev ? { ...prev, emailChannel } : prev,
+    );
+}
+
+export function useRequestEmailLink() {
+  const setEmailChannel = useSetEmailChannel();
+  return useMutation({
+    mutationFn: usersApi.requestEmailLink,
+    onSuccess: setEmailChannel,
+  });
+}
+
+export function useVerifyEmail() {
+  const setEmailChannel = useSetEmailChannel();
+  return useMutation({
+    mutationFn: usersApi.verifyEmail,
+    onSuccess: setEmailChannel,
+  });
+}
+
+export function useUnlinkEmail() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: usersApi.unlinkEmail,
+    onSuccess: (result: UnlinkResult) => {
+      queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) =>
+        prev
+          ? { ...prev, emailChannel: { linked: false, address: null, pendingAddress: null } }
+          : prev,
+      );
+      if (result.watchlistCleared) {
+        queryClient.invalidateQueries({ queryKey: ['watchlist'] });
+      }
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { usersApi } from '@/api/users.api';
+import type { NotificationSchedule, UserProfile } from '@/types';
+
+export function useUpdateNotificationSchedule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: usersApi.updateNotificationSchedule,
+    onSuccess: (schedule: NotificationSchedule) => {
+      queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) =>
+        prev ? { ...prev, notificationSchedule: schedule } : prev,
+      );
+    },
+  });
+}
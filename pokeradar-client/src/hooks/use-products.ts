@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { productsApi } from '@/api/products.api';
+import type { PriceHistoryRange } from '@/types';
 
 export function useProducts() {
   return useQuery({
@@ -7,3 +8,27 @@ export function useProducts() {
     queryFn: productsApi.getAll,
   });
 }
+
+export function useProduct(id: string) {
+  return useQuery({
+    queryKey: ['products', id],
+    queryFn: () => productsApi.getById(id),
+    enabled: !!id,
+  });
+}
+
+export function useProductPrices(id: string) {
+  return useQuery({
+    queryKey: ['products', id, 'prices'],
+    queryFn: () => productsApi.getPrices(id),
+    enabled: !!id,
+  });
+}
+
+export function useProductHistory(id: string, range: PriceHistoryRange) {
+  return useQuery({
+    queryKey: ['products', id, 'history', range],
+    queryFn: () => productsApi.getHistory(id, range),
+    enabled: !!id,
+  });
+}
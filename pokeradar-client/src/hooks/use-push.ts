@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { usersApi } from '@/api/users.api';
+import {
+  getBrowserPushSubscription,
+  getVapidPublicKey,
+  subscribeBrowserToPush,
+  unsubscribeBrowserFromPush,
+} from '@/lib/push';
+import type { PushChannelStatus, UnlinkResult, UserProfile } from '@/types';
+
+const BROWSER_PUSH_KEY = ['browser-push-endpoint'];
+
+/** Endpoint of this browser's push subscription, or null when it has none. */
+export function useBrowserPushEndpoint() {
+  return useQuery({
+    queryKey: BROWSER_PUSH_KEY,
+    queryFn: async () => (await getBrowserPushSubscription())?.endpoint ?? null,
+  });
+}
+
+export function useSubscribePush() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const vapidPublicKey = getVapidPublicKey();
+      if (!vapidPublicKey) throw new Error('VITE_VAPID_PUBLIC_KEY is not set');
+      const subscription = await subscribeBrowserToPush(vapidPublicKey);
+      const status = await usersApi.subscribePush(subscription);
+      return { status, endpoint: subscription.endpoint };
+    },
+    onSuccess: ({ status, endpoint }: { status: PushChannelStatus; endpoint: string }) => {
+      queryClient.setQueryData(BROWSER_PUSH_KEY, endpoint);
+      queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) =>
+        prev ? { ...prev, pushChannel: status } : prev,
+      );
+    },
+  });
+}
+
+export function useUnsubscribePush() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const endpoint = await unsubscribeBrowserFromPush();
+      const result: UnlinkResult = endpoint
+        ? await usersApi.unsubscribePush(endpoint)
+        : { watchlistCleared: false };
+      return { result, endpoint };
+    },
+    onSuccess: ({ result, endpoint }: { result: UnlinkResult; endpoint: string | null }) => {
+      queryClient.setQueryData(BROWSER_PUSH_KEY, null);
+      queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) => {
+        if (!prev) return prev;
+        const endpoints = prev.pushChannel.endpoints.filter((e) => e !== endpoint);
+        return { ...prev, pushChannel: { linked: endpoints.length > 0, endpoints } };
+      });
+      if (result.watchlistCleared) {
+        queryClient.invalidateQueries({ queryKey: ['watchlist'] });
+      }
+    },
+  });
+}
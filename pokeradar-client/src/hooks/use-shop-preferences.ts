@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { usersApi } from '@/api/users.api';
+import { useAuth } from './use-auth';
+import type { ShopPreference, UserProfile } from '@/types';
+
+export function useShopPreferences() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: ['user-shops'],
+    queryFn: usersApi.getShops,
+    enabled: isAuthenticated,
+  });
+}
+
+export function useUpdateExcludedShops() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: usersApi.updateExcludedShops,
+    onSuccess: (shops: ShopPreference[]) => {
+      queryClient.setQueryData(['user-shops'], shops);
+      queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) =>
+        prev
+          ? { ...prev, excludedShopIds: shops.filter((s) => s.excluded).map((s) => s.id) }
+          : prev,
+      );
+    },
+  });
+}
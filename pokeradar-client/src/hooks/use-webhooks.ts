@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { usersApi } from '@/api/users.api';
+import { useAuth } from './use-auth';
+import type { UnlinkResult, UserProfile, Webhook } from '@/types';
+
+const WEBHOOKS_KEY = ['user-webhooks'];
+
+export function useWebhooks() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: WEBHOOKS_KEY,
+    queryFn: usersApi.getWebhooks,
+    enabled: isAuthenticated,
+  });
+}
+
+/** Applies a change to the cached webhook list and keeps the profile's linked flag in sync. */
+function useUpdateWebhooks() {
+  const queryClient = useQueryClient();
+  return (update: (webhooks: Webhook[]) => Webhook[]) => {
+    const webhooks = update(queryClient.getQueryData<Webhook[]>(WEBHOOKS_KEY) ?? []);
+    queryClient.setQueryData(WEBHOOKS_KEY, webhooks);
+    queryClient.setQueryData(['user-profile'], (prev: UserProfile | undefined) =>
+      prev ? { ...prev, webhookChannel: { linked: webhooks.some((w) => !w.disabled) } } : prev,
+    );
+  };
+}
+
+export function useCreateWebhook() {
+  const updateWebhooks = useUpdateWebhooks();
+  return useMutation({
+    mutationFn: usersApi.createWebhook,
+    onSuccess: (webhook: Webhook) => updateWebhooks((webhooks) => [...webhooks, webhook]),
+  });
+}
+
+export function useEnableWebhook() {
+  const updateWebhooks = useUpdateWebhooks();
+  return useMutation({
+    mutationFn: usersApi.enableWebhook,
+    onSuccess: (webhook: Webhook) =>
+      updateWebhooks((webhooks) => webhooks.map((w) => (w.id === webhook.id ? webhook : w))),
+  });
+}
+
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+  const updateWebhooks = useUpdateWebhooks();
+  return useMutation({
+    mutationFn: usersApi.deleteWebhook,
+    onSuccess: (result: UnlinkResult, id: string) => {
+      updateWebhooks((webhooks) => webhooks.filter((w) => w.id !== id));
+      if (result.watchlistCleared) {
+        queryClient.invalidateQueries({ queryKey: ['watchlist'] });
+      }
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatPLN, formatDate, formatDateTime } from '@/lib/format';
+import { formatPLN, formatDate, formatDateTime, formatDuration } from '@/lib/format';
 
 describe('formatPLN', () => {
   it('formats a positive number as PLN currency', () => {
@@ -53,3 +53,17 @@ describe('formatDateTime', () => {
     expect(formatDateTime(undefined)).toBe('—');
   });
 });
+
+describe('formatDuration', () => {
+  it('formats sub-minute durations in seconds', () => {
+    expect(formatDuration(42_400)).toBe('42 s');
+  });
+
+  it('formats longer durations in minutes and seconds', () => {
+    expect(formatDuration(125_000)).toBe('2 min 5 s');
+  });
+
+  it('omits zero seconds', () => {
+    expect(formatDuration(180_000)).toBe('3 min');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildAvailabilityStreaks, buildDailyLowest, findLowestEver } from '@/lib/price-history';
+import type { PriceHistoryPoint } from '@/types';
+
+function point(
+  day: string,
+  shopId: string,
+  minPrice: number | null,
+  wasAvailable = minPrice !== null,
+): PriceHistoryPoint {
+  return {
+    day,
+    shopId,
+    minPrice,
+    maxPrice: minPrice,
+    closePrice: minPrice,
+    wasAvailable,
+    productUrl: `https://${shopId}.pl/p`,
+  };
+}
+
+describe('buildDailyLowest', () => {
+  it('picks the cheapest shop per day, sorted by day', () => {
+    const result = buildDailyLowest([
+      point('2026-01-02', 'shop-a', 120),
+      point('2026-01-01', 'shop-a', 110),
+      point('2026-01-02', 'shop-b', 100),
+    ]);
+
+    expect(result).toEqual([
+      { day: '2026-01-01', price: 110, shopId: 'shop-a' },
+      { day: '2026-01-02', price: 100, shopId: 'shop-b' },
+    ]);
+  });
+
+  it('keeps days without an available offer as null', () => {
+    const result = buildDailyLowest([point('2026-01-01', 'shop-a', null)]);
+    expect(result).toEqual([{ day: '2026-01-01', price: null, shopId: null }]);
+  });
+});
+
+describe('findLowestEver', () => {
+  it('returns the lowest priced point', () => {
+    const result = findLowestEver([
+      point('2026-01-01', 'shop-a', 110),
+      point('2026-01-05', 'shop-b', 95),
+      point('2026-01-06', 'shop-c', null),
+    ]);
+    expect(result).toEqual({ day: '2026-01-05', price: 95, shopId: 'shop-b' });
+  });
+
+  it('returns null when there are no prices', () => {
+    expect(findLowestEver([point('2026-01-01', 'shop-a', null)])).toBeNull();
+  });
+});
+
+describe('buildAvailabilityStreaks', () => {
+  it('splits streaks on missing or unavailable days', () => {
+    const result = buildAvailabilityStreaks([
+      point('2026-01-01', 'shop-a', 100),
+      point('2026-01-02', 'shop-a', 100),
+      point('2026-01-03', 'shop-a', null),
+      point('2026-01-04', 'shop-a', 105),
+      point('2026-01-02', 'shop-b', 90),
+    ]);
+
+    expect(result).toEqual([
+      { shopId: 'shop-a', from: '2026-01-04', to: '2026-01-04', days: 1 },
+      { shopId: 'shop-a', from: '2026-01-01', to: '2026-01-02', days: 2 },
+      { shopId: 'shop-b', from: '2026-01-02', to: '2026-01-02', days: 1 },
+    ]);
+  });
+});
@@ -20,3 +20,18 @@ export function formatDateTime(isoString: string | null | undefined): string {
   if (!isoString) return '—';
   return new Date(isoString).toLocaleString('pl-PL');
 }
+
+export function formatShortDate(isoString: string): string {
+  return new Date(isoString).toLocaleDateString('pl-PL', {
+    day: 'numeric',
+    month: 'short',
+  });
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds} s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return seconds === 0 ? `${minutes} min` : `${minutes} min ${seconds} s`;
+}
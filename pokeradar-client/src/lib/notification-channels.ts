@@ -0,0 +1,25 @@
+import type { UserProfile } from '@/types';
+
+export type NotificationChannelKey = 'telegram' | 'discord' | 'email' | 'push' | 'webhook';
+
+function linkedChannels(profile: UserProfile): Record<NotificationChannelKey, boolean> {
+  return {
+    telegram: profile.telegram.linked,
+    discord: profile.discord.linked,
+    email: profile.emailChannel.linked,
+    push: profile.pushChannel.linked,
+    webhook: profile.webhookChannel.linked,
+  };
+}
+
+/**
+ * Whether notifications still reach the user once `channel` is gone.
+ * The API clears the watchlist when the last channel is unlinked.
+ */
+export function hasOtherLinkedChannel(
+  profile: UserProfile | undefined,
+  channel: NotificationChannelKey,
+): boolean {
+  if (!profile) return false;
+  return Object.entries(linkedChannels(profile)).some(([key, linked]) => key !== channel && linked);
+}
@@ -0,0 +1,92 @@
+import type { PriceHistoryPoint } from '@/types';
+
+export interface DailyLowestPrice {
+  day: string;
+  price: number | null;
+  shopId: string | null;
+}
+
+export interface LowestEverPrice {
+  day: string;
+  price: number;
+  shopId: string;
+}
+
+export interface AvailabilityStreak {
+  shopId: string;
+  from: string;
+  to: string;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Collapses per-shop history into one point per day holding the cheapest
+ * available price across all shops. Days where nothing was in stock keep a
+ * null price so the chart can show a gap instead of interpolating.
+ */
+export function buildDailyLowest(points: PriceHistoryPoint[]): DailyLowestPrice[] {
+  const byDay = new Map<string, DailyLowestPrice>();
+
+  for (const point of points) {
+    const current = byDay.get(point.day) ?? { day: point.day, price: null, shopId: null };
+    if (point.minPrice !== null && (current.price === null || point.minPrice < current.price)) {
+      current.price = point.minPrice;
+      current.shopId = point.shopId;
+    }
+    byDay.set(point.day, current);
+  }
+
+  return [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+export function findLowestEver(points: PriceHistoryPoint[]): LowestEverPrice | null {
+  let lowest: LowestEverPrice | null = null;
+
+  for (const point of points) {
+    if (point.minPrice === null) continue;
+    if (!lowest || point.minPrice < lowest.price) {
+      lowest = { day: point.day, price: point.minPrice, shopId: point.shopId };
+    }
+  }
+
+  return lowest;
+}
+
+/**
+ * Finds runs of consecutive days in which a shop had the product in stock.
+ * A missing day (shop not scanned or product not found) breaks the streak.
+ * Sorted by most recent end date, longest first on ties.
+ */
+export function buildAvailabilityStreaks(points: PriceHistoryPoint[]): AvailabilityStreak[] {
+  const byShop = new Map<string, string[]>();
+  for (const point of points) {
+    if (!point.wasAvailable) continue;
+    const days = byShop.get(point.shopId) ?? [];
+    days.push(point.day);
+    byShop.set(point.shopId, days);
+  }
+
+  const streaks: AvailabilityStreak[] = [];
+  for (const [shopId, days] of byShop) {
+    days.sort();
+    let from = days[0];
+    let prev = days[0];
+
+    for (const day of days.slice(1)) {
+      if (dayDiff(prev, day) > 1) {
+        streaks.push({ shopId, from, to: prev, days: dayDiff(from, prev) + 1 });
+        from = day;
+      }
+      prev = day;
+    }
+    streaks.push({ shopId, from, to: prev, days: dayDiff(from, prev) + 1 });
+  }
+
+  return streaks.sort((a, b) => b.to.localeCompare(a.to) || b.days - a.days);
+}
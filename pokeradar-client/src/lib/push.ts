@@ -0,0 +1,80 @@
+/**
+ * Browser side of Web Push: service worker registration and PushManager calls.
+ * The resulting subscription is stored by the API and used by the notifications service.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export interface PushSubscriptionPayload {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export function getVapidPublicKey(): string | undefined {
+  return (import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined) || undefined;
+}
+
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/** VAPID keys are URL-safe base64; PushManager wants the raw bytes. */
+function base64UrlToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const padded = (value + '='.repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+function toPayload(subscription: PushSubscription): PushSubscriptionPayload {
+  const json = subscription.toJSON();
+  return {
+    endpoint: subscription.endpoint,
+    keys: { p256dh: json.keys?.p256dh ?? '', auth: json.keys?.auth ?? '' },
+  };
+}
+
+/** This browser's current subscription, or null if it has none. */
+export async function getBrowserPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Asks for notification permission and subscribes this browser.
+ * Rejects when the user denies permission.
+ */
+export async function subscribeBrowserToPush(
+  vapidPublicKey: string,
+): Promise<PushSubscriptionPayload> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission denied');
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const existing = await registration.pushManager.getSubscription();
+  const subscription =
+    existing ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(vapidPublicKey),
+    }));
+
+  return toPayload(subscription);
+}
+
+/** Unsubscribes this browser and returns the endpoint it had, if any. */
+export async function unsubscribeBrowserFromPush(): Promise<string | null> {
+  const subscription = await getBrowserPushSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import { Routes, Route } from 'react-router-dom';
+import { http, HttpResponse } from 'msw';
+import { renderWithProviders } from '../../__tests__/test-utils';
+import { server } from '../../__tests__/mocks/server';
+import { ProductPage } from '@/pages/product-page';
+
+function renderAt(path: string) {
+  window.history.pushState({}, '', path);
+  return renderWithProviders(
+    <Routes>
+      <Route path="/produkt/:id" element={<ProductPage />} />
+    </Routes>,
+  );
+}
+
+describe('ProductPage', () => {
+  beforeEach(() => {
+    window.history.pushState({}, '', '/');
+  });
+
+  it('renders the product name and current offers', async () => {
+    renderAt('/produkt/prod-1');
+
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { name: 'Pikachu VMAX' })).toBeInTheDocument();
+    });
+    await waitFor(() => {
+      expect(screen.getByText('shop-b')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Niedostępny')).toBeInTheDocument();
+  });
+
+  it('shows the lowest price ever from history', async () => {
+    renderAt('/produkt/prod-1');
+
+    await waitFor(() => {
+      expect(screen.getByText(/Najniżej:/)).toHaveTextContent('169,99');
+    });
+  });
+
+  it('renders the price history chart', async () => {
+    renderAt('/produkt/prod-1');
+
+    await waitFor(() => {
+      expect(screen.getByRole('img', { name: /Wykres najniższej ceny/ })).toBeInTheDocument();
+    });
+  });
+
+  it('draws the watched max price on the chart', async () => {
+    renderAt('/produkt/prod-1');
+
+    await waitFor(() => {
+      expect(screen.getByText(/Twoja cena maks\.:/)).toHaveTextContent('150,00');
+    });
+  });
+
+  it('leaves out the max price line for unwatched products', async () => {
+    server.use(http.get('http://localhost:3000/watchlist', () => HttpResponse.json([])));
+    renderAt('/produkt/prod-1');
+
+    await waitFor(() => {
+      expect(screen.getByRole('img', { name: /Wykres najniższej ceny/ })).toBeInTheDocument();
+    });
+    expect(screen.queryByText(/Twoja cena maks\.:/)).not.toBeInTheDocument();
+  });
+
+  it('shows not found for unknown products', async () => {
+    renderAt('/produkt/unknown');
+
+    await waitFor(() => {
+      expect(screen.getByText('Produkt nie znaleziony')).toBeInTheDocument();
+    });
+  });
+});
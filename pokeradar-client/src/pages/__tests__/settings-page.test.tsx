@@ -1,10 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter } from 'react-router-dom';
 import { AuthContext } from '@/context/auth-context-value';
 import { SettingsPage } from '@/pages/settings-page';
 import { mockUser } from '../../__tests__/mocks/data';
+import { server } from '../../__tests__/mocks/server';
+import { http, HttpResponse } from 'msw';
 import type { ReactNode } from 'react';
 
 function createQueryClient() {
@@ -69,4 +72,70 @@ describe('SettingsPage', () => {
       expect(screen.getByText('Telegram')).toBeInTheDocument();
     });
   });
+
+  it('shows shop switches with excluded shops turned off', async () => {
+    render(<SettingsPage />, { wrapper: makeWrapper(true) });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Shop A')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Sklepy')).toBeInTheDocument();
+    expect(screen.getByLabelText('Shop A')).toBeChecked();
+    expect(screen.getByLabelText('Shop B')).not.toBeChecked();
+  });
+
+  it('saves the full excluded list when a shop is toggled', async () => {
+    let savedShopIds: string[] | undefined;
+    server.use(
+      http.put('http://localhost:3000/users/me/shops/excluded', async ({ request }) => {
+        savedShopIds = ((await request.json()) as { shopIds: string[] }).shopIds;
+        return HttpResponse.json([
+          { id: 'shop-a', name: 'Shop A', excluded: true },
+          { id: 'shop-b', name: 'Shop B', excluded: true },
+        ]);
+      }),
+    );
+    const user = userEvent.setup();
+    render(<SettingsPage />, { wrapper: makeWrapper(true) });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Shop A')).toBeChecked();
+    });
+    await user.click(screen.getByLabelText('Shop A'));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Shop A')).not.toBeChecked();
+    });
+    expect(savedShopIds).toEqual(['shop-b', 'shop-a']);
+  });
+
+  it('saves quiet hours and digest time', async () => {
+    let saved: Record<string, unknown> | undefined;
+    server.use(
+      http.put('http://localhost:3000/users/me/notification-schedule', async ({ request }) => {
+        saved = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json(saved);
+      }),
+    );
+    const user = userEvent.setup();
+    render(<SettingsPage />, { wrapper: makeWrapper(true) });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Godziny ciszy')).toBeInTheDocument();
+    });
+    expect(screen.queryByLabelText('Od')).not.toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Godziny ciszy'));
+    await user.click(screen.getByLabelText('Podsumowanie dzienne'));
+    expect(screen.getByLabelText('Od')).toHaveValue('22:00');
+    await user.click(screen.getByRole('button', { name: 'Zapisz' }));
+
+    await waitFor(() => {
+      expect(saved).toEqual({
+        timezone: expect.any(String),
+        quietHours: { start: '22:00', end: '07:00' },
+        digestTime: '08:00',
+      });
+    });
+  });
 });
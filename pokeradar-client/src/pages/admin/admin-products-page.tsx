@@ -1,13 +1,17 @@
 import { useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
 import { ProductsTab, type ProductsTabHandle } from './products-tab';
 import { ProductSetsTab } from './product-sets-tab';
 import { ProductTypesTab } from './product-types-tab';
+import { CardsTab } from './cards-tab';
+import { MatchingRulesTab } from './matching-rules-tab';
 
 export function AdminProductsPage() {
-  const [activeTab, setActiveTab] = useState('products');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') ?? 'products');
   const productsTabRef = useRef<ProductsTabHandle>(null);
 
   return (
@@ -25,6 +29,12 @@ export function AdminProductsPage() {
             <TabsTrigger value="types" className="flex-1 sm:flex-none">
               Typy produktów
             </TabsTrigger>
+            <TabsTrigger value="cards" className="flex-1 sm:flex-none">
+              Karty
+            </TabsTrigger>
+            <TabsTrigger value="rules" className="flex-1 sm:flex-none">
+              Reguły dopasowania
+            </TabsTrigger>
           </TabsList>
           {activeTab === 'products' && (
             <Button
@@ -45,6 +55,12 @@ export function AdminProductsPage() {
         <TabsContent value="types">
           <ProductTypesTab />
         </TabsContent>
+        <TabsContent value="cards">
+          <CardsTab />
+        </TabsContent>
+        <TabsContent value="rules">
+          <MatchingRulesTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useExpandedRows } from '@/hooks/use-expanded-rows';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { useAdminScanRuns } from '@/hooks/use-admin';
+import { PageLoader } from '@/components/ui/page-loader';
+import { EmptyTableRow } from '@/components/ui/empty-table-row';
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from 'lucide-react';
+import { formatDateTime, formatDuration } from '@/lib/format';
+import type { AdminScanRunShop } from '@/api/admin.api';
+
+const TIERS = ['super-fast', 'fast', 'slow', 'super-slow'];
+
+export function AdminScansPage() {
+  const [page, setPage] = useState(1);
+  const [limit] = useState(50);
+  const [tier, setTier] = useState<string>('');
+  const { toggleRow, isExpanded } = useExpandedRows();
+
+  const { data, isLoading } = useAdminScanRuns({ page, limit, tier: tier || undefined });
+
+  const handleTierChange = (value: string) => {
+    setTier(value === 'all' ? '' : value);
+    setPage(1);
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-6">Skany</h1>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Select value={tier || 'all'} onValueChange={handleTierChange}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Tier" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Wszystkie tiery</SelectItem>
+            {TIERS.map((t) => (
+              <SelectItem key={t} value={t}>
+                {t}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10"></TableHead>
+                <TableHead>Start</TableHead>
+                <TableHead>Tier</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Czas</TableHead>
+                <TableHead className="text-right">Sklepy</TableHead>
+                <TableHead className="text-right">Wyniki</TableHead>
+                <TableHead className="text-right">Powiadomienia</TableHead>
+                <TableHead className="text-right">Sklepy z błędami</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!data || data.data.length === 0 ? (
+                <EmptyTableRow colSpan={9} message="Brak skanów" />
+              ) : (
+                data.data.map((run) => {
+                  const expanded = isExpanded(run.id);
+                  return (
+                    <>
+                      <TableRow key={run.id} className="cursor-pointer hover:bg-muted/50">
+                        <TableCell onClick={() => toggleRow(run.id)}>
+                          {expanded ? (
+                            <ChevronUp className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDateTime(run.startedAt)}</TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {run.fetchingTier ?? 'wszystkie'}
+                        </TableCell>
+                        <TableCell>
+                          {run.status === 'failed' ? (
+                            <StatusBadge status="failed" />
+                          ) : run.shopsFailed > 0 ? (
+                            <StatusBadge status="warning" />
+                          ) : (
+                            <StatusBadge status="ok" />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatDuration(run.durationMs)}
+                        </TableCell>
+                        <TableCell className="text-right">{run.shopsScanned}</TableCell>
+                        <TableCell className="text-right">{run.resultsWritten}</TableCell>
+                        <TableCell className="text-right">{run.notificationsCreated}</TableCell>
+                        <TableCell className="text-right">{run.shopsFailed}</TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell colSpan={9} className="bg-muted/30">
+                            <div className="p-4 space-y-3">
+                              {run.error && (
+                                <p className="text-sm text-red-400 font-mono">{run.error}</p>
+                              )}
+                              <ScanRunShops shops={run.shops} />
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {data && data.totalPages > 1 && (
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 p-4 border-t">
+            <p className="text-sm text-muted-foreground">
+              Strona {data.page} z {data.totalPages} (łącznie: {data.total} skanów)
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={data.page === 1}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Poprzednia
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={data.page === data.totalPages}
+              >
+                Następna
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function ScanRunShops({ shops }: { shops: AdminScanRunShop[] }) {
+  if (shops.length === 0) {
+    return <p className="text-sm text-muted-foreground">Brak danych o sklepach</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {shops.map((shop) => (
+        <div key={shop.shopId} className="text-sm">
+          <div className="flex flex-wrap gap-4 items-center">
+            <Link
+              to={`/admin/shops/${shop.shopId}`}
+              className="font-medium w-40 truncate hover:underline"
+            >
+              {shop.shopName}
+            </Link>
+            <span className="text-muted-foreground">{formatDuration(shop.durationMs)}</span>
+            <span className="text-muted-foreground">
+              znalezione: {shop.found}, brak: {shop.notFound}
+            </span>
+            <span className="text-muted-foreground">
+              dopasowane: {shop.matched}/{shop.candidates}
+            </span>
+            {shop.errorCount > 0 && (
+              <span className="text-red-400">
+                błędy: {shop.errorCount}
+                {shop.timeouts > 0 && ` (timeouty: ${shop.timeouts})`}
+              </span>
+            )}
+            {shop.breakerTripped && <StatusBadge status="failed" label="Przerwany" />}
+          </div>
+          {shop.errorMessages.map((message) => (
+            <p key={message} className="text-xs text-red-400 font-mono truncate pl-4">
+              {message}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
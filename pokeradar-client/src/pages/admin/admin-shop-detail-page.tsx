@@ -20,9 +20,10 @@ import {
   Package,
   CheckCircle,
   AlertTriangle,
+  History,
   ExternalLink as ExternalLinkIcon,
 } from 'lucide-react';
-import { formatDateTime, formatPLN } from '@/lib/format';
+import { formatDateTime, formatDuration, formatPLN, formatShortDate } from '@/lib/format';
 
 export function AdminShopDetailPage() {
   const { shopId } = useParams<{ shopId: string }>();
@@ -44,9 +45,10 @@ export function AdminShopDetailPage() {
         <p className="text-muted-foreground">{shop.baseUrl}</p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <StatCard label="Wszystkie produkty" value={shop.totalCount} icon={Package} />
         <StatCard label="Dostępne produkty" value={shop.availableCount} icon={CheckCircle} />
+        <StatCard label="Znalezione produkty (7 dni)" value={shop.findsLastWeek} icon={History} />
       </div>
 
       {shop.hasWarning && (
@@ -56,13 +58,59 @@ export function AdminShopDetailPage() {
             <div>
               <p className="font-medium">Ostrzeżenie</p>
               <p className="text-sm text-muted-foreground">
-                Sklep nie zwrócił żadnych wyników w ostatniej godzinie
+                {shop.lastRun?.breakerTripped
+                  ? `Ostatni skan przerwany po powtarzających się błędach (${formatDateTime(shop.lastRun.startedAt)})`
+                  : 'Sklep nie zwrócił żadnych wyników w ostatniej godzinie'}
               </p>
+              {shop.lastRun?.breakerTripped &&
+                shop.recentRuns[0]?.errorMessages.map((message) => (
+                  <p key={message} className="text-xs text-muted-foreground font-mono mt-1">
+                    {message}
+                  </p>
+                ))}
             </div>
           </div>
         </Card>
       )}
 
+      <h2 className="text-lg font-semibold mb-3">Skany (7 dni)</h2>
+      <Card className="mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Dzień</TableHead>
+              <TableHead className="text-right">Skany</TableHead>
+              <TableHead className="text-right">Znalezione</TableHead>
+              <TableHead className="text-right">Nieznalezione</TableHead>
+              <TableHead className="text-right">Dopasowane / kandydaci</TableHead>
+              <TableHead className="text-right">Błędy</TableHead>
+              <TableHead className="text-right">Timeouty</TableHead>
+              <TableHead className="text-right">Przerwane</TableHead>
+              <TableHead className="text-right">Śr. czas</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...shop.trend].reverse().map((day) => (
+              <TableRow key={day.date}>
+                <TableCell>{formatShortDate(day.date)}</TableCell>
+                <TableCell className="text-right">{day.runs}</TableCell>
+                <TableCell className="text-right">{day.found}</TableCell>
+                <TableCell className="text-right">{day.notFound}</TableCell>
+                <TableCell className="text-right">
+                  {day.matched} / {day.candidates}
+                </TableCell>
+                <TableCell className="text-right">{day.errorCount}</TableCell>
+                <TableCell className="text-right">{day.timeouts}</TableCell>
+                <TableCell className="text-right">{day.breakerTrips}</TableCell>
+                <TableCell className="text-right">
+                  {day.runs > 0 ? formatDuration(day.avgDurationMs) : '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
       <Card>
         <Table>
           <TableHeader>
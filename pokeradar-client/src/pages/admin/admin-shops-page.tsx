@@ -56,6 +56,7 @@ export function AdminShopsPage() {
               <TableHead>Nazwa</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="text-right">Znalezione produkty (1h)</TableHead>
+              <TableHead className="text-right">Znalezione produkty (7 dni)</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -84,6 +85,7 @@ export function AdminShopsPage() {
                   )}
                 </TableCell>
                 <TableCell className="text-right">{shop.findsLastHour}</TableCell>
+                <TableCell className="text-right">{shop.findsLastWeek}</TableCell>
               </TableRow>
             ))}
           </TableBody>
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useExpandedRows } from '@/hooks/use-expanded-rows';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAdminUnmatched, useDismissUnmatched } from '@/hooks/use-admin';
+import { PageLoader } from '@/components/ui/page-loader';
+import { EmptyTableRow } from '@/components/ui/empty-table-row';
+import { ExternalLink } from '@/components/ui/external-link';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+  ChevronUp,
+  EyeOff,
+  Plus,
+  Replace,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateTime } from '@/lib/format';
+import { getErrorMessage } from '@/lib/error-utils';
+import type { UnmatchedReason } from '@/api/admin.api';
+
+const REASON_LABELS: Record<UnmatchedReason, string> = {
+  'no-type': 'Brak typu',
+  'no-set': 'Brak setu',
+  'no-card': 'Brak karty',
+};
+
+export function AdminUnmatchedPage() {
+  const [page, setPage] = useState(1);
+  const [limit] = useState(50);
+  const [reason, setReason] = useState<string>('');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const { toggleRow, isExpanded } = useExpandedRows();
+  const navigate = useNavigate();
+  const dismiss = useDismissUnmatched();
+
+  const { data, isLoading } = useAdminUnmatched({
+    page,
+    limit,
+    reason: reason || undefined,
+    search: appliedSearch || undefined,
+  });
+
+  const handleReasonChange = (value: string) => {
+    setReason(value === 'all' ? '' : value);
+    setPage(1);
+  };
+
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedSearch(search);
+    setPage(1);
+  };
+
+  const handleDismiss = async (normalizedTitle: string) => {
+    try {
+      await dismiss.mutateAsync(normalizedTitle);
+      toast.success('Tytuł ukryty');
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się ukryć tytułu'));
+    }
+  };
+
+  const handleCreateType = (normalizedTitle: string) => {
+    navigate(`/admin/products?tab=types&newType=${encodeURIComponent(normalizedTitle)}`);
+  };
+
+  const handleCreateSynonym = (normalizedTitle: string) => {
+    navigate(`/admin/products?tab=rules&newSynonym=${encodeURIComponent(normalizedTitle)}`);
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-6">Niedopasowane tytuły</h1>
+
+      <form onSubmit={handleSearchSubmit} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Select value={reason || 'all'} onValueChange={handleReasonChange}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Powód" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Wszystkie powody</SelectItem>
+            {Object.entries(REASON_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex-1 flex gap-2">
+          <Input
+            placeholder="Szukaj w tytułach..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1"
+          />
+          <Button type="submit">Filtruj</Button>
+        </div>
+      </form>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10"></TableHead>
+                <TableHead>Tytuł (znormalizowany)</TableHead>
+                <TableHead>Powód</TableHead>
+                <TableHead className="text-right">Wystąpienia</TableHead>
+                <TableHead className="text-right">Sklepy</TableHead>
+                <TableHead>Ostatnio widziany</TableHead>
+                <TableHead className="w-32"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!data || data.data.length === 0 ? (
+                <EmptyTableRow colSpan={7} message="Brak niedopasowanych tytułów" />
+              ) : (
+                data.data.map((group) => {
+                  const expanded = isExpanded(group.normalizedTitle);
+                  return (
+                    <>
+                      <TableRow
+                        key={group.normalizedTitle}
+                        className="cursor-pointer hover:bg-muted/50"
+                      >
+                        <TableCell onClick={() => toggleRow(group.normalizedTitle)}>
+                          {expanded ? (
+                            <ChevronUp className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{group.normalizedTitle}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">
+                            {REASON_LABELS[group.reason] ?? group.reason}
+                          </Badge>
+                          {group.productTypeName && (
+                            <span className="text-xs text-muted-foreground ml-2">
+                              typ: {group.productTypeName}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{group.seenCount}</TableCell>
+                        <TableCell className="text-right">{group.shopCount}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {formatDateTime(group.lastSeenAt)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 justify-end">
+                            {group.reason === 'no-type' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Utwórz typ produktu"
+                                onClick={() => handleCreateType(group.normalizedTitle)}
+                              >
+                                <Plus className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {group.reason === 'no-type' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Dodaj synonim"
+                                onClick={() => handleCreateSynonym(group.normalizedTitle)}
+                              >
+                                <Replace className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Ukryj"
+                              disabled={dismiss.isPending}
+                              onClick={() => handleDismiss(group.normalizedTitle)}
+                            >
+                              <EyeOff className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell colSpan={7} className="bg-muted/30">
+                            <div className="p-4 space-y-1">
+                              {group.examples.map((example) => (
+                                <div
+                                  key={`${example.shopId}|${example.title}`}
+                                  className="text-sm flex gap-4 items-start"
+                                >
+                                  <span className="text-muted-foreground w-32 shrink-0 truncate">
+                                    {example.shopName}
+                                  </span>
+                                  <ExternalLink
+                                    href={example.url}
+                                    className="text-blue-500 hover:underline"
+                                  >
+                                    {example.title}
+                                  </ExternalLink>
+                                </div>
+                              ))}
+                              <p className="text-xs text-muted-foreground pt-2">
+                                Pierwszy raz: {formatDateTime(group.firstSeenAt)}
+                              </p>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {data && data.totalPages > 1 && (
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 p-4 border-t">
+            <p className="text-sm text-muted-foreground">
+              Strona {data.page} z {data.totalPages} (łącznie: {data.total} tytułów)
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={data.page === 1}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Poprzednia
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={data.page === data.totalPages}
+              >
+                Następna
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
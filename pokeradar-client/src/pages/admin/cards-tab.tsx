@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TableCell, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConfirmDialog } from '@/components/admin/confirm-dialog';
+import { CrudDialog } from '@/components/admin/crud-dialog';
+import { EntityTable } from '@/components/admin/entity-table';
+import {
+  useAdminCards,
+  useAdminProducts,
+  useAdminProductSets,
+  useCreateCard,
+  useUpdateCard,
+  useDeleteCard,
+} from '@/hooks/use-admin';
+import { useCrudDialog } from '@/hooks/use-crud-dialog';
+import { toast } from 'sonner';
+import { DeleteRowButton } from '@/components/admin/delete-row-button';
+import { AffectedProductsList } from '@/components/admin/affected-products-list';
+import type { Card } from '@/api/admin.api';
+import { getErrorMessage, generateIdFromName } from '@/lib/error-utils';
+
+interface CardPayload {
+  id?: string;
+  productSetId: string;
+  name: string;
+  number: string;
+  rarity?: string | null;
+}
+
+/** "sv08" + "Pikachu ex" + "238/191" -> "sv08-pikachu-ex-238" */
+function generateCardId(setId: string, name: string, number: string): string {
+  const collectorNumber = number.split('/')[0].trim().toLowerCase();
+  const slug = generateIdFromName(name.trim()).replace(/[^a-z0-9-]/g, '');
+  return `${setId}-${slug}-${collectorNumber}`;
+}
+
+export function CardsTab() {
+  const { data: cards, isLoading } = useAdminCards();
+  const { data: sets } = useAdminProductSets();
+  const { data: products } = useAdminProducts();
+  const createCard = useCreateCard();
+  const updateCard = useUpdateCard();
+  const deleteCard = useDeleteCard();
+
+  const dialog = useCrudDialog<Card>();
+
+  const [formData, setFormData] = useState({
+    productSetId: '',
+    name: '',
+    number: '',
+    rarity: '',
+  });
+
+  const resetForm = () => {
+    setFormData({ productSetId: '', name: '', number: '', rarity: '' });
+  };
+
+  const populateForm = (card: Card) => {
+    setFormData({
+      productSetId: card.productSetId,
+      name: card.name,
+      number: card.number,
+      rarity: card.rarity ?? '',
+    });
+  };
+
+  const handleSave = async () => {
+    const payload: CardPayload = {
+      productSetId: formData.productSetId,
+      name: formData.name,
+      number: formData.number,
+    };
+
+    try {
+      if (dialog.selected) {
+        payload.rarity = formData.rarity || null;
+        await updateCard.mutateAsync({ id: dialog.selected.id, data: payload });
+        toast.success('Karta zaktualizowana');
+      } else {
+        payload.id = generateCardId(formData.productSetId, formData.name, formData.number);
+        if (formData.rarity) payload.rarity = formData.rarity;
+        await createCard.mutateAsync(payload);
+        toast.success('Karta utworzona');
+      }
+      dialog.closeEdit();
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać karty'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!dialog.selected) return;
+    try {
+      await deleteCard.mutateAsync(dialog.selected.id);
+      toast.success('Karta usunięta');
+      dialog.closeDelete();
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć karty'));
+    }
+  };
+
+  const isPending = createCard.isPending || updateCard.isPending;
+  const affectedProducts = products?.filter((p) => p.cardId === dialog.selected?.id) ?? [];
+
+  return (
+    <>
+      <EntityTable
+        isLoading={isLoading}
+        onAdd={() => dialog.openCreate(resetForm)}
+        addLabel="Dodaj kartę"
+        isEmpty={!cards || cards.length === 0}
+        emptyLabel="Brak kart"
+        headers={[
+          'Nazwa',
+          'Numer',
+          'Set',
+          'Rzadkość',
+          'Produkty',
+          { label: '', className: 'w-16' },
+        ]}
+      >
+        {cards?.map((card) => (
+          <TableRow
+            key={card.id}
+            className="cursor-pointer hover:bg-muted/50"
+            onClick={() => dialog.openEdit(card, populateForm)}
+          >
+            <TableCell className="font-medium">{card.name}</TableCell>
+            <TableCell className="font-mono text-sm">{card.number}</TableCell>
+            <TableCell className="text-muted-foreground">
+              {sets?.find((s) => s.id === card.productSetId)?.name ?? card.productSetId}
+            </TableCell>
+            <TableCell className="text-muted-foreground text-sm">{card.rarity || '-'}</TableCell>
+            <TableCell className="text-muted-foreground">
+              {products?.filter((p) => p.cardId === card.id).length ?? 0}
+            </TableCell>
+            <TableCell>
+              <DeleteRowButton onClick={() => dialog.openDelete(card)} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </EntityTable>
+
+      <CrudDialog
+        open={dialog.editDialogOpen}
+        onOpenChange={dialog.closeEdit}
+        isEdit={!!dialog.selected}
+        entityLabel="kartę"
+        isPending={isPending}
+        onSave={handleSave}
+      >
+        <div>
+          <Label htmlFor="card-set" className="mb-2 block">
+            Set <span className="text-red-500">*</span>
+          </Label>
+          <Select
+            value={formData.productSetId}
+            onValueChange={(value) => setFormData({ ...formData, productSetId: value })}
+          >
+            <SelectTrigger id="card-set" className="w-full">
+              <SelectValue placeholder="Wybierz set" />
+            </SelectTrigger>
+            <SelectContent>
+              {sets?.map((set) => (
+                <SelectItem key={set.id} value={set.id}>
+                  {set.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="card-name" className="mb-2 block">
+            Nazwa <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="card-name"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="np. Pikachu ex"
+          />
+        </div>
+
+        <div className="flex gap-4">
+          <div className="flex-1">
+            <Label htmlFor="card-number" className="mb-2 block">
+              Numer <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="card-number"
+              value={formData.number}
+              onChange={(e) => setFormData({ ...formData, number: e.target.value })}
+              placeholder="np. 238/191"
+            />
+          </div>
+
+          <div className="flex-1">
+            <Label htmlFor="card-rarity" className="mb-2 block">
+              Rzadkość
+            </Label>
+            <Input
+              id="card-rarity"
+              value={formData.rarity}
+              onChange={(e) => setFormData({ ...formData, rarity: e.target.value })}
+              placeholder="np. Special Illustration Rare"
+            />
+          </div>
+        </div>
+      </CrudDialog>
+
+      <ConfirmDialog
+        open={dialog.deleteDialogOpen}
+        onOpenChange={dialog.closeDelete}
+        title="Usuń kartę"
+        description={`Czy na pewno chcesz usunąć kartę "${dialog.selected?.name} ${dialog.selected?.number}"? Produkty śledzące tę kartę również zostaną usunięte.`}
+        onConfirm={handleDelete}
+        loading={deleteCard.isPending}
+      >
+        <AffectedProductsList products={affectedProducts} />
+      </ConfirmDialog>
+    </>
+  );
+}
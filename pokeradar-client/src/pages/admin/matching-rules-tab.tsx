@@ -0,0 +1,354 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { TableCell, TableRow } from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/admin/confirm-dialog';
+import { CrudDialog } from '@/components/admin/crud-dialog';
+import { EntityTable } from '@/components/admin/entity-table';
+import { DeleteRowButton } from '@/components/admin/delete-row-button';
+import {
+  useAdminSynonymRules,
+  useCreateSynonymRule,
+  useUpdateSynonymRule,
+  useDeleteSynonymRule,
+  useReorderSynonymRules,
+  useAdminLanguageTokens,
+  useCreateLanguageTokens,
+  useUpdateLanguageTokens,
+  useDeleteLanguageTokens,
+} from '@/hooks/use-admin';
+import { useCrudDialog } from '@/hooks/use-crud-dialog';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { LanguageTokens, SynonymRule } from '@/api/admin.api';
+import { getErrorMessage } from '@/lib/error-utils';
+
+export function MatchingRulesTab() {
+  return (
+    <div className="space-y-8">
+      <SynonymRulesSection />
+      <LanguageTokensSection />
+    </div>
+  );
+}
+
+const LAST_SYNONYM_HINT = 'Nie można usunąć ostatniego synonimu';
+const LAST_LANGUAGE_HINT = 'Nie można usunąć ostatniego języka';
+
+/** Escapes a normalized title for use as a literal, whole-word synonym pattern. */
+function toWordPattern(text: string): string {
+  return `\\b${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`;
+}
+
+function SynonymRulesSection() {
+  const { data: rules, isLoading } = useAdminSynonymRules();
+  const createRule = useCreateSynonymRule();
+  const updateRule = useUpdateSynonymRule();
+  const deleteRule = useDeleteSynonymRule();
+  const reorderRules = useReorderSynonymRules();
+
+  const dialog = useCrudDialog<SynonymRule>();
+  const [formData, setFormData] = useState({ pattern: '', replacement: '' });
+
+  const resetForm = () => setFormData({ pattern: '', replacement: '' });
+
+  const populateForm = (rule: SynonymRule) => {
+    setFormData({ pattern: rule.pattern, replacement: rule.replacement });
+  };
+
+  // Opened from the unmatched-title inbox: start a rule that rewrites the whole title
+  const [searchParams, setSearchParams] = useSearchParams();
+  const newSynonymTitle = searchParams.get('newSynonym');
+  useEffect(() => {
+    if (!newSynonymTitle) return;
+    dialog.openCreate(() =>
+      setFormData({ pattern: toWordPattern(newSynonymTitle), replacement: newSynonymTitle }),
+    );
+    setSearchParams(
+      (params) => {
+        params.delete('newSynonym');
+        return params;
+      },
+      { replace: true },
+    );
+  }, [newSynonymTitle, dialog, setSearchParams]);
+
+  const handleSave = async () => {
+    try {
+      if (dialog.selected) {
+        await updateRule.mutateAsync({ id: dialog.selected.id, data: formData });
+        toast.success('Synonim zaktualizowany');
+      } else {
+        await createRule.mutateAsync(formData);
+        toast.success('Synonim utworzony');
+      }
+      dialog.closeEdit();
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać synonimu'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!dialog.selected) return;
+    try {
+      await deleteRule.mutateAsync(dialog.selected.id);
+      toast.success('Synonim usunięty');
+      dialog.closeDelete();
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć synonimu'));
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!rules) return;
+    const ids = rules.map((rule) => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    try {
+      await reorderRules.mutateAsync(ids);
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się zmienić kolejności'));
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-1">Synonimy</h2>
+      <p className="text-sm text-muted-foreground mb-2">
+        Wyrażenia regularne stosowane po kolei do znormalizowanych tytułów (małe litery, bez
+        polskich znaków). Bardziej szczegółowe reguły powinny być wyżej. Ostatniego synonimu nie
+        można usunąć — przy pustej liście scraper wróciłby do reguł wbudowanych.
+      </p>
+      <EntityTable
+        isLoading={isLoading}
+        onAdd={() => dialog.openCreate(resetForm)}
+        addLabel="Dodaj synonim"
+        isEmpty={!rules || rules.length === 0}
+        emptyLabel="Brak synonimów w bazie — scraper używa reguł wbudowanych"
+        headers={[
+          { label: '', className: 'w-20' },
+          'Wzorzec',
+          'Zamiana',
+          { label: '', className: 'w-16' },
+        ]}
+      >
+        {rules?.map((rule, index) => (
+          <TableRow
+            key={rule.id}
+            className="cursor-pointer hover:bg-muted/50"
+            onClick={() => dialog.openEdit(rule, populateForm)}
+          >
+            <TableCell onClick={(e) => e.stopPropagation()}>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="W górę"
+                  disabled={index === 0 || reorderRules.isPending}
+                  onClick={() => handleMove(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="W dół"
+                  disabled={index === rules.length - 1 || reorderRules.isPending}
+                  onClick={() => handleMove(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+            </TableCell>
+            <TableCell className="font-mono text-sm">{rule.pattern}</TableCell>
+            <TableCell className="font-mono text-sm text-muted-foreground">
+              {rule.replacement || '-'}
+            </TableCell>
+            <TableCell>
+              <DeleteRowButton
+                onClick={() => dialog.openDelete(rule)}
+                disabled={rules.length === 1}
+                title={rules.length === 1 ? LAST_SYNONYM_HINT : undefined}
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </EntityTable>
+
+      <CrudDialog
+        open={dialog.editDialogOpen}
+        onOpenChange={dialog.closeEdit}
+        isEdit={!!dialog.selected}
+        entityLabel="synonim"
+        isPending={createRule.isPending || updateRule.isPending}
+        onSave={handleSave}
+      >
+        <div>
+          <Label htmlFor="synonym-pattern" className="mb-2 block">
+            Wzorzec (wyrażenie regularne) <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="synonym-pattern"
+            className="font-mono"
+            value={formData.pattern}
+            onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+            placeholder="np. \bupc\b"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="synonym-replacement" className="mb-2 block">
+            Zamiana
+          </Label>
+          <Input
+            id="synonym-replacement"
+            className="font-mono"
+            value={formData.replacement}
+            onChange={(e) => setFormData({ ...formData, replacement: e.target.value })}
+            placeholder="np. ultra premium collection"
+          />
+        </div>
+      </CrudDialog>
+
+      <ConfirmDialog
+        open={dialog.deleteDialogOpen}
+        onOpenChange={dialog.closeDelete}
+        title="Usuń synonim"
+        description={`Czy na pewno chcesz usunąć synonim "${dialog.selected?.pattern}"?`}
+        onConfirm={handleDelete}
+        loading={deleteRule.isPending}
+      />
+    </section>
+  );
+}
+
+function LanguageTokensSection() {
+  const { data: languages, isLoading } = useAdminLanguageTokens();
+  const createLanguage = useCreateLanguageTokens();
+  const updateLanguage = useUpdateLanguageTokens();
+  const deleteLanguage = useDeleteLanguageTokens();
+
+  const dialog = useCrudDialog<LanguageTokens>();
+  const [formData, setFormData] = useState({ language: '', tokens: '' });
+
+  const resetForm = () => setFormData({ language: '', tokens: '' });
+
+  const populateForm = (language: LanguageTokens) => {
+    setFormData({ language: language.language, tokens: language.tokens.join(', ') });
+  };
+
+  const handleSave = async () => {
+    const tokens = formData.tokens
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    try {
+      if (dialog.selected) {
+        await updateLanguage.mutateAsync({ language: dialog.selected.language, tokens });
+        toast.success('Język zaktualizowany');
+      } else {
+        await createLanguage.mutateAsync({ language: formData.language, tokens });
+        toast.success('Język utworzony');
+      }
+      dialog.closeEdit();
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać języka'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!dialog.selected) return;
+    try {
+      await deleteLanguage.mutateAsync(dialog.selected.language);
+      toast.success('Język usunięty');
+      dialog.closeDelete();
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć języka'));
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-1">Języki</h2>
+      <p className="text-sm text-muted-foreground mb-2">
+        Tytuły zawierające którekolwiek z tych słów są pomijane jako wydania nieangielskie.
+        Ostatniego języka nie można usunąć — przy pustej liście scraper wróciłby do listy
+        wbudowanej.
+      </p>
+      <EntityTable
+        isLoading={isLoading}
+        onAdd={() => dialog.openCreate(resetForm)}
+        addLabel="Dodaj język"
+        isEmpty={!languages || languages.length === 0}
+        emptyLabel="Brak języków w bazie — scraper używa listy wbudowanej"
+        headers={['Język', 'Tokeny', { label: '', className: 'w-16' }]}
+      >
+        {languages?.map((language) => (
+          <TableRow
+            key={language.language}
+            className="cursor-pointer hover:bg-muted/50"
+            onClick={() => dialog.openEdit(language, populateForm)}
+          >
+            <TableCell className="font-medium">{language.language}</TableCell>
+            <TableCell className="text-muted-foreground text-sm">
+              {language.tokens.join(', ')}
+            </TableCell>
+            <TableCell>
+              <DeleteRowButton
+                onClick={() => dialog.openDelete(language)}
+                disabled={languages.length === 1}
+                title={languages.length === 1 ? LAST_LANGUAGE_HINT : undefined}
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </EntityTable>
+
+      <CrudDialog
+        open={dialog.editDialogOpen}
+        onOpenChange={dialog.closeEdit}
+        isEdit={!!dialog.selected}
+        entityLabel="język"
+        isPending={createLanguage.isPending || updateLanguage.isPending}
+        onSave={handleSave}
+      >
+        <div>
+          <Label htmlFor="language-name" className="mb-2 block">
+            Język <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="language-name"
+            value={formData.language}
+            disabled={!!dialog.selected}
+            onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+            placeholder="np. thai"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="language-tokens" className="mb-2 block">
+            Tokeny (oddzielone przecinkami) <span className="text-red-500">*</span>
+          </Label>
+          <Textarea
+            id="language-tokens"
+            value={formData.tokens}
+            onChange={(e) => setFormData({ ...formData, tokens: e.target.value })}
+            placeholder="np. th, thai, tajski"
+          />
+        </div>
+      </CrudDialog>
+
+      <ConfirmDialog
+        open={dialog.deleteDialogOpen}
+        onOpenChange={dialog.closeDelete}
+        title="Usuń język"
+        description={`Czy na pewno chcesz usunąć język "${dialog.selected?.language}"?`}
+        onConfirm={handleDelete}
+        loading={deleteLanguage.isPending}
+      />
+    </section>
+  );
+}
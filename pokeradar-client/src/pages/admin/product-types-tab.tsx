@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -25,6 +26,7 @@ import { useCrudDialog } from '@/hooks/use-crud-dialog';
 import { toast } from 'sonner';
 import { DeleteRowButton } from '@/components/admin/delete-row-button';
 import { AffectedProductsList } from '@/components/admin/affected-products-list';
+import { MatchPlayground } from '@/components/admin/match-playground';
 import { ChevronDown, X } from 'lucide-react';
 import type { ProductType } from '@/api/admin.api';
 import { getErrorMessage, generateIdFromName } from '@/lib/error-utils';
@@ -57,6 +59,29 @@ export function ProductTypesTab() {
     setFormData({ id: '', name: '', matchingRequired: '', matchingForbidden: '', contains: [] });
   };
 
+  // Opened from the unmatched-title inbox: start a new type from the title's tokens
+  const [searchParams, setSearchParams] = useSearchParams();
+  const newTypeTitle = searchParams.get('newType');
+  useEffect(() => {
+    if (!newTypeTitle) return;
+    dialog.openCreate(() =>
+      setFormData({
+        id: '',
+        name: '',
+        matchingRequired: newTypeTitle.split(' ').filter(Boolean).join(', '),
+        matchingForbidden: '',
+        contains: [],
+      }),
+    );
+    setSearchParams(
+      (params) => {
+        params.delete('newType');
+        return params;
+      },
+      { replace: true },
+    );
+  }, [newTypeTitle, dialog, setSearchParams]);
+
   const populateForm = (type: ProductType) => {
     setFormData({
       id: type.id,
@@ -158,6 +183,8 @@ export function ProductTypesTab() {
         ))}
       </EntityTable>
 
+      <MatchPlayground />
+
       <CrudDialog
         open={dialog.editDialogOpen}
         onOpenChange={dialog.closeEdit}
@@ -17,6 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from '@/components/admin/status-badge';
 import { ConfirmDialog } from '@/components/admin/confirm-dialog';
 import { CrudDialog } from '@/components/admin/crud-dialog';
@@ -25,6 +26,8 @@ import {
   useAdminProducts,
   useAdminProductSets,
   useAdminProductTypes,
+  useAdminLanguageTokens,
+  useAdminCards,
   useCreateProduct,
   useUpdateProduct,
   useDeleteProduct,
@@ -44,11 +47,29 @@ import type { AdminProduct } from '@/api/admin.api';
 import { getErrorMessage, generateIdFromName } from '@/lib/error-utils';
 import { formatPLN } from '@/lib/format';
 
+const DEFAULT_LANGUAGE = 'english';
+const SINGLE_CARD_TYPE_ID = 'single-card';
+/** Radix Select items can't have an empty value, so "no card" gets its own. */
+const NO_CARD = 'none';
+/** Same for a raw card watched in any condition. */
+const ANY_CONDITION = 'any';
+const CARD_CONDITIONS = [
+  { value: 'nm', label: 'NM (Near Mint)' },
+  { value: 'lp', label: 'LP (Lightly Played)' },
+  { value: 'mp', label: 'MP (Moderately Played)' },
+  { value: 'hp', label: 'HP (Heavily Played)' },
+  { value: 'dmg', label: 'DMG (Damaged)' },
+];
+
 interface ProductPayload {
   id?: string;
   name: string;
   productSetId: string;
   productTypeId: string;
+  language: string;
+  cardId?: string;
+  grade?: string | null;
+  condition?: string | null;
   imageUrl?: string;
 }
 
@@ -60,6 +81,8 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
   const { data: products, isLoading } = useAdminProducts();
   const { data: sets } = useAdminProductSets();
   const { data: types } = useAdminProductTypes();
+  const { data: languageTokens } = useAdminLanguageTokens();
+  const { data: cards } = useAdminCards();
   const createProduct = useCreateProduct();
   const updateProduct = useUpdateProduct();
   const deleteProduct = useDeleteProduct();
@@ -75,6 +98,10 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
     name: '',
     productSetId: '',
     productTypeId: '',
+    language: DEFAULT_LANGUAGE,
+    cardId: NO_CARD,
+    grade: '',
+    condition: ANY_CONDITION,
   });
 
   // Auto-fill product name as "{set} {type}" when both are selected and name is still empty (create mode only)
@@ -93,6 +120,10 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
       name: '',
       productSetId: '',
       productTypeId: '',
+      language: DEFAULT_LANGUAGE,
+      cardId: NO_CARD,
+      grade: '',
+      condition: ANY_CONDITION,
     });
   };
 
@@ -107,11 +138,17 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
       name: product.name,
       productSetId: product.productSetId,
       productTypeId: product.productTypeId,
+      language: product.language,
+      cardId: product.cardId ?? NO_CARD,
+      grade: product.grade ?? '',
+      condition: product.condition ?? ANY_CONDITION,
     });
   };
 
   const handleSave = async () => {
-    if (!formData.productSetId || !formData.productTypeId) {
+    const isCard = formData.cardId !== NO_CARD;
+
+    if (!isCard && (!formData.productSetId || !formData.productTypeId)) {
       setFormError('Set i Typ produktu są wymagane');
       return;
     }
@@ -127,8 +164,19 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
       name: formData.name,
       productSetId: formData.productSetId,
       productTypeId: formData.productTypeId,
+      language: formData.language,
     };
 
+    // Set and type of singles are derived from the card on the server
+    if (isCard) {
+      payload.cardId = formData.cardId;
+      payload.grade = formData.grade.trim() || (dialog.selected ? null : undefined);
+      // A graded slab is matched by its grade alone
+      const condition = payload.grade ? ANY_CONDITION : formData.condition;
+      payload.condition =
+        condition !== ANY_CONDITION ? condition : dialog.selected ? null : undefined;
+    }
+
     if (!dialog.selected) {
       payload.id = generateIdFromName(formData.name);
     }
@@ -218,6 +266,12 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
     return new Map(sortedEntries);
   }, [products, sets]);
 
+  // Print languages come from the language tokens, plus whatever the edited product already uses
+  const languages = useMemo(() => {
+    const configured = (languageTokens ?? []).map((entry) => entry.language);
+    return [...new Set([DEFAULT_LANGUAGE, ...configured, formData.language])];
+  }, [languageTokens, formData.language]);
+
   const isPending =
     createProduct.isPending ||
     updateProduct.isPending ||
@@ -276,6 +330,7 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
                       const expanded = isExpanded(product.id);
                       const isUnavailable = product.disabled || !product.bestPrice;
                       const type = types?.find((t) => t.id === product.productTypeId);
+                      const cardState = product.grade || product.condition;
 
                       return (
                         <React.Fragment key={product.id}>
@@ -304,12 +359,21 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
                                 />
                               )}
                             </TableCell>
-                            <TableCell className="font-medium">{product.name}</TableCell>
+                            <TableCell className="font-medium">
+                              {product.name}
+                              {product.language !== DEFAULT_LANGUAGE && (
+                                <Badge variant="outline" className="ml-2 capitalize">
+                                  {product.language}
+                                </Badge>
+                              )}
+                            </TableCell>
                             <TableCell className="text-sm text-muted-foreground">
                               {setName}
                             </TableCell>
                             <TableCell className="text-sm text-muted-foreground">
-                              {type?.name || '-'}
+                              {product.cardId
+                                ? `Karta${cardState ? ` · ${cardState.toUpperCase()}` : ''}`
+                                : type?.name || '-'}
                             </TableCell>
                             <TableCell className="text-right">
                               {product.bestPrice ? formatPLN(product.bestPrice) : '-'}
@@ -471,6 +535,81 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
             />
           </div>
 
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <Label htmlFor="cardId" className="mb-2 block">
+                Karta (pojedyncza)
+              </Label>
+              <Select
+                value={formData.cardId}
+                disabled={!!dialog.selected}
+                onValueChange={(value) => {
+                  const card = cards?.find((c) => c.id === value);
+                  setFormData({
+                    ...formData,
+                    cardId: value,
+                    productSetId: card?.productSetId ?? '',
+                    productTypeId: card ? SINGLE_CARD_TYPE_ID : '',
+                    name: formData.name || (card ? `${card.name} ${card.number}` : ''),
+                    grade: card ? formData.grade : '',
+                    condition: card ? formData.condition : ANY_CONDITION,
+                  });
+                }}
+              >
+                <SelectTrigger id="cardId" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CARD}>Brak (produkt zamknięty)</SelectItem>
+                  {cards?.map((card) => (
+                    <SelectItem key={card.id} value={card.id}>
+                      {card.name} {card.number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.cardId !== NO_CARD && (
+              <div className="w-40">
+                <Label htmlFor="grade" className="mb-2 block">
+                  Ocena
+                </Label>
+                <Input
+                  id="grade"
+                  value={formData.grade}
+                  onChange={(e) => setFormData({ ...formData, grade: e.target.value })}
+                  placeholder="np. PSA 10"
+                />
+              </div>
+            )}
+
+            {formData.cardId !== NO_CARD && (
+              <div className="w-48">
+                <Label htmlFor="condition" className="mb-2 block">
+                  Stan
+                </Label>
+                <Select
+                  value={formData.condition}
+                  disabled={!!formData.grade.trim()}
+                  onValueChange={(value) => setFormData({ ...formData, condition: value })}
+                >
+                  <SelectTrigger id="condition" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_CONDITION}>Dowolny</SelectItem>
+                    {CARD_CONDITIONS.map((condition) => (
+                      <SelectItem key={condition.value} value={condition.value}>
+                        {condition.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
           <div className="flex gap-4">
             <div className="w-48">
               <Label htmlFor="productSetId" className="mb-2 block">
@@ -478,6 +617,7 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
               </Label>
               <Select
                 value={formData.productSetId}
+                disabled={formData.cardId !== NO_CARD}
                 onValueChange={(value) => {
                   const updated = { ...formData, productSetId: value };
                   tryAutoFillName(updated);
@@ -503,6 +643,7 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
               </Label>
               <Select
                 value={formData.productTypeId}
+                disabled={formData.cardId !== NO_CARD}
                 onValueChange={(value) => {
                   const updated = { ...formData, productTypeId: value };
                   tryAutoFillName(updated);
@@ -521,6 +662,27 @@ export const ProductsTab = forwardRef<ProductsTabHandle, object>(function Produc
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="w-40">
+              <Label htmlFor="language" className="mb-2 block">
+                Język
+              </Label>
+              <Select
+                value={formData.language}
+                onValueChange={(value) => setFormData({ ...formData, language: value })}
+              >
+                <SelectTrigger className="w-full capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages.map((language) => (
+                    <SelectItem key={language} value={language} className="capitalize">
+                      {language}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <ImageUpload
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PageLoader } from '@/components/ui/page-loader';
+import { EmptyTableRow } from '@/components/ui/empty-table-row';
+import { ExternalLink } from '@/components/ui/external-link';
+import { BackButton } from '@/components/ui/back-button';
+import { NotFound } from '@/components/admin/not-found';
+import { StatCard } from '@/components/admin/stat-card';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { PriceHistoryChart } from '@/components/products/price-history-chart';
+import { useProduct, useProductHistory, useProductPrices } from '@/hooks/use-products';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { buildAvailabilityStreaks, buildDailyLowest, findLowestEver } from '@/lib/price-history';
+import { formatDateTime, formatPLN, formatShortDate } from '@/lib/format';
+import { ExternalLink as ExternalLinkIcon, Store, TrendingDown, Trophy } from 'lucide-react';
+import type { PriceHistoryRange } from '@/types';
+
+const RANGE_LABELS: Record<PriceHistoryRange, string> = {
+  '7d': '7 dni',
+  '30d': '30 dni',
+  '90d': '90 dni',
+  '1y': 'Rok',
+  all: 'Całość',
+};
+
+const MAX_STREAKS = 5;
+
+export function ProductPage() {
+  const { id } = useParams<{ id: string }>();
+  const [range, setRange] = useState<PriceHistoryRange>('30d');
+
+  const { data: product, isLoading } = useProduct(id!);
+  const { data: prices } = useProductPrices(id!);
+  const { data: history, isLoading: historyLoading } = useProductHistory(id!, range);
+  const { data: fullHistory } = useProductHistory(id!, 'all');
+  const { data: watchlist } = useWatchlist();
+
+  const dailyLowest = useMemo(() => buildDailyLowest(history?.points ?? []), [history]);
+  const streaks = useMemo(() => buildAvailabilityStreaks(history?.points ?? []), [history]);
+  const lowestEver = useMemo(() => findLowestEver(fullHistory?.points ?? []), [fullHistory]);
+  const watchEntry = watchlist?.find((entry) => entry.productId === id);
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  if (!product) {
+    return <NotFound message="Produkt nie znaleziony" backTo="/" />;
+  }
+
+  const offers = prices ?? [];
+  const availableOffers = offers.filter((o) => o.isAvailable && o.price !== null);
+  const bestOffer = availableOffers[0] ?? null;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <BackButton to="/" label="Powrót do katalogu" />
+        <div className="flex items-center gap-4">
+          <img
+            src={product.imageUrl}
+            alt={product.name}
+            className="h-20 w-20 rounded object-contain shrink-0"
+          />
+          <h1 className="text-xl font-bold sm:text-2xl">{product.name}</h1>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <StatCard
+          label="Najlepsza cena teraz"
+          value={bestOffer ? formatPLN(bestOffer.price) : '—'}
+          icon={TrendingDown}
+        />
+        <StatCard
+          label="Najniższa cena w historii"
+          value={lowestEver ? formatPLN(lowestEver.price) : '—'}
+          icon={Trophy}
+        />
+        <StatCard label="Sklepy z ofertą" value={availableOffers.length} icon={Store} />
+      </div>
+
+      <Card className="p-4 mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <div>
+            <h2 className="font-semibold">Historia najniższej ceny</h2>
+            {lowestEver && (
+              <p className="text-xs text-muted-foreground">
+                Najniżej: {formatPLN(lowestEver.price)} w {lowestEver.shopId} (
+                {formatShortDate(lowestEver.day)})
+              </p>
+            )}
+          </div>
+          <Tabs value={range} onValueChange={(v) => setRange(v as PriceHistoryRange)}>
+            <TabsList>
+              {(Object.keys(RANGE_LABELS) as PriceHistoryRange[]).map((r) => (
+                <TabsTrigger key={r} value={r}>
+                  {RANGE_LABELS[r]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+        {historyLoading ? (
+          <div className="h-[220px]" />
+        ) : (
+          <PriceHistoryChart
+            data={dailyLowest}
+            lowestEver={lowestEver}
+            maxPrice={watchEntry?.maxPrice}
+          />
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sklep</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Cena</TableHead>
+                <TableHead>Sprawdzono</TableHead>
+                <TableHead className="w-16"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {offers.length === 0 ? (
+                <EmptyTableRow colSpan={5} message="Brak aktualnych ofert" />
+              ) : (
+                offers.map((offer) => (
+                  <TableRow key={offer.shopId}>
+                    <TableCell className="font-medium">{offer.shopId}</TableCell>
+                    <TableCell>
+                      {offer.isAvailable ? (
+                        <StatusBadge status="ok" label="Dostępny" />
+                      ) : (
+                        <StatusBadge status="inactive" label="Niedostępny" />
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatPLN(offer.price)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {formatDateTime(offer.timestamp)}
+                    </TableCell>
+                    <TableCell>
+                      {offer.productUrl && (
+                        <ExternalLink
+                          href={offer.productUrl}
+                          className="text-blue-500 hover:text-blue-600"
+                        >
+                          <ExternalLinkIcon className="h-4 w-4" />
+                        </ExternalLink>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-semibold mb-3">Dostępność w sklepach</h2>
+          {streaks.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic">Brak danych w wybranym okresie</p>
+          ) : (
+            <ul className="space-y-2">
+              {streaks.slice(0, MAX_STREAKS).map((streak) => (
+                <li
+                  key={`${streak.shopId}-${streak.from}`}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span className="font-medium truncate">{streak.shopId}</span>
+                  <span className="text-muted-foreground tabular-nums shrink-0">
+                    {formatShortDate(streak.from)} – {formatShortDate(streak.to)} ({streak.days}{' '}
+                    {streak.days === 1 ? 'dzień' : 'dni'})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { AuthGuard } from '@/components/auth/auth-guard';
 import { useAuth } from '@/hooks/use-auth';
 import { NotificationChannelList } from '@/components/notifications/notification-channel-list';
+import { ShopPreferences } from '@/components/notifications/shop-preferences';
+import { NotificationScheduleForm } from '@/components/notifications/notification-schedule-form';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { User, Bell } from 'lucide-react';
+import { User, Bell, Clock, Store } from 'lucide-react';
 
 function SettingsContent() {
   const { user } = useAuth();
@@ -45,6 +47,28 @@ function SettingsContent() {
         </h2>
         <NotificationChannelList />
       </section>
+
+      <Separator />
+
+      {/* Schedule Section */}
+      <section>
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Harmonogram
+        </h2>
+        <NotificationScheduleForm />
+      </section>
+
+      <Separator />
+
+      {/* Shops Section */}
+      <section>
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Store className="h-5 w-5" />
+          Sklepy
+        </h2>
+        <ShopPreferences />
+      </section>
     </div>
   );
 }
@@ -1,9 +1,27 @@
-export type { Product } from './product.types';
+export type {
+  Product,
+  ProductPrice,
+  PriceHistoryRange,
+  PriceHistoryPoint,
+  ProductPriceHistory,
+} from './product.types';
 export type { ProductSet } from './product-set.types';
 export type {
   WatchlistEntry,
   AddWatchEntryRequest,
   UpdateWatchEntryRequest,
+  WatchAlertRules,
 } from './watchlist.types';
-export type { UserProfile, ChannelStatus, LinkToken, UnlinkResult } from './user.types';
+export type {
+  UserProfile,
+  ChannelStatus,
+  EmailChannelStatus,
+  PushChannelStatus,
+  WebhookChannelStatus,
+  Webhook,
+  LinkToken,
+  UnlinkResult,
+  ShopPreference,
+  NotificationSchedule,
+} from './user.types';
 export type { ApiError } from './api.types';
@@ -3,8 +3,35 @@ export interface Product {
   name: string;
   imageUrl: string;
   productSetId?: string;
+  language?: string;
   disabled?: boolean;
   currentBestPrice: number | null;
   currentBestShop: string | null;
   currentBestUrl: string | null;
 }
+
+export interface ProductPrice {
+  shopId: string;
+  price: number | null;
+  isAvailable: boolean;
+  productUrl: string;
+  timestamp: string;
+}
+
+export type PriceHistoryRange = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export interface PriceHistoryPoint {
+  day: string;
+  shopId: string;
+  minPrice: number | null;
+  maxPrice: number | null;
+  closePrice: number | null;
+  wasAvailable: boolean;
+  productUrl: string;
+}
+
+export interface ProductPriceHistory {
+  productId: string;
+  range: PriceHistoryRange;
+  points: PriceHistoryPoint[];
+}
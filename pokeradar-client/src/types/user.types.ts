@@ -3,12 +3,59 @@ export interface ChannelStatus {
   linkToken: string | null;
 }
 
+export interface EmailChannelStatus {
+  linked: boolean;
+  address: string | null;
+  /** Address waiting for its verification link to be opened. */
+  pendingAddress: string | null;
+}
+
+export interface PushChannelStatus {
+  linked: boolean;
+  /** One per subscribed browser. */
+  endpoints: string[];
+}
+
+export interface WebhookChannelStatus {
+  /** True while at least one webhook is enabled. */
+  linked: boolean;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  /** Key for checking the X-Pokeradar-Signature header; only sent when the webhook is created. */
+  secret?: string;
+  /** Set by the server after repeated failed requests. */
+  disabled: boolean;
+  consecutiveFailures: number;
+  createdAt: string;
+}
+
 export interface UserProfile {
   id: string;
   email: string;
   displayName: string;
   telegram: ChannelStatus;
   discord: ChannelStatus;
+  emailChannel: EmailChannelStatus;
+  pushChannel: PushChannelStatus;
+  webhookChannel: WebhookChannelStatus;
+  excludedShopIds: string[];
+  notificationSchedule: NotificationSchedule;
+}
+
+/** Times are 'HH:mm' in `timezone`. */
+export interface NotificationSchedule {
+  timezone: string;
+  quietHours: { start: string; end: string } | null;
+  digestTime: string | null;
+}
+
+export interface ShopPreference {
+  id: string;
+  name: string;
+  excluded: boolean;
 }
 
 export interface LinkToken {
@@ -1,15 +1,26 @@
+/** Extra triggers and filters on top of maxPrice — any trigger fires, filters apply to all. */
+export interface WatchAlertRules {
+  anyRestock?: boolean;
+  dropBelowAveragePercent?: number;
+  shopIds?: string[];
+  minPrice?: number;
+}
+
 export interface WatchlistEntry {
   id: string;
   productId: string;
   maxPrice: number;
+  alertRules?: WatchAlertRules;
   createdAt: string;
 }
 
 export interface AddWatchEntryRequest {
   productId: string;
   maxPrice: number;
+  alertRules?: WatchAlertRules;
 }
 
 export interface UpdateWatchEntryRequest {
-  maxPrice: number;
+  maxPrice?: number;
+  alertRules?: WatchAlertRules;
 }
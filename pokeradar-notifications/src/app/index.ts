@@ -5,6 +5,8 @@
  * 2. Recovers pending notifications from previous runs
  * 3. Watches for new notifications via MongoDB change streams
  * 4. Delivers notifications via platform channels with retries and rate limiting
+ * 5. Releases notifications held for quiet hours and digests every minute
+ * 6. Posts new offers to Discord server channels subscribed with /subscribe
  *
  * Requires MongoDB replica set for change streams.
  */
@@ -12,9 +14,16 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+import nodemailer from 'nodemailer';
 import { connectDB, disconnectDB } from '@pokeradar/shared';
 import { TelegramBotPlatform, DiscordBotPlatform, IBotPlatform } from '../platforms';
+import { ChannelFeedService } from '../channel-feed';
 import { NotificationProcessor, ChangeStreamWatcher, RateLimiter } from '../notifications';
+import {
+  EmailNotificationChannel,
+  WebPushChannel,
+  WebhookChannel,
+} from '../notifications/channels';
 import { Logger } from '@pokeradar/shared';
 import { loadConfig } from '../config';
 
@@ -32,9 +41,10 @@ async function main() {
   logger.info('Connected to MongoDB');
 
   // Initialize bot platforms
+  const discordPlatform = new DiscordBotPlatform(config.discordBotToken, config.appUrl, logger);
   const platforms: IBotPlatform[] = [
     new TelegramBotPlatform(config.telegramBotToken, config.appUrl, logger),
-    new DiscordBotPlatform(config.discordBotToken, config.appUrl, logger),
+    discordPlatform,
   ];
 
   // Start all platforms (enables command polling / slash command registration)
@@ -65,12 +75,59 @@ async function main() {
     processor.registerChannel(channel, rateLimiter);
   }
 
+  // Email has no bot side, so it is registered as a bare channel
+  if (config.smtp) {
+    const transporter = nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.port === 465,
+      auth: config.smtp.user ? { user: config.smtp.user, pass: config.smtp.pass } : undefined,
+    });
+    processor.registerChannel(
+      new EmailNotificationChannel(transporter, config.smtp.from),
+      new RateLimiter(config.rateLimiting.emailBatchSize, config.rateLimiting.emailBatchIntervalMs),
+    );
+  } else {
+    logger.info('SMTP_HOST not set, email channel disabled');
+  }
+
+  if (config.webPush) {
+    processor.registerChannel(
+      new WebPushChannel(config.webPush),
+      new RateLimiter(config.rateLimiting.pushBatchSize, config.rateLimiting.pushBatchIntervalMs),
+    );
+  } else {
+    logger.info('VAPID keys not set, push channel disabled');
+  }
+
+  processor.registerChannel(
+    new WebhookChannel(config.webhook),
+    new RateLimiter(
+      config.rateLimiting.webhookBatchSize,
+      config.rateLimiting.webhookBatchIntervalMs,
+    ),
+  );
+
   // Recover pending notifications from before this run
   const recoveredCount = await processor.recoverPending();
   if (recoveredCount > 0) {
     logger.info('Recovered pending notifications from previous run', { count: recoveredCount });
   }
 
+  // Release held notifications now (covers downtime) and then on a timer
+  const releaseHeld = () =>
+    processor
+      .releaseHeld()
+      .catch((error) => logger.error('Failed to release held notifications', error));
+  await releaseHeld();
+  const releaseTimer = setInterval(releaseHeld, config.heldReleaseIntervalMs);
+
+  // Server channel feed works off scrape results, not notification documents
+  const channelFeed = new ChannelFeedService(discordPlatform.asChannelFeedPoster(), logger);
+  const runChannelFeed = () =>
+    channelFeed.run().catch((error) => logger.error('Failed to run channel feed', error));
+  const channelFeedTimer = setInterval(runChannelFeed, config.channelFeedIntervalMs);
+
   // Start change stream watcher
   const watcher = new ChangeStreamWatcher(logger);
   watcher.start((doc) => processor.enqueue(doc));
@@ -81,6 +138,8 @@ async function main() {
   const shutdown = async (signal: string) => {
     logger.info(`Received ${signal}, shutting down...`);
 
+    clearInterval(releaseTimer);
+    clearInterval(channelFeedTimer);
     await watcher.stop();
     await processor.drain();
 
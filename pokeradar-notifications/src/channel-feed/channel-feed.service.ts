@@ -0,0 +1,188 @@
+/**
+ * Posts offers to Discord server channels subscribed with /subscribe.
+ * Runs on a timer over the freshest scrape results and is independent of user
+ * watchlists: every channel gets each matching offer once, and again only when
+ * its price drops further or it sells out and comes back.
+ */
+
+import {
+  ChannelPostStateModel,
+  ChannelSubscriptionModel,
+  ILogger,
+  INotificationPayload,
+  ProductSetModel,
+  loadShopInfos,
+} from '@pokeradar/shared';
+import { PermanentDeliveryError } from '../notifications/channels';
+import { Offer, loadChannelOffers, matchesFilter, offerKey } from './channel-offers';
+
+export interface IChannelFeedPoster {
+  /** Throws PermanentDeliveryError when the channel is gone or the bot lost access to it. */
+  post(channelId: string, payload: INotificationPayload): Promise<void>;
+}
+
+/** Keeps a new feed (or a big price drop across the board) from flooding the channel. */
+const MAX_POSTS_PER_RUN = 10;
+
+export class ChannelFeedService {
+  private running = false;
+
+  constructor(
+    private poster: IChannelFeedPoster,
+    private logger: ILogger,
+  ) {}
+
+  /** Returns the number of offers posted; overlapping runs are skipped. */
+  async run(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    try {
+      return await this.postNewOffers();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async postNewOffers(): Promise<number> {
+    const subscriptions = await ChannelSubscriptionModel.find().lean();
+    if (subscriptions.length === 0) return 0;
+
+    const { offers, scrapedKeys } = await loadChannelOffers();
+    const setNames = await this.loadSetNames();
+    const shopNames = new Map(loadShopInfos().map((shop) => [shop.id, shop.name]));
+
+    let posted = 0;
+    for (const subscription of subscriptions) {
+      const matching = offers.filter((offer) => matchesFilter(offer, subscription.filter));
+      const toPayload = (offer: Offer): INotificationPayload => ({
+        productName: offer.product.name,
+        shopName: shopNames.get(offer.shopId) ?? offer.shopId,
+        shopId: offer.shopId,
+        productId: offer.product.id,
+        price: offer.price,
+        maxPrice: subscription.filter.maxPrice ?? offer.price,
+        productUrl: offer.productUrl,
+        ...(offer.product.imageUrl && { imageUrl: offer.product.imageUrl }),
+        ...(setNames.has(offer.product.productSetId) && {
+          productSetName: setNames.get(offer.product.productSetId),
+        }),
+      });
+
+      try {
+        posted += await this.postToChannel(
+          subscription.channelId,
+          matching,
+          scrapedKeys,
+          toPayload,
+        );
+      } catch (error) {
+        if (error instanceof PermanentDeliveryError) {
+          this.logger.warn('Removing channel subscription after permanent failure', {
+            guildId: subscription.guildId,
+            channelId: subscription.channelId,
+            error: error.message,
+          });
+          await Promise.all([
+            ChannelSubscriptionModel.deleteOne({ channelId: subscription.channelId }),
+            ChannelPostStateModel.deleteMany({ channelId: subscription.channelId }),
+          ]);
+        } else {
+          this.logger.error('Failed to post offers to channel', {
+            channelId: subscription.channelId,
+            error,
+          });
+        }
+      }
+    }
+
+    if (posted > 0) {
+      this.logger.info('Channel feed posted offers', {
+        channels: subscriptions.length,
+        posted,
+      });
+    }
+    return posted;
+  }
+
+  /**
+   * Posts offers the channel has not seen at this price, cheapest first, then
+   * brings the channel's post state in line with what currently matches.
+   * Offers cut by MAX_POSTS_PER_RUN get no state and go out on the next run.
+   */
+  private async postToChannel(
+    channelId: string,
+    matching: Offer[],
+    scrapedKeys: Set<string>,
+    toPayload: (offer: Offer) => INotificationPayload,
+  ): Promise<number> {
+    const states = await ChannelPostStateModel.find({ channelId }).lean();
+    const lastPrices = new Map(states.map((s) => [offerKey(s.productId, s.shopId), s.price]));
+
+    const due = matching
+      .filter((offer) => {
+        const lastPrice = lastPrices.get(offerKey(offer.product.id, offer.shopId));
+        return lastPrice === undefined || offer.price < lastPrice;
+      })
+      .sort((a, b) => a.price - b.price)
+      .slice(0, MAX_POSTS_PER_RUN);
+
+    const posted: Offer[] = [];
+    try {
+      for (const offer of due) {
+        await this.poster.post(channelId, toPayload(offer));
+        posted.push(offer);
+      }
+    } finally {
+      await this.syncStates(channelId, matching, scrapedKeys, posted, states);
+    }
+    return posted.length;
+  }
+
+  private async syncStates(
+    channelId: string,
+    matching: Offer[],
+    scrapedKeys: Set<string>,
+    posted: Offer[],
+    states: { productId: string; shopId: string; price: number }[],
+  ): Promise<void> {
+    const lastPrices = new Map(states.map((s) => [offerKey(s.productId, s.shopId), s.price]));
+    const postedKeys = new Set(posted.map((o) => offerKey(o.product.id, o.shopId)));
+    const matchingKeys = new Set(matching.map((o) => offerKey(o.product.id, o.shopId)));
+
+    // Posted offers record their price; a price rise is recorded so a later drop posts again
+    const upserts = matching
+      .filter((offer) => {
+        const key = offerKey(offer.product.id, offer.shopId);
+        const lastPrice = lastPrices.get(key);
+        return postedKeys.has(key) || (lastPrice !== undefined && offer.price > lastPrice);
+      })
+      .map((offer) => ({
+        updateOne: {
+          filter: { channelId, productId: offer.product.id, shopId: offer.shopId },
+          update: { $set: { price: offer.price } },
+          upsert: true,
+        },
+      }));
+
+    // Offers that sold out or left the filter post again when they come back. An offer
+    // without a fresh result was just not scraped lately and keeps its state.
+    const removals = states
+      .filter((state) => {
+        const key = offerKey(state.productId, state.shopId);
+        return scrapedKeys.has(key) && !matchingKeys.has(key);
+      })
+      .map((state) => ({
+        deleteOne: { filter: { channelId, productId: state.productId, shopId: state.shopId } },
+      }));
+
+    const operations = [...upserts, ...removals];
+    if (operations.length > 0) {
+      await ChannelPostStateModel.bulkWrite(operations, { ordered: false });
+    }
+  }
+
+  private async loadSetNames(): Promise<Map<string, string>> {
+    const sets = await ProductSetModel.find().select('id name').lean();
+    return new Map(sets.map((set) => [set.id, set.name]));
+  }
+}
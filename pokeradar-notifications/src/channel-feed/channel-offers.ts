@@ -0,0 +1,72 @@
+/**
+ * Offers the channel feed works with: the freshest scrape result per catalog
+ * product and shop, and the filter check shared by posting and /subscribe.
+ */
+
+import {
+  ChannelSubscriptionFilter,
+  ProductResultModel,
+  WatchlistProductModel,
+  buildLatestResultsAggregation,
+  getFreshnessCutoff,
+} from '@pokeradar/shared';
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  imageUrl: string;
+  productSetId: string;
+  productTypeId: string;
+}
+
+export interface Offer {
+  product: CatalogProduct;
+  shopId: string;
+  price: number;
+  productUrl: string;
+}
+
+export interface ChannelOffers {
+  /** Available, priced offers. */
+  offers: Offer[];
+  /** offerKey of every product/shop with a fresh result, sold out or not. */
+  scrapedKeys: Set<string>;
+}
+
+export function offerKey(productId: string, shopId: string): string {
+  return `${productId}:${shopId}`;
+}
+
+export function matchesFilter(offer: Offer, filter: ChannelSubscriptionFilter): boolean {
+  const { productSetIds, productTypeIds, shopIds, maxPrice } = filter;
+  return (
+    (productSetIds.length === 0 || productSetIds.includes(offer.product.productSetId)) &&
+    (productTypeIds.length === 0 || productTypeIds.includes(offer.product.productTypeId)) &&
+    (shopIds.length === 0 || shopIds.includes(offer.shopId)) &&
+    (maxPrice === null || offer.price <= maxPrice)
+  );
+}
+
+export async function loadChannelOffers(): Promise<ChannelOffers> {
+  const products = await WatchlistProductModel.find({ disabled: { $ne: true } })
+    .select('id name imageUrl productSetId productTypeId')
+    .lean();
+  const productsById = new Map<string, CatalogProduct>(products.map((p) => [p.id, p]));
+
+  const results = await ProductResultModel.aggregate<{
+    productId: string;
+    shopId: string;
+    price: number | null;
+    isAvailable: boolean;
+    productUrl: string;
+  }>(buildLatestResultsAggregation([...productsById.keys()], getFreshnessCutoff()));
+
+  const offers = results.flatMap((r) => {
+    const product = productsById.get(r.productId);
+    return product && r.isAvailable && r.price !== null
+      ? [{ product, shopId: r.shopId, price: r.price, productUrl: r.productUrl }]
+      : [];
+  });
+  const scrapedKeys = new Set(results.map((r) => offerKey(r.productId, r.shopId)));
+  return { offers, scrapedKeys };
+}
@@ -0,0 +1,141 @@
+/**
+ * Logic behind /subscribe and /unsubscribe: resolves the names an admin typed
+ * into set, product type and shop ids and stores the channel's filter.
+ */
+
+import {
+  ChannelPostStateModel,
+  ChannelSubscriptionFilter,
+  ChannelSubscriptionModel,
+  ProductSetModel,
+  ProductTypeModel,
+  loadShopInfos,
+  normalizeTitle,
+} from '@pokeradar/shared';
+import { ChannelFeedMessages } from '../messages/notification.messages';
+import { loadChannelOffers, matchesFilter } from './channel-offers';
+
+export interface SubscribeRequest {
+  guildId: string;
+  channelId: string;
+  /** Discord user id of the admin running the command. */
+  userId: string;
+  /** Comma-separated names or ids; null when the option was left out. */
+  sets: string | null;
+  types: string | null;
+  shops: string | null;
+  maxPrice: number | null;
+}
+
+export interface NamedOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Maps comma-separated terms to options by id, exact name, or a name that
+ * only one option contains. Terms matching nothing or several options are
+ * returned as unknown.
+ */
+export function resolveNames(
+  input: string | null,
+  options: NamedOption[],
+): { matched: NamedOption[]; unknown: string[] } {
+  const terms = (input ?? '')
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+  const normalized = options.map((option) => ({ option, name: normalizeTitle(option.name) }));
+
+  const matched = new Map<string, NamedOption>();
+  const unknown: string[] = [];
+  for (const term of terms) {
+    const query = normalizeTitle(term);
+    const exact = normalized.find(
+      (n) => n.option.id === term.toLowerCase() || (query !== '' && n.name === query),
+    );
+    const partial = query ? normalized.filter((n) => n.name.includes(query)) : [];
+    const option = exact?.option ?? (partial.length === 1 ? partial[0].option : undefined);
+
+    if (option) matched.set(option.id, option);
+    else unknown.push(term);
+  }
+  return { matched: [...matched.values()], unknown };
+}
+
+export class ChannelSubscriptionHandler {
+  constructor(private messages: ChannelFeedMessages) {}
+
+  /** Creates the channel's feed or replaces its filter. */
+  async subscribe(request: SubscribeRequest): Promise<string> {
+    if (!request.sets?.trim() && !request.types?.trim() && request.maxPrice === null) {
+      return this.messages.emptyFilter;
+    }
+
+    const [sets, types] = await Promise.all([
+      ProductSetModel.find().select('id name').lean(),
+      ProductTypeModel.find().select('id name').lean(),
+    ]);
+    const resolved = [
+      { label: 'zestawy', ...resolveNames(request.sets, sets) },
+      { label: 'typy produktów', ...resolveNames(request.types, types) },
+      { label: 'sklepy', ...resolveNames(request.shops, loadShopInfos()) },
+    ];
+    const failed = resolved.find((r) => r.unknown.length > 0);
+    if (failed) return this.messages.unknownNames(failed.label, failed.unknown);
+
+    const [setMatches, typeMatches, shopMatches] = resolved.map((r) => r.matched);
+    const filter: ChannelSubscriptionFilter = {
+      productSetIds: setMatches.map((s) => s.id),
+      productTypeIds: typeMatches.map((t) => t.id),
+      shopIds: shopMatches.map((s) => s.id),
+      maxPrice: request.maxPrice,
+    };
+    await ChannelSubscriptionModel.updateOne(
+      { channelId: request.channelId },
+      { $set: { guildId: request.guildId, createdBy: request.userId, filter } },
+      { upsert: true },
+    );
+    await this.seedPostStates(request.channelId, filter);
+
+    return this.messages.subscribed(request.channelId, {
+      sets: setMatches.map((s) => s.name),
+      types: typeMatches.map((t) => t.name),
+      shops: shopMatches.map((s) => s.name),
+      maxPrice: request.maxPrice,
+    });
+  }
+
+  /** Scoped to the guild so an admin cannot stop another server's feed. */
+  async unsubscribe(guildId: string, channelId: string): Promise<string> {
+    const { deletedCount } = await ChannelSubscriptionModel.deleteOne({ guildId, channelId });
+    if (deletedCount === 0) return this.messages.notSubscribed(channelId);
+
+    await ChannelPostStateModel.deleteMany({ channelId });
+    return this.messages.unsubscribed(channelId);
+  }
+
+  /**
+   * Marks the offers matching right now as posted, so the feed starts with
+   * offers that appear or get cheaper later instead of the whole catalog.
+   * Existing state is left alone, keeping a price drop that is still due.
+   */
+  private async seedPostStates(
+    channelId: string,
+    filter: ChannelSubscriptionFilter,
+  ): Promise<void> {
+    const { offers } = await loadChannelOffers();
+    const operations = offers
+      .filter((offer) => matchesFilter(offer, filter))
+      .map((offer) => ({
+        updateOne: {
+          filter: { channelId, productId: offer.product.id, shopId: offer.shopId },
+          update: { $setOnInsert: { price: offer.price } },
+          upsert: true,
+        },
+      }));
+    if (operations.length > 0) {
+      await ChannelPostStateModel.bulkWrite(operations, { ordered: false });
+    }
+  }
+}
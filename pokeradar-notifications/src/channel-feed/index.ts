@@ -0,0 +1,7 @@
+export { ChannelFeedService, type IChannelFeedPoster } from './channel-feed.service';
+export {
+  ChannelSubscriptionHandler,
+  resolveNames,
+  type SubscribeRequest,
+  type NamedOption,
+} from './channel-subscription-handler';
@@ -2,11 +2,29 @@
  * Application configuration loaded from environment variables.
  */
 
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export interface WebPushConfig {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
 export interface AppConfig {
   mongodbUri: string;
   telegramBotToken: string;
   discordBotToken: string;
   appUrl: string;
+  /** Null when SMTP_HOST is unset; the email channel is then not registered. */
+  smtp: SmtpConfig | null;
+  /** Null when VAPID keys are unset; the push channel is then not registered. */
+  webPush: WebPushConfig | null;
   logLevel: 'info' | 'debug';
   retry: {
     maxAttempts: number;
@@ -14,14 +32,59 @@ export interface AppConfig {
     maxDelayMs: number;
   };
   processingConcurrency: number;
+  webhook: {
+    timeoutMs: number;
+    maxConsecutiveFailures: number;
+  };
+  /** How often held notifications are checked for release. */
+  heldReleaseIntervalMs: number;
+  /** How often subscribed Discord server channels are checked for new offers. */
+  channelFeedIntervalMs: number;
   rateLimiting: {
     telegramBatchSize: number;
     telegramBatchIntervalMs: number;
     discordBatchSize: number;
     discordBatchIntervalMs: number;
+    emailBatchSize: number;
+    emailBatchIntervalMs: number;
+    pushBatchSize: number;
+    pushBatchIntervalMs: number;
+    webhookBatchSize: number;
+    webhookBatchIntervalMs: number;
+  };
+}
+
+function loadSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const from = process.env.EMAIL_FROM;
+  if (!from) {
+    throw new Error('EMAIL_FROM is not set in environment (required with SMTP_HOST)');
+  }
+
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from,
   };
 }
 
+function loadWebPushConfig(): WebPushConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  const subject = process.env.VAPID_SUBJECT;
+  if (!subject) {
+    throw new Error('VAPID_SUBJECT is not set in environment (required with VAPID keys)');
+  }
+
+  return { subject, publicKey, privateKey };
+}
+
 export function loadConfig(): AppConfig {
   const mongodbUri = process.env.MONGODB_URI;
   if (!mongodbUri) {
@@ -48,8 +111,17 @@ export function loadConfig(): AppConfig {
     telegramBotToken,
     discordBotToken,
     appUrl,
+    smtp: loadSmtpConfig(),
+    webPush: loadWebPushConfig(),
     logLevel: (process.env.LOG_LEVEL as 'info' | 'debug') || 'info',
     processingConcurrency: parseInt(process.env.PROCESSING_CONCURRENCY || '50', 10),
+    heldReleaseIntervalMs: 60_000,
+    channelFeedIntervalMs: 5 * 60_000,
+    webhook: {
+      timeoutMs: 10_000,
+      // Three deliveries' worth of retries
+      maxConsecutiveFailures: 15,
+    },
     retry: {
       maxAttempts: 5,
       initialDelayMs: 1000,
@@ -60,6 +132,12 @@ export function loadConfig(): AppConfig {
       telegramBatchIntervalMs: 1000,
       discordBatchSize: 45,
       discordBatchIntervalMs: 1000,
+      emailBatchSize: 10,
+      emailBatchIntervalMs: 1000,
+      pushBatchSize: 50,
+      pushBatchIntervalMs: 1000,
+      webhookBatchSize: 20,
+      webhookBatchIntervalMs: 1000,
     },
   };
 }
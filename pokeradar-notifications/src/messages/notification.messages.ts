@@ -4,41 +4,277 @@
  */
 
 import { INotificationPayload } from '@pokeradar/shared';
+import type { NotificationAction } from '../watchlist/notification-actions';
 
 // ─── Notification messages ────────────────────────────────────────────────────
 
+/** Markup used by one delivery format. */
+interface MessageMarkup {
+  bold: (s: string) => string;
+  link: (label: string, url: string) => string;
+  /** Applied to product and shop names before they are embedded. */
+  escape: (s: string) => string;
+}
+
+function markdownMarkup(boldMarker: string): MessageMarkup {
+  return {
+    bold: (s) => `${boldMarker}${s}${boldMarker}`,
+    link: (label, url) => `[${label}](${url})`,
+    escape: (s) => s,
+  };
+}
+
+const TELEGRAM_MARKUP = markdownMarkup('*');
+const DISCORD_MARKUP = markdownMarkup('**');
+
+const PLAIN_TEXT_MARKUP: MessageMarkup = {
+  bold: (s) => s,
+  link: (label, url) => `${label} ${url}`,
+  escape: (s) => s,
+};
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_MARKUP: MessageMarkup = {
+  bold: (s) => `<strong>${s}</strong>`,
+  link: (label, url) => `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`,
+  escape: escapeHtml,
+};
+
 function formatPricePL(price: number): string {
   return `${price.toFixed(2).replace('.', ',')} zł`;
 }
 
+/** Alerts from rules other than maxPrice say why they fired. */
+function buildRuleLines(payload: INotificationPayload): string[] {
+  if (payload.trigger === 'price-drop' && payload.averagePrice) {
+    const dropPercent = Math.round((1 - payload.price / payload.averagePrice) * 100);
+    return [`📉 ${dropPercent}% poniżej średniej z 7 dni (${formatPricePL(payload.averagePrice)})`];
+  }
+  if (payload.trigger === 'restock') {
+    return ['🔄 Ponownie w magazynie'];
+  }
+  return [];
+}
+
+/** Whole percent the price sits below the user's max price; null when it does not. */
+function savingsPercent(payload: INotificationPayload): number | null {
+  const percent = Math.round((1 - payload.price / payload.maxPrice) * 100);
+  return percent > 0 ? percent : null;
+}
+
+function buildPriceLine(payload: INotificationPayload): string {
+  const priceStr = formatPricePL(payload.price);
+  if (payload.price >= payload.maxPrice) return `🏷️ Cena: ${priceStr}`;
+
+  const savings = savingsPercent(payload);
+  const details = [`maks: ${formatPricePL(payload.maxPrice)}`];
+  if (savings !== null) details.push(`oszczędzasz ${savings}%`);
+  return `🏷️ Cena: ${priceStr} (${details.join(', ')})`;
+}
+
+/** The buy link is left out where a button carries it instead. */
 function buildNotificationLines(
   payload: INotificationPayload,
-  bold: (s: string) => string,
+  markup: MessageMarkup,
+  withLink = true,
 ): string[] {
-  const priceStr = formatPricePL(payload.price);
-  const maxPriceStr = formatPricePL(payload.maxPrice);
-  const priceLine =
-    payload.price < payload.maxPrice
-      ? `🏷️ Cena: ${priceStr} (maks: ${maxPriceStr})`
-      : `🏷️ Cena: ${priceStr}`;
-
-  return [
+  const lines = [
     '🎯 Produkt dostępny!',
     '',
-    bold(payload.productName),
-    `🛒 Sklep: ${payload.shopName}`,
-    priceLine,
-    '',
-    `[Kup teraz →](${payload.productUrl})`,
+    markup.bold(markup.escape(payload.productName)),
+    ...(payload.productSetName ? [`📦 Zestaw: ${markup.escape(payload.productSetName)}`] : []),
+    `🛒 Sklep: ${markup.escape(payload.shopName)}`,
+    buildPriceLine(payload),
+    ...buildRuleLines(payload),
   ];
+  return withLink ? [...lines, '', markup.link('Kup teraz →', payload.productUrl)] : lines;
 }
 
+export const BUY_BUTTON_LABEL = '🛒 Kup teraz';
+
 export function formatTelegramNotification(payload: INotificationPayload): string {
-  return buildNotificationLines(payload, (s) => `*${s}*`).join('\n');
+  return buildNotificationLines(payload, TELEGRAM_MARKUP).join('\n');
+}
+
+/** Caption for sendPhoto; the buy link goes in the keyboard. */
+export function formatTelegramPhotoCaption(payload: INotificationPayload): string {
+  return buildNotificationLines(payload, TELEGRAM_MARKUP, false).join('\n');
+}
+
+/** Platform-neutral content of a Discord alert embed. */
+export interface AlertEmbed {
+  author: string;
+  title: string;
+  url: string;
+  description?: string;
+  fields: { name: string; value: string; inline: boolean }[];
+  imageUrl?: string;
+  footer?: string;
+}
+
+export function formatDiscordAlertEmbed(payload: INotificationPayload): AlertEmbed {
+  const savings = savingsPercent(payload);
+  const ruleLines = buildRuleLines(payload);
+  const fields = [
+    { name: 'Sklep', value: payload.shopName, inline: true },
+    { name: 'Cena', value: formatPricePL(payload.price), inline: true },
+  ];
+  if (payload.price < payload.maxPrice) {
+    fields.push({ name: 'Maks. cena', value: formatPricePL(payload.maxPrice), inline: true });
+  }
+  if (savings !== null) {
+    fields.push({ name: 'Oszczędzasz', value: `${savings}%`, inline: true });
+  }
+
+  return {
+    author: '🎯 Produkt dostępny!',
+    title: payload.productName,
+    url: payload.productUrl,
+    ...(ruleLines.length > 0 && { description: ruleLines.join('\n') }),
+    fields,
+    ...(payload.imageUrl && { imageUrl: payload.imageUrl }),
+    ...(payload.productSetName && { footer: `📦 ${payload.productSetName}` }),
+  };
+}
+
+// ─── Digest messages ──────────────────────────────────────────────────────────
+
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+function digestHeader(count: number, markup: MessageMarkup): string {
+  return `📬 ${markup.bold(`Zebrane powiadomienia (${count})`)}`;
+}
+
+function buildDigestEntryLines(payload: INotificationPayload, markup: MessageMarkup): string[] {
+  return [
+    markup.bold(markup.escape(payload.productName)),
+    `🛒 ${markup.escape(payload.shopName)} · 🏷️ ${formatPricePL(payload.price)}`,
+    markup.link('Kup teraz →', payload.productUrl),
+  ];
+}
+
+/**
+ * Bundles notifications into as few messages as the platform limit allows.
+ * Only the first message carries the header.
+ */
+function buildDigestMessages(
+  payloads: INotificationPayload[],
+  markup: MessageMarkup,
+  maxLength: number,
+): string[] {
+  const messages: string[] = [];
+  let current = digestHeader(payloads.length, markup);
+
+  for (const payload of payloads) {
+    const entry = buildDigestEntryLines(payload, markup).join('\n');
+    if (current.length + entry.length + 2 > maxLength) {
+      messages.push(current);
+      current = entry;
+    } else {
+      current = `${current}\n\n${entry}`;
+    }
+  }
+
+  messages.push(current);
+  return messages;
+}
+
+export function formatTelegramDigest(payloads: INotificationPayload[]): string[] {
+  return buildDigestMessages(payloads, TELEGRAM_MARKUP, TELEGRAM_MESSAGE_LIMIT);
+}
+
+export function formatDiscordDigest(payloads: INotificationPayload[]): string[] {
+  return buildDigestMessages(payloads, DISCORD_MARKUP, DISCORD_MESSAGE_LIMIT);
+}
+
+// ─── Email messages ───────────────────────────────────────────────────────────
+
+export interface EmailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function htmlDocument(lines: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="pl">',
+    '<body style="font-family: sans-serif; line-height: 1.5;">',
+    lines.join('<br>\n'),
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+export function formatEmailNotification(payload: INotificationPayload): EmailMessage {
+  return {
+    subject: `🎯 ${payload.productName} — ${formatPricePL(payload.price)}`,
+    text: buildNotificationLines(payload, PLAIN_TEXT_MARKUP).join('\n'),
+    html: htmlDocument(buildNotificationLines(payload, HTML_MARKUP)),
+  };
 }
 
-export function formatDiscordNotification(payload: INotificationPayload): string {
-  return buildNotificationLines(payload, (s) => `**${s}**`).join('\n');
+export function formatEmailDigest(payloads: INotificationPayload[]): EmailMessage {
+  const build = (markup: MessageMarkup) => [
+    digestHeader(payloads.length, markup),
+    ...payloads.flatMap((payload) => ['', ...buildDigestEntryLines(payload, markup)]),
+  ];
+
+  return {
+    subject: `📬 Zebrane powiadomienia (${payloads.length})`,
+    text: build(PLAIN_TEXT_MARKUP).join('\n'),
+    html: htmlDocument(build(HTML_MARKUP)),
+  };
+}
+
+// ─── Web Push messages ────────────────────────────────────────────────────────
+
+/** Product names listed in a push digest before the rest is summarised. */
+const PUSH_DIGEST_MAX_ENTRIES = 3;
+
+/** JSON payload read by the client's service worker. */
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Opened when the notification is clicked; the app's home page when absent. */
+  url?: string;
+  /** Notifications with the same tag replace each other on the device. */
+  tag?: string;
+}
+
+export function formatPushNotification(payload: INotificationPayload): PushMessage {
+  return {
+    title: `🎯 ${payload.productName}`,
+    body: [
+      `🛒 ${payload.shopName} · 🏷️ ${formatPricePL(payload.price)}`,
+      ...buildRuleLines(payload),
+    ].join('\n'),
+    url: payload.productUrl,
+    tag: payload.productId,
+  };
+}
+
+export function formatPushDigest(payloads: INotificationPayload[]): PushMessage {
+  const lines = payloads
+    .slice(0, PUSH_DIGEST_MAX_ENTRIES)
+    .map((payload) => `${payload.productName} · ${formatPricePL(payload.price)}`);
+  const remaining = payloads.length - PUSH_DIGEST_MAX_ENTRIES;
+  if (remaining > 0) {
+    lines.push(`…i ${remaining} więcej`);
+  }
+
+  return {
+    title: `📬 Zebrane powiadomienia (${payloads.length})`,
+    body: lines.join('\n'),
+  };
 }
 
 // ─── Bot command messages ─────────────────────────────────────────────────────
@@ -61,8 +297,54 @@ export interface BotMessages {
   /** Short prompt shown with force_reply when /link is sent without a token (Telegram). */
   linkPrompt: string;
   help: (commandList: string) => string;
+  watchNotLinked: string;
+  watchUsage: string;
+  unwatchUsage: string;
+  setPriceUsage: string;
+  productNotFound: (query: string) => string;
+  watchedProductNotFound: (query: string) => string;
+  chooseProduct: string;
+  choiceExpired: string;
+  watchAdded: (name: string, maxPrice: number) => string;
+  watchAlreadyWatched: (name: string, maxPrice: number) => string;
+  watchResumed: (name: string, maxPrice: number) => string;
+  unwatched: (name: string) => string;
+  maxPriceSet: (name: string, maxPrice: number) => string;
+  maxPriceNotLowered: (name: string, maxPrice: number) => string;
+  watchlistEmpty: string;
+  watchlist: (entries: { name: string; maxPrice: number; snoozed: boolean }[]) => string;
+  actionExpired: string;
+  productSnoozed: (name: string) => string;
+  shopMuted: (shopName: string) => string;
+  pricesUsage: string;
+  prices: (
+    name: string,
+    offers: { shopName: string; price: number | null; isAvailable: boolean; productUrl: string }[],
+  ) => string;
+  status: (
+    entries: {
+      name: string;
+      maxPrice: number;
+      snoozed: boolean;
+      best: { price: number; shopName: string } | null;
+    }[],
+  ) => string;
 }
 
+/** Button labels under a delivered alert (Telegram inline keyboard, Discord buttons). */
+export const NOTIFICATION_ACTION_LABELS: Record<NotificationAction, string> = {
+  snooze: '😴 Wstrzymaj na 24 h',
+  'mute-shop': '🔇 Wycisz sklep',
+  'lower-price': '📉 Ustaw próg na tę cenę',
+  unwatch: '🗑️ Przestań obserwować',
+};
+
+/** Keeps /list and /status within Discord's 2000-character message limit. */
+const MAX_LISTED_ENTRIES = 25;
+
+/** Offers listed with links in /prices; each link costs ~100 characters. */
+const MAX_LISTED_OFFERS = 10;
+
 interface BotPlatformConfig {
   bold: (s: string) => string;
   platformName: string;
@@ -112,6 +394,109 @@ function buildBotMessages(appUrl: string, config: BotPlatformConfig): BotMessage
         '',
         `Zarządzaj swoją listą obserwowanych na ${link}.`,
       ].join('\n'),
+
+    watchNotLinked: botError(
+      `To konto ${config.platformName} nie jest połączone z pokeradar. Użyj ${bold('/link')}, aby je połączyć.`,
+    ),
+
+    watchUsage: `Podaj nazwę produktu. Użycie: ${bold('/watch')} <produkt>`,
+
+    unwatchUsage: `Podaj nazwę produktu. Użycie: ${bold('/unwatch')} <produkt>`,
+
+    setPriceUsage: `Podaj produkt i cenę. Użycie: ${bold('/setprice')} <produkt> <cena w zł>`,
+
+    productNotFound: (query) => botError(`Nie znaleziono produktu pasującego do „${query}”.`),
+
+    watchedProductNotFound: (query) =>
+      botError(`Na Twojej liście nie ma produktu pasującego do „${query}”.`),
+
+    chooseProduct: 'Pasuje kilka produktów — wybierz jeden:',
+
+    choiceExpired: botError('Ten wybór wygasł. Wyślij komendę ponownie.'),
+
+    watchAdded: (name, maxPrice) =>
+      `✅ Obserwujesz ${bold(name)}. Powiadomię Cię, gdy cena spadnie do ${formatPricePL(maxPrice)}.\n\nZmień próg komendą ${bold('/setprice')}.`,
+
+    watchAlreadyWatched: (name, maxPrice) =>
+      `ℹ️ ${bold(name)} jest już na Twojej liście (próg ${formatPricePL(maxPrice)}).`,
+
+    watchResumed: (name, maxPrice) =>
+      `🔔 Wznowiono powiadomienia o ${bold(name)} (próg ${formatPricePL(maxPrice)}).`,
+
+    unwatched: (name) => `🗑️ Usunięto ${bold(name)} z listy obserwowanych.`,
+
+    maxPriceSet: (name, maxPrice) => `✅ Nowy próg dla ${bold(name)}: ${formatPricePL(maxPrice)}.`,
+
+    maxPriceNotLowered: (name, maxPrice) =>
+      `ℹ️ Próg dla ${bold(name)} wynosi już ${formatPricePL(maxPrice)} — ta cena go nie obniży. Zmień go komendą ${bold('/setprice')}.`,
+
+    watchlistEmpty: `Twoja lista obserwowanych jest pusta. Dodaj produkt komendą ${bold('/watch')}.`,
+
+    watchlist: (entries) => {
+      const lines = entries
+        .slice(0, MAX_LISTED_ENTRIES)
+        .map(
+          (entry) =>
+            `• ${entry.name} — do ${formatPricePL(entry.maxPrice)}${entry.snoozed ? ' (wstrzymane)' : ''}`,
+        );
+      if (entries.length > MAX_LISTED_ENTRIES) {
+        lines.push(`…i ${entries.length - MAX_LISTED_ENTRIES} więcej na ${link}`);
+      }
+      return [bold(`Obserwowane produkty (${entries.length}):`), ...lines].join('\n');
+    },
+
+    actionExpired: botError('To powiadomienie jest już nieaktualne.'),
+
+    productSnoozed: (name) =>
+      `😴 Wstrzymano powiadomienia o ${bold(name)} na 24 godziny. Wznów je wcześniej komendą ${bold('/watch')}.`,
+
+    shopMuted: (shopName) =>
+      `🔇 Nie będziesz już dostawać powiadomień ze sklepu ${bold(shopName)}. Możesz to zmienić w ustawieniach na ${link}.`,
+
+    pricesUsage: `Podaj nazwę produktu. Użycie: ${bold('/prices')} <produkt>`,
+
+    prices: (name, offers) => {
+      const available = offers.flatMap((o) =>
+        o.isAvailable && o.price !== null ? [{ ...o, price: o.price }] : [],
+      );
+      const unavailable = offers.filter((o) => !o.isAvailable || o.price === null);
+      if (available.length === 0 && unavailable.length === 0) {
+        return `💰 ${bold(name)}\n\nBrak ofert z ostatniej godziny.`;
+      }
+
+      const lines = available
+        .slice(0, MAX_LISTED_OFFERS)
+        .map((o) => `✅ [${o.shopName}](${o.productUrl}) — ${formatPricePL(o.price)}`);
+      if (available.length > MAX_LISTED_OFFERS) {
+        lines.push(`…i ${available.length - MAX_LISTED_OFFERS} więcej na ${link}`);
+      }
+      if (available.length === 0) lines.push('Produkt jest obecnie niedostępny.');
+      if (unavailable.length > 0) {
+        lines.push(`❌ Niedostępny: ${unavailable.map((o) => o.shopName).join(', ')}`);
+      }
+      return [`💰 ${bold(name)}`, '', ...lines].join('\n');
+    },
+
+    status: (entries) => {
+      const lines = entries.slice(0, MAX_LISTED_ENTRIES).map((entry) => {
+        const threshold = `próg ${formatPricePL(entry.maxPrice)}`;
+        const snoozed = entry.snoozed ? ' (wstrzymane)' : '';
+        if (!entry.best) return `⚪ ${entry.name} — brak ofert · ${threshold}${snoozed}`;
+
+        const icon = entry.best.price <= entry.maxPrice ? '🟢' : '🟡';
+        return `${icon} ${entry.name} — ${formatPricePL(entry.best.price)} (${entry.best.shopName}) · ${threshold}${snoozed}`;
+      });
+      if (entries.length > MAX_LISTED_ENTRIES) {
+        lines.push(`…i ${entries.length - MAX_LISTED_ENTRIES} więcej na ${link}`);
+      }
+      const belowThreshold = entries.filter((e) => e.best && e.best.price <= e.maxPrice).length;
+      return [
+        bold(`📊 Status listy obserwowanych (${entries.length})`),
+        `🟢 w progu: ${belowThreshold} · 🟡 drożej · ⚪ brak ofert`,
+        '',
+        ...lines,
+      ].join('\n');
+    },
   };
 }
 
@@ -128,3 +513,57 @@ export function getDiscordMessages(appUrl: string): BotMessages {
     platformName: 'Discord',
   });
 }
+
+// ─── Discord channel feed messages ────────────────────────────────────────────
+
+/** Resolved filter names shown back to the admin after /subscribe. */
+export interface ChannelFeedFilterSummary {
+  sets: string[];
+  types: string[];
+  shops: string[];
+  maxPrice: number | null;
+}
+
+export interface ChannelFeedMessages {
+  guildOnly: string;
+  adminOnly: string;
+  emptyFilter: string;
+  unknownNames: (label: string, terms: string[]) => string;
+  subscribed: (channelId: string, filter: ChannelFeedFilterSummary) => string;
+  unsubscribed: (channelId: string) => string;
+  notSubscribed: (channelId: string) => string;
+}
+
+function listOrAll(names: string[]): string {
+  return names.length > 0 ? names.join(', ') : 'wszystkie';
+}
+
+export const CHANNEL_FEED_MESSAGES: ChannelFeedMessages = {
+  guildOnly: botError('Tej komendy można użyć tylko na serwerze Discord.'),
+
+  adminOnly: botError('Kanały może subskrybować tylko osoba z uprawnieniem Zarządzanie serwerem.'),
+
+  emptyFilter: botError(
+    'Podaj co najmniej jeden filtr: zestawy, typy produktów albo maksymalną cenę.',
+  ),
+
+  unknownNames: (label, terms) =>
+    botError(
+      `Nie rozpoznano (${label}): ${terms.map((t) => `„${t}”`).join(', ')}. Podaj dokładniejszą nazwę.`,
+    ),
+
+  subscribed: (channelId, filter) =>
+    [
+      `✅ Oferty pasujące do filtra będą publikowane na kanale <#${channelId}>.`,
+      '',
+      '**Filtr:**',
+      `• Zestawy: ${listOrAll(filter.sets)}`,
+      `• Typy produktów: ${listOrAll(filter.types)}`,
+      `• Sklepy: ${listOrAll(filter.shops)}`,
+      `• Cena: ${filter.maxPrice !== null ? `do ${formatPricePL(filter.maxPrice)}` : 'dowolna'}`,
+    ].join('\n'),
+
+  unsubscribed: (channelId) => `🗑️ Kanał <#${channelId}> nie będzie już otrzymywać ofert.`,
+
+  notSubscribed: (channelId) => botError(`Kanał <#${channelId}> nie ma subskrypcji ofert.`),
+};
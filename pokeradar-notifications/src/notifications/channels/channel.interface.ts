@@ -7,5 +7,25 @@ import { INotificationPayload } from '@pokeradar/shared';
 
 export interface INotificationChannel {
   readonly name: string;
-  send(target: string, payload: INotificationPayload): Promise<void>;
+  /** notificationId lets bot channels attach action buttons that refer back to the alert. */
+  send(target: string, payload: INotificationPayload, notificationId?: string): Promise<void>;
+  /** Sends several notifications bundled together (digest mode, end of quiet hours). */
+  sendDigest(target: string, payloads: INotificationPayload[]): Promise<void>;
+  /**
+   * Called once when a delivery to the target still failed after its last retry
+   * (not after a PermanentDeliveryError), so failures count per message rather
+   * than per attempt.
+   */
+  onDeliveryFailed?(target: string): Promise<void>;
+}
+
+/**
+ * Thrown by a channel when retrying cannot succeed, e.g. the recipient no
+ * longer exists. The processor fails the delivery without further attempts.
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
 }
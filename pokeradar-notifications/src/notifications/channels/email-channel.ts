@@ -0,0 +1,34 @@
+/**
+ * Email notification channel.
+ * Sends over SMTP through a nodemailer transport; the target is the user's verified address.
+ */
+
+import { Transporter } from 'nodemailer';
+import { INotificationPayload } from '@pokeradar/shared';
+import { INotificationChannel } from './channel.interface';
+import {
+  EmailMessage,
+  formatEmailDigest,
+  formatEmailNotification,
+} from '../../messages/notification.messages';
+
+export class EmailNotificationChannel implements INotificationChannel {
+  readonly name = 'email';
+
+  constructor(
+    private transporter: Transporter,
+    private from: string,
+  ) {}
+
+  async send(target: string, payload: INotificationPayload): Promise<void> {
+    await this.sendMessage(target, formatEmailNotification(payload));
+  }
+
+  async sendDigest(target: string, payloads: INotificationPayload[]): Promise<void> {
+    await this.sendMessage(target, formatEmailDigest(payloads));
+  }
+
+  private async sendMessage(to: string, message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, to, ...message });
+  }
+}
@@ -1 +1,4 @@
-export { type INotificationChannel } from './channel.interface';
+export { type INotificationChannel, PermanentDeliveryError } from './channel.interface';
+export { EmailNotificationChannel } from './email-channel';
+export { WebPushChannel, type VapidDetails } from './web-push-channel';
+export { WebhookChannel, type WebhookOptions, signWebhookBody } from './webhook-channel';
@@ -0,0 +1,71 @@
+/**
+ * Web Push notification channel.
+ * The target is a subscription endpoint; its keys are read from the owning user.
+ * Subscriptions the push service reports as gone (404/410) are removed.
+ */
+
+import webpush, { PushSubscription, WebPushError } from 'web-push';
+import { INotificationPayload, UserModel } from '@pokeradar/shared';
+import { INotificationChannel, PermanentDeliveryError } from './channel.interface';
+import {
+  PushMessage,
+  formatPushDigest,
+  formatPushNotification,
+} from '../../messages/notification.messages';
+
+export interface VapidDetails {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+/** How long the push service keeps an undelivered message for an offline browser. */
+const PUSH_TTL_SECONDS = 60 * 60;
+
+const GONE_STATUS_CODES = [404, 410];
+
+export class WebPushChannel implements INotificationChannel {
+  readonly name = 'push';
+
+  constructor(private vapidDetails: VapidDetails) {}
+
+  async send(target: string, payload: INotificationPayload): Promise<void> {
+    await this.sendMessage(target, formatPushNotification(payload));
+  }
+
+  async sendDigest(target: string, payloads: INotificationPayload[]): Promise<void> {
+    await this.sendMessage(target, formatPushDigest(payloads));
+  }
+
+  private async sendMessage(endpoint: string, message: PushMessage): Promise<void> {
+    const subscription = await this.findSubscription(endpoint);
+    if (!subscription) {
+      throw new PermanentDeliveryError('Push subscription no longer exists');
+    }
+
+    try {
+      await webpush.sendNotification(subscription, JSON.stringify(message), {
+        vapidDetails: this.vapidDetails,
+        TTL: PUSH_TTL_SECONDS,
+      });
+    } catch (error) {
+      if (error instanceof WebPushError && GONE_STATUS_CODES.includes(error.statusCode)) {
+        await UserModel.updateOne(
+          { 'pushSubscriptions.endpoint': endpoint },
+          { $pull: { pushSubscriptions: { endpoint } } },
+        );
+        throw new PermanentDeliveryError(`Push subscription expired (${error.statusCode})`);
+      }
+      throw error;
+    }
+  }
+
+  private async findSubscription(endpoint: string): Promise<PushSubscription | null> {
+    const user = await UserModel.findOne(
+      { 'pushSubscriptions.endpoint': endpoint },
+      { 'pushSubscriptions.$': 1 },
+    ).lean();
+    const match = user?.pushSubscriptions[0];
+    return match ? { endpoint: match.endpoint, keys: match.keys } : null;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Outbound webhook channel.
+ * The target is a webhook id; its URL and secret are read from the owning user.
+ * Notifications are POSTed as JSON with an HMAC-SHA256 signature of
+ * `<timestamp>.<body>` so receivers can check origin and reject replays.
+ * Hosts resolving to loopback, private or link-local addresses are refused at
+ * connect time, so the URL cannot be pointed at the internal network.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import {
+  INotificationPayload,
+  IWebhook,
+  UserModel,
+  isNonPublicHostname,
+  isPublicAddress,
+} from '@pokeradar/shared';
+import { INotificationChannel, PermanentDeliveryError } from './channel.interface';
+
+export interface WebhookOptions {
+  /** Abort a request that hasn't answered within this time. */
+  timeoutMs: number;
+  /** Notifications in a row that failed all retries, after which the webhook is disabled. */
+  maxConsecutiveFailures: number;
+  /** Lets webhooks reach private addresses; only for local development and tests. */
+  allowPrivateNetworks?: boolean;
+}
+
+export const SIGNATURE_HEADER = 'X-Pokeradar-Signature';
+export const TIMESTAMP_HEADER = 'X-Pokeradar-Timestamp';
+export const EVENT_HEADER = 'X-Pokeradar-Event';
+
+type WebhookEvent = 'notification' | 'digest';
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `sha256=<hex>`. */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+class NonPublicAddressError extends Error {
+  constructor(host: string) {
+    super(`Webhook host ${host} does not resolve to a public address`);
+    this.name = 'NonPublicAddressError';
+  }
+}
+
+/**
+ * dns.lookup that fails when any resolved address is not public. Used as the
+ * socket's lookup, so the checked address is the one connected to.
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      callback(new NonPublicAddressError(hostname), '', 0);
+      return;
+    }
+    // The connecting socket asks for every address (autoSelectFamily) or just one
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export class WebhookChannel implements INotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private options: WebhookOptions) {}
+
+  async send(target: string, payload: INotificationPayload): Promise<void> {
+    await this.post(target, 'notification', payload);
+  }
+
+  async sendDigest(target: string, payloads: INotificationPayload[]): Promise<void> {
+    await this.post(target, 'digest', payloads);
+  }
+
+  /** Counts one failed notification once the processor has used up its retries. */
+  async onDeliveryFailed(webhookId: string): Promise<void> {
+    await this.recordFailure(webhookId);
+  }
+
+  private async post(webhookId: string, event: WebhookEvent, data: unknown): Promise<void> {
+    const webhook = await this.findWebhook(webhookId);
+    if (!webhook || webhook.disabled) {
+      throw new PermanentDeliveryError('Webhook was removed or disabled');
+    }
+
+    const url = new URL(webhook.url);
+    if (!this.options.allowPrivateNetworks && isNonPublicHostname(url.hostname)) {
+      await this.disable(webhookId);
+      throw new PermanentDeliveryError('Webhook points to a non-public address');
+    }
+
+    const body = JSON.stringify(data);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const status = await this.request(url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'pokeradar-webhook',
+        [EVENT_HEADER]: event,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: `sha256=${signWebhookBody(webhook.secret, timestamp, body)}`,
+      });
+      // Redirects are not followed; a 3xx counts as a failure
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with HTTP ${status}`);
+      }
+    } catch (error) {
+      // Not counted as a failure: that count is shown to the user and must not
+      // reveal anything about hosts behind a private address
+      if (error instanceof NonPublicAddressError) {
+        await this.disable(webhookId);
+        throw new PermanentDeliveryError(error.message);
+      }
+      throw error;
+    }
+
+    if (webhook.consecutiveFailures > 0) {
+      await UserModel.updateOne(
+        { 'webhooks._id': webhookId },
+        { $set: { 'webhooks.$.consecutiveFailures': 0 } },
+      );
+    }
+  }
+
+  /** Resolves with the response status once the response has been read. */
+  private request(url: URL, body: string, headers: http.OutgoingHttpHeaders): Promise<number> {
+    const client = url.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+      const req = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: this.options.allowPrivateNetworks ? undefined : lookupPublicAddress,
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        },
+        (res) => {
+          res.resume();
+          res.on('end', () => resolve(res.statusCode ?? 0));
+          res.on('error', reject);
+        },
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  private async disable(webhookId: string): Promise<void> {
+    await UserModel.updateOne(
+      { 'webhooks._id': webhookId },
+      { $set: { 'webhooks.$.disabled': true } },
+    );
+  }
+
+  private async findWebhook(webhookId: string): Promise<IWebhook | null> {
+    const user = await UserModel.findOne({ 'webhooks._id': webhookId }, { 'webhooks.$': 1 }).lean();
+    return user?.webhooks[0] ?? null;
+  }
+
+  /** Counts a failed notification and disables the webhook once it reaches the limit. */
+  private async recordFailure(webhookId: string): Promise<void> {
+    await UserModel.updateOne(
+      { 'webhooks._id': webhookId },
+      { $inc: { 'webhooks.$.consecutiveFailures': 1 } },
+    );
+    await UserModel.updateOne(
+      {
+        webhooks: {
+          $elemMatch: {
+            _id: webhookId,
+            disabled: false,
+            consecutiveFailures: { $gte: this.options.maxConsecutiveFailures },
+          },
+        },
+      },
+      { $set: { 'webhooks.$.disabled': true } },
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Works out when a notification may be delivered from the user's quiet hours
+ * and digest settings. Clock times are read in the user's timezone via Intl.
+ */
+
+import { NotificationSchedule } from '@pokeradar/shared';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60_000;
+
+/** Parses 'HH:mm' into minutes since midnight. */
+function parseClockTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Start of the next minute at which the user's clock shows `target`.
+ * Returns the current minute when it already does. On the night the clocks
+ * change the result is off by the DST shift.
+ */
+function nextLocalTime(now: Date, timezone: string, target: number): Date {
+  const minutesAhead = (target - localMinutes(now, timezone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const startOfMinute = now.getTime() - (now.getTime() % MS_PER_MINUTE);
+  return new Date(startOfMinute + minutesAhead * MS_PER_MINUTE);
+}
+
+function isWithin(minutes: number, start: number, end: number): boolean {
+  if (start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Returns when a notification raised at `now` should be released, or null to
+ * send it right away. Digest mode takes precedence over quiet hours.
+ */
+export function getReleaseTime(
+  schedule: NotificationSchedule | undefined,
+  now: Date = new Date(),
+): Date | null {
+  if (!schedule) return null;
+
+  if (schedule.digestTime) {
+    return nextLocalTime(now, schedule.timezone, parseClockTime(schedule.digestTime));
+  }
+
+  if (schedule.quietHours) {
+    const start = parseClockTime(schedule.quietHours.start);
+    const end = parseClockTime(schedule.quietHours.end);
+    if (isWithin(localMinutes(now, schedule.timezone), start, end)) {
+      return nextLocalTime(now, schedule.timezone, end);
+    }
+  }
+
+  return null;
+}
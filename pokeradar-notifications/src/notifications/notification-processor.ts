@@ -4,6 +4,8 @@
  * the user has configured, then delivers to each via the appropriate adapter.
  * Each delivery is tracked independently in the `deliveries` subdocument array.
  * Handles retries with exponential backoff and rate limiting per channel.
+ * Notifications raised during a user's quiet hours, or for users in digest mode,
+ * are parked as 'held' and sent by releaseHeld() once their release time passes.
  */
 
 import {
@@ -11,11 +13,13 @@ import {
   IDelivery,
   NotificationChannel,
   NotificationModel,
+  NotificationSchedule,
   UserModel,
   formatError,
 } from '@pokeradar/shared';
-import { INotificationChannel } from './channels';
+import { INotificationChannel, PermanentDeliveryError } from './channels';
 import { RateLimiter } from './rate-limiter';
+import { getReleaseTime } from './delivery-schedule';
 import { ILogger } from '@pokeradar/shared';
 
 interface RetryConfig {
@@ -24,13 +28,33 @@ interface RetryConfig {
   maxDelayMs: number;
 }
 
+interface UserDeliveryInfo {
+  deliveries: IDelivery[];
+  schedule?: NotificationSchedule;
+}
+
+/** Delivery slots of several held notifications that go to the same channel target. */
+interface DigestGroup {
+  channel: NotificationChannel;
+  target: string;
+  entries: { doc: INotificationDoc; idx: number }[];
+}
+
+type RecordDelivery = (
+  status: 'sent' | 'failed',
+  error: string | null,
+  attempts: number,
+  sentAt: Date | null,
+) => Promise<void>;
+
 export class NotificationProcessor {
   private channels: Map<string, INotificationChannel> = new Map();
   private rateLimiters: Map<string, RateLimiter> = new Map();
   private queue: INotificationDoc[] = [];
   private processedIds = new Set<string>();
   private drainResolve: (() => void) | null = null;
-  private userDeliveryCache = new Map<string, { deliveries: IDelivery[]; cachedAt: number }>();
+  private releasing = false;
+  private userDeliveryCache = new Map<string, UserDeliveryInfo & { cachedAt: number }>();
   private static readonly USER_CACHE_TTL_MS = 60_000;
 
   constructor(
@@ -108,6 +132,61 @@ export class NotificationProcessor {
     return fresh.length;
   }
 
+  /**
+   * Releases held notifications whose release time has passed. A user with
+   * several due at once gets them bundled into one message per channel.
+   * Called on a timer; overlapping calls are skipped.
+   */
+  async releaseHeld(now: Date = new Date()): Promise<number> {
+    if (this.releasing) return 0;
+    this.releasing = true;
+
+    try {
+      const due = (await NotificationModel.find({ status: 'held', releaseAt: { $lte: now } })
+        .sort({ createdAt: 1 })
+        .lean()) as INotificationDoc[];
+      if (due.length === 0) return 0;
+
+      const byUser = new Map<string, INotificationDoc[]>();
+      for (const doc of due) {
+        const docs = byUser.get(doc.userId) ?? [];
+        docs.push(doc);
+        byUser.set(doc.userId, docs);
+      }
+
+      const singles: INotificationDoc[] = [];
+      const digests: INotificationDoc[][] = [];
+      for (const docs of byUser.values()) {
+        if (docs.length === 1) singles.push(docs[0]);
+        else digests.push(docs);
+      }
+
+      // Move everything out of 'held' first so the next tick can't pick it up again
+      if (singles.length > 0) {
+        await NotificationModel.updateMany(
+          { _id: { $in: singles.map((d) => d._id) } },
+          { $set: { status: 'pending' } },
+        );
+        this.enqueueBatch(singles);
+      }
+      if (digests.length > 0) {
+        await NotificationModel.updateMany(
+          { _id: { $in: digests.flat().map((d) => d._id) } },
+          { $set: { status: 'sending' } },
+        );
+        await Promise.allSettled(digests.map((docs) => this.processDigest(docs)));
+      }
+
+      this.logger.info('Released held notifications', {
+        count: due.length,
+        digests: digests.length,
+      });
+      return due.length;
+    } finally {
+      this.releasing = false;
+    }
+  }
+
   private async expireStale(docs: INotificationDoc[]): Promise<{ fresh: INotificationDoc[] }> {
     const EXPIRY_MS = 15 * 60 * 1000;
     const now = Date.now();
@@ -115,7 +194,8 @@ export class NotificationProcessor {
     const stale: INotificationDoc[] = [];
 
     for (const doc of docs) {
-      const age = now - new Date(doc.createdAt).getTime();
+      // Held notifications only start ageing once released
+      const age = now - new Date(doc.releaseAt ?? doc.createdAt).getTime();
       if (age > EXPIRY_MS) {
         stale.push(doc);
       } else {
@@ -161,7 +241,8 @@ export class NotificationProcessor {
     // Populate it by looking up the user's configured channels.
     let deliveries = doc.deliveries ?? [];
     if (deliveries.length === 0) {
-      deliveries = await this.buildDeliveries(doc.userId);
+      const user = await this.getUserDeliveryInfo(doc.userId);
+      deliveries = user.deliveries;
       if (deliveries.length === 0) {
         // User has no channels configured — mark as sent and move on
         this.logger.warn('No channels configured for user, skipping notification', {
@@ -175,6 +256,16 @@ export class NotificationProcessor {
         return;
       }
 
+      const releaseAt = getReleaseTime(user.schedule);
+      if (releaseAt) {
+        await NotificationModel.updateOne(
+          { _id: doc._id },
+          { $set: { status: 'held', deliveries, releaseAt } },
+        );
+        this.logger.info('Notification held', { id, releaseAt });
+        return;
+      }
+
       await NotificationModel.updateOne(
         { _id: doc._id },
         { $set: { status: 'sending', deliveries } },
@@ -198,18 +289,57 @@ export class NotificationProcessor {
   }
 
   /**
-   * Looks up a user's linked channels and builds the initial deliveries array.
-   * Results are cached for USER_CACHE_TTL_MS to avoid redundant DB queries
-   * when the same user has multiple notifications in a burst.
+   * Sends a user's released notifications as one digest per channel target,
+   * then marks every bundled notification as sent.
    */
-  private async buildDeliveries(userId: string): Promise<IDelivery[]> {
+  private async processDigest(docs: INotificationDoc[]): Promise<void> {
+    const groups = new Map<string, DigestGroup>();
+    for (const doc of docs) {
+      doc.deliveries.forEach((delivery, idx) => {
+        if (delivery.status === 'sent') return;
+        const key = `${delivery.channel}:${delivery.channelTarget}`;
+        const group = groups.get(key) ?? {
+          channel: delivery.channel,
+          target: delivery.channelTarget,
+          entries: [],
+        };
+        group.entries.push({ doc, idx });
+        groups.set(key, group);
+      });
+    }
+
+    await Promise.allSettled([...groups.values()].map((group) => this.deliverDigest(group)));
+
+    await NotificationModel.updateMany(
+      { _id: { $in: docs.map((d) => d._id) } },
+      { $set: { status: 'sent' } },
+    );
+
+    this.logger.info('Digest processing complete', {
+      userId: docs[0].userId,
+      notifications: docs.length,
+      channels: groups.size,
+    });
+  }
+
+  /**
+   * Looks up a user's linked channels and delivery schedule, and builds the
+   * initial deliveries array. Results are cached for USER_CACHE_TTL_MS to avoid
+   * redundant DB queries when the same user has multiple notifications in a burst.
+   */
+  private async getUserDeliveryInfo(userId: string): Promise<UserDeliveryInfo> {
     const cached = this.userDeliveryCache.get(userId);
     if (cached && Date.now() - cached.cachedAt < NotificationProcessor.USER_CACHE_TTL_MS) {
-      return cached.deliveries.map((d) => ({ ...d }));
+      return {
+        deliveries: cached.deliveries.map((d) => ({ ...d })),
+        schedule: cached.schedule,
+      };
     }
 
-    const user = await UserModel.findById(userId).select('telegram discord').lean();
-    if (!user) return [];
+    const user = await UserModel.findById(userId)
+      .select('telegram discord email pushSubscriptions webhooks notificationSchedule')
+      .lean();
+    if (!user) return { deliveries: [] };
 
     const template: IDelivery[] = [];
 
@@ -235,8 +365,44 @@ export class NotificationProcessor {
       });
     }
 
-    this.userDeliveryCache.set(userId, { deliveries: template, cachedAt: Date.now() });
-    return template.map((d) => ({ ...d }));
+    if (user.email?.channelId) {
+      template.push({
+        channel: 'email' as NotificationChannel,
+        channelTarget: user.email.channelId,
+        status: 'pending',
+        attempts: 0,
+        error: null,
+        sentAt: null,
+      });
+    }
+
+    // One delivery per browser, so an expired subscription fails on its own
+    for (const subscription of user.pushSubscriptions ?? []) {
+      template.push({
+        channel: 'push' as NotificationChannel,
+        channelTarget: subscription.endpoint,
+        status: 'pending',
+        attempts: 0,
+        error: null,
+        sentAt: null,
+      });
+    }
+
+    for (const webhook of user.webhooks ?? []) {
+      if (webhook.disabled) continue;
+      template.push({
+        channel: 'webhook' as NotificationChannel,
+        channelTarget: webhook._id.toString(),
+        status: 'pending',
+        attempts: 0,
+        error: null,
+        sentAt: null,
+      });
+    }
+
+    const schedule = user.notificationSchedule;
+    this.userDeliveryCache.set(userId, { deliveries: template, schedule, cachedAt: Date.now() });
+    return { deliveries: template.map((d) => ({ ...d })), schedule };
   }
 
   /**
@@ -263,38 +429,97 @@ export class NotificationProcessor {
       return;
     }
 
-    const rateLimiter = this.rateLimiters.get(delivery.channel);
+    await this.sendWithRetry(
+      delivery.channel,
+      { id: doc._id?.toString(), channel: delivery.channel },
+      () => channel.send(delivery.channelTarget, doc.payload, doc._id?.toString()),
+      (status, error, attempts, sentAt) =>
+        this.updateDelivery(doc, idx, status, error, attempts, sentAt),
+      async () => channel.onDeliveryFailed?.(delivery.channelTarget),
+    );
+  }
+
+  /**
+   * Delivers one digest message and records the outcome on every bundled delivery.
+   */
+  private async deliverDigest(group: DigestGroup): Promise<void> {
+    const recordAll: RecordDelivery = async (status, error, attempts, sentAt) => {
+      await Promise.all(
+        group.entries.map(({ doc, idx }) =>
+          this.updateDelivery(doc, idx, status, error, attempts, sentAt),
+        ),
+      );
+    };
+
+    const channel = this.channels.get(group.channel);
+    if (!channel) {
+      this.logger.error('Unknown channel in digest, skipping', { channel: group.channel });
+      await recordAll('failed', `Unknown channel: ${group.channel}`, 1, null);
+      return;
+    }
+
+    await this.sendWithRetry(
+      group.channel,
+      { userId: group.entries[0].doc.userId, channel: group.channel, digest: group.entries.length },
+      () =>
+        channel.sendDigest(
+          group.target,
+          group.entries.map(({ doc }) => doc.payload),
+        ),
+      recordAll,
+      async () => channel.onDeliveryFailed?.(group.target),
+    );
+  }
+
+  /**
+   * Sends through the channel's rate limiter, retrying with exponential backoff
+   * unless the channel reports a PermanentDeliveryError.
+   * Once the send succeeds only recording the result is retried, so a failing
+   * DB write never causes a duplicate message. onFailed runs once when the
+   * send itself failed for good on a retryable error.
+   */
+  private async sendWithRetry(
+    channelName: string,
+    logContext: Record<string, unknown>,
+    send: () => Promise<void>,
+    record: RecordDelivery,
+    onFailed: () => Promise<void>,
+  ): Promise<void> {
+    const rateLimiter = this.rateLimiters.get(channelName);
     let sent = false;
 
     for (let attempt = 1; attempt <= this.retryConfig.maxAttempts; attempt++) {
       try {
         if (!sent) {
           if (rateLimiter) await rateLimiter.acquire();
-          await channel.send(delivery.channelTarget, doc.payload);
+          await send();
           sent = true;
         }
 
         const sentAt = new Date();
-        await this.updateDelivery(doc, idx, 'sent', null, attempt, sentAt);
+        await record('sent', null, attempt, sentAt);
 
-        this.logger.info('Delivery sent', {
-          id: doc._id?.toString(),
-          channel: delivery.channel,
-          attempt,
-        });
+        this.logger.info('Delivery sent', { ...logContext, attempt });
         return;
       } catch (error) {
         const errorMsg = formatError(error);
 
-        if (attempt === this.retryConfig.maxAttempts) {
+        if (attempt === this.retryConfig.maxAttempts || error instanceof PermanentDeliveryError) {
           this.logger.error('Delivery failed permanently', {
-            id: doc._id?.toString(),
-            channel: delivery.channel,
+            ...logContext,
             attempts: attempt,
             sent,
             error: errorMsg,
           });
-          await this.updateDelivery(doc, idx, 'failed', errorMsg, attempt, null).catch(() => {});
+          await record('failed', errorMsg, attempt, null).catch(() => {});
+          if (!sent && !(error instanceof PermanentDeliveryError)) {
+            await onFailed().catch((hookError) =>
+              this.logger.error('Failed to record delivery failure on the channel', {
+                ...logContext,
+                error: formatError(hookError),
+              }),
+            );
+          }
           return;
         }
 
@@ -304,8 +529,7 @@ export class NotificationProcessor {
         );
 
         this.logger.warn('Delivery failed, retrying', {
-          id: doc._id?.toString(),
-          channel: delivery.channel,
+          ...logContext,
           attempt,
           nextRetryMs: delay,
           error: errorMsg,
@@ -0,0 +1,39 @@
+/**
+ * Posts channel feed offers to Discord server channels, rendered like DM alerts
+ * but without the per-user action buttons.
+ */
+
+import { Client, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
+import { INotificationPayload } from '@pokeradar/shared';
+import { IChannelFeedPoster } from '../../channel-feed';
+import { PermanentDeliveryError } from '../../notifications/channels';
+import { buildAlertEmbed, buyLinkRow } from './discord-notification-adapter';
+
+/** The channel was deleted or the bot was removed from it or lost permission to post. */
+const LOST_CHANNEL_CODES: number[] = [
+  RESTJSONErrorCodes.UnknownChannel,
+  RESTJSONErrorCodes.MissingAccess,
+  RESTJSONErrorCodes.MissingPermissions,
+];
+
+export class DiscordChannelFeedPoster implements IChannelFeedPoster {
+  constructor(private client: Client) {}
+
+  async post(channelId: string, payload: INotificationPayload): Promise<void> {
+    try {
+      const channel = await this.client.channels.fetch(channelId);
+      if (!channel?.isSendable()) {
+        throw new PermanentDeliveryError('Channel cannot receive messages');
+      }
+      await channel.send({
+        embeds: [buildAlertEmbed(payload)],
+        components: [buyLinkRow(payload.productUrl)],
+      });
+    } catch (error) {
+      if (error instanceof DiscordAPIError && LOST_CHANNEL_CODES.includes(Number(error.code))) {
+        throw new PermanentDeliveryError(`Channel is no longer reachable (${error.code})`);
+      }
+      throw error;
+    }
+  }
+}
@@ -1,7 +1,9 @@
-import { ChatInputCommandInteraction } from 'discord.js';
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
 
 export interface IDiscordCommand {
   readonly command: string;
   readonly description: string;
+  /** Adds the command's options when slash commands are registered. */
+  configure?(builder: SlashCommandBuilder): void;
   execute(interaction: ChatInputCommandInteraction): Promise<void>;
 }
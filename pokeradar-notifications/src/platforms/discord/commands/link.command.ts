@@ -1,4 +1,4 @@
-import { ChatInputCommandInteraction } from 'discord.js';
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
 import { UserModel } from '@pokeradar/shared';
 import { IDiscordCommand } from './command.interface';
 import { ILogger } from '@pokeradar/shared';
@@ -13,6 +13,12 @@ export class DiscordLinkCommand implements IDiscordCommand {
     private logger: ILogger,
   ) {}
 
+  configure(builder: SlashCommandBuilder): void {
+    builder.addStringOption((option) =>
+      option.setName('token').setDescription('Token połączenia z pokeradar').setRequired(true),
+    );
+  }
+
   private isDuplicateKeyError(error: unknown): boolean {
     return (
       typeof error === 'object' &&
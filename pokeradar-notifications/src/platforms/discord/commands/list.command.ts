@@ -0,0 +1,25 @@
+import { ChatInputCommandInteraction } from 'discord.js';
+import { IDiscordCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { DiscordWatchlistReplies } from '../watchlist-replies';
+
+export class DiscordListCommand implements IDiscordCommand {
+  readonly command = 'list';
+  readonly description = 'Pokaż obserwowane produkty';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: DiscordWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await this.replies.reply(interaction, await this.handler.list(interaction.user.id));
+    } catch (error) {
+      this.logger.error('Failed to process /list command', { userId: interaction.user.id, error });
+      await this.replies.replyError(interaction);
+    }
+  }
+}
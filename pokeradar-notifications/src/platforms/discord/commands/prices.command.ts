@@ -0,0 +1,37 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { IDiscordCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { DiscordWatchlistReplies } from '../watchlist-replies';
+
+export class DiscordPricesCommand implements IDiscordCommand {
+  readonly command = 'prices';
+  readonly description = 'Sprawdź aktualne ceny produktu';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: DiscordWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  configure(builder: SlashCommandBuilder): void {
+    builder.addStringOption((option) =>
+      option.setName('product').setDescription('Nazwa produktu').setRequired(true),
+    );
+  }
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await this.replies.reply(
+        interaction,
+        await this.handler.prices(interaction.options.getString('product') ?? ''),
+      );
+    } catch (error) {
+      this.logger.error('Failed to process /prices command', {
+        userId: interaction.user.id,
+        error,
+      });
+      await this.replies.replyError(interaction);
+    }
+  }
+}
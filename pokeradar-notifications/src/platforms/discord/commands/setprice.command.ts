@@ -0,0 +1,49 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { IDiscordCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { DiscordWatchlistReplies } from '../watchlist-replies';
+
+export class DiscordSetPriceCommand implements IDiscordCommand {
+  readonly command = 'setprice';
+  readonly description = 'Ustaw próg ceny produktu';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: DiscordWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  configure(builder: SlashCommandBuilder): void {
+    builder
+      .addStringOption((option) =>
+        option.setName('product').setDescription('Nazwa produktu').setRequired(true),
+      )
+      .addNumberOption((option) =>
+        option
+          .setName('price')
+          .setDescription('Nowy próg w zł')
+          .setMinValue(0.01)
+          .setRequired(true),
+      );
+  }
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await this.replies.reply(
+        interaction,
+        await this.handler.setPrice(
+          interaction.user.id,
+          interaction.options.getString('product') ?? '',
+          interaction.options.getNumber('price') ?? undefined,
+        ),
+      );
+    } catch (error) {
+      this.logger.error('Failed to process /setprice command', {
+        userId: interaction.user.id,
+        error,
+      });
+      await this.replies.replyError(interaction);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { ChatInputCommandInteraction } from 'discord.js';
+import { IDiscordCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { DiscordWatchlistReplies } from '../watchlist-replies';
+
+export class DiscordStatusCommand implements IDiscordCommand {
+  readonly command = 'status';
+  readonly description = 'Porównaj ceny obserwowanych produktów z progami';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: DiscordWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await this.replies.reply(interaction, await this.handler.status(interaction.user.id));
+    } catch (error) {
+      this.logger.error('Failed to process /status command', {
+        userId: interaction.user.id,
+        error,
+      });
+      await this.replies.replyError(interaction);
+    }
+  }
+}
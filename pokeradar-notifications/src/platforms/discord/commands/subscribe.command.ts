@@ -0,0 +1,106 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { IDiscordCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { ChannelSubscriptionHandler } from '../../../channel-feed';
+import { CHANNEL_FEED_MESSAGES, botError } from '../../../messages/notification.messages';
+
+/** Channels a feed can be posted to. */
+export const FEED_CHANNEL_TYPES = [ChannelType.GuildText, ChannelType.GuildAnnouncement] as const;
+
+/**
+ * Hides the command from members without Manage Server. Server owners can
+ * override that in the integration settings, so execute checks it again.
+ */
+export function restrictToGuildAdmins(builder: SlashCommandBuilder): void {
+  builder
+    .setContexts(InteractionContextType.Guild)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild);
+}
+
+/** Returns the reason the interaction may not manage feeds, or null if it may. */
+export function guildAdminError(interaction: ChatInputCommandInteraction): string | null {
+  if (!interaction.inGuild()) return CHANNEL_FEED_MESSAGES.guildOnly;
+  if (!interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)) {
+    return CHANNEL_FEED_MESSAGES.adminOnly;
+  }
+  return null;
+}
+
+export class DiscordSubscribeCommand implements IDiscordCommand {
+  readonly command = 'subscribe';
+  readonly description = 'Publikuj oferty pasujące do filtra na kanale serwera';
+
+  constructor(
+    private handler: ChannelSubscriptionHandler,
+    private logger: ILogger,
+  ) {}
+
+  configure(builder: SlashCommandBuilder): void {
+    restrictToGuildAdmins(builder);
+    builder
+      .addStringOption((option) =>
+        option.setName('sets').setDescription('Zestawy, oddzielone przecinkami'),
+      )
+      .addStringOption((option) =>
+        option.setName('types').setDescription('Typy produktów, oddzielone przecinkami'),
+      )
+      .addNumberOption((option) =>
+        option.setName('max_price').setDescription('Maksymalna cena w zł').setMinValue(0.01),
+      )
+      .addStringOption((option) =>
+        option
+          .setName('shops')
+          .setDescription('Sklepy, oddzielone przecinkami (domyślnie wszystkie)'),
+      )
+      .addChannelOption((option) =>
+        option
+          .setName('channel')
+          .setDescription('Kanał na oferty (domyślnie bieżący)')
+          .addChannelTypes(...FEED_CHANNEL_TYPES),
+      );
+  }
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      const denied = guildAdminError(interaction);
+      if (denied || !interaction.guildId) {
+        await interaction.reply({
+          content: denied ?? CHANNEL_FEED_MESSAGES.guildOnly,
+          ephemeral: true,
+        });
+        return;
+      }
+
+      const content = await this.handler.subscribe({
+        guildId: interaction.guildId,
+        channelId: interaction.options.getChannel('channel')?.id ?? interaction.channelId,
+        userId: interaction.user.id,
+        sets: interaction.options.getString('sets'),
+        types: interaction.options.getString('types'),
+        shops: interaction.options.getString('shops'),
+        maxPrice: interaction.options.getNumber('max_price'),
+      });
+      await interaction.reply({ content, ephemeral: true });
+    } catch (error) {
+      this.logger.error('Failed to process /subscribe command', {
+        userId: interaction.user.id,
+        guildId: interaction.guildId,
+        error,
+      });
+      try {
+        await interaction.reply({
+          content: botError('Coś poszło nie tak. Spróbuj ponownie później.'),
+          ephemeral: true,
+        });
+      } catch {
+        // Nothing we can do if sending the error message also fails
+      }
+    }
+  }
+}
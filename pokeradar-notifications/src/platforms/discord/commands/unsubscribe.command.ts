@@ -0,0 +1,59 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { IDiscordCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { ChannelSubscriptionHandler } from '../../../channel-feed';
+import { CHANNEL_FEED_MESSAGES, botError } from '../../../messages/notification.messages';
+import { FEED_CHANNEL_TYPES, guildAdminError, restrictToGuildAdmins } from './subscribe.command';
+
+export class DiscordUnsubscribeCommand implements IDiscordCommand {
+  readonly command = 'unsubscribe';
+  readonly description = 'Przestań publikować oferty na kanale serwera';
+
+  constructor(
+    private handler: ChannelSubscriptionHandler,
+    private logger: ILogger,
+  ) {}
+
+  configure(builder: SlashCommandBuilder): void {
+    restrictToGuildAdmins(builder);
+    builder.addChannelOption((option) =>
+      option
+        .setName('channel')
+        .setDescription('Kanał z ofertami (domyślnie bieżący)')
+        .addChannelTypes(...FEED_CHANNEL_TYPES),
+    );
+  }
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      const denied = guildAdminError(interaction);
+      if (denied || !interaction.guildId) {
+        await interaction.reply({
+          content: denied ?? CHANNEL_FEED_MESSAGES.guildOnly,
+          ephemeral: true,
+        });
+        return;
+      }
+
+      const content = await this.handler.unsubscribe(
+        interaction.guildId,
+        interaction.options.getChannel('channel')?.id ?? interaction.channelId,
+      );
+      await interaction.reply({ content, ephemeral: true });
+    } catch (error) {
+      this.logger.error('Failed to process /unsubscribe command', {
+        userId: interaction.user.id,
+        guildId: interaction.guildId,
+        error,
+      });
+      try {
+        await interaction.reply({
+          content: botError('Coś poszło nie tak. Spróbuj ponownie później.'),
+          ephemeral: true,
+        });
+      } catch {
+        // Nothing we can do if sending the error message also fails
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Discord bot platform.
- * Handles slash command registration/routing and notification delivery via DMs.
+ * Handles slash command registration/routing, notification delivery via DMs
+ * and posting the channel feed to subscribed server channels.
  */
 
 import {
@@ -20,12 +21,34 @@ import { ILogger } from '@pokeradar/shared';
 import { IDiscordCommand } from './commands/command.interface';
 import { DiscordLinkCommand } from './commands/link.command';
 import { DiscordHelpCommand } from './commands/help.command';
+import { DiscordWatchCommand } from './commands/watch.command';
+import { DiscordUnwatchCommand } from './commands/unwatch.command';
+import { DiscordListCommand } from './commands/list.command';
+import { DiscordSetPriceCommand } from './commands/setprice.command';
+import { DiscordPricesCommand } from './commands/prices.command';
+import { DiscordStatusCommand } from './commands/status.command';
+import { DiscordSubscribeCommand } from './commands/subscribe.command';
+import { DiscordUnsubscribeCommand } from './commands/unsubscribe.command';
+import { DiscordChannelFeedPoster } from './channel-feed-poster';
+import { DiscordWatchlistReplies } from './watchlist-replies';
+import { DiscordNotificationActions } from './notification-actions';
+import {
+  BotPriceService,
+  BotWatchlistService,
+  NotificationActionService,
+  WatchlistCommandHandler,
+} from '../../watchlist';
+import { ChannelSubscriptionHandler, IChannelFeedPoster } from '../../channel-feed';
+import { CHANNEL_FEED_MESSAGES, getDiscordMessages } from '../../messages/notification.messages';
 
 export class DiscordBotPlatform implements IBotPlatform {
   readonly name = 'discord';
   private client: Client;
   private commands: IDiscordCommand[];
   private channelAdapter: DiscordNotificationAdapter;
+  private feedPoster: DiscordChannelFeedPoster;
+  private watchlistReplies: DiscordWatchlistReplies;
+  private notificationActions: DiscordNotificationActions;
   private token: string;
 
   constructor(
@@ -39,9 +62,35 @@ export class DiscordBotPlatform implements IBotPlatform {
       partials: [Partials.Channel],
     });
     this.channelAdapter = new DiscordNotificationAdapter(this.client);
+    this.feedPoster = new DiscordChannelFeedPoster(this.client);
 
     const linkCommand = new DiscordLinkCommand(appUrl, this.logger);
-    const baseCommands: IDiscordCommand[] = [linkCommand];
+    const watchlistService = new BotWatchlistService();
+    const messages = getDiscordMessages(appUrl);
+    const watchlist = new WatchlistCommandHandler(
+      watchlistService,
+      new BotPriceService(),
+      'discord',
+      messages,
+    );
+    this.notificationActions = new DiscordNotificationActions(
+      new NotificationActionService(watchlistService, 'discord', messages),
+      this.logger,
+    );
+    this.watchlistReplies = new DiscordWatchlistReplies(appUrl, this.logger);
+    const subscriptions = new ChannelSubscriptionHandler(CHANNEL_FEED_MESSAGES);
+
+    const baseCommands: IDiscordCommand[] = [
+      linkCommand,
+      new DiscordWatchCommand(watchlist, this.watchlistReplies, this.logger),
+      new DiscordUnwatchCommand(watchlist, this.watchlistReplies, this.logger),
+      new DiscordListCommand(watchlist, this.watchlistReplies, this.logger),
+      new DiscordSetPriceCommand(watchlist, this.watchlistReplies, this.logger),
+      new DiscordPricesCommand(watchlist, this.watchlistReplies, this.logger),
+      new DiscordStatusCommand(watchlist, this.watchlistReplies, this.logger),
+      new DiscordSubscribeCommand(subscriptions, this.logger),
+      new DiscordUnsubscribeCommand(subscriptions, this.logger),
+    ];
     const helpCommand = new DiscordHelpCommand(
       appUrl,
       [
@@ -65,6 +114,14 @@ export class DiscordBotPlatform implements IBotPlatform {
     });
 
     this.client.on('interactionCreate', async (interaction: Interaction) => {
+      if (interaction.isStringSelectMenu()) {
+        await this.watchlistReplies.handleSelect(interaction);
+        return;
+      }
+      if (interaction.isButton()) {
+        await this.notificationActions.handleButton(interaction);
+        return;
+      }
       if (!interaction.isChatInputCommand()) return;
       this.logger.debug('Discord interaction received', {
         command: interaction.commandName,
@@ -93,6 +150,11 @@ export class DiscordBotPlatform implements IBotPlatform {
     return this.channelAdapter;
   }
 
+  /** Posts offers to server channels bound with /subscribe. */
+  asChannelFeedPoster(): IChannelFeedPoster {
+    return this.feedPoster;
+  }
+
   private async registerSlashCommands(): Promise<void> {
     const rest = new REST().setToken(this.token);
 
@@ -100,13 +162,7 @@ export class DiscordBotPlatform implements IBotPlatform {
       const builder = new SlashCommandBuilder()
         .setName(cmd.command)
         .setDescription(cmd.description);
-
-      // The /link command needs a token option
-      if (cmd.command === 'link') {
-        builder.addStringOption((option) =>
-          option.setName('token').setDescription('Token połączenia z pokeradar').setRequired(true),
-        );
-      }
+      cmd.configure?.(builder);
 
       return builder.toJSON();
     });
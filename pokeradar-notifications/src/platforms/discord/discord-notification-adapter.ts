@@ -1,15 +1,72 @@
-import { Client } from 'discord.js';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Client,
+  EmbedBuilder,
+  User,
+} from 'discord.js';
 import { INotificationChannel } from '../../notifications/channels/channel.interface';
 import { INotificationPayload } from '@pokeradar/shared';
-import { formatDiscordNotification } from '../../messages/notification.messages';
+import {
+  BUY_BUTTON_LABEL,
+  formatDiscordAlertEmbed,
+  formatDiscordDigest,
+} from '../../messages/notification.messages';
+import { notificationActionRow } from './notification-actions';
+
+const ALERT_EMBED_COLOR = 0x22c55e;
+
+export function buildAlertEmbed(payload: INotificationPayload): EmbedBuilder {
+  const content = formatDiscordAlertEmbed(payload);
+  const embed = new EmbedBuilder()
+    .setColor(ALERT_EMBED_COLOR)
+    .setAuthor({ name: content.author })
+    .setTitle(content.title)
+    .setURL(content.url)
+    .addFields(content.fields)
+    .setTimestamp();
+
+  if (content.description) embed.setDescription(content.description);
+  if (content.imageUrl) embed.setThumbnail(content.imageUrl);
+  if (content.footer) embed.setFooter({ text: content.footer });
+  return embed;
+}
+
+export function buyLinkRow(productUrl: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setStyle(ButtonStyle.Link).setLabel(BUY_BUTTON_LABEL).setURL(productUrl),
+  );
+}
 
 export class DiscordNotificationAdapter implements INotificationChannel {
   readonly name = 'discord';
 
   constructor(private client: Client) {}
 
-  async send(target: string, payload: INotificationPayload): Promise<void> {
-    const user = this.client.users.cache.get(target) ?? (await this.client.users.fetch(target));
-    await user.send(formatDiscordNotification(payload));
+  async send(
+    target: string,
+    payload: INotificationPayload,
+    notificationId?: string,
+  ): Promise<void> {
+    const user = await this.getUser(target);
+    const linkRow = buyLinkRow(payload.productUrl);
+    await user.send({
+      embeds: [buildAlertEmbed(payload)],
+      components: notificationId
+        ? [linkRow, notificationActionRow(notificationId, payload)]
+        : [linkRow],
+    });
+  }
+
+  async sendDigest(target: string, payloads: INotificationPayload[]): Promise<void> {
+    const user = await this.getUser(target);
+    for (const message of formatDiscordDigest(payloads)) {
+      await user.send(message);
+    }
+  }
+
+  private async getUser(id: string): Promise<User> {
+    return this.client.users.cache.get(id) ?? (await this.client.users.fetch(id));
   }
 }
@@ -0,0 +1,64 @@
+/**
+ * Buttons under Discord alerts and the handler for their presses.
+ */
+
+import { ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle } from 'discord.js';
+import { ILogger, INotificationPayload } from '@pokeradar/shared';
+import {
+  NotificationActionService,
+  decodeNotificationAction,
+  encodeNotificationAction,
+  notificationActionsFor,
+} from '../../watchlist';
+import { NOTIFICATION_ACTION_LABELS, botError } from '../../messages/notification.messages';
+
+export function notificationActionRow(
+  notificationId: string,
+  payload: INotificationPayload,
+): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    notificationActionsFor(payload).map((action) =>
+      new ButtonBuilder()
+        .setCustomId(encodeNotificationAction(action, notificationId))
+        .setLabel(NOTIFICATION_ACTION_LABELS[action])
+        .setStyle(action === 'unwatch' ? ButtonStyle.Danger : ButtonStyle.Secondary),
+    ),
+  );
+}
+
+export class DiscordNotificationActions {
+  constructor(
+    private actions: NotificationActionService,
+    private logger: ILogger,
+  ) {}
+
+  /** Returns false for buttons that do not belong to an alert. */
+  async handleButton(interaction: ButtonInteraction): Promise<boolean> {
+    const decoded = decodeNotificationAction(interaction.customId);
+    if (!decoded) return false;
+
+    try {
+      const content = await this.actions.apply(
+        interaction.user.id,
+        decoded.action,
+        decoded.notificationId,
+      );
+      await interaction.reply({ content, ephemeral: true });
+    } catch (error) {
+      this.logger.error('Failed to handle Discord notification action', {
+        userId: interaction.user.id,
+        action: decoded.action,
+        error,
+      });
+      try {
+        await interaction.reply({
+          content: botError('Coś poszło nie tak. Spróbuj ponownie później.'),
+          ephemeral: true,
+        });
+      } catch {
+        // Nothing we can do if sending the error message also fails
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Renders watchlist command replies on Discord.
+ * Ambiguous matches become an ephemeral select menu; picking an option updates
+ * the same message with the command's result.
+ */
+
+import {
+  ActionRowBuilder,
+  ChatInputCommandInteraction,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+} from 'discord.js';
+import { ILogger } from '@pokeradar/shared';
+import { BotReply, PendingChoiceStore } from '../../watchlist';
+import { botError, getDiscordMessages } from '../../messages/notification.messages';
+
+const CUSTOM_ID_PREFIX = 'pick:';
+
+/** Discord rejects select option labels longer than this. */
+const MAX_OPTION_LABEL_LENGTH = 100;
+
+export class DiscordWatchlistReplies {
+  private choices = new PendingChoiceStore();
+
+  constructor(
+    private appUrl: string,
+    private logger: ILogger,
+  ) {}
+
+  async reply(interaction: ChatInputCommandInteraction, reply: BotReply): Promise<void> {
+    if (reply.kind === 'text') {
+      await interaction.reply({ content: reply.text, ephemeral: true });
+      return;
+    }
+
+    const key = this.choices.add({
+      ownerId: interaction.user.id,
+      products: reply.products,
+      choose: reply.choose,
+    });
+    const menu = new StringSelectMenuBuilder()
+      .setCustomId(`${CUSTOM_ID_PREFIX}${key}`)
+      .setPlaceholder('Wybierz produkt')
+      .addOptions(
+        reply.products.map((product, index) => ({
+          label: product.name.slice(0, MAX_OPTION_LABEL_LENGTH),
+          value: String(index),
+        })),
+      );
+
+    await interaction.reply({
+      content: reply.text,
+      components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)],
+      ephemeral: true,
+    });
+  }
+
+  async replyError(interaction: ChatInputCommandInteraction): Promise<void> {
+    const content = botError('Coś poszło nie tak. Spróbuj ponownie później.');
+    try {
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ content, ephemeral: true });
+      } else {
+        await interaction.reply({ content, ephemeral: true });
+      }
+    } catch {
+      // Nothing we can do if sending the error message also fails
+    }
+  }
+
+  /** Returns false for select menus that are not product pickers. */
+  async handleSelect(interaction: StringSelectMenuInteraction): Promise<boolean> {
+    if (!interaction.customId.startsWith(CUSTOM_ID_PREFIX)) return false;
+
+    const key = interaction.customId.slice(CUSTOM_ID_PREFIX.length);
+    try {
+      const choice = this.choices.take(key, interaction.user.id);
+      const product = choice?.products[Number(interaction.values[0])];
+
+      if (!choice || !product) {
+        await interaction.update({
+          content: getDiscordMessages(this.appUrl).choiceExpired,
+          components: [],
+        });
+        return true;
+      }
+
+      await interaction.update({ content: await choice.choose(product.id), components: [] });
+    } catch (error) {
+      this.logger.error('Failed to handle Discord product choice', {
+        userId: interaction.user.id,
+        error,
+      });
+    }
+    return true;
+  }
+}
@@ -0,0 +1,27 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { ITelegramCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { TelegramWatchlistReplies } from '../watchlist-replies';
+
+export class PricesCommand implements ITelegramCommand {
+  readonly command = 'prices';
+  readonly description = 'Sprawdź aktualne ceny produktu';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: TelegramWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  async execute(msg: TelegramBot.Message, args: string): Promise<void> {
+    const chatId = msg.chat.id;
+
+    try {
+      await this.replies.send(chatId, await this.handler.prices(args));
+    } catch (error) {
+      this.logger.error('Failed to process /prices command', { chatId, error });
+      await this.replies.sendError(chatId);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { ITelegramCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { TelegramWatchlistReplies } from '../watchlist-replies';
+
+export class SetPriceCommand implements ITelegramCommand {
+  readonly command = 'setprice';
+  readonly description = 'Ustaw próg ceny produktu';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: TelegramWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  async execute(msg: TelegramBot.Message, args: string): Promise<void> {
+    const chatId = msg.chat.id;
+
+    try {
+      await this.replies.send(chatId, await this.handler.setPrice(chatId.toString(), args));
+    } catch (error) {
+      this.logger.error('Failed to process /setprice command', { chatId, error });
+      await this.replies.sendError(chatId);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { ITelegramCommand } from './command.interface';
+import { ILogger } from '@pokeradar/shared';
+import { WatchlistCommandHandler } from '../../../watchlist';
+import { TelegramWatchlistReplies } from '../watchlist-replies';
+
+export class StatusCommand implements ITelegramCommand {
+  readonly command = 'status';
+  readonly description = 'Porównaj ceny obserwowanych produktów z progami';
+
+  constructor(
+    private handler: WatchlistCommandHandler,
+    private replies: TelegramWatchlistReplies,
+    private logger: ILogger,
+  ) {}
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async execute(msg: TelegramBot.Message, _args: string): Promise<void> {
+    const chatId = msg.chat.id;
+
+    try {
+      await this.replies.send(chatId, await this.handler.status(chatId.toString()));
+    } catch (error) {
+      this.logger.error('Failed to process /status command', { chatId, error });
+      await this.replies.sendError(chatId);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Inline keyboard under Telegram alerts and the handler for its buttons.
+ */
+
+import TelegramBot from 'node-telegram-bot-api';
+import { ILogger, INotificationPayload } from '@pokeradar/shared';
+import {
+  NotificationActionService,
+  decodeNotificationAction,
+  encodeNotificationAction,
+  notificationActionsFor,
+} from '../../watchlist';
+import { NOTIFICATION_ACTION_LABELS, botError } from '../../messages/notification.messages';
+
+/** Two buttons per row so the labels are not truncated on phones. */
+export function notificationActionKeyboard(
+  notificationId: string,
+  payload: INotificationPayload,
+): TelegramBot.InlineKeyboardMarkup {
+  const buttons = notificationActionsFor(payload).map((action) => ({
+    text: NOTIFICATION_ACTION_LABELS[action],
+    callback_data: encodeNotificationAction(action, notificationId),
+  }));
+  return { inline_keyboard: [buttons.slice(0, 2), buttons.slice(2)] };
+}
+
+export class TelegramNotificationActions {
+  constructor(
+    private bot: TelegramBot,
+    private actions: NotificationActionService,
+    private logger: ILogger,
+  ) {
+    this.bot.on('callback_query', async (query) => {
+      const decoded = query.data ? decodeNotificationAction(query.data) : null;
+      if (!decoded || !query.message) return;
+
+      const chatId = query.message.chat.id;
+      try {
+        const reply = await this.actions.apply(
+          chatId.toString(),
+          decoded.action,
+          decoded.notificationId,
+        );
+        await this.bot.answerCallbackQuery(query.id);
+        await this.bot.sendMessage(chatId, reply, {
+          parse_mode: 'Markdown',
+          disable_web_page_preview: true,
+          reply_to_message_id: query.message.message_id,
+        });
+      } catch (error) {
+        this.logger.error('Failed to handle Telegram notification action', {
+          chatId,
+          action: decoded.action,
+          error,
+        });
+        try {
+          await this.bot.answerCallbackQuery(query.id, {
+            text: botError('Coś poszło nie tak. Spróbuj ponownie później.'),
+          });
+        } catch {
+          // Nothing we can do if answering the button press also fails
+        }
+      }
+    });
+  }
+}
@@ -13,12 +13,28 @@ import { ITelegramCommand } from './commands/command.interface';
 import { LinkCommand } from './commands/link.command';
 import { HelpCommand } from './commands/help.command';
 import { StartCommand } from './commands/start.command';
+import { WatchCommand } from './commands/watch.command';
+import { UnwatchCommand } from './commands/unwatch.command';
+import { ListCommand } from './commands/list.command';
+import { SetPriceCommand } from './commands/setprice.command';
+import { PricesCommand } from './commands/prices.command';
+import { StatusCommand } from './commands/status.command';
+import { TelegramWatchlistReplies } from './watchlist-replies';
+import { TelegramNotificationActions } from './notification-actions';
+import {
+  BotPriceService,
+  BotWatchlistService,
+  NotificationActionService,
+  WatchlistCommandHandler,
+} from '../../watchlist';
+import { getTelegramMessages } from '../../messages/notification.messages';
 
 export class TelegramBotPlatform implements IBotPlatform {
   readonly name = 'telegram';
   private bot: TelegramBot;
   private commands: ITelegramCommand[];
   private channelAdapter: TelegramNotificationAdapter;
+  private notificationActions: TelegramNotificationActions;
 
   constructor(
     token: string,
@@ -30,7 +46,30 @@ export class TelegramBotPlatform implements IBotPlatform {
 
     const linkCommand = new LinkCommand(this.bot, appUrl, this.logger);
 
-    const baseCommands: ITelegramCommand[] = [linkCommand];
+    const watchlistService = new BotWatchlistService();
+    const messages = getTelegramMessages(appUrl);
+    const watchlist = new WatchlistCommandHandler(
+      watchlistService,
+      new BotPriceService(),
+      'telegram',
+      messages,
+    );
+    this.notificationActions = new TelegramNotificationActions(
+      this.bot,
+      new NotificationActionService(watchlistService, 'telegram', messages),
+      this.logger,
+    );
+    const replies = new TelegramWatchlistReplies(this.bot, appUrl, this.logger);
+
+    const baseCommands: ITelegramCommand[] = [
+      linkCommand,
+      new WatchCommand(watchlist, replies, this.logger),
+      new UnwatchCommand(watchlist, replies, this.logger),
+      new ListCommand(watchlist, replies, this.logger),
+      new SetPriceCommand(watchlist, replies, this.logger),
+      new PricesCommand(watchlist, replies, this.logger),
+      new StatusCommand(watchlist, replies, this.logger),
+    ];
 
     const helpCommand = new HelpCommand(
       this.bot,
@@ -6,18 +6,75 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { INotificationChannel } from '../../notifications/channels/channel.interface';
 import { INotificationPayload } from '@pokeradar/shared';
-import { formatTelegramNotification } from '../../messages/notification.messages';
+import {
+  BUY_BUTTON_LABEL,
+  formatTelegramDigest,
+  formatTelegramNotification,
+  formatTelegramPhotoCaption,
+} from '../../messages/notification.messages';
+import { notificationActionKeyboard } from './notification-actions';
+
+const TELEGRAM_CAPTION_LIMIT = 1024;
+
+/** Telegram answers 400 when it cannot fetch or use the image behind a URL. */
+function isRejectedRequest(error: unknown): boolean {
+  return (error as { response?: { statusCode?: number } }).response?.statusCode === 400;
+}
 
 export class TelegramNotificationAdapter implements INotificationChannel {
   readonly name = 'telegram';
 
   constructor(private bot: TelegramBot) {}
 
-  async send(target: string, payload: INotificationPayload): Promise<void> {
+  async send(
+    target: string,
+    payload: INotificationPayload,
+    notificationId?: string,
+  ): Promise<void> {
+    const replyMarkup = this.alertKeyboard(payload, notificationId);
+    const caption = formatTelegramPhotoCaption(payload);
+
+    if (payload.imageUrl && caption.length <= TELEGRAM_CAPTION_LIMIT) {
+      try {
+        await this.bot.sendPhoto(target, payload.imageUrl, {
+          caption,
+          parse_mode: 'Markdown',
+          reply_markup: replyMarkup,
+        });
+        return;
+      } catch (error) {
+        // A broken product image should not cost the user the alert
+        if (!isRejectedRequest(error)) throw error;
+      }
+    }
+
     await this.bot.sendMessage(target, formatTelegramNotification(payload), {
       parse_mode: 'Markdown',
       // Show a compact (small) link preview instead of a large one
       link_preview_options: { prefer_small_media: true },
+      reply_markup: replyMarkup,
     } as Parameters<TelegramBot['sendMessage']>[2]);
   }
+
+  async sendDigest(target: string, payloads: INotificationPayload[]): Promise<void> {
+    for (const message of formatTelegramDigest(payloads)) {
+      await this.bot.sendMessage(target, message, {
+        parse_mode: 'Markdown',
+        link_preview_options: { is_disabled: true },
+      } as Parameters<TelegramBot['sendMessage']>[2]);
+    }
+  }
+
+  /** Buy link on top, action buttons below when the alert has an id to refer back to. */
+  private alertKeyboard(
+    payload: INotificationPayload,
+    notificationId?: string,
+  ): TelegramBot.InlineKeyboardMarkup {
+    const actionRows = notificationId
+      ? notificationActionKeyboard(notificationId, payload).inline_keyboard
+      : [];
+    return {
+      inline_keyboard: [[{ text: BUY_BUTTON_LABEL, url: payload.productUrl }], ...actionRows],
+    };
+  }
 }
@@ -0,0 +1,90 @@
+/**
+ * Renders watchlist command replies on Telegram.
+ * Ambiguous matches become an inline keyboard; the button press is answered by
+ * editing the picker message into the command's result.
+ */
+
+import TelegramBot from 'node-telegram-bot-api';
+import { ILogger } from '@pokeradar/shared';
+import { BotReply, PendingChoiceStore } from '../../watchlist';
+import { botError, getTelegramMessages } from '../../messages/notification.messages';
+
+const CALLBACK_PREFIX = 'pick:';
+
+export class TelegramWatchlistReplies {
+  private choices = new PendingChoiceStore();
+
+  constructor(
+    private bot: TelegramBot,
+    private appUrl: string,
+    private logger: ILogger,
+  ) {
+    this.bot.on('callback_query', async (query) => {
+      if (!query.data?.startsWith(CALLBACK_PREFIX)) return;
+      await this.handleCallbackQuery(query, query.data.slice(CALLBACK_PREFIX.length));
+    });
+  }
+
+  async send(chatId: number, reply: BotReply): Promise<void> {
+    if (reply.kind === 'text') {
+      await this.bot.sendMessage(chatId, reply.text, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true,
+      });
+      return;
+    }
+
+    const key = this.choices.add({
+      ownerId: chatId.toString(),
+      products: reply.products,
+      choose: reply.choose,
+    });
+    await this.bot.sendMessage(chatId, reply.text, {
+      reply_markup: {
+        inline_keyboard: reply.products.map((product, index) => [
+          { text: product.name, callback_data: `${CALLBACK_PREFIX}${key}:${index}` },
+        ]),
+      },
+    });
+  }
+
+  async sendError(chatId: number): Promise<void> {
+    try {
+      await this.bot.sendMessage(chatId, botError('Coś poszło nie tak. Spróbuj ponownie później.'));
+    } catch {
+      // Nothing we can do if sending the error message also fails
+    }
+  }
+
+  private async handleCallbackQuery(query: TelegramBot.CallbackQuery, data: string): Promise<void> {
+    const message = query.message;
+    const [key, index] = data.split(':');
+
+    try {
+      const choice = message ? this.choices.take(key, message.chat.id.toString()) : undefined;
+      const product = choice?.products[Number(index)];
+
+      if (!message || !choice || !product) {
+        await this.bot.answerCallbackQuery(query.id, {
+          text: getTelegramMessages(this.appUrl).choiceExpired,
+        });
+        return;
+      }
+
+      const result = await choice.choose(product.id);
+      await this.bot.answerCallbackQuery(query.id);
+      await this.bot.editMessageText(result, {
+        chat_id: message.chat.id,
+        message_id: message.message_id,
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true,
+      });
+    } catch (error) {
+      this.logger.error('Failed to handle Telegram product choice', {
+        chatId: message?.chat.id,
+        error,
+      });
+      if (message) await this.sendError(message.chat.id);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Live price lookups behind /prices and /status.
+ * Uses the same freshness window and aggregations as the API's products module.
+ */
+
+import {
+  ProductResultModel,
+  buildBestPriceAggregation,
+  buildLatestShopPricesAggregation,
+  getFreshnessCutoff,
+  loadShopInfos,
+} from '@pokeradar/shared';
+
+export interface ShopOffer {
+  shopName: string;
+  price: number | null;
+  isAvailable: boolean;
+  productUrl: string;
+}
+
+export interface BestOffer {
+  price: number;
+  shopName: string;
+}
+
+export class BotPriceService {
+  private shopNames: Map<string, string> | null = null;
+
+  /** Freshest result per shop, cheapest first. */
+  async getShopOffers(productId: string): Promise<ShopOffer[]> {
+    const results = await ProductResultModel.aggregate<{
+      shopId: string;
+      price: number | null;
+      isAvailable: boolean;
+      productUrl: string;
+    }>(buildLatestShopPricesAggregation(productId, getFreshnessCutoff()));
+
+    return results.map((r) => ({
+      shopName: this.shopName(r.shopId),
+      price: r.price,
+      isAvailable: r.isAvailable,
+      productUrl: r.productUrl,
+    }));
+  }
+
+  /** Cheapest available offer per product; products without one are absent. */
+  async getBestOffers(productIds: string[]): Promise<Map<string, BestOffer>> {
+    if (productIds.length === 0) return new Map();
+
+    const docs = await ProductResultModel.aggregate<{
+      productId: string;
+      price: number;
+      shopId: string;
+    }>(buildBestPriceAggregation(productIds, getFreshnessCutoff()));
+
+    return new Map(
+      docs.map((d) => [d.productId, { price: d.price, shopName: this.shopName(d.shopId) }]),
+    );
+  }
+
+  private shopName(shopId: string): string {
+    this.shopNames ??= new Map(loadShopInfos().map((shop) => [shop.id, shop.name]));
+    return this.shopNames.get(shopId) ?? shopId;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Watchlist operations behind the bot commands.
+ * Works on the same collections as the API watchlist module, keyed by the
+ * user linked to a Telegram chat or Discord account.
+ */
+
+import { Types } from 'mongoose';
+import {
+  UserModel,
+  UserWatchEntryModel,
+  WatchlistProductModel,
+  NotificationModel,
+  NotificationStateModel,
+  ProductResultModel,
+  buildBestPriceAggregation,
+  getFreshnessCutoff,
+} from '@pokeradar/shared';
+import { ProductMatch, SearchableProduct, searchProducts } from './product-search';
+
+export type BotPlatformName = 'telegram' | 'discord';
+
+export interface WatchedProduct extends SearchableProduct {
+  maxPrice: number;
+  /** Snoozed from an alert's button and not yet resumed. */
+  snoozed: boolean;
+}
+
+export type WatchResult = { status: 'added' | 'exists' | 'resumed'; entry: WatchedProduct };
+
+/** Threshold used when the web app has no current price to start from. */
+const FALLBACK_MAX_PRICE = 999;
+
+function isSnoozed(entry: { snoozedUntil?: Date | null }): boolean {
+  return !!entry.snoozedUntil && entry.snoozedUntil > new Date();
+}
+
+export class BotWatchlistService {
+  /** Returns the pokeradar user id linked to the given chat / account, if any. */
+  async findLinkedUserId(platform: BotPlatformName, channelId: string): Promise<string | null> {
+    const user = await UserModel.findOne(
+      { [`${platform}.channelId`]: channelId },
+      { _id: 1 },
+    ).lean();
+    return user ? user._id.toString() : null;
+  }
+
+  async searchCatalog(query: string, limit: number): Promise<ProductMatch<SearchableProduct>[]> {
+    const products = await WatchlistProductModel.find({ disabled: { $ne: true } })
+      .select('id name')
+      .lean();
+    return searchProducts(
+      products.map((p) => ({ id: p.id, name: p.name })),
+      query,
+      limit,
+    );
+  }
+
+  async listEntries(userId: string): Promise<WatchedProduct[]> {
+    const entries = await UserWatchEntryModel.find({ userId: new Types.ObjectId(userId) })
+      .sort({ createdAt: 1 })
+      .lean();
+    if (entries.length === 0) return [];
+
+    const products = await WatchlistProductModel.find({
+      id: { $in: entries.map((e) => e.productId) },
+    })
+      .select('id name')
+      .lean();
+    const names = new Map(products.map((p) => [p.id, p.name]));
+
+    return entries.map((entry) => ({
+      id: entry.productId,
+      name: names.get(entry.productId) ?? entry.productId,
+      maxPrice: entry.maxPrice,
+      snoozed: isSnoozed(entry),
+    }));
+  }
+
+  async searchWatched(
+    userId: string,
+    query: string,
+    limit: number,
+  ): Promise<ProductMatch<WatchedProduct>[]> {
+    return searchProducts(await this.listEntries(userId), query, limit);
+  }
+
+  /**
+   * Adds the product with the same starting threshold the web app uses.
+   * Watching a snoozed product again ends the snooze.
+   */
+  async watch(userId: string, product: SearchableProduct): Promise<WatchResult> {
+    const existing = await UserWatchEntryModel.findOne({
+      userId: new Types.ObjectId(userId),
+      productId: product.id,
+    }).lean();
+    if (existing) {
+      const entry = { ...product, maxPrice: existing.maxPrice, snoozed: false };
+      if (!isSnoozed(existing)) return { status: 'exists', entry };
+
+      await UserWatchEntryModel.updateOne({ _id: existing._id }, { $set: { snoozedUntil: null } });
+      return { status: 'resumed', entry };
+    }
+
+    const maxPrice = await this.initialMaxPrice(product.id);
+    await UserWatchEntryModel.create({
+      userId: new Types.ObjectId(userId),
+      productId: product.id,
+      maxPrice,
+    });
+    return { status: 'added', entry: { ...product, maxPrice, snoozed: false } };
+  }
+
+  /** Removes the entry and its pending notifications. Returns false if it was not watched. */
+  async unwatch(userId: string, productId: string): Promise<boolean> {
+    const entry = await UserWatchEntryModel.findOneAndDelete({
+      userId: new Types.ObjectId(userId),
+      productId,
+    });
+    if (!entry) return false;
+
+    await Promise.all([
+      NotificationStateModel.deleteMany({ userId, productId }),
+      NotificationModel.deleteMany({
+        userId,
+        'payload.productId': productId,
+        status: { $in: ['pending', 'held'] },
+      }),
+    ]);
+    return true;
+  }
+
+  /** Returns false if the product is not on the user's watchlist. */
+  async setMaxPrice(userId: string, productId: string, maxPrice: number): Promise<boolean> {
+    const entry = await UserWatchEntryModel.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId), productId },
+      { $set: { maxPrice } },
+    );
+    return entry !== null;
+  }
+
+  private async initialMaxPrice(productId: string): Promise<number> {
+    const [best] = await ProductResultModel.aggregate<{ price: number }>(
+      buildBestPriceAggregation([productId], getFreshnessCutoff()),
+    );
+    return best ? Math.floor(best.price * 0.95) : FALLBACK_MAX_PRICE;
+  }
+}
@@ -0,0 +1,27 @@
+export {
+  BotWatchlistService,
+  type BotPlatformName,
+  type WatchedProduct,
+} from './bot-watchlist.service';
+export { BotPriceService, type ShopOffer, type BestOffer } from './bot-prices.service';
+export {
+  WatchlistCommandHandler,
+  type BotReply,
+  MAX_PRODUCT_CHOICES,
+} from './watchlist-command-handler';
+export { PendingChoiceStore } from './pending-choice-store';
+export {
+  searchProducts,
+  unambiguousMatch,
+  parseQueryAndPrice,
+  type SearchableProduct,
+  type ProductMatch,
+} from './product-search';
+export {
+  NotificationActionService,
+  NOTIFICATION_ACTIONS,
+  notificationActionsFor,
+  encodeNotificationAction,
+  decodeNotificationAction,
+  type NotificationAction,
+} from './notification-actions';
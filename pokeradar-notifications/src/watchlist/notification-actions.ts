@@ -0,0 +1,145 @@
+/**
+ * Buttons attached to delivered alerts: snooze the product, mute the shop,
+ * lower the threshold to the alerted price, or stop watching.
+ * Buttons carry only the action and the notification id; everything else is
+ * read back from the notification, so a press keeps working after restarts.
+ */
+
+import { Types } from 'mongoose';
+import {
+  INotificationPayload,
+  NotificationModel,
+  NotificationStateModel,
+  UserModel,
+  UserWatchEntryModel,
+} from '@pokeradar/shared';
+import { BotMessages } from '../messages/notification.messages';
+import { BotPlatformName, BotWatchlistService } from './bot-watchlist.service';
+
+export type NotificationAction = 'snooze' | 'mute-shop' | 'lower-price' | 'unwatch';
+
+export const NOTIFICATION_ACTIONS: NotificationAction[] = [
+  'snooze',
+  'mute-shop',
+  'lower-price',
+  'unwatch',
+];
+
+/**
+ * Actions offered under an alert. Restock and price-drop alerts can fire above
+ * maxPrice, where "set the threshold to this price" would raise it instead.
+ */
+export function notificationActionsFor(payload: INotificationPayload): NotificationAction[] {
+  return NOTIFICATION_ACTIONS.filter(
+    (action) => action !== 'lower-price' || payload.price < payload.maxPrice,
+  );
+}
+
+const SNOOZE_MS = 24 * 60 * 60 * 1000;
+
+/** Callback data prefix shared by the Telegram and Discord buttons. */
+const ACTION_PREFIX = 'alert:';
+
+const ACTION_CODES: Record<NotificationAction, string> = {
+  snooze: 's',
+  'mute-shop': 'm',
+  'lower-price': 'l',
+  unwatch: 'u',
+};
+
+/** "alert:s:<notificationId>" — well under Telegram's 64-byte callback data limit. */
+export function encodeNotificationAction(
+  action: NotificationAction,
+  notificationId: string,
+): string {
+  return `${ACTION_PREFIX}${ACTION_CODES[action]}:${notificationId}`;
+}
+
+export function decodeNotificationAction(
+  data: string,
+): { action: NotificationAction; notificationId: string } | null {
+  if (!data.startsWith(ACTION_PREFIX)) return null;
+
+  const [code, notificationId] = data.slice(ACTION_PREFIX.length).split(':');
+  const action = NOTIFICATION_ACTIONS.find((a) => ACTION_CODES[a] === code);
+  if (!action || !notificationId || !Types.ObjectId.isValid(notificationId)) return null;
+  return { action, notificationId };
+}
+
+export class NotificationActionService {
+  constructor(
+    private watchlist: BotWatchlistService,
+    private platform: BotPlatformName,
+    private messages: BotMessages,
+  ) {}
+
+  /** Applies the action for whoever pressed the button and returns the reply to show. */
+  async apply(
+    channelId: string,
+    action: NotificationAction,
+    notificationId: string,
+  ): Promise<string> {
+    const userId = await this.watchlist.findLinkedUserId(this.platform, channelId);
+    if (!userId) return this.messages.watchNotLinked;
+
+    const notification = await NotificationModel.findById(notificationId, {
+      userId: 1,
+      payload: 1,
+    }).lean();
+    // Alerts expire after 30 days; buttons of another account's alert are treated the same
+    if (!notification || notification.userId !== userId) return this.messages.actionExpired;
+
+    const { productId, productName, shopId, shopName, price } = notification.payload;
+    const entryFilter = { userId: new Types.ObjectId(userId), productId };
+
+    switch (action) {
+      case 'snooze': {
+        const snoozedUntil = new Date(Date.now() + SNOOZE_MS);
+        const result = await UserWatchEntryModel.updateOne(entryFilter, { $set: { snoozedUntil } });
+        return result.matchedCount > 0
+          ? this.messages.productSnoozed(productName)
+          : this.messages.watchedProductNotFound(productName);
+      }
+
+      case 'mute-shop':
+        await Promise.all([
+          UserModel.updateOne({ _id: userId }, { $addToSet: { excludedShopIds: shopId } }),
+          // A per-entry shop list overrides exclusions, so the shop has to leave it too
+          UserWatchEntryModel.updateMany(
+            { userId: new Types.ObjectId(userId), 'alertRules.shopIds': shopId },
+            { $pull: { 'alertRules.shopIds': shopId } },
+          ),
+          NotificationStateModel.deleteMany({ userId, shopId }),
+          NotificationModel.deleteMany({
+            userId,
+            'payload.shopId': shopId,
+            status: { $in: ['pending', 'held'] },
+          }),
+        ]);
+        return this.messages.shopMuted(shopName);
+
+      case 'lower-price': {
+        // Only ever lowers; the threshold may also have changed since the alert was sent
+        const entry = await UserWatchEntryModel.findOneAndUpdate(
+          { ...entryFilter, maxPrice: { $gt: price } },
+          { $set: { maxPrice: price } },
+        );
+        if (!entry) {
+          const current = await UserWatchEntryModel.findOne(entryFilter, { maxPrice: 1 }).lean();
+          return current
+            ? this.messages.maxPriceNotLowered(productName, current.maxPrice)
+            : this.messages.watchedProductNotFound(productName);
+        }
+
+        // Shops already alerted above the new threshold should alert again once they reach it
+        await NotificationStateModel.deleteMany({ userId, productId, lastPrice: { $gt: price } });
+        return this.messages.maxPriceSet(productName, price);
+      }
+
+      case 'unwatch':
+        return (await this.watchlist.unwatch(userId, productId))
+          ? this.messages.unwatched(productName)
+          : this.messages.watchedProductNotFound(productName);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Holds product pickers sent by the bots until the user answers them.
+ * Telegram callback data is capped at 64 bytes, so buttons carry a short key
+ * and an option index instead of product ids.
+ */
+
+import { randomBytes } from 'crypto';
+import { SearchableProduct } from './product-search';
+
+export interface PendingChoice {
+  /** Chat / account that may answer; other users' clicks are ignored. */
+  ownerId: string;
+  products: SearchableProduct[];
+  choose: (productId: string) => Promise<string>;
+}
+
+export class PendingChoiceStore {
+  private static readonly TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+  private choices = new Map<
+    string,
+    { choice: PendingChoice; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  add(choice: PendingChoice): string {
+    const key = randomBytes(6).toString('hex');
+    const timer = setTimeout(() => this.choices.delete(key), PendingChoiceStore.TTL_MS);
+    timer.unref();
+    this.choices.set(key, { choice, timer });
+    return key;
+  }
+
+  /** Removes and returns the choice, or undefined if it expired or belongs to someone else. */
+  take(key: string, ownerId: string): PendingChoice | undefined {
+    const pending = this.choices.get(key);
+    if (!pending || pending.choice.ownerId !== ownerId) return undefined;
+
+    clearTimeout(pending.timer);
+    this.choices.delete(key);
+    return pending.choice;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Fuzzy product lookup for bot commands.
+ * Users type names from memory ("151 booster bx"), so every query token has to
+ * match some name token exactly, as a prefix, or with a single typo.
+ */
+
+import { normalizeTitle } from '@pokeradar/shared';
+
+export interface SearchableProduct {
+  id: string;
+  name: string;
+}
+
+export interface ProductMatch<T extends SearchableProduct> {
+  product: T;
+  score: number;
+  /** Normalized name (or id) equals the normalized query. */
+  exact: boolean;
+}
+
+/** Tokens shorter than this must match exactly or as a prefix. */
+const MIN_TYPO_TOKEN_LENGTH = 4;
+
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function tokenScore(queryToken: string, nameTokens: string[]): number {
+  let best = 0;
+  for (const nameToken of nameTokens) {
+    if (nameToken === queryToken) return 3;
+    if (nameToken.startsWith(queryToken)) best = Math.max(best, 2);
+    else if (queryToken.length >= MIN_TYPO_TOKEN_LENGTH && withinOneEdit(queryToken, nameToken)) {
+      best = Math.max(best, 1);
+    }
+  }
+  return best;
+}
+
+/**
+ * Ranks products against a free-text query, best match first.
+ * Products missing any query token are left out.
+ */
+export function searchProducts<T extends SearchableProduct>(
+  products: T[],
+  query: string,
+  limit: number,
+): ProductMatch<T>[] {
+  const normalizedQuery = normalizeTitle(query);
+  const queryTokens = normalizedQuery.split(' ').filter(Boolean);
+  if (queryTokens.length === 0) return [];
+
+  const matches: ProductMatch<T>[] = [];
+  for (const product of products) {
+    const normalizedName = normalizeTitle(product.name);
+    const exact = normalizedName === normalizedQuery || product.id === query.trim();
+    const nameTokens = normalizedName.split(' ');
+
+    let score = 0;
+    for (const queryToken of queryTokens) {
+      const tokenMatch = tokenScore(queryToken, nameTokens);
+      if (tokenMatch === 0) {
+        score = 0;
+        break;
+      }
+      score += tokenMatch;
+    }
+
+    if (exact) matches.push({ product, score: Number.MAX_SAFE_INTEGER, exact });
+    else if (score > 0) {
+      // A contiguous phrase match beats the same tokens scattered across the name
+      if (normalizedName.includes(normalizedQuery)) score += 2;
+      matches.push({ product, score, exact });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.product.name.length - b.product.name.length)
+    .slice(0, limit);
+}
+
+/** The match a command can act on without asking, or null when the user has to pick. */
+export function unambiguousMatch<T extends SearchableProduct>(
+  matches: ProductMatch<T>[],
+): T | null {
+  if (matches.length === 1 || matches[0]?.exact) return matches[0].product;
+  return null;
+}
+
+/**
+ * Splits "/setprice 151 booster box 149,99 zł" into the product query and the price.
+ * Returns null when there is no positive trailing price or nothing before it.
+ */
+export function parseQueryAndPrice(args: string): { query: string; price: number } | null {
+  const match = args.trim().match(/^(.*\S)\s+(\d+(?:[.,]\d{1,2})?)\s*(?:zł|zl|pln)?$/i);
+  if (!match) return null;
+
+  const price = Number(match[2].replace(',', '.'));
+  if (!(price > 0)) return null;
+  return { query: match[1].trim(), price };
+}
@@ -0,0 +1,170 @@
+/**
+ * Platform-agnostic logic for /watch, /unwatch, /list, /setprice, /prices and /status.
+ * Returns what to answer; the Telegram and Discord commands only render it.
+ */
+
+import { BotMessages } from '../messages/notification.messages';
+import { BotPlatformName, BotWatchlistService } from './bot-watchlist.service';
+import { BotPriceService } from './bot-prices.service';
+import {
+  ProductMatch,
+  SearchableProduct,
+  parseQueryAndPrice,
+  unambiguousMatch,
+} from './product-search';
+
+/** Most options offered when a query matches several products. */
+export const MAX_PRODUCT_CHOICES = 10;
+
+export type BotReply =
+  | { kind: 'text'; text: string }
+  | {
+      kind: 'choice';
+      text: string;
+      products: SearchableProduct[];
+      /** Runs the command for the picked product and returns the final answer. */
+      choose: (productId: string) => Promise<string>;
+    };
+
+function text(value: string): BotReply {
+  return { kind: 'text', text: value };
+}
+
+export class WatchlistCommandHandler {
+  constructor(
+    private service: BotWatchlistService,
+    private priceService: BotPriceService,
+    private platform: BotPlatformName,
+    private messages: BotMessages,
+  ) {}
+
+  async watch(channelId: string, query: string): Promise<BotReply> {
+    if (!query.trim()) return text(this.messages.watchUsage);
+
+    const userId = await this.service.findLinkedUserId(this.platform, channelId);
+    if (!userId) return text(this.messages.watchNotLinked);
+
+    const matches = await this.service.searchCatalog(query, MAX_PRODUCT_CHOICES);
+    return this.resolve(matches, this.messages.productNotFound(query), async (product) => {
+      const result = await this.service.watch(userId, product);
+      switch (result.status) {
+        case 'added':
+          return this.messages.watchAdded(product.name, result.entry.maxPrice);
+        case 'resumed':
+          return this.messages.watchResumed(product.name, result.entry.maxPrice);
+        case 'exists':
+          return this.messages.watchAlreadyWatched(product.name, result.entry.maxPrice);
+      }
+    });
+  }
+
+  /** Without a query the whole watchlist is offered as choices. */
+  async unwatch(channelId: string, query: string): Promise<BotReply> {
+    const userId = await this.service.findLinkedUserId(this.platform, channelId);
+    if (!userId) return text(this.messages.watchNotLinked);
+
+    const notFound = this.messages.watchedProductNotFound(query);
+    const remove = async (product: SearchableProduct) =>
+      (await this.service.unwatch(userId, product.id))
+        ? this.messages.unwatched(product.name)
+        : this.messages.watchedProductNotFound(product.name);
+
+    if (!query.trim()) {
+      const entries = await this.service.listEntries(userId);
+      if (entries.length === 0) return text(this.messages.watchlistEmpty);
+      return this.choice(entries.slice(0, MAX_PRODUCT_CHOICES), notFound, remove);
+    }
+
+    const matches = await this.service.searchWatched(userId, query, MAX_PRODUCT_CHOICES);
+    return this.resolve(matches, notFound, remove);
+  }
+
+  async list(channelId: string): Promise<BotReply> {
+    const userId = await this.service.findLinkedUserId(this.platform, channelId);
+    if (!userId) return text(this.messages.watchNotLinked);
+
+    const entries = await this.service.listEntries(userId);
+    return text(
+      entries.length === 0 ? this.messages.watchlistEmpty : this.messages.watchlist(entries),
+    );
+  }
+
+  /** Telegram passes "<product> <price>" as one string; Discord has a separate option. */
+  async setPrice(channelId: string, args: string, price?: number): Promise<BotReply> {
+    const parsed = price === undefined ? parseQueryAndPrice(args) : { query: args.trim(), price };
+    if (!parsed || !parsed.query || !(parsed.price > 0)) {
+      return text(this.messages.setPriceUsage);
+    }
+
+    const userId = await this.service.findLinkedUserId(this.platform, channelId);
+    if (!userId) return text(this.messages.watchNotLinked);
+
+    const matches = await this.service.searchWatched(userId, parsed.query, MAX_PRODUCT_CHOICES);
+    return this.resolve(
+      matches,
+      this.messages.watchedProductNotFound(parsed.query),
+      async (product) =>
+        (await this.service.setMaxPrice(userId, product.id, parsed.price))
+          ? this.messages.maxPriceSet(product.name, parsed.price)
+          : this.messages.watchedProductNotFound(product.name),
+    );
+  }
+
+  /** Works without a linked account — prices are public in the web app too. */
+  async prices(query: string): Promise<BotReply> {
+    if (!query.trim()) return text(this.messages.pricesUsage);
+
+    const matches = await this.service.searchCatalog(query, MAX_PRODUCT_CHOICES);
+    return this.resolve(matches, this.messages.productNotFound(query), async (product) =>
+      this.messages.prices(product.name, await this.priceService.getShopOffers(product.id)),
+    );
+  }
+
+  async status(channelId: string): Promise<BotReply> {
+    const userId = await this.service.findLinkedUserId(this.platform, channelId);
+    if (!userId) return text(this.messages.watchNotLinked);
+
+    const entries = await this.service.listEntries(userId);
+    if (entries.length === 0) return text(this.messages.watchlistEmpty);
+
+    const bestOffers = await this.priceService.getBestOffers(entries.map((e) => e.id));
+    return text(
+      this.messages.status(
+        entries.map((entry) => ({ ...entry, best: bestOffers.get(entry.id) ?? null })),
+      ),
+    );
+  }
+
+  private async resolve(
+    matches: ProductMatch<SearchableProduct>[],
+    notFound: string,
+    apply: (product: SearchableProduct) => Promise<string>,
+  ): Promise<BotReply> {
+    if (matches.length === 0) return text(notFound);
+
+    const match = unambiguousMatch(matches);
+    if (match) return text(await apply(match));
+
+    return this.choice(
+      matches.map((m) => m.product),
+      notFound,
+      apply,
+    );
+  }
+
+  private choice(
+    products: SearchableProduct[],
+    notFound: string,
+    apply: (product: SearchableProduct) => Promise<string>,
+  ): BotReply {
+    return {
+      kind: 'choice',
+      text: this.messages.chooseProduct,
+      products,
+      choose: async (productId) => {
+        const product = products.find((p) => p.id === productId);
+        return product ? apply(product) : notFound;
+      },
+    };
+  }
+}
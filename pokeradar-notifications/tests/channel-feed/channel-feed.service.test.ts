@@ -0,0 +1,167 @@
+import {
+  ChannelPostStateModel,
+  ChannelSubscriptionModel,
+  ILogger,
+  ProductResultModel,
+  ProductSetModel,
+  WatchlistProductModel,
+} from '@pokeradar/shared';
+import { ChannelFeedService, IChannelFeedPoster } from '../../src/channel-feed';
+import { PermanentDeliveryError } from '../../src/notifications/channels';
+
+const logger: ILogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+function product(id: string, productSetId: string, productTypeId = 'booster-box') {
+  return {
+    id,
+    name: `Product ${id}`,
+    imageUrl: `https://cdn.pokeradar.pl/${id}.png`,
+    productSetId,
+    productTypeId,
+  };
+}
+
+/** Each scrape is a second after the previous one, so the latest result is unambiguous. */
+let clock = Date.now();
+
+async function scrape(productId: string, shopId: string, price: number, isAvailable = true) {
+  clock += 1000;
+  await ProductResultModel.create({
+    productId,
+    shopId,
+    hourBucket: String(clock),
+    productUrl: `https://${shopId}.pl/${productId}`,
+    price,
+    isAvailable,
+    timestamp: new Date(clock),
+  });
+}
+
+describe('ChannelFeedService', () => {
+  let poster: { post: jest.Mock };
+  let service: ChannelFeedService;
+
+  beforeEach(async () => {
+    poster = { post: jest.fn().mockResolvedValue(undefined) };
+    service = new ChannelFeedService(poster as IChannelFeedPoster, logger);
+
+    await WatchlistProductModel.insertMany([
+      product('sv151-bb', 'sv151'),
+      product('sv151-etb', 'sv151', 'etb'),
+      product('ssp-bb', 'sv-surging-sparks'),
+    ]);
+    await ProductSetModel.create({
+      id: 'sv151',
+      name: 'Scarlet & Violet 151',
+      series: 'Scarlet & Violet',
+      imageUrl: 'https://cdn.pokeradar.pl/sv151.png',
+      setNumber: 'SV3.5',
+      setAbbreviation: 'MEW',
+    });
+    await ChannelSubscriptionModel.create({
+      guildId: 'guild-1',
+      channelId: 'channel-1',
+      createdBy: 'admin-1',
+      filter: { productSetIds: ['sv151'], productTypeIds: [], shopIds: [], maxPrice: 700 },
+    });
+  });
+
+  it('does nothing without subscriptions', async () => {
+    await ChannelSubscriptionModel.deleteMany({});
+    await scrape('sv151-bb', '3trolle', 650);
+
+    expect(await service.run()).toBe(0);
+    expect(poster.post).not.toHaveBeenCalled();
+  });
+
+  it('posts matching offers with product details', async () => {
+    await scrape('sv151-bb', '3trolle', 650);
+    await scrape('sv151-etb', 'cardfan', 720); // above maxPrice
+    await scrape('ssp-bb', 'cardfan', 500); // other set
+
+    expect(await service.run()).toBe(1);
+    expect(poster.post).toHaveBeenCalledWith(
+      'channel-1',
+      expect.objectContaining({
+        productId: 'sv151-bb',
+        shopId: '3trolle',
+        shopName: '3 Trolle',
+        price: 650,
+        maxPrice: 700,
+        imageUrl: 'https://cdn.pokeradar.pl/sv151-bb.png',
+        productSetName: 'Scarlet & Violet 151',
+      }),
+    );
+  });
+
+  it('posts an offer again only when its price drops', async () => {
+    await scrape('sv151-bb', '3trolle', 650);
+    await service.run();
+
+    await scrape('sv151-bb', '3trolle', 650);
+    expect(await service.run()).toBe(0);
+
+    await scrape('sv151-bb', '3trolle', 620);
+    expect(await service.run()).toBe(1);
+    expect(poster.post).toHaveBeenLastCalledWith(
+      'channel-1',
+      expect.objectContaining({ price: 620 }),
+    );
+  });
+
+  it('posts again after the offer sells out and returns', async () => {
+    await scrape('sv151-bb', '3trolle', 650);
+    await service.run();
+
+    await scrape('sv151-bb', '3trolle', 650, false);
+    await service.run();
+    expect(await ChannelPostStateModel.countDocuments()).toBe(0);
+
+    await scrape('sv151-bb', '3trolle', 650);
+    expect(await service.run()).toBe(1);
+  });
+
+  it('does not post again when an offer returns after a gap in scraping', async () => {
+    await scrape('sv151-bb', '3trolle', 650);
+    await service.run();
+
+    await ProductResultModel.deleteMany({});
+    expect(await service.run()).toBe(0);
+    expect(await ChannelPostStateModel.countDocuments()).toBe(1);
+
+    await scrape('sv151-bb', '3trolle', 650);
+    expect(await service.run()).toBe(0);
+  });
+
+  it('keeps unposted offers for the next run when a post fails', async () => {
+    await scrape('sv151-bb', '3trolle', 600);
+    await scrape('sv151-etb', 'cardfan', 650);
+    poster.post.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('rate limited'));
+
+    expect(await service.run()).toBe(0);
+    expect(await ChannelPostStateModel.find().lean()).toEqual([
+      expect.objectContaining({ productId: 'sv151-bb', price: 600 }),
+    ]);
+
+    expect(await service.run()).toBe(1);
+    expect(poster.post).toHaveBeenLastCalledWith(
+      'channel-1',
+      expect.objectContaining({ productId: 'sv151-etb' }),
+    );
+  });
+
+  it('removes the subscription when the channel is gone', async () => {
+    await scrape('sv151-bb', '3trolle', 650);
+    poster.post.mockRejectedValue(new PermanentDeliveryError('Unknown Channel'));
+
+    await service.run();
+
+    expect(await ChannelSubscriptionModel.countDocuments()).toBe(0);
+    expect(await ChannelPostStateModel.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  ChannelPostStateModel,
+  ChannelSubscriptionModel,
+  ProductResultModel,
+  ProductSetModel,
+  ProductTypeModel,
+  WatchlistProductModel,
+} from '@pokeradar/shared';
+import { ChannelSubscriptionHandler, resolveNames } from '../../src/channel-feed';
+import { CHANNEL_FEED_MESSAGES } from '../../src/messages/notification.messages';
+
+const sets = [
+  { id: 'sv151', name: 'Scarlet & Violet 151' },
+  { id: 'sv-prismatic-evolutions', name: 'Prismatic Evolutions' },
+  { id: 'sv-surging-sparks', name: 'Surging Sparks' },
+  { id: 'sv-stellar-crown', name: 'Stellar Crown' },
+];
+
+describe('resolveNames', () => {
+  it('matches ids, exact names and unique partial names', () => {
+    const { matched, unknown } = resolveNames('sv151, surging sparks, prismatic', sets);
+
+    expect(matched.map((s) => s.id)).toEqual([
+      'sv151',
+      'sv-surging-sparks',
+      'sv-prismatic-evolutions',
+    ]);
+    expect(unknown).toEqual([]);
+  });
+
+  it('ignores punctuation and case', () => {
+    const { matched } = resolveNames('SCARLET VIOLET 151', sets);
+
+    expect(matched.map((s) => s.id)).toEqual(['sv151']);
+  });
+
+  it('reports terms matching nothing or several options', () => {
+    const { matched, unknown } = resolveNames('obsidian, s', sets);
+
+    expect(matched).toEqual([]);
+    expect(unknown).toEqual(['obsidian', 's']);
+  });
+
+  it('returns nothing for an empty option', () => {
+    expect(resolveNames(null, sets)).toEqual({ matched: [], unknown: [] });
+    expect(resolveNames(' , ', sets)).toEqual({ matched: [], unknown: [] });
+  });
+
+  it('lists each option once', () => {
+    const { matched } = resolveNames('sv151, 151', sets);
+
+    expect(matched).toHaveLength(1);
+  });
+});
+
+describe('ChannelSubscriptionHandler', () => {
+  const handler = new ChannelSubscriptionHandler(CHANNEL_FEED_MESSAGES);
+  const request = {
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    userId: 'admin-1',
+    sets: null,
+    types: null,
+    shops: null,
+    maxPrice: null,
+  };
+
+  beforeEach(async () => {
+    await ProductSetModel.insertMany(
+      sets.map((set) => ({
+        ...set,
+        series: 'Scarlet & Violet',
+        imageUrl: 'https://cdn.pokeradar.pl/set.png',
+        setNumber: set.id,
+        setAbbreviation: 'SV',
+      })),
+    );
+    await ProductTypeModel.create({ id: 'booster-box', name: 'Booster Box' });
+  });
+
+  it('requires a set, product type or price filter', async () => {
+    const reply = await handler.subscribe({ ...request, shops: '3 Trolle' });
+
+    expect(reply).toBe(CHANNEL_FEED_MESSAGES.emptyFilter);
+    expect(await ChannelSubscriptionModel.countDocuments()).toBe(0);
+  });
+
+  it('stores the resolved filter for the channel', async () => {
+    const reply = await handler.subscribe({
+      ...request,
+      sets: '151',
+      types: 'booster box',
+      shops: '3trolle, cardfan',
+      maxPrice: 700,
+    });
+
+    const subscription = await ChannelSubscriptionModel.findOne({ channelId: 'channel-1' }).lean();
+    expect(subscription).toMatchObject({
+      guildId: 'guild-1',
+      createdBy: 'admin-1',
+      filter: {
+        productSetIds: ['sv151'],
+        productTypeIds: ['booster-box'],
+        shopIds: ['3trolle', 'cardfan'],
+        maxPrice: 700,
+      },
+    });
+    expect(reply).toContain('Scarlet & Violet 151');
+    expect(reply).toContain('3 Trolle, CardFan');
+    expect(reply).toContain('700,00 zł');
+  });
+
+  it('replaces the filter when the channel subscribes again', async () => {
+    await handler.subscribe({ ...request, sets: 'sv151' });
+    await handler.subscribe({ ...request, maxPrice: 300 });
+
+    const subscriptions = await ChannelSubscriptionModel.find().lean();
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0].filter).toMatchObject({ productSetIds: [], maxPrice: 300 });
+  });
+
+  it('marks the offers matching at subscribe time as already posted', async () => {
+    await WatchlistProductModel.insertMany(
+      ['sv151-booster-box', 'ssp-booster-box'].map((id) => ({
+        id,
+        name: id,
+        imageUrl: `https://cdn.pokeradar.pl/${id}.png`,
+        productSetId: id.startsWith('sv151') ? 'sv151' : 'sv-surging-sparks',
+        productTypeId: 'booster-box',
+      })),
+    );
+    await ProductResultModel.insertMany(
+      ['sv151-booster-box', 'ssp-booster-box'].map((productId) => ({
+        productId,
+        shopId: '3trolle',
+        hourBucket: 'now',
+        productUrl: `https://3trolle.pl/${productId}`,
+        price: 650,
+        isAvailable: true,
+        timestamp: new Date(),
+      })),
+    );
+    await ChannelPostStateModel.create({
+      channelId: 'channel-1',
+      productId: 'sv151-booster-box',
+      shopId: '3trolle',
+      price: 700,
+    });
+
+    await handler.subscribe({ ...request, sets: '151' });
+    await handler.subscribe({ ...request, sets: 'surging sparks' });
+
+    const states = await ChannelPostStateModel.find().sort({ productId: 1 }).lean();
+    expect(states).toEqual([
+      expect.objectContaining({ productId: 'ssp-booster-box', price: 650 }),
+      // An earlier post at a higher price is kept, so the drop still gets posted
+      expect.objectContaining({ productId: 'sv151-booster-box', price: 700 }),
+    ]);
+  });
+
+  it('rejects unknown names without saving', async () => {
+    const reply = await handler.subscribe({ ...request, sets: '151', shops: 'allegro' });
+
+    expect(reply).toBe(CHANNEL_FEED_MESSAGES.unknownNames('sklepy', ['allegro']));
+    expect(await ChannelSubscriptionModel.countDocuments()).toBe(0);
+  });
+
+  it('removes the feed and its post state on unsubscribe', async () => {
+    await handler.subscribe({ ...request, maxPrice: 300 });
+    await ChannelPostStateModel.create({
+      channelId: 'channel-1',
+      productId: 'sv151-booster-box',
+      shopId: '3trolle',
+      price: 250,
+    });
+
+    const reply = await handler.unsubscribe('guild-1', 'channel-1');
+
+    expect(reply).toBe(CHANNEL_FEED_MESSAGES.unsubscribed('channel-1'));
+    expect(await ChannelSubscriptionModel.countDocuments()).toBe(0);
+    expect(await ChannelPostStateModel.countDocuments()).toBe(0);
+  });
+
+  it("does not remove another server's feed", async () => {
+    await handler.subscribe({ ...request, maxPrice: 300 });
+
+    const reply = await handler.unsubscribe('guild-2', 'channel-1');
+
+    expect(reply).toBe(CHANNEL_FEED_MESSAGES.notSubscribed('channel-1'));
+    expect(await ChannelSubscriptionModel.countDocuments()).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import nodemailer from 'nodemailer';
+import { EmailNotificationChannel } from '../../../src/notifications/channels';
+import { INotificationPayload } from '@pokeradar/shared';
+
+interface SentMessage {
+  from: { address: string };
+  to: { address: string }[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+describe('EmailNotificationChannel', () => {
+  const mockPayload: INotificationPayload = {
+    productName: 'Pokemon 151 Booster Box',
+    shopName: 'Rebel <Games>',
+    shopId: 'rebel',
+    productId: 'pokemon-151-booster-box',
+    price: 149.99,
+    maxPrice: 160.0,
+    productUrl: 'https://rebel.pl/product/pokemon-151?ref=a&b=c',
+  };
+
+  // jsonTransport acts as a local sink: sendMail resolves with the rendered message
+  const transporter = nodemailer.createTransport({ jsonTransport: true });
+  let sent: SentMessage[];
+  let channel: EmailNotificationChannel;
+
+  beforeEach(() => {
+    sent = [];
+    const sendMail = transporter.sendMail.bind(transporter);
+    jest.spyOn(transporter, 'sendMail').mockImplementation(async (options) => {
+      const info = await sendMail(options);
+      sent.push(JSON.parse(info.message as unknown as string));
+      return info;
+    });
+    channel = new EmailNotificationChannel(transporter, 'pokeradar <alerts@pokeradar.pl>');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('has name "email"', () => {
+    expect(channel.name).toBe('email');
+  });
+
+  it('sends a text and HTML message to the target address', async () => {
+    await channel.send('user@example.com', mockPayload);
+
+    expect(sent).toHaveLength(1);
+    const [message] = sent;
+    expect(message.from.address).toBe('alerts@pokeradar.pl');
+    expect(message.to[0].address).toBe('user@example.com');
+    expect(message.subject).toContain('Pokemon 151 Booster Box');
+    expect(message.subject).toContain('149,99 zł');
+    expect(message.text).toContain('Produkt dostępny!');
+    expect(message.text).toContain('Kup teraz → https://rebel.pl/product/pokemon-151?ref=a&b=c');
+    expect(message.html).toContain('<strong>Pokemon 151 Booster Box</strong>');
+  });
+
+  it('escapes shop names and links in the HTML part', async () => {
+    await channel.send('user@example.com', mockPayload);
+
+    const [message] = sent;
+    expect(message.html).toContain('Rebel &lt;Games&gt;');
+    expect(message.html).toContain('href="https://rebel.pl/product/pokemon-151?ref=a&amp;b=c"');
+    expect(message.text).toContain('Sklep: Rebel <Games>');
+  });
+
+  it('bundles a digest into a single email', async () => {
+    await channel.sendDigest('user@example.com', [
+      mockPayload,
+      { ...mockPayload, productName: 'Paldean Fates ETB', price: 219.5 },
+    ]);
+
+    expect(sent).toHaveLength(1);
+    const [message] = sent;
+    expect(message.subject).toBe('📬 Zebrane powiadomienia (2)');
+    expect(message.text).toContain('Pokemon 151 Booster Box');
+    expect(message.text).toContain('Paldean Fates ETB');
+    expect(message.html).toContain('219,50 zł');
+  });
+
+  it('propagates transport errors', async () => {
+    (transporter.sendMail as unknown as jest.Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+    await expect(channel.send('user@example.com', mockPayload)).rejects.toThrow('SMTP down');
+  });
+});
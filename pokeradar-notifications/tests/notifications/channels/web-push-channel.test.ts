@@ -0,0 +1,105 @@
+import webpush, { WebPushError } from 'web-push';
+import { PermanentDeliveryError, WebPushChannel } from '../../../src/notifications/channels';
+import { INotificationPayload, UserModel } from '@pokeradar/shared';
+
+jest.mock('web-push', () => {
+  const actual = jest.requireActual('web-push');
+  return {
+    __esModule: true,
+    default: { sendNotification: jest.fn() },
+    WebPushError: actual.WebPushError,
+  };
+});
+
+const sendNotification = webpush.sendNotification as jest.Mock;
+
+describe('WebPushChannel', () => {
+  const mockPayload: INotificationPayload = {
+    productName: 'Pokemon 151 Booster Box',
+    shopName: 'Rebel.pl',
+    shopId: 'rebel',
+    productId: 'pokemon-151-booster-box',
+    price: 149.99,
+    maxPrice: 160.0,
+    productUrl: 'https://rebel.pl/product/pokemon-151',
+  };
+
+  const vapidDetails = {
+    subject: 'mailto:test@pokeradar.pl',
+    publicKey: 'public-key',
+    privateKey: 'private-key',
+  };
+  const endpoint = 'https://push.example.com/sub-1';
+  const keys = { p256dh: 'p256dh-key', auth: 'auth-secret' };
+
+  let channel: WebPushChannel;
+
+  beforeEach(async () => {
+    sendNotification.mockReset().mockResolvedValue({ statusCode: 201, body: '', headers: {} });
+    channel = new WebPushChannel(vapidDetails);
+    await UserModel.create({
+      clerkId: `clerk-push-${Date.now()}`,
+      pushSubscriptions: [{ endpoint, keys }],
+    });
+  });
+
+  it('has name "push"', () => {
+    expect(channel.name).toBe('push');
+  });
+
+  it('sends a JSON message to the stored subscription', async () => {
+    await channel.send(endpoint, mockPayload);
+
+    expect(sendNotification).toHaveBeenCalledWith(
+      { endpoint, keys },
+      expect.any(String),
+      expect.objectContaining({ vapidDetails }),
+    );
+    const message = JSON.parse(sendNotification.mock.calls[0][1]);
+    expect(message.title).toContain('Pokemon 151 Booster Box');
+    expect(message.body).toContain('149,99 zł');
+    expect(message.url).toBe('https://rebel.pl/product/pokemon-151');
+  });
+
+  it('summarises a digest in one notification', async () => {
+    await channel.sendDigest(
+      endpoint,
+      ['A', 'B', 'C', 'D', 'E'].map((name) => ({ ...mockPayload, productName: name })),
+    );
+
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+    const message = JSON.parse(sendNotification.mock.calls[0][1]);
+    expect(message.title).toBe('📬 Zebrane powiadomienia (5)');
+    expect(message.body).toContain('…i 2 więcej');
+    expect(message.url).toBeUndefined();
+  });
+
+  it('removes the subscription when the push service reports it gone', async () => {
+    sendNotification.mockRejectedValueOnce(
+      new WebPushError('Gone', 410, {}, 'push subscription has unsubscribed', endpoint),
+    );
+
+    await expect(channel.send(endpoint, mockPayload)).rejects.toBeInstanceOf(
+      PermanentDeliveryError,
+    );
+
+    const user = await UserModel.findOne({ 'pushSubscriptions.endpoint': endpoint }).lean();
+    expect(user).toBeNull();
+  });
+
+  it('keeps the subscription on other push service errors', async () => {
+    sendNotification.mockRejectedValueOnce(new WebPushError('Busy', 503, {}, '', endpoint));
+
+    await expect(channel.send(endpoint, mockPayload)).rejects.toThrow('Busy');
+
+    const user = await UserModel.findOne({ 'pushSubscriptions.endpoint': endpoint }).lean();
+    expect(user).not.toBeNull();
+  });
+
+  it('fails permanently for an unknown endpoint', async () => {
+    await expect(
+      channel.send('https://push.example.com/unknown', mockPayload),
+    ).rejects.toBeInstanceOf(PermanentDeliveryError);
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  PermanentDeliveryError,
+  WebhookChannel,
+  signWebhookBody,
+} from '../../../src/notifications/channels';
+import { INotificationPayload, UserModel } from '@pokeradar/shared';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookChannel', () => {
+  const mockPayload: INotificationPayload = {
+    productName: 'Pokemon 151 Booster Box',
+    shopName: 'Rebel.pl',
+    shopId: 'rebel',
+    productId: 'pokemon-151-booster-box',
+    price: 149.99,
+    maxPrice: 160.0,
+    productUrl: 'https://rebel.pl/product/pokemon-151',
+  };
+  const secret = 'webhook-secret';
+
+  let server: http.Server;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let webhookId: string;
+  let channel: WebhookChannel;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    responseStatus = 204;
+    const { port } = server.address() as AddressInfo;
+    const user = await UserModel.create({
+      clerkId: `clerk-webhook-${Date.now()}`,
+      webhooks: [{ url: `http://127.0.0.1:${port}/hook`, secret }],
+    });
+    webhookId = user.webhooks[0]._id.toString();
+    // The receiver runs on loopback, which real webhooks may not target
+    channel = new WebhookChannel({
+      timeoutMs: 2000,
+      maxConsecutiveFailures: 2,
+      allowPrivateNetworks: true,
+    });
+  });
+
+  async function getWebhook() {
+    const user = await UserModel.findOne({ 'webhooks._id': webhookId }).lean();
+    return user!.webhooks[0];
+  }
+
+  it('has name "webhook"', () => {
+    expect(channel.name).toBe('webhook');
+  });
+
+  it('posts the payload as signed JSON', async () => {
+    await channel.send(webhookId, mockPayload);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual(mockPayload);
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-pokeradar-event']).toBe('notification');
+    const timestamp = request.headers['x-pokeradar-timestamp'] as string;
+    expect(request.headers['x-pokeradar-signature']).toBe(
+      `sha256=${signWebhookBody(secret, timestamp, request.body)}`,
+    );
+  });
+
+  it('posts a digest as an array of payloads', async () => {
+    await channel.sendDigest(webhookId, [mockPayload, { ...mockPayload, price: 139.99 }]);
+
+    const [request] = received;
+    expect(request.headers['x-pokeradar-event']).toBe('digest');
+    expect(JSON.parse(request.body)).toHaveLength(2);
+  });
+
+  it('counts a failure per notification, not per request', async () => {
+    responseStatus = 500;
+    await expect(channel.send(webhookId, mockPayload)).rejects.toThrow('HTTP 500');
+    await expect(channel.send(webhookId, mockPayload)).rejects.toThrow('HTTP 500');
+    expect((await getWebhook()).consecutiveFailures).toBe(0);
+
+    await channel.onDeliveryFailed(webhookId);
+    expect((await getWebhook()).consecutiveFailures).toBe(1);
+
+    responseStatus = 200;
+    await channel.send(webhookId, mockPayload);
+    expect((await getWebhook()).consecutiveFailures).toBe(0);
+  });
+
+  it('disables the webhook after repeated failed notifications', async () => {
+    await channel.onDeliveryFailed(webhookId);
+    expect((await getWebhook()).disabled).toBe(false);
+    await channel.onDeliveryFailed(webhookId);
+    expect((await getWebhook()).disabled).toBe(true);
+
+    await expect(channel.send(webhookId, mockPayload)).rejects.toBeInstanceOf(
+      PermanentDeliveryError,
+    );
+    expect(received).toHaveLength(0);
+  });
+
+  describe('private network protection', () => {
+    let strictChannel: WebhookChannel;
+
+    beforeEach(() => {
+      strictChannel = new WebhookChannel({ timeoutMs: 2000, maxConsecutiveFailures: 2 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    async function pointWebhookAt(url: string) {
+      await UserModel.updateOne({ 'webhooks._id': webhookId }, { $set: { 'webhooks.$.url': url } });
+    }
+
+    it('refuses an IP literal in a private range without connecting', async () => {
+      await expect(strictChannel.send(webhookId, mockPayload)).rejects.toBeInstanceOf(
+        PermanentDeliveryError,
+      );
+
+      expect(received).toHaveLength(0);
+      const webhook = await getWebhook();
+      expect(webhook.disabled).toBe(true);
+      expect(webhook.consecutiveFailures).toBe(0);
+    });
+
+    it('refuses a hostname that resolves to a loopback address', async () => {
+      const { port } = server.address() as AddressInfo;
+      await pointWebhookAt(`http://hooks.example.com:${port}/hook`);
+      const lookup = dns.lookup;
+      jest
+        .spyOn(dns, 'lookup')
+        .mockImplementation(((hostname: string, options: dns.LookupOptions, callback: never) =>
+          lookup(
+            hostname === 'hooks.example.com' ? '127.0.0.1' : hostname,
+            options,
+            callback,
+          )) as never);
+
+      await expect(strictChannel.send(webhookId, mockPayload)).rejects.toThrow(
+        'does not resolve to a public address',
+      );
+
+      expect(received).toHaveLength(0);
+      const webhook = await getWebhook();
+      expect(webhook.disabled).toBe(true);
+      expect(webhook.consecutiveFailures).toBe(0);
+    });
+  });
+});
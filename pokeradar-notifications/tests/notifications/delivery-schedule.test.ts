@@ -0,0 +1,73 @@
+import { getReleaseTime } from '../../src/notifications/delivery-schedule';
+
+describe('getReleaseTime', () => {
+  // 2025-01-15 22:30 UTC = 23:30 in Warsaw (CET, UTC+1)
+  const now = new Date('2025-01-15T22:30:20Z');
+
+  it('sends right away without a schedule', () => {
+    expect(getReleaseTime(undefined, now)).toBeNull();
+    expect(getReleaseTime({ timezone: 'UTC', quietHours: null, digestTime: null }, now)).toBeNull();
+  });
+
+  it('holds until the end of quiet hours spanning midnight', () => {
+    const releaseAt = getReleaseTime(
+      {
+        timezone: 'Europe/Warsaw',
+        quietHours: { start: '23:00', end: '07:00' },
+        digestTime: null,
+      },
+      now,
+    );
+
+    expect(releaseAt).toEqual(new Date('2025-01-16T06:00:00Z'));
+  });
+
+  it('sends right away outside quiet hours', () => {
+    const releaseAt = getReleaseTime(
+      { timezone: 'UTC', quietHours: { start: '23:00', end: '07:00' }, digestTime: null },
+      now,
+    );
+
+    expect(releaseAt).toBeNull();
+  });
+
+  it('holds within a same-day window', () => {
+    const releaseAt = getReleaseTime(
+      { timezone: 'UTC', quietHours: { start: '22:00', end: '23:00' }, digestTime: null },
+      now,
+    );
+
+    expect(releaseAt).toEqual(new Date('2025-01-15T23:00:00Z'));
+  });
+
+  it('ignores a zero-length window', () => {
+    const releaseAt = getReleaseTime(
+      { timezone: 'UTC', quietHours: { start: '22:00', end: '22:00' }, digestTime: null },
+      now,
+    );
+
+    expect(releaseAt).toBeNull();
+  });
+
+  it('holds digest notifications until the next digest time', () => {
+    const releaseAt = getReleaseTime(
+      { timezone: 'Europe/Warsaw', quietHours: null, digestTime: '08:00' },
+      now,
+    );
+
+    expect(releaseAt).toEqual(new Date('2025-01-16T07:00:00Z'));
+  });
+
+  it('prefers the digest time over quiet hours', () => {
+    const releaseAt = getReleaseTime(
+      {
+        timezone: 'Europe/Warsaw',
+        quietHours: { start: '23:00', end: '07:00' },
+        digestTime: '09:00',
+      },
+      now,
+    );
+
+    expect(releaseAt).toEqual(new Date('2025-01-16T08:00:00Z'));
+  });
+});
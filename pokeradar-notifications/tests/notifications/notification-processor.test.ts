@@ -1,6 +1,6 @@
 import { NotificationProcessor } from '../../src/notifications/notification-processor';
 import { RateLimiter } from '../../src/notifications/rate-limiter';
-import { INotificationChannel } from '../../src/notifications/channels';
+import { INotificationChannel, PermanentDeliveryError } from '../../src/notifications/channels';
 import { NotificationModel, UserModel } from '@pokeradar/shared';
 import { INotificationPayload, ILogger } from '@pokeradar/shared';
 
@@ -25,12 +25,18 @@ function createMockChannel(overrides: Partial<INotificationChannel> = {}): INoti
   return {
     name: 'telegram',
     send: jest.fn().mockResolvedValue(undefined),
+    sendDigest: jest.fn().mockResolvedValue(undefined),
     ...overrides,
   };
 }
 
 let testUserId: string;
 
+/** UTC 'HH:mm' this many minutes from now. */
+function utcClock(offsetMinutes: number): string {
+  return new Date(Date.now() + offsetMinutes * 60_000).toISOString().slice(11, 16);
+}
+
 describe('NotificationProcessor', () => {
   const retryConfig = {
     maxAttempts: 3,
@@ -75,8 +81,9 @@ describe('NotificationProcessor', () => {
       await processor.drain();
 
       expect(channel.send).toHaveBeenCalledTimes(1);
-      const [target, payload] = (channel.send as jest.Mock).mock.calls[0];
+      const [target, payload, notificationId] = (channel.send as jest.Mock).mock.calls[0];
       expect(target).toBe('chat-123');
+      expect(notificationId).toBe(doc._id.toString());
       expect(payload.productName).toBe(mockPayload.productName);
       expect(payload.price).toBe(mockPayload.price);
       expect(payload.shopName).toBe(mockPayload.shopName);
@@ -145,6 +152,153 @@ describe('NotificationProcessor', () => {
       expect(updated!.deliveries[0].attempts).toBe(3);
       expect(updated!.deliveries[0].error).toBe('Persistent error');
     });
+
+    it('reports a failed delivery to the channel once, after the last retry', async () => {
+      const failingChannel = createMockChannel({
+        send: jest.fn().mockRejectedValue(new Error('Persistent error')),
+        onDeliveryFailed: jest.fn().mockResolvedValue(undefined),
+      });
+      processor = new NotificationProcessor(retryConfig, mockLogger);
+      processor.registerChannel(failingChannel, rateLimiter);
+
+      processor.enqueue(await createPendingNotification());
+      await processor.drain();
+
+      expect(failingChannel.send).toHaveBeenCalledTimes(3);
+      expect(failingChannel.onDeliveryFailed).toHaveBeenCalledTimes(1);
+      expect(failingChannel.onDeliveryFailed).toHaveBeenCalledWith('chat-123');
+    });
+
+    it('does not retry a permanent delivery error', async () => {
+      const failingChannel = createMockChannel({
+        send: jest.fn().mockRejectedValue(new PermanentDeliveryError('Subscription gone')),
+        onDeliveryFailed: jest.fn().mockResolvedValue(undefined),
+      });
+      processor = new NotificationProcessor(retryConfig, mockLogger);
+      processor.registerChannel(failingChannel, rateLimiter);
+
+      const doc = await createPendingNotification();
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(failingChannel.send).toHaveBeenCalledTimes(1);
+      const updated = await NotificationModel.findById(doc._id).lean();
+      expect(updated!.deliveries[0].status).toBe('failed');
+      expect(updated!.deliveries[0].attempts).toBe(1);
+      expect(updated!.deliveries[0].error).toBe('Subscription gone');
+      expect(failingChannel.onDeliveryFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email channel', () => {
+    it('delivers to a verified email address alongside Telegram', async () => {
+      const emailChannel = createMockChannel({ name: 'email' });
+      processor.registerChannel(emailChannel, rateLimiter);
+      await UserModel.updateOne(
+        { _id: testUserId },
+        {
+          $set: { email: { channelId: 'user@example.com', linkToken: null, pendingAddress: null } },
+        },
+      );
+      const doc = await createPendingNotification();
+
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(channel.send).toHaveBeenCalledTimes(1);
+      expect(emailChannel.send).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.anything(),
+        doc._id.toString(),
+      );
+      const updated = await NotificationModel.findById(doc._id).lean();
+      expect(updated!.deliveries.map((d) => d.channel)).toEqual(['telegram', 'email']);
+    });
+
+    it('skips an address that is still pending verification', async () => {
+      const emailChannel = createMockChannel({ name: 'email' });
+      processor.registerChannel(emailChannel, rateLimiter);
+      await UserModel.updateOne(
+        { _id: testUserId },
+        {
+          $set: {
+            email: { channelId: null, linkToken: 'tok', pendingAddress: 'user@example.com' },
+          },
+        },
+      );
+      const doc = await createPendingNotification();
+
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(emailChannel.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('push channel', () => {
+    it('creates one delivery per browser subscription', async () => {
+      const pushChannel = createMockChannel({ name: 'push' });
+      processor.registerChannel(pushChannel, rateLimiter);
+      const keys = { p256dh: 'p256dh-key', auth: 'auth-secret' };
+      await UserModel.updateOne(
+        { _id: testUserId },
+        {
+          $set: {
+            pushSubscriptions: [
+              { endpoint: 'https://push.example.com/laptop', keys },
+              { endpoint: 'https://push.example.com/phone', keys },
+            ],
+          },
+        },
+      );
+      const doc = await createPendingNotification();
+
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(pushChannel.send).toHaveBeenCalledWith(
+        'https://push.example.com/laptop',
+        expect.anything(),
+        doc._id.toString(),
+      );
+      expect(pushChannel.send).toHaveBeenCalledWith(
+        'https://push.example.com/phone',
+        expect.anything(),
+        doc._id.toString(),
+      );
+      const updated = await NotificationModel.findById(doc._id).lean();
+      expect(updated!.deliveries.map((d) => d.channel)).toEqual(['telegram', 'push', 'push']);
+    });
+  });
+
+  describe('webhook channel', () => {
+    it('delivers to enabled webhooks only', async () => {
+      const webhookChannel = createMockChannel({ name: 'webhook' });
+      processor.registerChannel(webhookChannel, rateLimiter);
+      const user = await UserModel.findByIdAndUpdate(
+        testUserId,
+        {
+          $set: {
+            webhooks: [
+              { url: 'https://hooks.example.com/a', secret: 's1' },
+              { url: 'https://hooks.example.com/b', secret: 's2', disabled: true },
+            ],
+          },
+        },
+        { new: true },
+      );
+      const doc = await createPendingNotification();
+
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(webhookChannel.send).toHaveBeenCalledTimes(1);
+      expect(webhookChannel.send).toHaveBeenCalledWith(
+        user!.webhooks[0]._id.toString(),
+        expect.anything(),
+        doc._id.toString(),
+      );
+    });
   });
 
   describe('no channels configured', () => {
@@ -217,4 +371,95 @@ describe('NotificationProcessor', () => {
       expect(channel.send).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('quiet hours and digest', () => {
+    async function setSchedule(schedule: object) {
+      await UserModel.updateOne({ _id: testUserId }, { $set: { notificationSchedule: schedule } });
+    }
+
+    it('holds notifications raised during quiet hours', async () => {
+      await setSchedule({
+        timezone: 'UTC',
+        quietHours: { start: utcClock(-60), end: utcClock(60) },
+        digestTime: null,
+      });
+      const doc = await createPendingNotification();
+
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(channel.send).not.toHaveBeenCalled();
+      const updated = await NotificationModel.findById(doc._id).lean();
+      expect(updated!.status).toBe('held');
+      expect(updated!.deliveries).toHaveLength(1);
+      expect(updated!.releaseAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('sends right away outside quiet hours', async () => {
+      await setSchedule({
+        timezone: 'UTC',
+        quietHours: { start: utcClock(60), end: utcClock(120) },
+        digestTime: null,
+      });
+      const doc = await createPendingNotification();
+
+      processor.enqueue(doc);
+      await processor.drain();
+
+      expect(channel.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not release held notifications before their time', async () => {
+      await setSchedule({ timezone: 'UTC', quietHours: null, digestTime: utcClock(60) });
+      const doc = await createPendingNotification();
+      processor.enqueue(doc);
+      await processor.drain();
+
+      const released = await processor.releaseHeld();
+
+      expect(released).toBe(0);
+      expect(channel.send).not.toHaveBeenCalled();
+    });
+
+    it('sends a single released notification as a regular message', async () => {
+      await setSchedule({ timezone: 'UTC', quietHours: null, digestTime: utcClock(60) });
+      const doc = await createPendingNotification();
+      processor.enqueue(doc);
+      await processor.drain();
+
+      const released = await processor.releaseHeld(new Date(Date.now() + 2 * 60 * 60_000));
+      await processor.drain();
+
+      expect(released).toBe(1);
+      expect(channel.send).toHaveBeenCalledTimes(1);
+      expect(channel.sendDigest).not.toHaveBeenCalled();
+      const updated = await NotificationModel.findById(doc._id).lean();
+      expect(updated!.status).toBe('sent');
+      expect(updated!.deliveries[0].status).toBe('sent');
+    });
+
+    it('bundles several released notifications into one digest per channel', async () => {
+      await setSchedule({ timezone: 'UTC', quietHours: null, digestTime: utcClock(60) });
+      const doc1 = await createPendingNotification();
+      const doc2 = await createPendingNotification();
+      processor.enqueue(doc1);
+      processor.enqueue(doc2);
+      await processor.drain();
+
+      const released = await processor.releaseHeld(new Date(Date.now() + 2 * 60 * 60_000));
+
+      expect(released).toBe(2);
+      expect(channel.send).not.toHaveBeenCalled();
+      expect(channel.sendDigest).toHaveBeenCalledTimes(1);
+      const [target, payloads] = (channel.sendDigest as jest.Mock).mock.calls[0];
+      expect(target).toBe('chat-123');
+      expect(payloads).toHaveLength(2);
+
+      for (const doc of [doc1, doc2]) {
+        const updated = await NotificationModel.findById(doc._id).lean();
+        expect(updated!.status).toBe('sent');
+        expect(updated!.deliveries[0].status).toBe('sent');
+      }
+    });
+  });
 });
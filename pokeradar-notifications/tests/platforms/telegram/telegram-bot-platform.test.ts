@@ -86,11 +86,11 @@ describe('TelegramBotPlatform', () => {
     );
   });
 
-  it('registers all three commands (start, link, help)', async () => {
+  it('registers the account and watchlist commands', async () => {
     await platform.start();
 
     // onText should be called for each command
-    expect(mockBot.onText).toHaveBeenCalledTimes(3);
+    expect(mockBot.onText).toHaveBeenCalledTimes(9);
 
     const patterns = mockBot.onText.mock.calls.map((call: [RegExp, ...unknown[]]) =>
       call[0].toString(),
@@ -98,5 +98,8 @@ describe('TelegramBotPlatform', () => {
     expect(patterns.some((p: string) => p.includes('start'))).toBe(true);
     expect(patterns.some((p: string) => p.includes('link'))).toBe(true);
     expect(patterns.some((p: string) => p.includes('help'))).toBe(true);
+    for (const command of ['watch', 'unwatch', 'list', 'setprice', 'prices', 'status']) {
+      expect(patterns.some((p: string) => p.includes(`/${command}(`))).toBe(true);
+    }
   });
 });
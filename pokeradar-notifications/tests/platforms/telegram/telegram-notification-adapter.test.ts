@@ -1,6 +1,7 @@
 jest.mock('node-telegram-bot-api', () => {
   return jest.fn().mockImplementation(() => ({
     sendMessage: jest.fn().mockResolvedValue({}),
+    sendPhoto: jest.fn().mockResolvedValue({}),
   }));
 });
 
@@ -20,12 +21,12 @@ describe('TelegramNotificationAdapter', () => {
   };
 
   let adapter: TelegramNotificationAdapter;
-  let mockBot: { sendMessage: jest.Mock };
+  let mockBot: { sendMessage: jest.Mock; sendPhoto: jest.Mock };
 
   beforeEach(() => {
     jest.clearAllMocks();
     const bot = new TelegramBot('test-token', { polling: false });
-    mockBot = bot as unknown as { sendMessage: jest.Mock };
+    mockBot = bot as unknown as { sendMessage: jest.Mock; sendPhoto: jest.Mock };
     adapter = new TelegramNotificationAdapter(bot);
   });
 
@@ -44,6 +45,89 @@ describe('TelegramNotificationAdapter', () => {
     );
   });
 
+  it('attaches action buttons that refer back to the notification', async () => {
+    await adapter.send('chat-123', mockPayload, '65f0c0ffee0000000000beef');
+
+    const [buyRow, ...actionRows] =
+      mockBot.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard;
+    expect(buyRow).toEqual([{ text: '🛒 Kup teraz', url: 'https://rebel.pl/product/pokemon-151' }]);
+    expect(actionRows.flat().map((b: { callback_data: string }) => b.callback_data)).toEqual([
+      'alert:s:65f0c0ffee0000000000beef',
+      'alert:m:65f0c0ffee0000000000beef',
+      'alert:l:65f0c0ffee0000000000beef',
+      'alert:u:65f0c0ffee0000000000beef',
+    ]);
+  });
+
+  it('leaves out the lower-price button on alerts above the threshold', async () => {
+    await adapter.send(
+      'chat-123',
+      { ...mockPayload, price: 199.99, trigger: 'restock' },
+      '65f0c0ffee0000000000beef',
+    );
+
+    const [, ...actionRows] = mockBot.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard;
+    expect(actionRows.flat().map((b: { callback_data: string }) => b.callback_data)).toEqual([
+      'alert:s:65f0c0ffee0000000000beef',
+      'alert:m:65f0c0ffee0000000000beef',
+      'alert:u:65f0c0ffee0000000000beef',
+    ]);
+  });
+
+  it('sends the product photo with the alert as its caption', async () => {
+    await adapter.send(
+      'chat-123',
+      {
+        ...mockPayload,
+        imageUrl: 'https://cdn.pokeradar.pl/pokemon-151.png',
+        productSetName: 'Scarlet & Violet 151',
+      },
+      '65f0c0ffee0000000000beef',
+    );
+
+    expect(mockBot.sendMessage).not.toHaveBeenCalled();
+    const [chatId, photo, options] = mockBot.sendPhoto.mock.calls[0];
+    expect(chatId).toBe('chat-123');
+    expect(photo).toBe('https://cdn.pokeradar.pl/pokemon-151.png');
+    expect(options.caption).toContain('*Pokemon 151 Booster Box*');
+    expect(options.caption).toContain('Zestaw: Scarlet & Violet 151');
+    // The buy link lives in the keyboard instead of the caption
+    expect(options.caption).not.toContain('Kup teraz');
+    expect(options.reply_markup.inline_keyboard).toHaveLength(3);
+  });
+
+  it('falls back to a text alert when Telegram rejects the photo', async () => {
+    mockBot.sendPhoto.mockRejectedValueOnce(
+      Object.assign(
+        new Error('ETELEGRAM: 400 Bad Request: wrong file identifier/HTTP URL specified'),
+        {
+          response: { statusCode: 400 },
+        },
+      ),
+    );
+
+    await adapter.send('chat-123', {
+      ...mockPayload,
+      imageUrl: 'https://cdn.pokeradar.pl/gone.png',
+    });
+
+    expect(mockBot.sendMessage).toHaveBeenCalledTimes(1);
+    expect(mockBot.sendMessage.mock.calls[0][1]).toContain('Pokemon 151 Booster Box');
+  });
+
+  it('does not retry as text when sending the photo fails for another reason', async () => {
+    mockBot.sendPhoto.mockRejectedValueOnce(
+      Object.assign(new Error('ETELEGRAM: 403 Forbidden: bot was blocked by the user'), {
+        response: { statusCode: 403 },
+      }),
+    );
+
+    await expect(
+      adapter.send('chat-123', { ...mockPayload, imageUrl: 'https://cdn.pokeradar.pl/151.png' }),
+    ).rejects.toThrow('bot was blocked');
+    expect(mockBot.sendMessage).not.toHaveBeenCalled();
+  });
+
   it('formats the message in Polish', async () => {
     await adapter.send('chat-123', mockPayload);
 
@@ -53,9 +137,58 @@ describe('TelegramNotificationAdapter', () => {
     expect(message).toContain('Sklep: Rebel.pl');
     expect(message).toContain('149,99 zł');
     expect(message).toContain('160,00 zł');
+    expect(message).toContain('oszczędzasz 6%');
     expect(message).toContain('[Kup teraz →](https://rebel.pl/product/pokemon-151)');
   });
 
+  it('explains alerts fired by a price drop below the 7-day average', async () => {
+    await adapter.send('chat-123', {
+      ...mockPayload,
+      price: 170,
+      trigger: 'price-drop',
+      averagePrice: 200,
+    });
+
+    const message = mockBot.sendMessage.mock.calls[0][1] as string;
+    expect(message).toContain('15% poniżej średniej z 7 dni (200,00 zł)');
+  });
+
+  it('marks restock alerts', async () => {
+    await adapter.send('chat-123', { ...mockPayload, price: 199.99, trigger: 'restock' });
+
+    const message = mockBot.sendMessage.mock.calls[0][1] as string;
+    expect(message).toContain('Ponownie w magazynie');
+    expect(message).not.toContain('maks:');
+  });
+
+  it('bundles a digest into one message', async () => {
+    await adapter.sendDigest('chat-123', [
+      mockPayload,
+      { ...mockPayload, productName: 'Paldean Fates ETB', price: 219.5 },
+    ]);
+
+    expect(mockBot.sendMessage).toHaveBeenCalledTimes(1);
+    const message = mockBot.sendMessage.mock.calls[0][1] as string;
+    expect(message).toContain('Zebrane powiadomienia (2)');
+    expect(message).toContain('*Pokemon 151 Booster Box*');
+    expect(message).toContain('*Paldean Fates ETB*');
+    expect(message).toContain('219,50 zł');
+  });
+
+  it('splits a digest that exceeds the message limit', async () => {
+    const payloads = Array.from({ length: 40 }, (_, i) => ({
+      ...mockPayload,
+      productName: `${mockPayload.productName} ${i}`.padEnd(120, '.'),
+    }));
+
+    await adapter.sendDigest('chat-123', payloads);
+
+    expect(mockBot.sendMessage.mock.calls.length).toBeGreaterThan(1);
+    for (const [, message] of mockBot.sendMessage.mock.calls) {
+      expect((message as string).length).toBeLessThanOrEqual(4096);
+    }
+  });
+
   it('propagates errors from the Telegram API', async () => {
     mockBot.sendMessage.mockRejectedValueOnce(new Error('Telegram API error'));
 
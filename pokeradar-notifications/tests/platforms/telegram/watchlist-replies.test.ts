@@ -0,0 +1,106 @@
+jest.mock('node-telegram-bot-api', () => {
+  return jest.fn().mockImplementation(() => ({
+    sendMessage: jest.fn().mockResolvedValue({}),
+    editMessageText: jest.fn().mockResolvedValue({}),
+    answerCallbackQuery: jest.fn().mockResolvedValue(true),
+    on: jest.fn(),
+  }));
+});
+
+import TelegramBot from 'node-telegram-bot-api';
+import { ILogger } from '@pokeradar/shared';
+import { TelegramWatchlistReplies } from '../../../src/platforms/telegram/watchlist-replies';
+
+const mockLogger = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+};
+
+describe('TelegramWatchlistReplies', () => {
+  let replies: TelegramWatchlistReplies;
+  let mockBot: {
+    sendMessage: jest.Mock;
+    editMessageText: jest.Mock;
+    answerCallbackQuery: jest.Mock;
+    on: jest.Mock;
+  };
+  let onCallbackQuery: (query: TelegramBot.CallbackQuery) => Promise<void>;
+
+  const products = [
+    { id: 'sv151-booster-box', name: 'Pokemon 151 Booster Box' },
+    { id: 'sv151-etb', name: 'Pokemon 151 Elite Trainer Box' },
+  ];
+
+  function callbackQuery(data: string, chatId = 99999): TelegramBot.CallbackQuery {
+    return {
+      id: 'cb-1',
+      data,
+      message: { chat: { id: chatId }, message_id: 7 },
+    } as TelegramBot.CallbackQuery;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const bot = new TelegramBot('test-token', { polling: false });
+    mockBot = bot as unknown as typeof mockBot;
+    replies = new TelegramWatchlistReplies(bot, 'https://pokeradar.app', mockLogger as ILogger);
+    onCallbackQuery = mockBot.on.mock.calls.find(([event]) => event === 'callback_query')[1];
+  });
+
+  it('sends text replies as Markdown', async () => {
+    await replies.send(99999, { kind: 'text', text: '✅ *Gotowe*' });
+
+    expect(mockBot.sendMessage).toHaveBeenCalledWith(99999, '✅ *Gotowe*', {
+      parse_mode: 'Markdown',
+      disable_web_page_preview: true,
+    });
+  });
+
+  it('turns a choice into an inline keyboard and applies the pressed option', async () => {
+    const choose = jest.fn().mockResolvedValue('✅ Obserwujesz *Pokemon 151 Elite Trainer Box*.');
+    await replies.send(99999, { kind: 'choice', text: 'Wybierz:', products, choose });
+
+    const keyboard = mockBot.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard;
+    expect(keyboard.map((row: { text: string }[]) => row[0].text)).toEqual([
+      'Pokemon 151 Booster Box',
+      'Pokemon 151 Elite Trainer Box',
+    ]);
+
+    await onCallbackQuery(callbackQuery(keyboard[1][0].callback_data));
+
+    expect(choose).toHaveBeenCalledWith('sv151-etb');
+    expect(mockBot.editMessageText).toHaveBeenCalledWith(
+      '✅ Obserwujesz *Pokemon 151 Elite Trainer Box*.',
+      expect.objectContaining({ chat_id: 99999, message_id: 7 }),
+    );
+  });
+
+  it('ignores presses from other chats and expired pickers', async () => {
+    const choose = jest.fn();
+    await replies.send(99999, { kind: 'choice', text: 'Wybierz:', products, choose });
+    const data = mockBot.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard[0][0]
+      .callback_data as string;
+
+    await onCallbackQuery(callbackQuery(data, 11111));
+    await onCallbackQuery(callbackQuery('pick:unknown:0'));
+
+    expect(choose).not.toHaveBeenCalled();
+    expect(mockBot.answerCallbackQuery).toHaveBeenCalledWith('cb-1', {
+      text: expect.stringContaining('wygasł'),
+    });
+  });
+
+  it('answers each picker only once', async () => {
+    const choose = jest.fn().mockResolvedValue('ok');
+    await replies.send(99999, { kind: 'choice', text: 'Wybierz:', products, choose });
+    const data = mockBot.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard[0][0]
+      .callback_data as string;
+
+    await onCallbackQuery(callbackQuery(data));
+    await onCallbackQuery(callbackQuery(data));
+
+    expect(choose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  INotificationPayload,
+  NotificationModel,
+  NotificationStateModel,
+  UserModel,
+  UserWatchEntryModel,
+} from '@pokeradar/shared';
+import {
+  BotWatchlistService,
+  NotificationActionService,
+  decodeNotificationAction,
+  encodeNotificationAction,
+  notificationActionsFor,
+} from '../../src/watchlist';
+import { getTelegramMessages } from '../../src/messages/notification.messages';
+
+const CHAT_ID = '424242';
+
+const payload: INotificationPayload = {
+  productName: 'Pokemon 151 Booster Box',
+  shopName: 'Rebel.pl',
+  shopId: 'rebel',
+  productId: 'sv151-booster-box',
+  price: 149.99,
+  maxPrice: 160,
+  productUrl: 'https://rebel.pl/product/pokemon-151',
+};
+
+function notificationState(userId: string, shopId: string, lastPrice: number) {
+  return {
+    key: `${userId}:${payload.productId}:${shopId}`,
+    userId,
+    productId: payload.productId,
+    shopId,
+    lastNotified: new Date(),
+    lastPrice,
+    wasAvailable: true,
+  };
+}
+
+describe('decodeNotificationAction', () => {
+  it('round-trips encoded actions', () => {
+    const data = encodeNotificationAction('lower-price', '65f0c0ffee0000000000beef');
+
+    expect(decodeNotificationAction(data)).toEqual({
+      action: 'lower-price',
+      notificationId: '65f0c0ffee0000000000beef',
+    });
+  });
+
+  it.each(['pick:abc:0', 'alert:x:65f0c0ffee0000000000beef', 'alert:s:not-an-id'])(
+    'rejects "%s"',
+    (data) => {
+      expect(decodeNotificationAction(data)).toBeNull();
+    },
+  );
+});
+
+describe('notificationActionsFor', () => {
+  it('offers every action for alerts below the threshold', () => {
+    expect(notificationActionsFor(payload)).toEqual([
+      'snooze',
+      'mute-shop',
+      'lower-price',
+      'unwatch',
+    ]);
+  });
+
+  it('leaves out lowering the threshold when the alert fired above it', () => {
+    const restock = { ...payload, price: 199.99, trigger: 'restock' as const };
+
+    expect(notificationActionsFor(restock)).toEqual(['snooze', 'mute-shop', 'unwatch']);
+  });
+});
+
+describe('NotificationActionService', () => {
+  let service: NotificationActionService;
+  let userId: string;
+  let notificationId: string;
+
+  beforeEach(async () => {
+    service = new NotificationActionService(
+      new BotWatchlistService(),
+      'telegram',
+      getTelegramMessages('https://pokeradar.app'),
+    );
+    const user = await UserModel.create({
+      clerkId: 'clerk-alert-actions',
+      telegram: { channelId: CHAT_ID, linkToken: null },
+    });
+    userId = user._id.toString();
+    await UserWatchEntryModel.create({ userId, productId: payload.productId, maxPrice: 160 });
+    const notification = await NotificationModel.create({ userId, status: 'sent', payload });
+    notificationId = notification._id.toString();
+  });
+
+  it('snoozes the product for 24 hours', async () => {
+    const reply = await service.apply(CHAT_ID, 'snooze', notificationId);
+
+    expect(reply).toContain('Wstrzymano powiadomienia');
+    const entry = await UserWatchEntryModel.findOne({ userId }).lean();
+    const hoursLeft = (entry!.snoozedUntil!.getTime() - Date.now()) / 3_600_000;
+    expect(hoursLeft).toBeGreaterThan(23.9);
+    expect(hoursLeft).toBeLessThanOrEqual(24);
+  });
+
+  it('mutes the shop for every product of the user', async () => {
+    await UserWatchEntryModel.create({
+      userId,
+      productId: 'sv151-etb',
+      maxPrice: 250,
+      alertRules: { shopIds: ['rebel', 'empik'] },
+    });
+    await NotificationStateModel.create(notificationState(userId, 'rebel', 149.99));
+
+    const reply = await service.apply(CHAT_ID, 'mute-shop', notificationId);
+
+    expect(reply).toContain('ze sklepu *Rebel.pl*');
+    const user = await UserModel.findById(userId).lean();
+    expect(user!.excludedShopIds).toEqual(['rebel']);
+    const etb = await UserWatchEntryModel.findOne({ userId, productId: 'sv151-etb' }).lean();
+    expect(etb!.alertRules!.shopIds).toEqual(['empik']);
+    expect(await NotificationStateModel.countDocuments({ userId })).toBe(0);
+  });
+
+  it('lowers the threshold and re-arms shops alerted above it', async () => {
+    await NotificationStateModel.create([
+      notificationState(userId, 'rebel', 149.99),
+      notificationState(userId, 'empik', 155),
+    ]);
+
+    const reply = await service.apply(CHAT_ID, 'lower-price', notificationId);
+
+    expect(reply).toContain('149,99 zł');
+    const entry = await UserWatchEntryModel.findOne({ userId }).lean();
+    expect(entry!.maxPrice).toBe(149.99);
+    const states = await NotificationStateModel.find({ userId }).lean();
+    expect(states.map((s) => s.shopId)).toEqual(['rebel']);
+  });
+
+  it('does not raise the threshold from a restock alert above it', async () => {
+    const restock = await NotificationModel.create({
+      userId,
+      status: 'sent',
+      payload: { ...payload, price: 199.99, trigger: 'restock' },
+    });
+    await NotificationStateModel.create(notificationState(userId, 'rebel', 199.99));
+
+    const reply = await service.apply(CHAT_ID, 'lower-price', restock._id.toString());
+
+    expect(reply).toContain('wynosi już 160,00 zł');
+    const entry = await UserWatchEntryModel.findOne({ userId }).lean();
+    expect(entry!.maxPrice).toBe(160);
+    expect(await NotificationStateModel.countDocuments({ userId })).toBe(1);
+  });
+
+  it('stops watching the product', async () => {
+    const reply = await service.apply(CHAT_ID, 'unwatch', notificationId);
+
+    expect(reply).toContain('Usunięto *Pokemon 151 Booster Box*');
+    expect(await UserWatchEntryModel.countDocuments({ userId })).toBe(0);
+  });
+
+  it("ignores presses on another user's alert", async () => {
+    await UserModel.create({
+      clerkId: 'clerk-other',
+      telegram: { channelId: '777', linkToken: null },
+    });
+
+    const reply = await service.apply('777', 'unwatch', notificationId);
+
+    expect(reply).toContain('nieaktualne');
+    expect(await UserWatchEntryModel.countDocuments({ userId })).toBe(1);
+  });
+});
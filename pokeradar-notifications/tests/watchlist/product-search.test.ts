@@ -0,0 +1,69 @@
+import {
+  parseQueryAndPrice,
+  searchProducts,
+  unambiguousMatch,
+} from '../../src/watchlist/product-search';
+
+const products = [
+  { id: 'sv151-booster-box', name: 'Pokemon 151 Booster Box' },
+  { id: 'sv151-etb', name: 'Pokemon 151 Elite Trainer Box' },
+  { id: 'prismatic-etb', name: 'Prismatic Evolutions Elite Trainer Box' },
+  { id: 'surging-sparks-booster-box', name: 'Surging Sparks Booster Box' },
+];
+
+describe('searchProducts', () => {
+  it('requires every query token to match', () => {
+    const ids = searchProducts(products, '151 booster', 10).map((m) => m.product.id);
+
+    expect(ids).toEqual(['sv151-booster-box']);
+  });
+
+  it('matches token prefixes and single typos', () => {
+    expect(searchProducts(products, 'prism elte', 10).map((m) => m.product.id)).toEqual([
+      'prismatic-etb',
+    ]);
+  });
+
+  it('ranks phrase matches above scattered tokens', () => {
+    const ids = searchProducts(products, 'booster box', 10).map((m) => m.product.id);
+
+    expect(ids).toEqual(['sv151-booster-box', 'surging-sparks-booster-box']);
+  });
+
+  it('flags exact names regardless of case and diacritics', () => {
+    const [match] = searchProducts(products, 'pokémon 151 booster box', 10);
+
+    expect(match.exact).toBe(true);
+  });
+
+  it('returns nothing for a blank query', () => {
+    expect(searchProducts(products, '  ', 10)).toEqual([]);
+  });
+});
+
+describe('unambiguousMatch', () => {
+  it('picks the only match or an exact one', () => {
+    expect(unambiguousMatch(searchProducts(products, 'surging', 10))?.id).toBe(
+      'surging-sparks-booster-box',
+    );
+    expect(unambiguousMatch(searchProducts(products, 'sv151-etb', 10))?.id).toBe('sv151-etb');
+  });
+
+  it('returns null when the user has to choose', () => {
+    expect(unambiguousMatch(searchProducts(products, 'elite trainer', 10))).toBeNull();
+  });
+});
+
+describe('parseQueryAndPrice', () => {
+  it.each([
+    ['151 booster box 149,99 zł', { query: '151 booster box', price: 149.99 }],
+    ['etb 300', { query: 'etb', price: 300 }],
+    ['etb 250.5zl', { query: 'etb', price: 250.5 }],
+  ])('parses "%s"', (args, expected) => {
+    expect(parseQueryAndPrice(args)).toEqual(expected);
+  });
+
+  it.each(['etb', '300', 'etb 0', 'etb -5'])('rejects "%s"', (args) => {
+    expect(parseQueryAndPrice(args)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  NotificationModel,
+  NotificationStateModel,
+  ProductResultModel,
+  UserModel,
+  UserWatchEntryModel,
+  WatchlistProductModel,
+} from '@pokeradar/shared';
+import { BotPriceService, BotWatchlistService, WatchlistCommandHandler } from '../../src/watchlist';
+import { getTelegramMessages } from '../../src/messages/notification.messages';
+
+const CHAT_ID = '424242';
+
+function productResult(productId: string, shopId: string, price: number, isAvailable = true) {
+  return {
+    productId,
+    shopId,
+    productUrl: `https://${shopId}.example.com/${productId}`,
+    hourBucket: new Date().toISOString().slice(0, 13),
+    price,
+    isAvailable,
+    timestamp: new Date(),
+  };
+}
+
+function catalogProduct(id: string, name: string, disabled?: boolean) {
+  return {
+    id,
+    name,
+    imageUrl: `https://img.example.com/${id}.png`,
+    productSetId: 'sv151',
+    productTypeId: 'booster-box',
+    disabled,
+  };
+}
+
+describe('WatchlistCommandHandler', () => {
+  let handler: WatchlistCommandHandler;
+  let userId: string;
+
+  beforeEach(async () => {
+    handler = new WatchlistCommandHandler(
+      new BotWatchlistService(),
+      new BotPriceService(),
+      'telegram',
+      getTelegramMessages('https://pokeradar.app'),
+    );
+    const user = await UserModel.create({
+      clerkId: 'clerk-bot-watchlist',
+      telegram: { channelId: CHAT_ID, linkToken: null },
+    });
+    userId = user._id.toString();
+    await WatchlistProductModel.create([
+      catalogProduct('sv151-booster-box', 'Pokemon 151 Booster Box'),
+      catalogProduct('sv151-etb', 'Pokemon 151 Elite Trainer Box'),
+      catalogProduct('sv151-bundle', 'Pokemon 151 Booster Bundle', true),
+    ]);
+  });
+
+  it('asks unlinked chats to link first', async () => {
+    const reply = await handler.watch('999', '151 booster box');
+
+    expect(reply).toEqual({ kind: 'text', text: expect.stringContaining('/link') });
+  });
+
+  it('watches a single match starting 5% below the best current price', async () => {
+    await ProductResultModel.create(productResult('sv151-booster-box', 'rebel', 200));
+
+    const reply = await handler.watch(CHAT_ID, '151 booster');
+
+    expect(reply.kind).toBe('text');
+    expect(reply.text).toContain('Obserwujesz *Pokemon 151 Booster Box*');
+    const entry = await UserWatchEntryModel.findOne({ userId, productId: 'sv151-booster-box' });
+    expect(entry?.maxPrice).toBe(190);
+  });
+
+  it('skips disabled products when searching the catalog', async () => {
+    const reply = await handler.watch(CHAT_ID, '151 bundle');
+
+    expect(reply.text).toContain('Nie znaleziono produktu');
+  });
+
+  it('offers a choice for ambiguous queries and applies the picked product', async () => {
+    const reply = await handler.watch(CHAT_ID, 'pokemon 151');
+    if (reply.kind !== 'choice') throw new Error('expected a choice');
+
+    expect(reply.products.map((p) => p.id)).toEqual(['sv151-booster-box', 'sv151-etb']);
+    const result = await reply.choose('sv151-etb');
+
+    expect(result).toContain('Pokemon 151 Elite Trainer Box');
+    expect(await UserWatchEntryModel.exists({ userId, productId: 'sv151-etb' })).toBeTruthy();
+  });
+
+  it('does not add a product twice', async () => {
+    await UserWatchEntryModel.create({ userId, productId: 'sv151-etb', maxPrice: 250 });
+
+    const reply = await handler.watch(CHAT_ID, 'pokemon 151 elite trainer box');
+
+    expect(reply.text).toContain('jest już na Twojej liście');
+    expect(await UserWatchEntryModel.countDocuments({ userId })).toBe(1);
+  });
+
+  it('resumes a snoozed product instead of adding it again', async () => {
+    await UserWatchEntryModel.create({
+      userId,
+      productId: 'sv151-etb',
+      maxPrice: 250,
+      snoozedUntil: new Date(Date.now() + 60_000),
+    });
+
+    const reply = await handler.watch(CHAT_ID, 'pokemon 151 elite trainer box');
+
+    expect(reply.text).toContain('Wznowiono powiadomienia');
+    const entry = await UserWatchEntryModel.findOne({ userId, productId: 'sv151-etb' });
+    expect(entry?.snoozedUntil).toBeNull();
+  });
+
+  it('lists watched products with their thresholds', async () => {
+    await UserWatchEntryModel.create({ userId, productId: 'sv151-etb', maxPrice: 250 });
+
+    const reply = await handler.list(CHAT_ID);
+
+    expect(reply.text).toContain('Obserwowane produkty (1)');
+    expect(reply.text).toContain('Pokemon 151 Elite Trainer Box — do 250,00 zł');
+  });
+
+  it('sets a new threshold only on watched products', async () => {
+    await UserWatchEntryModel.create({ userId, productId: 'sv151-etb', maxPrice: 250 });
+
+    const reply = await handler.setPrice(CHAT_ID, '151 etb 199,90 zł');
+    const missing = await handler.setPrice(CHAT_ID, 'booster box 100');
+
+    expect(reply.text).toContain('Nowy próg dla *Pokemon 151 Elite Trainer Box*: 199,90 zł');
+    expect(missing.text).toContain('Na Twojej liście nie ma produktu');
+    const entry = await UserWatchEntryModel.findOne({ userId, productId: 'sv151-etb' });
+    expect(entry?.maxPrice).toBe(199.9);
+  });
+
+  it('removes a watched product with its pending notifications', async () => {
+    await UserWatchEntryModel.create({ userId, productId: 'sv151-etb', maxPrice: 250 });
+    await NotificationStateModel.create({
+      key: `${userId}:sv151-etb:rebel`,
+      userId,
+      productId: 'sv151-etb',
+      shopId: 'rebel',
+      wasAvailable: true,
+    });
+    await NotificationModel.create({
+      userId,
+      status: 'pending',
+      payload: {
+        productName: 'Pokemon 151 Elite Trainer Box',
+        shopName: 'Rebel.pl',
+        shopId: 'rebel',
+        productId: 'sv151-etb',
+        price: 240,
+        maxPrice: 250,
+        productUrl: 'https://rebel.pl/etb',
+      },
+    });
+
+    const reply = await handler.unwatch(CHAT_ID, 'elite trainer');
+
+    expect(reply.text).toContain('Usunięto *Pokemon 151 Elite Trainer Box*');
+    expect(await UserWatchEntryModel.countDocuments({ userId })).toBe(0);
+    expect(await NotificationStateModel.countDocuments({ userId })).toBe(0);
+    expect(await NotificationModel.countDocuments({ userId })).toBe(0);
+  });
+
+  it('offers the whole watchlist when /unwatch has no query', async () => {
+    await UserWatchEntryModel.create({ userId, productId: 'sv151-etb', maxPrice: 250 });
+
+    const reply = await handler.unwatch(CHAT_ID, '');
+
+    expect(reply.kind).toBe('choice');
+    expect(await UserWatchEntryModel.countDocuments({ userId })).toBe(1);
+  });
+
+  it('shows the freshest offer per shop, cheapest first', async () => {
+    await ProductResultModel.create([
+      productResult('sv151-booster-box', 'rebel', 210),
+      productResult('sv151-booster-box', 'pokesmart', 195),
+      productResult('sv151-booster-box', 'basanti', 180, false),
+    ]);
+
+    const reply = await handler.prices('151 booster box');
+
+    expect(reply.kind).toBe('text');
+    const lines = reply.text.split('\n');
+    expect(lines[0]).toBe('💰 *Pokemon 151 Booster Box*');
+    expect(lines[2]).toContain(
+      '[PokeSmart](https://pokesmart.example.com/sv151-booster-box) — 195,00 zł',
+    );
+    expect(lines[3]).toContain(
+      '[Rebel.pl](https://rebel.example.com/sv151-booster-box) — 210,00 zł',
+    );
+    expect(reply.text).toContain('❌ Niedostępny: ');
+  });
+
+  it('compares the best current price with each threshold', async () => {
+    await UserWatchEntryModel.create([
+      { userId, productId: 'sv151-booster-box', maxPrice: 200 },
+      { userId, productId: 'sv151-etb', maxPrice: 250 },
+    ]);
+    await ProductResultModel.create(productResult('sv151-booster-box', 'rebel', 190));
+
+    const reply = await handler.status(CHAT_ID);
+
+    expect(reply.text).toContain('w progu: 1');
+    expect(reply.text).toContain(
+      '🟢 Pokemon 151 Booster Box — 190,00 zł (Rebel.pl) · próg 200,00 zł',
+    );
+    expect(reply.text).toContain('⚪ Pokemon 151 Elite Trainer Box — brak ofert · próg 250,00 zł');
+  });
+});
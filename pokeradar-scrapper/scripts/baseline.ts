@@ -5,6 +5,7 @@
  * - Records production scraping results to _baseline.json
  * - Compares live scraping against saved baseline
  * - NO custom engines, NO HTML fixtures - just real production code
+ *   (offline HTML replay lives in record-fixtures.ts and src/scraper/replay)
  *
  * Usage:
  *   npm run baseline                    # Record all shops → _baseline.json
@@ -17,15 +18,11 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { getShopConfigDir } from '@pokeradar/shared';
 import { connectDB, disconnectDB } from '@pokeradar/shared';
-import { ProductSetModel, ProductTypeModel, Logger } from '@pokeradar/shared';
+import { loadPipelineConfig, Logger } from '@pokeradar/shared';
 import { FileShopRepository } from '../src/shared/repositories/file/file-shop.repository';
 import { MongoWatchlistRepository } from '../src/shared/repositories/mongo/watchlist.repository';
-import { groupProductsBySet } from '../src/shared/utils/product-utils';
-import {
-  ProductMatchingPipeline,
-  MatchableProductType,
-  MatchableProductSet,
-} from '../src/matching';
+import { buildWatchlistIndex, groupProductsBySet } from '../src/shared/utils/product-utils';
+import { ProductMatchingPipeline, PipelineConfig } from '@pokeradar/shared';
 import {
   ScanCycleRunner,
   IScraperFactory,
@@ -323,13 +320,12 @@ interface ScrapingResult {
 async function runScraping(
   shops: ShopConfig[],
   products: WatchlistProductInternal[],
-  productTypes: MatchableProductType[],
-  productSets: MatchableProductSet[],
+  pipelineConfig: PipelineConfig,
   setMap: Map<string, { name: string; series: string }>,
   logger: Logger,
 ): Promise<ScrapingResult> {
   // Group products by set for efficient searching
-  const { setGroups, ungrouped } = groupProductsBySet(products, setMap);
+  const { setGroups, ungrouped } = groupProductsBySet(products, setMap, pipelineConfig.cards);
 
   // Build pipeline and watchlist index
   const debugLogger = {
@@ -342,14 +338,8 @@ async function runScraping(
         console.log(`  [WARN]  ${msg}`, meta ? JSON.stringify(meta) : '');
     },
   };
-  const pipeline = new ProductMatchingPipeline({ productTypes, productSets }, debugLogger);
-  const watchlistIndex = new Map<string, WatchlistProductInternal[]>();
-  for (const product of products) {
-    const key = `${product.productTypeId}|${product.productSetId}`;
-    const existing = watchlistIndex.get(key) ?? [];
-    existing.push(product);
-    watchlistIndex.set(key, existing);
-  }
+  const pipeline = new ProductMatchingPipeline(pipelineConfig, debugLogger);
+  const watchlistIndex = buildWatchlistIndex(products);
 
   // Create trackers
   const requestCounter = new RequestCounter();
@@ -767,33 +757,13 @@ async function main() {
 
     console.log(`📦 Loaded ${products.length} products from watchlist\n`);
 
-    // Load product types and sets from DB
-    const [productTypeDocs, productSetDocs] = await Promise.all([
-      ProductTypeModel.find().select('id name matchingProfile contains').lean(),
-      ProductSetModel.find().select('id name series setNumber setAbbreviation').lean(),
-    ]);
-
-    const productTypes: MatchableProductType[] = productTypeDocs.map((doc) => ({
-      id: doc.id,
-      name: doc.name,
-      matchingProfile: {
-        required: doc.matchingProfile?.required ?? [],
-        forbidden: doc.matchingProfile?.forbidden ?? [],
-      },
-      contains: doc.contains ?? [],
-    }));
-
-    const productSets: MatchableProductSet[] = productSetDocs.map((doc) => ({
-      id: doc.id,
-      name: doc.name,
-      series: doc.series,
-      setNumber: doc.setNumber,
-      setAbbreviation: doc.setAbbreviation,
-    }));
+    // Load product types, sets and matching rules from DB
+    const pipelineConfig = await loadPipelineConfig();
+    const { productTypes, productSets } = pipelineConfig;
 
     const setMap = new Map<string, { name: string; series: string }>();
-    for (const doc of productSetDocs) {
-      setMap.set(doc.id, { name: doc.name, series: doc.series });
+    for (const set of productSets) {
+      setMap.set(set.id, { name: set.name, series: set.series });
     }
 
     console.log(
@@ -804,14 +774,7 @@ async function main() {
     await disconnectDB();
 
     // Run scraping
-    const scrapingResult = await runScraping(
-      shops,
-      products,
-      productTypes,
-      productSets,
-      setMap,
-      logger,
-    );
+    const scrapingResult = await runScraping(shops, products, pipelineConfig, setMap, logger);
 
     if (check) {
       // Check mode: compare against baseline
@@ -0,0 +1,142 @@
+/**
+ * record-fixtures.ts - Records offline regression fixtures for shops.
+ *
+ * Purpose:
+ * - Scans each shop live with the production scan cycle, saving every search
+ *   and product page it loads to scripts/baseline/fixtures/<shopId>/
+ * - Replays the saved pages immediately and stores that outcome (candidates,
+ *   match keys, ProductResults) as the expectation Jest asserts against
+ *
+ * Usage:
+ *   npm run fixtures:record                  # Record all enabled shops
+ *   npm run fixtures:record basanti pegaz    # Record selected shops only
+ */
+
+import * as dotenv from 'dotenv';
+import { getShopConfigDir } from '@pokeradar/shared';
+import { connectDB, disconnectDB } from '@pokeradar/shared';
+import { loadPipelineConfig, Logger } from '@pokeradar/shared';
+import { FileShopRepository } from '../src/shared/repositories/file/file-shop.repository';
+import { MongoWatchlistRepository } from '../src/shared/repositories/mongo/watchlist.repository';
+import {
+  FixtureCatalog,
+  FixturePageStore,
+  RecordingScraperFactory,
+  ReplayScraperFactory,
+  runFixtureScan,
+  writeShopFixture,
+} from '../src/scraper/replay';
+
+dotenv.config();
+
+/**
+ * Loads the watchlist and matching reference data from MongoDB.
+ */
+async function loadCatalog(): Promise<FixtureCatalog> {
+  const [products, pipelineConfig] = await Promise.all([
+    new MongoWatchlistRepository().getAll(),
+    loadPipelineConfig(),
+  ]);
+
+  return {
+    ...pipelineConfig,
+    products: products.map(
+      ({ id, name, productSetId, productTypeId, language, cardId, grade, condition }) => ({
+        id,
+        name,
+        productSetId,
+        productTypeId,
+        language,
+        ...(cardId && { cardId }),
+        ...(grade && { grade }),
+        ...(condition && { condition }),
+      }),
+    ),
+  };
+}
+
+/**
+ * Main function.
+ */
+async function main() {
+  const shopFilter = process.argv.slice(2);
+
+  const mongodbUri = process.env.MONGODB_URI;
+  if (!mongodbUri) {
+    console.error('❌ ERROR: MONGODB_URI is not set in .env file\n');
+    process.exit(1);
+  }
+
+  const logLevel = (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info';
+  const logger = new Logger('fixtures.log', logLevel);
+
+  const allShops = await new FileShopRepository(getShopConfigDir()).getAll();
+  let shops = allShops.filter((shop) => !shop.disabled);
+  if (shopFilter.length > 0) {
+    shops = allShops.filter((shop) => shopFilter.includes(shop.id));
+    const missing = shopFilter.filter((id) => !shops.some((shop) => shop.id === id));
+    if (missing.length > 0) {
+      console.error(`❌ Shop not found: ${missing.join(', ')}\n`);
+      process.exit(1);
+    }
+  }
+
+  console.log('📡 Connecting to MongoDB...');
+  await connectDB(mongodbUri);
+  const catalog = await loadCatalog();
+  await disconnectDB();
+
+  if (catalog.products.length === 0) {
+    console.error('❌ No products in watchlist\n');
+    process.exit(1);
+  }
+
+  console.log(
+    `📦 ${catalog.products.length} products, ${catalog.productSets.length} sets, ${catalog.productTypes.length} types\n`,
+  );
+
+  let drifted = 0;
+
+  for (const shop of shops) {
+    const pages = new FixturePageStore();
+    const live = await runFixtureScan(shop, catalog, new RecordingScraperFactory(pages), logger);
+
+    if (pages.size() === 0) {
+      console.log(`  ${shop.id.padEnd(20)} ⚠️  no pages recorded, skipping`);
+      continue;
+    }
+
+    // The expectation is what the recorded pages produce offline, so the fixture
+    // is self-consistent even where replay differs from the live engine.
+    const replayed = await runFixtureScan(shop, catalog, new ReplayScraperFactory(pages));
+    const matchesLive = JSON.stringify(replayed) === JSON.stringify(live);
+    if (!matchesLive) drifted++;
+
+    writeShopFixture(
+      { shopId: shop.id, recordedAt: new Date().toISOString(), catalog, expected: replayed },
+      pages,
+      shop.engine === 'json-api' ? 'json' : 'html',
+    );
+
+    console.log(
+      `  ${shop.id.padEnd(20)} ${String(pages.size()).padStart(3)} pages  ${String(replayed.results.length).padStart(3)} results` +
+        (matchesLive ? '' : '  ⚠️  replay differs from live scan'),
+    );
+  }
+
+  console.log('');
+  if (drifted > 0) {
+    console.log(
+      `⚠️  ${drifted} shop(s) replay differently from the live scan (usually Playwright-only selectors). Review before committing.\n`,
+    );
+  }
+  console.log('Next steps:');
+  console.log('  1. Run "npm test -- shop-fixtures" to verify');
+  console.log('  2. Commit scripts/baseline/fixtures/ to git');
+  console.log('');
+}
+
+main().catch((error) => {
+  console.error('❌ Unhandled error:', error);
+  process.exit(1);
+});
@@ -26,10 +26,12 @@ import {
   MongoUserRepository,
   MongoUserWatchEntryRepository,
   MongoNotificationRepository,
+  MongoScanRunRepository,
+  MongoUnmatchedTitleRepository,
   IShopRepository,
   IWatchlistRepository,
 } from '../shared/repositories';
-import { getShopConfigDir, formatError, Logger } from '@pokeradar/shared';
+import { getShopConfigDir, formatError, Logger, FetchingTier } from '@pokeradar/shared';
 import { NotificationStateService, MultiUserNotificationDispatcher } from '../shared/notification';
 
 // Scraper
@@ -73,6 +75,8 @@ async function main() {
   let userRepository: MongoUserRepository;
   let userWatchEntryRepository: MongoUserWatchEntryRepository;
   let notificationRepository: MongoNotificationRepository;
+  let scanRunRepository: MongoScanRunRepository;
+  let unmatchedTitleRepository: MongoUnmatchedTitleRepository;
 
   try {
     await connectDB(mongodbUri);
@@ -89,6 +93,8 @@ async function main() {
     userRepository = new MongoUserRepository();
     userWatchEntryRepository = new MongoUserWatchEntryRepository();
     notificationRepository = new MongoNotificationRepository();
+    scanRunRepository = new MongoScanRunRepository();
+    unmatchedTitleRepository = new MongoUnmatchedTitleRepository();
     console.log('MongoDB connected');
   } catch (error) {
     console.error('Failed to connect to MongoDB:', formatError(error));
@@ -105,6 +111,7 @@ async function main() {
       userWatchEntryRepository,
       userRepository,
       notificationRepository,
+      productResultRepository,
       logger,
     );
 
@@ -116,6 +123,9 @@ async function main() {
       shopRepository,
       watchlistRepository,
       productResultRepository,
+      unmatchedTitleRepository,
+      scanRunRepository,
+      fetchingTier: process.env.FETCHING_TIER?.toLowerCase() as FetchingTier | undefined,
       logger,
     });
 
@@ -1,6 +0,0 @@
-export { ExpandSetNumbersLayer } from './expand-set-numbers';
-export { NormalizeLayer, normalizeTitle } from './normalize';
-export { FilterNonEnglishLayer } from './filter-non-english';
-export { ExpandSynonymsLayer } from './expand-synonyms';
-export { MatchProductTypeLayer } from './match-product-type';
-export { MatchProductSetLayer } from './match-product-set';
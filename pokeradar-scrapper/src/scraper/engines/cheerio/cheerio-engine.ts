@@ -1,65 +1,16 @@
 /**
  * Lightweight HTTP + Cheerio based engine.
- * Uses axios to fetch HTML and Cheerio to parse it.
+ * Fetches HTML through the shared HttpClient and parses it with Cheerio.
  */
 
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import type { AnyNode } from 'domhandler';
-import { Agent as HttpAgent } from 'http';
-import { Agent as HttpsAgent } from 'https';
-import { HttpsProxyAgent } from 'https-proxy-agent';
 import { Selector, ExtractType, ShopConfig } from '@pokeradar/shared';
-import { getProxyConfig } from '../../../shared/utils';
 import { IEngine, IElement } from '../engine.interface';
+import { HttpClient, IHttpClient, IHttpLogger } from '../http';
 import { CheerioElement } from './cheerio-element';
 import { findByTextInsensitive } from '../selector-utils';
-
-/**
- * Shared HTTP agents for all Cheerio engines (non-proxy requests).
- * keepAlive=false ensures sockets close after each request.
- * maxSockets caps total concurrent connections to prevent socket exhaustion.
- */
-const sharedHttpAgent = new HttpAgent({ keepAlive: false, maxSockets: 50 });
-const sharedHttpsAgent = new HttpsAgent({ keepAlive: false, maxSockets: 50 });
-
-/**
- * Logger interface for engine operations.
- */
-interface ILogger {
-  debug(message: string, meta?: Record<string, unknown>): void;
-  warn?(message: string, meta?: Record<string, unknown>): void;
-}
-
-/**
- * Current User-Agent pool (Chrome 131, latest as of Jan 2025).
- */
-const USER_AGENTS = [
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:133.0) Gecko/20100101 Firefox/133.0',
-  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-];
-
-/**
- * Pick a random User-Agent from the pool.
- */
-function getRandomUserAgent(): string {
-  return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-}
-
-/**
- * Default HTTP headers for requests (User-Agent is set per instance).
- */
-const DEFAULT_HEADERS = {
-  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-  'Accept-Language': 'pl-PL,pl;q=0.9,en-US;q=0.8,en;q=0.7',
-  'Accept-Encoding': 'gzip, deflate, br',
-  Connection: 'close',
-  'Upgrade-Insecure-Requests': '1',
-  'Cache-Control': 'no-cache',
-  Pragma: 'no-cache',
-};
+import { resolveJsonPath } from '../json-api/json-path';
 
 /**
  * Cheerio-based scraping engine.
@@ -67,157 +18,23 @@ const DEFAULT_HEADERS = {
 export class CheerioEngine implements IEngine {
   private $: cheerio.CheerioAPI | null = null;
   private currentUrl: string | null = null;
-  private userAgent: string;
-  private headers: Record<string, string>;
-  private proxyAgent: HttpsProxyAgent<string> | null = null;
-  private abortController: AbortController = new AbortController();
+  private http: IHttpClient;
 
   constructor(
-    private shop: ShopConfig,
-    private logger?: ILogger,
+    shop: ShopConfig,
+    private logger?: IHttpLogger,
+    http?: IHttpClient,
   ) {
-    // Pick a random User-Agent per engine instance
-    this.userAgent = getRandomUserAgent();
-    this.headers = {
-      ...DEFAULT_HEADERS,
-      'User-Agent': this.userAgent,
-    };
-
-    // Configure proxy if enabled globally and for this shop
-    const proxyConfig = getProxyConfig(shop);
-    if (proxyConfig) {
-      this.proxyAgent = new HttpsProxyAgent(proxyConfig.url);
-      this.logger?.debug('Proxy enabled', { shop: shop.id });
-    } else if (shop.antiBot?.useProxy) {
-      this.logger?.debug('Shop has useProxy=true but proxy is disabled globally', {
-        shop: shop.id,
-      });
-    }
+    this.http = http ?? new HttpClient(shop, logger);
   }
 
   async goto(url: string): Promise<void> {
     this.$ = null;
 
-    // Apply jittered delay if configured
-    await this.applyJitteredDelay();
-
-    // Retry with exponential backoff (up to 3 attempts)
-    const response = await this.retryWithBackoff(async () => {
-      return await axios.get<string>(url, {
-        headers: this.headers,
-        timeout: 15000,
-        maxRedirects: 5,
-        responseType: 'text',
-        signal: this.abortController.signal,
-        ...(this.proxyAgent
-          ? {
-              httpAgent: this.proxyAgent,
-              httpsAgent: this.proxyAgent,
-              proxy: false,
-            }
-          : {
-              httpAgent: sharedHttpAgent,
-              httpsAgent: sharedHttpsAgent,
-            }),
-      });
-    });
+    const response = await this.http.get<string>(url);
 
     this.$ = cheerio.load(response.data);
-    this.currentUrl = response.request?.res?.responseUrl || url;
-  }
-
-  /**
-   * Delay that resolves after `ms` or rejects immediately if the abort signal fires.
-   */
-  private abortableDelay(ms: number): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const signal = this.abortController.signal;
-      if (signal.aborted) {
-        return reject(signal.reason ?? new Error('Aborted'));
-      }
-      const timer = setTimeout(() => {
-        signal.removeEventListener('abort', onAbort);
-        resolve();
-      }, ms);
-      function onAbort() {
-        clearTimeout(timer);
-        reject(signal.reason ?? new Error('Aborted'));
-      }
-      signal.addEventListener('abort', onAbort, { once: true });
-    });
-  }
-
-  /**
-   * Apply jittered delay before request if configured.
-   */
-  private async applyJitteredDelay(): Promise<void> {
-    const baseDelay = this.shop.antiBot?.requestDelayMs ?? 0;
-    if (baseDelay > 0) {
-      const jitter = baseDelay * 0.3; // ±30% jitter
-      const delay = baseDelay + (Math.random() * 2 - 1) * jitter;
-      await this.abortableDelay(delay);
-    }
-  }
-
-  /**
-   * Retry a request with exponential backoff.
-   * Attempt 1: immediate
-   * Attempt 2: wait 2s
-   * Attempt 3: wait 5s
-   */
-  private async retryWithBackoff<T>(fn: () => Promise<T>): Promise<T> {
-    // Read from env var, default to 1 retry (2 total attempts)
-    const maxRetries = parseInt(process.env.MAX_RETRY_ATTEMPTS || '1', 10);
-    const maxAttempts = 1 + maxRetries;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        return await fn();
-      } catch (error) {
-        lastError = error as Error;
-        const isRetryable = this.isRetryableError(error);
-
-        if (!isRetryable || attempt === maxAttempts) {
-          throw error;
-        }
-
-        // Exponential backoff: 2s, 5s
-        const waitMs = attempt === 1 ? 2000 : 5000;
-
-        // Use warn level for retries - this is important operational info
-        this.logger?.warn?.('Request failed, retrying with backoff', {
-          shop: this.shop.id,
-          attempt,
-          maxAttempts,
-          waitMs,
-          retryable: true,
-          error: error instanceof Error ? error.message : String(error),
-        });
-
-        await this.abortableDelay(waitMs);
-      }
-    }
-
-    throw lastError;
-  }
-
-  /**
-   * Check if an error is retryable (network error, 5xx, 429, 403).
-   */
-  private isRetryableError(error: unknown): boolean {
-    if (!axios.isAxiosError(error)) {
-      return false;
-    }
-
-    // Network errors (no response)
-    if (!error.response) {
-      return true;
-    }
-
-    // Retryable status codes
-    const status = error.response.status;
-    return status === 403 || status === 429 || (status >= 500 && status < 600);
+    this.currentUrl = response.url;
   }
 
   getCurrentUrl(): string | null {
@@ -353,13 +170,10 @@ export class CheerioEngine implements IEngine {
     try {
       const data: unknown = JSON.parse(raw);
       const items = Array.isArray(data) ? data : [data];
-      const path = selector.jsonFilter.split('.');
-
-      const resolveValue = (item: unknown) =>
-        path.reduce((obj: unknown, key) => (obj as Record<string, unknown>)?.[key], item);
+      const jsonFilter = selector.jsonFilter;
 
       const itemMatches = (item: unknown) => {
-        const value = resolveValue(item);
+        const value = resolveJsonPath(item, jsonFilter);
         return selector.jsonExpect !== undefined ? value === selector.jsonExpect : Boolean(value);
       };
 
@@ -376,10 +190,7 @@ export class CheerioEngine implements IEngine {
   }
 
   async close(): Promise<void> {
-    this.abortController.abort();
-    if (this.proxyAgent) {
-      this.proxyAgent.destroy();
-    }
+    this.http.close();
     this.$ = null;
     this.currentUrl = null;
   }
@@ -0,0 +1,5 @@
+/**
+ * HTTP client exports.
+ */
+
+export { HttpClient, IHttpClient, IHttpLogger, HttpGetOptions, HttpResponse } from './http-client';
@@ -5,4 +5,6 @@
 export { IEngine, IElement } from './engine.interface';
 export { CheerioEngine, CheerioElement } from './cheerio';
 export { PlaywrightEngine, PlaywrightElement } from './playwright';
+export { JsonApiEngine, JsonElement } from './json-api';
+export { HttpClient } from './http';
 export * from './selector-utils';
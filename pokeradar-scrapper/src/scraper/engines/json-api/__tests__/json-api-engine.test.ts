@@ -0,0 +1,138 @@
+import axios from 'axios';
+import { Selector, ShopConfig } from '@pokeradar/shared';
+import { JsonApiEngine } from '../json-api-engine';
+import { JsonElement } from '../json-element';
+import { resolveJsonPath } from '../json-path';
+
+jest.mock('axios');
+jest.mock('../../../../shared/utils', () => ({
+  getProxyConfig: jest.fn().mockReturnValue(null),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const RESPONSE = {
+  total: 2,
+  list: [
+    { name: 'Booster Box', price: { gross: 899.9 }, can_buy: true },
+    { name: 'ETB', price: { gross: 279 }, can_buy: false },
+  ],
+};
+
+function makeShop(): ShopConfig {
+  return {
+    id: 'test-shop',
+    name: 'Test Shop',
+    engine: 'json-api',
+    baseUrl: 'https://test.com',
+    searchUrl: '/api/search?q={query}',
+    jsonApi: { platform: 'shoper' },
+  };
+}
+
+function path(value: string | string[]): Selector {
+  return { type: 'css', value };
+}
+
+async function loadEngine(body: string = JSON.stringify(RESPONSE)): Promise<JsonApiEngine> {
+  mockedAxios.get.mockResolvedValueOnce({
+    data: body,
+    request: { res: { responseUrl: 'https://test.com/api/search?q=x' } },
+  });
+  const engine = new JsonApiEngine(makeShop());
+  await engine.goto('https://test.com/api/search?q=x');
+  return engine;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ─── resolveJsonPath ─────────────────────────────────────────────────────────
+
+describe('resolveJsonPath()', () => {
+  it('returns the value itself for an empty path', () => {
+    expect(resolveJsonPath(RESPONSE, '')).toBe(RESPONSE);
+  });
+
+  it('resolves nested keys and array indexes', () => {
+    expect(resolveJsonPath(RESPONSE, 'list.1.price.gross')).toBe(279);
+  });
+
+  it('returns undefined for a missing segment', () => {
+    expect(resolveJsonPath(RESPONSE, 'list.5.name')).toBeUndefined();
+    expect(resolveJsonPath(null, 'a.b')).toBeUndefined();
+  });
+});
+
+// ─── goto ────────────────────────────────────────────────────────────────────
+
+describe('goto()', () => {
+  it('parses the response and records the final URL', async () => {
+    const engine = await loadEngine();
+    expect(engine.getJson()).toEqual(RESPONSE);
+    expect(engine.getCurrentUrl()).toBe('https://test.com/api/search?q=x');
+  });
+
+  it('throws when the response is not JSON', async () => {
+    await expect(loadEngine('<html>Access denied</html>')).rejects.toThrow('not valid JSON');
+  });
+});
+
+// ─── Extraction ──────────────────────────────────────────────────────────────
+
+describe('extract()', () => {
+  it('stringifies scalar values at the path', async () => {
+    const engine = await loadEngine();
+    expect(await engine.extract(path('total'))).toBe('2');
+    expect(await engine.extract(path('list.0.name'))).toBe('Booster Box');
+  });
+
+  it('falls back to the next path and returns null for objects', async () => {
+    const engine = await loadEngine();
+    expect(await engine.extract(path(['missing', 'list.1.name']))).toBe('ETB');
+    expect(await engine.extract(path('list.0.price'))).toBeNull();
+  });
+
+  it('throws when no response is loaded', async () => {
+    const engine = new JsonApiEngine(makeShop());
+    await expect(engine.extract(path('total'))).rejects.toThrow('No page loaded');
+  });
+});
+
+describe('extractAll()', () => {
+  it('wraps each array item in a JsonElement', async () => {
+    const engine = await loadEngine();
+    const items = await engine.extractAll(path('list'));
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toBeInstanceOf(JsonElement);
+    expect(await items[1].getAttribute('price.gross')).toBe('279');
+    expect(await items[1].matches(path('can_buy'))).toBe(false);
+  });
+
+  it('returns an empty array when the path is not an array', async () => {
+    const engine = await loadEngine();
+    expect(await engine.extractAll(path('total'))).toEqual([]);
+  });
+});
+
+describe('exists()', () => {
+  it('checks the value at the path for truthiness', async () => {
+    const engine = await loadEngine();
+    expect(await engine.exists(path('list.0.can_buy'))).toBe(true);
+    expect(await engine.exists(path('list.1.can_buy'))).toBe(false);
+    expect(await engine.exists(path('missing'))).toBe(false);
+  });
+});
+
+// ─── close ───────────────────────────────────────────────────────────────────
+
+describe('close()', () => {
+  it('clears the loaded response', async () => {
+    const engine = await loadEngine();
+    await engine.close();
+    expect(() => engine.getJson()).toThrow('No page loaded');
+    expect(engine.getCurrentUrl()).toBeNull();
+  });
+});
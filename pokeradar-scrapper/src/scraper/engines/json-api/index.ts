@@ -0,0 +1,7 @@
+/**
+ * JSON API engine exports.
+ */
+
+export { JsonApiEngine } from './json-api-engine';
+export { JsonElement } from './json-element';
+export { resolveJsonPath, jsonValueToString } from './json-path';
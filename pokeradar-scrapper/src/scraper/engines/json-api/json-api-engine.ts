@@ -0,0 +1,94 @@
+/**
+ * HTTP engine for shops exposing JSON search endpoints (Shopify, WooCommerce, Shoper).
+ * Selector values are dot-notation paths into the parsed response.
+ */
+
+import { Selector, ShopConfig } from '@pokeradar/shared';
+import { IEngine, IElement } from '../engine.interface';
+import { HttpClient, IHttpClient, IHttpLogger } from '../http';
+import { JsonElement } from './json-element';
+import { jsonValueToString, resolveJsonPath } from './json-path';
+
+const JSON_HEADERS = {
+  Accept: 'application/json, text/plain;q=0.9, */*;q=0.8',
+};
+
+/**
+ * JSON API scraping engine.
+ */
+export class JsonApiEngine implements IEngine {
+  private data: unknown = undefined;
+  private currentUrl: string | null = null;
+  private http: IHttpClient;
+
+  constructor(
+    shop: ShopConfig,
+    private logger?: IHttpLogger,
+    http?: IHttpClient,
+  ) {
+    this.http = http ?? new HttpClient(shop, logger);
+  }
+
+  async goto(url: string): Promise<void> {
+    this.data = undefined;
+
+    // Fetch as text so an HTML error page surfaces as a parse error instead of a string payload
+    const response = await this.http.get<string>(url, { headers: JSON_HEADERS });
+
+    try {
+      this.data = JSON.parse(response.data);
+    } catch {
+      throw new Error(`Response from ${url} is not valid JSON`);
+    }
+    this.currentUrl = response.url;
+  }
+
+  getCurrentUrl(): string | null {
+    return this.currentUrl;
+  }
+
+  /**
+   * Returns the parsed JSON of the last loaded response.
+   */
+  getJson(): unknown {
+    if (this.data === undefined) {
+      throw new Error('No page loaded. Call goto() first.');
+    }
+    return this.data;
+  }
+
+  async extract(selector: Selector): Promise<string | null> {
+    const data = this.getJson();
+    const paths = Array.isArray(selector.value) ? selector.value : [selector.value];
+
+    for (const path of paths) {
+      const value = jsonValueToString(resolveJsonPath(data, path));
+      if (value) {
+        return value;
+      }
+    }
+
+    return null;
+  }
+
+  async extractAll(selector: Selector): Promise<IElement[]> {
+    return new JsonElement(this.getJson()).findAll(selector);
+  }
+
+  async exists(selector: Selector): Promise<boolean> {
+    const data = this.getJson();
+
+    if (selector.type === 'json-attribute') {
+      this.logger?.debug('JsonApiEngine.exists: json-attribute selectors are not supported');
+      return false;
+    }
+
+    return new JsonElement(data).matches(selector);
+  }
+
+  async close(): Promise<void> {
+    this.http.close();
+    this.data = undefined;
+    this.currentUrl = null;
+  }
+}
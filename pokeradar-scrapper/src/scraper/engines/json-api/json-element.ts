@@ -0,0 +1,65 @@
+/**
+ * JSON value wrapper implementing IElement interface.
+ * Selector values are dot-notation paths relative to the wrapped value.
+ */
+
+import { Selector } from '@pokeradar/shared';
+import { IElement } from '../engine.interface';
+import { jsonValueToString, resolveJsonPath } from './json-path';
+
+/**
+ * Element wrapper for a node of a parsed JSON response.
+ */
+export class JsonElement implements IElement {
+  constructor(private value: unknown) {}
+
+  /**
+   * The raw JSON value, for callers that need numbers and booleans unconverted.
+   */
+  getValue(): unknown {
+    return this.value;
+  }
+
+  async getText(): Promise<string | null> {
+    return jsonValueToString(this.value);
+  }
+
+  async getOwnText(): Promise<string | null> {
+    return jsonValueToString(this.value);
+  }
+
+  async getAttribute(name: string): Promise<string | null> {
+    return jsonValueToString(resolveJsonPath(this.value, name));
+  }
+
+  async find(selector: Selector): Promise<IElement | null> {
+    const paths = Array.isArray(selector.value) ? selector.value : [selector.value];
+
+    for (const path of paths) {
+      const value = resolveJsonPath(this.value, path);
+      if (value !== undefined && value !== null) {
+        return new JsonElement(value);
+      }
+    }
+
+    return null;
+  }
+
+  async findAll(selector: Selector): Promise<IElement[]> {
+    const paths = Array.isArray(selector.value) ? selector.value : [selector.value];
+
+    for (const path of paths) {
+      const value = resolveJsonPath(this.value, path);
+      if (Array.isArray(value) && value.length > 0) {
+        return value.map((item) => new JsonElement(item));
+      }
+    }
+
+    return [];
+  }
+
+  async matches(selector: Selector): Promise<boolean> {
+    const paths = Array.isArray(selector.value) ? selector.value : [selector.value];
+    return paths.some((path) => Boolean(resolveJsonPath(this.value, path)));
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Dot-notation path helpers for JSON documents.
+ */
+
+/**
+ * Resolves a dot-notation path (e.g. `prices.price`, `list.0.name`) against a
+ * parsed JSON value. An empty path returns the value itself; a missing key
+ * anywhere along the path yields undefined.
+ */
+export function resolveJsonPath(data: unknown, path: string): unknown {
+  if (!path) {
+    return data;
+  }
+
+  return path
+    .split('.')
+    .reduce(
+      (obj: unknown, key) => (obj as Record<string, unknown> | null | undefined)?.[key],
+      data,
+    );
+}
+
+/**
+ * Converts a scalar JSON value to a string. Objects, arrays, null and empty
+ * strings have no textual value and return null.
+ */
+export function jsonValueToString(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value.trim() || null;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return null;
+}
@@ -136,6 +136,13 @@ export class PlaywrightEngine implements IEngine {
     return this.page?.url() || null;
   }
 
+  /**
+   * Returns the rendered HTML of the current page (after scripts ran).
+   */
+  async getContent(): Promise<string | null> {
+    return this.page ? this.page.content() : null;
+  }
+
   async extract(selector: Selector): Promise<string | null> {
     if (!this.page) {
       throw new Error('No page loaded. Call goto() first.');
@@ -5,11 +5,12 @@
  *   initialize() → load shops, products, build pipeline + watchlist index
  *   runFullScanCycle() → run Cheerio + Playwright cycles, flush all changes
  *
- * Mocks: all repositories, Mongoose models, ScanCycleRunner (via jest.mock),
- *        MultiUserNotificationDispatcher, NotificationStateService.
+ * Mocks: all repositories, loadPipelineConfig, ProductMatchingPipeline,
+ *        ScanCycleRunner (via jest.mock), MultiUserNotificationDispatcher,
+ *        NotificationStateService.
  */
 
-import { ShopConfig } from '@pokeradar/shared';
+import { ProductMatchingPipeline, ShopConfig } from '@pokeradar/shared';
 import { WatchlistProductInternal } from '../../../shared/types';
 import { MultiUserNotificationDispatcher } from '../../../shared/notification/multi-user-dispatcher';
 import { NotificationStateService } from '../../../shared/notification/notification-state.service';
@@ -21,37 +22,22 @@ import {
 } from '../price-monitor';
 import { IProductResultRepository } from '../result-buffer';
 import { IScraperFactory } from '../scan-cycle-runner';
+import { IScanRunRepository } from '../scan-run-collector';
 
-// ─── Mock ProductMatchingPipeline ─────────────────────────────────────────────
+// ─── Mock ProductMatchingPipeline + pipeline reference data ───────────────────
 
 const mockPipelineMatch = jest.fn().mockReturnValue(null);
 
-jest.mock('../../../matching', () => ({
-  ProductMatchingPipeline: jest.fn().mockImplementation(() => ({
-    match: mockPipelineMatch,
-  })),
-}));
-
-// ─── Mock Mongoose models ─────────────────────────────────────────────────────
-
-const mockProductTypeLean = jest.fn();
-const mockProductTypeSelect = jest.fn().mockReturnValue({ lean: mockProductTypeLean });
-const mockProductTypeFind = jest.fn().mockReturnValue({ select: mockProductTypeSelect });
-
-const mockProductSetLean = jest.fn();
-const mockProductSetSelect = jest.fn().mockReturnValue({ lean: mockProductSetLean });
-const mockProductSetFind = jest.fn().mockReturnValue({ select: mockProductSetSelect });
+const mockLoadPipelineConfig = jest.fn();
 
 jest.mock('@pokeradar/shared', () => {
   const actual = jest.requireActual('@pokeradar/shared');
   return {
     ...actual,
-    ProductTypeModel: {
-      find: (...args: unknown[]) => mockProductTypeFind(...args),
-    },
-    ProductSetModel: {
-      find: (...args: unknown[]) => mockProductSetFind(...args),
-    },
+    ProductMatchingPipeline: jest.fn().mockImplementation(() => ({
+      match: mockPipelineMatch,
+    })),
+    loadPipelineConfig: (...args: unknown[]) => mockLoadPipelineConfig(...args),
   };
 });
 
@@ -79,7 +65,7 @@ function makeProduct(id: string, typeId = 'type-1', setId = 'set-1'): WatchlistP
   return { id, productTypeId: typeId, productSetId: setId } as WatchlistProductInternal;
 }
 
-function makeProductTypeDoc(id: string) {
+function makeProductType(id: string) {
   return {
     id,
     name: 'Booster Box',
@@ -88,8 +74,8 @@ function makeProductTypeDoc(id: string) {
   };
 }
 
-function makeProductSetDoc(id: string, name: string) {
-  return { id, name, series: 'Scarlet & Violet', setNumber: 8, setAbbreviation: 'sv08' };
+function makeProductSet(id: string, name: string) {
+  return { id, name, series: 'Scarlet & Violet', setNumber: 'SV8', setAbbreviation: 'SSP' };
 }
 
 function makeLogger() {
@@ -111,8 +97,9 @@ function makeConfig(overrides: Partial<PriceMonitorConfig> = {}): PriceMonitorCo
 
   const dispatcher = {
     preloadForCycle: jest.fn().mockResolvedValue(undefined),
-    flushNotifications: jest.fn().mockResolvedValue(undefined),
+    flushNotifications: jest.fn().mockResolvedValue(0),
     processResult: jest.fn(),
+    setProductSetNames: jest.fn(),
   } as unknown as jest.Mocked<MultiUserNotificationDispatcher>;
 
   const stateManager = {
@@ -138,8 +125,10 @@ function makeConfig(overrides: Partial<PriceMonitorConfig> = {}): PriceMonitorCo
 }
 
 function setupDefaultModels() {
-  mockProductTypeLean.mockResolvedValue([makeProductTypeDoc('type-1')]);
-  mockProductSetLean.mockResolvedValue([makeProductSetDoc('set-1', 'Surging Sparks')]);
+  mockLoadPipelineConfig.mockResolvedValue({
+    productTypes: [makeProductType('type-1')],
+    productSets: [makeProductSet('set-1', 'Surging Sparks')],
+  });
 }
 
 // ─── initialize() ─────────────────────────────────────────────────────────────
@@ -176,6 +165,31 @@ describe('initialize()', () => {
     expect(config.stateManager.loadFromRepository).toHaveBeenCalledWith(['p1']);
   });
 
+  it('hands set names to the dispatcher for alert payloads', async () => {
+    const config = makeConfig();
+    const monitor = new PriceMonitor(config);
+
+    await monitor.initialize();
+
+    expect(config.dispatcher.setProductSetNames).toHaveBeenCalledWith(
+      new Map([['set-1', 'Surging Sparks']]),
+    );
+  });
+
+  it('builds the pipeline from the loaded reference data', async () => {
+    const pipelineConfig = {
+      productTypes: [makeProductType('type-1')],
+      productSets: [makeProductSet('set-1', 'Surging Sparks')],
+      synonymRules: [{ pattern: '\\bupc\\b', replacement: 'ultra premium collection' }],
+    };
+    mockLoadPipelineConfig.mockResolvedValue(pipelineConfig);
+    const monitor = new PriceMonitor(makeConfig());
+
+    await monitor.initialize();
+
+    expect(ProductMatchingPipeline).toHaveBeenCalledWith(pipelineConfig);
+  });
+
   it('calls setPipelineConfig on the runner with pipeline and watchlist index', async () => {
     const config = makeConfig();
     const monitor = new PriceMonitor(config);
@@ -188,20 +202,67 @@ describe('initialize()', () => {
     );
   });
 
-  it('builds watchlist index with typeId|setId composite key', async () => {
+  it('builds watchlist index with typeId|setId|language composite key', async () => {
     const config = makeConfig();
     (config.watchlistRepository.getAll as jest.Mock).mockResolvedValue([
       makeProduct('p1', 'type-1', 'set-1'),
       makeProduct('p2', 'type-1', 'set-1'),
       makeProduct('p3', 'type-2', 'set-1'),
+      { ...makeProduct('p4', 'type-1', 'set-1'), language: 'japanese' },
+    ]);
+    const monitor = new PriceMonitor(config);
+
+    await monitor.initialize();
+
+    const [, watchlistIndex] = mockSetPipelineConfig.mock.calls[0];
+    expect(watchlistIndex.get('type-1|set-1|english')).toHaveLength(2);
+    expect(watchlistIndex.get('type-2|set-1|english')).toHaveLength(1);
+    expect(watchlistIndex.get('type-1|set-1|japanese')).toHaveLength(1);
+  });
+
+  it('indexes single cards by card and grade', async () => {
+    const config = makeConfig();
+    (config.watchlistRepository.getAll as jest.Mock).mockResolvedValue([
+      { ...makeProduct('raw', 'single-card', 'set-1'), cardId: 'pikachu-238' },
+      { ...makeProduct('psa', 'single-card', 'set-1'), cardId: 'pikachu-238', grade: 'psa 10' },
     ]);
     const monitor = new PriceMonitor(config);
 
     await monitor.initialize();
 
     const [, watchlistIndex] = mockSetPipelineConfig.mock.calls[0];
-    expect(watchlistIndex.get('type-1|set-1')).toHaveLength(2);
-    expect(watchlistIndex.get('type-2|set-1')).toHaveLength(1);
+    expect(watchlistIndex.get('single-card|pikachu-238|raw|english')[0].id).toBe('raw');
+    expect(watchlistIndex.get('single-card|pikachu-238|psa 10|english')[0].id).toBe('psa');
+  });
+
+  it('searches single cards by card name and number instead of set name', async () => {
+    mockLoadPipelineConfig.mockResolvedValue({
+      productTypes: [makeProductType('type-1')],
+      productSets: [makeProductSet('set-1', 'Surging Sparks')],
+      cards: [{ id: 'pikachu-238', productSetId: 'set-1', name: 'Pikachu ex', number: '238/191' }],
+    });
+    const config = makeConfig();
+    (config.watchlistRepository.getAll as jest.Mock).mockResolvedValue([
+      makeProduct('p1'),
+      { ...makeProduct('raw', 'single-card', 'set-1'), cardId: 'pikachu-238' },
+      { ...makeProduct('psa', 'single-card', 'set-1'), cardId: 'pikachu-238', grade: 'psa 10' },
+      { ...makeProduct('orphan', 'single-card', 'set-1'), cardId: 'deleted-card' },
+    ]);
+    const monitor = new PriceMonitor(config);
+    await monitor.initialize();
+
+    await monitor.runFullScanCycle();
+
+    const [, setGroups, ungrouped] = mockRunCheerioScanCycle.mock.calls[0];
+    expect(setGroups).toEqual([
+      expect.objectContaining({ searchPhrase: 'Surging Sparks', products: [makeProduct('p1')] }),
+      expect.objectContaining({
+        setId: 'set-1',
+        searchPhrase: 'Pikachu ex 238',
+        products: [expect.objectContaining({ id: 'raw' }), expect.objectContaining({ id: 'psa' })],
+      }),
+    ]);
+    expect(ungrouped).toEqual([expect.objectContaining({ id: 'orphan' })]);
   });
 });
 
@@ -277,6 +338,64 @@ describe('runFullScanCycle()', () => {
 
     expect(config.dispatcher.flushNotifications).toHaveBeenCalled();
   });
+
+  it('saves a completed scan run with notification and result totals', async () => {
+    const scanRunRepository: jest.Mocked<IScanRunRepository> = {
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    const config = makeConfig({ scanRunRepository, fetchingTier: 'fast' });
+    (config.dispatcher.flushNotifications as jest.Mock).mockResolvedValue(2);
+    const monitor = new PriceMonitor(config);
+    await monitor.initialize();
+
+    const { ScanCycleRunner } = jest.requireMock('../scan-cycle-runner');
+    const runnerConfig = ScanCycleRunner.mock.calls[0][0];
+    mockRunCheerioScanCycle.mockImplementation(() => runnerConfig.onShopComplete());
+
+    await monitor.runFullScanCycle();
+
+    expect(scanRunRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'completed',
+        fetchingTier: 'fast',
+        resultsWritten: 0,
+        // One per-shop flush plus the final sweep
+        notificationsCreated: 4,
+      }),
+    );
+  });
+
+  it('saves a failed scan run and rethrows when a cycle throws', async () => {
+    const scanRunRepository: jest.Mocked<IScanRunRepository> = {
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    const config = makeConfig({ scanRunRepository });
+    const monitor = new PriceMonitor(config);
+    await monitor.initialize();
+    mockRunPlaywrightScanCycle.mockRejectedValue(new Error('browser crashed'));
+
+    await expect(monitor.runFullScanCycle()).rejects.toThrow('browser crashed');
+
+    expect(scanRunRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed', error: 'browser crashed', fetchingTier: null }),
+    );
+  });
+
+  it('does not fail the cycle when saving the scan run fails', async () => {
+    const scanRunRepository: jest.Mocked<IScanRunRepository> = {
+      save: jest.fn().mockRejectedValue(new Error('db down')),
+    };
+    const config = makeConfig({ scanRunRepository });
+    const monitor = new PriceMonitor(config);
+    await monitor.initialize();
+
+    await expect(monitor.runFullScanCycle()).resolves.toBeUndefined();
+
+    expect(config.logger.error).toHaveBeenCalledWith(
+      'Failed to save scan run report',
+      expect.objectContaining({ error: 'db down' }),
+    );
+  });
 });
 
 // ─── runCheerioScanCycle() / runPlaywrightScanCycle() ─────────────────────────
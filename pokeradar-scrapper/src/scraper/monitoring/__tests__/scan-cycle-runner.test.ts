@@ -10,7 +10,15 @@
  */
 
 import { Browser } from 'playwright';
-import { ShopConfig, ProductResult } from '@pokeradar/shared';
+import {
+  ShopConfig,
+  ProductResult,
+  ProductMatchingPipeline,
+  MatchResult,
+  MatchOutcome,
+  MatchableProductType,
+  MatchableProductSet,
+} from '@pokeradar/shared';
 import { WatchlistProductInternal } from '../../../shared/types';
 import { SetGroup } from '../../../shared/utils/product-utils';
 import { ProductCandidate } from '../../scrapers/base/helpers/candidate-selector';
@@ -22,12 +30,8 @@ import {
   IMultiUserDispatcher,
 } from '../scan-cycle-runner';
 import { ResultBuffer } from '../result-buffer';
-import {
-  ProductMatchingPipeline,
-  MatchResult,
-  MatchableProductType,
-  MatchableProductSet,
-} from '../../../matching';
+import { ScanRunCollector } from '../scan-run-collector';
+import { UnmatchedTitleBuffer } from '../unmatched-title-buffer';
 
 type MockScraper = jest.Mocked<IScraper>;
 
@@ -154,13 +158,24 @@ function makePipeline(
       setNumber: '8',
       setAbbreviation: 'sv08',
     } as MatchableProductSet,
+    title: {
+      raw: 'Surging Sparks Booster Box',
+      normalized: 'surging sparks booster box',
+      language: 'english',
+    },
     score: 90,
-    normalizedTitle: 'surging sparks booster box',
   } as unknown as MatchResult;
 
-  const pipeline = {
-    match: jest.fn().mockReturnValue(matchResult),
-  } as unknown as ProductMatchingPipeline;
+  // evaluate() follows the match() mock, so tests only need to stub match()
+  const match = jest.fn().mockReturnValue(matchResult);
+  const evaluate = jest.fn((title: string): MatchOutcome => {
+    const result = match(title);
+    return result
+      ? { match: result, rejectedBy: null, normalized: title, productType: result.productType }
+      : { match: null, rejectedBy: 'no-type', normalized: title.toLowerCase(), productType: null };
+  });
+
+  const pipeline = { match, evaluate } as unknown as ProductMatchingPipeline;
   return { pipeline, matchResult };
 }
 
@@ -176,6 +191,8 @@ function makeRunner(opts: {
   onShopComplete?: () => Promise<void>;
   pipeline?: ProductMatchingPipeline;
   watchlistIndex?: Map<string, WatchlistProductInternal[]>;
+  scanRun?: ScanRunCollector;
+  unmatchedTitles?: UnmatchedTitleBuffer;
 }) {
   const {
     scraper: sc,
@@ -186,6 +203,8 @@ function makeRunner(opts: {
     onShopComplete,
     pipeline: pl,
     watchlistIndex: wi,
+    scanRun,
+    unmatchedTitles,
   } = opts;
 
   const defaultScraper = sc ?? makeScraper().scraper;
@@ -201,12 +220,14 @@ function makeRunner(opts: {
     dispatcher,
     logger,
     onShopComplete,
+    scanRun,
+    unmatchedTitles,
   };
 
   const runner = new ScanCycleRunner(config);
 
   const usePipeline = pl ?? pipeline;
-  const useIndex = wi ?? new Map([['type-1|set-1', [makeProduct('p1')]]]);
+  const useIndex = wi ?? new Map([['type-1|set-1|english', [makeProduct('p1')]]]);
   runner.setPipelineConfig(usePipeline, useIndex);
 
   return { runner, factory, dispatcher, logger, resultBuffer, pipeline: usePipeline, matchResult };
@@ -265,7 +286,7 @@ describe('runCheerioScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       dispatcher,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-a');
@@ -278,6 +299,62 @@ describe('runCheerioScanCycle()', () => {
     expect(dispatcher.processResult).toHaveBeenCalled();
   });
 
+  it('does not match a candidate to a product in another print language', async () => {
+    const { scraper } = makeScraper(
+      [makeCandidate('Surging Sparks Booster Box JP')],
+      makeResult('p1'),
+    );
+    const { pipeline, matchResult } = makePipeline();
+    matchResult.title.language = 'japanese';
+    const dispatcher = makeDispatcher();
+    const { runner, factory } = makeRunner({
+      scraper,
+      dispatcher,
+      pipeline,
+      watchlistIndex: new Map([['type-1|set-1|english', [makeProduct('p1')]]]),
+    });
+
+    const shop = makeShop('shop-a');
+    factory.groupByEngine.mockReturnValue({ cheerio: [shop], playwright: [] });
+
+    await runner.runCheerioScanCycle([shop], [makeSetGroup('set-1', 'Surging Sparks')], []);
+
+    expect(scraper.scrapeProductWithUrl).not.toHaveBeenCalled();
+    expect(dispatcher.processResult).not.toHaveBeenCalled();
+  });
+
+  it('matches a raw card with a condition to watches on that condition and on any condition', async () => {
+    const { scraper } = makeScraper([makeCandidate('Pikachu ex 238/191 NM')], makeResult('p1'));
+    const { pipeline, matchResult } = makePipeline('single-card', 'sv08');
+    matchResult.card = {
+      id: 'pikachu',
+      productSetId: 'sv08',
+      name: 'Pikachu ex',
+      number: '238/191',
+    };
+    matchResult.grade = null;
+    matchResult.condition = 'nm';
+    const dispatcher = makeDispatcher();
+    const { runner, factory } = makeRunner({
+      scraper,
+      dispatcher,
+      pipeline,
+      watchlistIndex: new Map([
+        ['single-card|pikachu|nm|english', [makeProduct('nm-watch')]],
+        ['single-card|pikachu|raw|english', [makeProduct('any-watch')]],
+        ['single-card|pikachu|lp|english', [makeProduct('lp-watch')]],
+      ]),
+    });
+
+    const shop = makeShop('shop-a');
+    factory.groupByEngine.mockReturnValue({ cheerio: [shop], playwright: [] });
+
+    await runner.runCheerioScanCycle([shop], [makeSetGroup('sv08', 'Pikachu ex 238')], []);
+
+    const dispatched = dispatcher.processResult.mock.calls.map(([product]) => product.id);
+    expect(dispatched.sort()).toEqual(['any-watch', 'nm-watch']);
+  });
+
   it('uses search-page data directly when price is present, skipping product page visit', async () => {
     const product = makeProduct('p1');
     const { scraper } = makeScraper([
@@ -287,7 +364,7 @@ describe('runCheerioScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       dispatcher,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-a');
@@ -309,7 +386,7 @@ describe('runCheerioScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       dispatcher,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-a');
@@ -332,7 +409,7 @@ describe('runCheerioScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       dispatcher,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-a');
@@ -359,6 +436,31 @@ describe('runCheerioScanCycle()', () => {
     expect(dispatcher.processResult).not.toHaveBeenCalled();
   });
 
+  it('buffers titles the pipeline rejects for the unmatched-title inbox', async () => {
+    const { scraper } = makeScraper([makeCandidate('Unknown Product')]);
+    const { pipeline } = makePipeline();
+    (pipeline.match as jest.Mock).mockReturnValue(null);
+    const unmatchedTitles = new UnmatchedTitleBuffer();
+    const addSpy = jest.spyOn(unmatchedTitles, 'add');
+
+    const { runner, factory } = makeRunner({ scraper, pipeline, unmatchedTitles });
+
+    const shop = makeShop('shop-a');
+    factory.groupByEngine.mockReturnValue({ cheerio: [shop], playwright: [] });
+
+    await runner.runCheerioScanCycle([shop], [makeSetGroup('set-1', 'Surging Sparks')], []);
+
+    expect(addSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        shopId: 'shop-a',
+        title: 'Unknown Product',
+        normalizedTitle: 'unknown product',
+        reason: 'no-type',
+        productTypeId: null,
+      }),
+    );
+  });
+
   it('calls onShopComplete after each shop', async () => {
     const { scraper } = makeScraper([]);
     const onShopComplete = jest.fn().mockResolvedValue(undefined);
@@ -401,7 +503,7 @@ describe('runCheerioScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       logger,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-a');
@@ -427,7 +529,7 @@ describe('runCheerioScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       dispatcher,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-a');
@@ -447,6 +549,82 @@ describe('runCheerioScanCycle()', () => {
   });
 });
 
+// ─── scan run metrics ────────────────────────────────────────────────────────
+
+describe('scan run metrics', () => {
+  it('counts candidates, matches and found results per shop', async () => {
+    const product = makeProduct('p1');
+    const { scraper } = makeScraper(
+      [makeCandidate('Surging Sparks Booster Box')],
+      makeResult('p1'),
+    );
+    const scanRun = new ScanRunCollector();
+    const { runner, factory } = makeRunner({
+      scraper,
+      scanRun,
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
+    });
+
+    const shop = makeShop('shop-a');
+    factory.groupByEngine.mockReturnValue({ cheerio: [shop], playwright: [] });
+
+    await runner.runCheerioScanCycle([shop], [makeSetGroup('set-1', 'Surging Sparks')], []);
+
+    expect(scanRun.getShops()).toEqual([
+      expect.objectContaining({
+        shopId: 'shop-a',
+        searches: 1,
+        candidates: 1,
+        matched: 1,
+        unmatched: 0,
+        found: 1,
+        errorCount: 0,
+        breakerTripped: false,
+      }),
+    ]);
+  });
+
+  it('counts candidates the pipeline rejects as unmatched', async () => {
+    const { scraper } = makeScraper([makeCandidate('Unknown Product')]);
+    const { pipeline } = makePipeline();
+    (pipeline.match as jest.Mock).mockReturnValue(null);
+    const scanRun = new ScanRunCollector();
+    const { runner, factory } = makeRunner({ scraper, pipeline, scanRun });
+
+    const shop = makeShop('shop-a');
+    factory.groupByEngine.mockReturnValue({ cheerio: [shop], playwright: [] });
+
+    await runner.runCheerioScanCycle([shop], [makeSetGroup('set-1', 'Surging Sparks')], []);
+
+    expect(scanRun.shop(shop)).toMatchObject({ candidates: 1, matched: 0, unmatched: 1 });
+  });
+
+  it('records search errors and the breaker trip', async () => {
+    const { scraper, extractSearchCandidates } = makeScraper();
+    extractSearchCandidates.mockRejectedValue(new Error('Request timeout after 30000ms'));
+    const scanRun = new ScanRunCollector();
+    const { runner, factory } = makeRunner({ scraper, scanRun });
+
+    const shop = makeShop('shop-a');
+    factory.groupByEngine.mockReturnValue({ cheerio: [shop], playwright: [] });
+
+    await runner.runCheerioScanCycle(
+      [shop],
+      [
+        makeSetGroup('set-1', 'Phrase 1'),
+        makeSetGroup('set-2', 'Phrase 2'),
+        makeSetGroup('set-3', 'Phrase 3'),
+      ],
+      [],
+    );
+
+    const metrics = scanRun.shop(shop);
+    expect(metrics.errorCount).toBe(3);
+    expect(metrics.breakerTripped).toBe(true);
+    expect(metrics.errorMessages).toHaveLength(1);
+  });
+});
+
 // ─── runPlaywrightScanCycle ───────────────────────────────────────────────────
 
 describe('runPlaywrightScanCycle()', () => {
@@ -496,7 +674,7 @@ describe('runPlaywrightScanCycle()', () => {
     const { runner, factory } = makeRunner({
       scraper,
       dispatcher,
-      watchlistIndex: new Map([['type-1|set-1', [product]]]),
+      watchlistIndex: new Map([['type-1|set-1|english', [product]]]),
     });
 
     const shop = makeShop('shop-pw', 'playwright');
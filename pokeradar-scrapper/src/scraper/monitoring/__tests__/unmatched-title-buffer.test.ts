@@ -0,0 +1,71 @@
+import { UnmatchedTitleSighting } from '@pokeradar/shared';
+import { UnmatchedTitleBuffer, IUnmatchedTitleRepository } from '../unmatched-title-buffer';
+
+function makeSighting(title: string, shopId = 'shop-1'): UnmatchedTitleSighting {
+  return {
+    shopId,
+    title,
+    normalizedTitle: title.toLowerCase(),
+    reason: 'no-type',
+    productTypeId: null,
+    url: `https://shop.com/${encodeURIComponent(title)}`,
+    seenAt: new Date(),
+  };
+}
+
+function makeRepo(
+  overrides?: Partial<IUnmatchedTitleRepository>,
+): jest.Mocked<IUnmatchedTitleRepository> {
+  return {
+    upsertBatch: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  } as jest.Mocked<IUnmatchedTitleRepository>;
+}
+
+describe('UnmatchedTitleBuffer', () => {
+  describe('add() / size()', () => {
+    it('keeps one sighting per shop and title', () => {
+      const buffer = new UnmatchedTitleBuffer();
+      buffer.add(makeSighting('Pokemon Playmat'));
+      buffer.add(makeSighting('Pokemon Playmat'));
+      buffer.add(makeSighting('Pokemon Playmat', 'shop-2'));
+      expect(buffer.size()).toBe(2);
+    });
+  });
+
+  describe('flush()', () => {
+    it('writes all sightings in one batch and empties the buffer', async () => {
+      const repo = makeRepo();
+      const buffer = new UnmatchedTitleBuffer(repo);
+      buffer.add(makeSighting('Pokemon Playmat'));
+      buffer.add(makeSighting('Card Sleeves'));
+
+      await buffer.flush();
+
+      expect(repo.upsertBatch).toHaveBeenCalledWith([
+        expect.objectContaining({ title: 'Pokemon Playmat' }),
+        expect.objectContaining({ title: 'Card Sleeves' }),
+      ]);
+      expect(buffer.size()).toBe(0);
+    });
+
+    it('skips the write when the buffer is empty', async () => {
+      const repo = makeRepo();
+      await new UnmatchedTitleBuffer(repo).flush();
+      expect(repo.upsertBatch).not.toHaveBeenCalled();
+    });
+
+    it('logs and swallows repository errors', async () => {
+      const repo = makeRepo({ upsertBatch: jest.fn().mockRejectedValue(new Error('db down')) });
+      const logger = { info: jest.fn(), error: jest.fn() };
+      const buffer = new UnmatchedTitleBuffer(repo, logger);
+      buffer.add(makeSighting('Pokemon Playmat'));
+
+      await expect(buffer.flush()).resolves.toBeUndefined();
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to flush unmatched titles',
+        expect.objectContaining({ error: 'db down' }),
+      );
+    });
+  });
+});
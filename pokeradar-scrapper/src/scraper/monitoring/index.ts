@@ -14,6 +14,13 @@ export {
   type IScanLogger,
   type IScraperFactory,
   type IMultiUserDispatcher,
+  type SearchCompleteEvent,
 } from './scan-cycle-runner';
 export { ResultBuffer, type IProductResultRepository } from './result-buffer';
+export { UnmatchedTitleBuffer, type IUnmatchedTitleRepository } from './unmatched-title-buffer';
+export {
+  ScanRunCollector,
+  type IScanRunRepository,
+  type ScanRunSummary,
+} from './scan-run-collector';
 export { ShopCircuitBreaker } from './shop-circuit-breaker';
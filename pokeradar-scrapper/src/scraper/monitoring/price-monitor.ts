@@ -3,15 +3,20 @@
  * Designed for single-run cron execution with multi-user notification support.
  */
 
-import { ShopConfig } from '@pokeradar/shared';
+import { FetchingTier, ShopConfig } from '@pokeradar/shared';
 import { WatchlistProductInternal } from '../../shared/types';
 import { MultiUserNotificationDispatcher } from '../../shared/notification';
 import { NotificationStateService } from '../../shared/notification';
 import { ResultBuffer, IProductResultRepository } from './result-buffer';
+import { UnmatchedTitleBuffer, IUnmatchedTitleRepository } from './unmatched-title-buffer';
 import { ScanCycleRunner, IScraperFactory, IScanLogger } from './scan-cycle-runner';
-import { groupProductsBySet, SetGroup } from '../../shared/utils/product-utils';
-import { ProductSetModel, ProductTypeModel } from '@pokeradar/shared';
-import { ProductMatchingPipeline, MatchableProductType, MatchableProductSet } from '../../matching';
+import { ScanRunCollector, IScanRunRepository, ScanRunSummary } from './scan-run-collector';
+import {
+  buildWatchlistIndex,
+  groupProductsBySet,
+  SetGroup,
+} from '../../shared/utils/product-utils';
+import { loadPipelineConfig, ProductMatchingPipeline } from '@pokeradar/shared';
 import { AsyncMutex } from '../../shared/utils/async-mutex';
 
 /**
@@ -35,6 +40,12 @@ export interface PriceMonitorConfig {
   shopRepository: IShopRepository;
   watchlistRepository: IWatchlistRepository;
   productResultRepository?: IProductResultRepository;
+  /** Persists titles the matching pipeline rejected. */
+  unmatchedTitleRepository?: IUnmatchedTitleRepository;
+  /** Persists one ScanRun report per full scan cycle. */
+  scanRunRepository?: IScanRunRepository;
+  /** Tier the shop repository is filtered to (FETCHING_TIER), recorded on the ScanRun. */
+  fetchingTier?: FetchingTier;
   logger: IScanLogger;
 }
 
@@ -51,11 +62,15 @@ export class PriceMonitor {
   private setGroups: SetGroup[] = [];
   private ungroupedProducts: WatchlistProductInternal[] = [];
   private resultBuffer: ResultBuffer;
+  private unmatchedTitles: UnmatchedTitleBuffer;
+  private scanRun = new ScanRunCollector();
   private cycleRunner: ScanCycleRunner;
   private notificationFlushMutex = new AsyncMutex();
+  private notificationsCreated = 0;
 
   constructor(private config: PriceMonitorConfig) {
     this.resultBuffer = new ResultBuffer(config.productResultRepository, config.logger);
+    this.unmatchedTitles = new UnmatchedTitleBuffer(config.unmatchedTitleRepository, config.logger);
 
     this.cycleRunner = new ScanCycleRunner({
       scraperFactory: config.scraperFactory,
@@ -63,6 +78,8 @@ export class PriceMonitor {
       dispatcher: config.dispatcher,
       logger: config.logger,
       onShopComplete: () => this.flushNotifications(),
+      scanRun: this.scanRun,
+      unmatchedTitles: this.unmatchedTitles,
     });
   }
 
@@ -91,52 +108,29 @@ export class PriceMonitor {
     // Load notification states for subscribed products only (1 DB query)
     await this.config.stateManager.loadFromRepository(allProductIds);
 
-    // Load product types and sets from DB
-    const [productTypeDocs, productSetDocs] = await Promise.all([
-      ProductTypeModel.find().select('id name matchingProfile contains').lean(),
-      ProductSetModel.find().select('id name series setNumber setAbbreviation').lean(),
-    ]);
-
-    const productTypes: MatchableProductType[] = productTypeDocs.map((doc) => ({
-      id: doc.id,
-      name: doc.name,
-      matchingProfile: {
-        required: doc.matchingProfile?.required ?? [],
-        forbidden: doc.matchingProfile?.forbidden ?? [],
-      },
-      contains: doc.contains ?? [],
-    }));
-
-    const productSets: MatchableProductSet[] = productSetDocs.map((doc) => ({
-      id: doc.id,
-      name: doc.name,
-      series: doc.series,
-      setNumber: doc.setNumber,
-      setAbbreviation: doc.setAbbreviation,
-    }));
+    // Load product types, sets and matching rules from DB
+    const pipelineConfig = await loadPipelineConfig();
+    const { productTypes, productSets } = pipelineConfig;
 
     // Build pipeline (precomputed once, reused for every title match)
-    const pipeline = new ProductMatchingPipeline({ productTypes, productSets });
-
-    // Build watchlist index: typeId|setId → products[]
-    const watchlistIndex = new Map<string, WatchlistProductInternal[]>();
-    for (const product of allProducts) {
-      const key = `${product.productTypeId}|${product.productSetId}`;
-      const existing = watchlistIndex.get(key) ?? [];
-      existing.push(product);
-      watchlistIndex.set(key, existing);
-    }
+    const pipeline = new ProductMatchingPipeline(pipelineConfig);
+
+    // Build watchlist index: match key → products[]
+    const watchlistIndex = buildWatchlistIndex(allProducts);
 
     // Build setMap for SetGroup construction (search phrase = set name)
     const setMap = new Map<string, { name: string; series: string }>();
-    for (const doc of productSetDocs) {
-      setMap.set(doc.id, { name: doc.name, series: doc.series });
+    for (const set of productSets) {
+      setMap.set(set.id, { name: set.name, series: set.series });
     }
+    this.config.dispatcher.setProductSetNames(
+      new Map(productSets.map((set) => [set.id, set.name])),
+    );
 
     this.products = allProducts;
 
     // Group products by set for search URL construction
-    const { setGroups, ungrouped } = groupProductsBySet(allProducts, setMap);
+    const { setGroups, ungrouped } = groupProductsBySet(allProducts, setMap, pipelineConfig.cards);
     this.setGroups = setGroups;
     this.ungroupedProducts = ungrouped;
 
@@ -148,6 +142,9 @@ export class PriceMonitor {
       products: allProducts.length,
       productTypes: productTypes.length,
       productSets: productSets.length,
+      synonymRules: pipelineConfig.synonymRules?.length ?? 'built-in',
+      languages: pipelineConfig.languageTokens?.length ?? 'built-in',
+      cards: pipelineConfig.cards?.length ?? 0,
       setGroups: setGroups.length,
       productsInSets: allProducts.length - ungrouped.length,
       ungrouped: ungrouped.length,
@@ -156,7 +153,8 @@ export class PriceMonitor {
 
   /**
    * Runs a full scan cycle (both Cheerio and Playwright).
-   * Buffers all results and performs a single batch upsert at the end.
+   * Buffers all results and performs a single batch upsert at the end,
+   * then saves the cycle's ScanRun report.
    */
   async runFullScanCycle(): Promise<void> {
     if (this.products.length === 0) {
@@ -169,26 +167,43 @@ export class PriceMonitor {
       products: this.products.length,
     });
 
-    // Reset buffer at start of cycle
+    // Reset buffers and run report at start of cycle
     this.resultBuffer.clear();
-
-    // Run Cheerio cycle
-    await this.cycleRunner.runCheerioScanCycle(this.shops, this.setGroups, this.ungroupedProducts);
-
-    // Hint GC to clean up before memory-intensive Playwright phase
-    if (global.gc) {
-      global.gc();
+    this.unmatchedTitles.clear();
+    this.scanRun.start();
+    this.notificationsCreated = 0;
+
+    try {
+      // Run Cheerio cycle
+      await this.cycleRunner.runCheerioScanCycle(
+        this.shops,
+        this.setGroups,
+        this.ungroupedProducts,
+      );
+
+      // Hint GC to clean up before memory-intensive Playwright phase
+      if (global.gc) {
+        global.gc();
+      }
+
+      // Run Playwright cycle
+      await this.cycleRunner.runPlaywrightScanCycle(
+        this.shops,
+        this.setGroups,
+        this.ungroupedProducts,
+      );
+    } catch (error) {
+      await this.saveScanRun({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        resultsWritten: 0,
+      });
+      throw error;
     }
 
-    // Run Playwright cycle
-    await this.cycleRunner.runPlaywrightScanCycle(
-      this.shops,
-      this.setGroups,
-      this.ungroupedProducts,
-    );
-
     // Flush all buffered data to MongoDB
-    await this.flushAllChanges();
+    const resultsWritten = await this.flushAllChanges();
+    await this.saveScanRun({ status: 'completed', resultsWritten });
 
     this.config.logger.info('Full scan cycle completed');
   }
@@ -217,22 +232,53 @@ export class PriceMonitor {
    */
   private async flushNotifications(): Promise<void> {
     await this.notificationFlushMutex.runExclusive(async () => {
-      await this.config.dispatcher.flushNotifications();
+      this.notificationsCreated += await this.config.dispatcher.flushNotifications();
       await this.config.stateManager.flushChanges();
     });
   }
 
+  /**
+   * Saves the ScanRun report. A failed write is logged, never thrown —
+   * the report must not fail an otherwise successful cycle.
+   */
+  private async saveScanRun(
+    summary: Omit<ScanRunSummary, 'fetchingTier' | 'notificationsCreated'>,
+  ): Promise<void> {
+    if (!this.config.scanRunRepository) return;
+
+    const run = this.scanRun.build({
+      ...summary,
+      fetchingTier: this.config.fetchingTier ?? null,
+      notificationsCreated: this.notificationsCreated,
+    });
+
+    try {
+      await this.config.scanRunRepository.save(run);
+      this.config.logger.info('Saved scan run report', {
+        status: run.status,
+        shops: run.shops.length,
+        durationMs: run.durationMs,
+      });
+    } catch (error) {
+      this.config.logger.error('Failed to save scan run report', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Flushes all buffered changes to MongoDB.
    * Product results are flushed here (once at end of cycle).
    * Notifications are flushed per-shop via onShopComplete, but we do a
    * final sweep here to catch any stragglers.
+   * Returns the number of product results flushed.
    */
-  private async flushAllChanges(): Promise<void> {
+  private async flushAllChanges(): Promise<number> {
     const resultsCount = this.resultBuffer.size();
 
     // Flush ProductResults (only done here, once per cycle)
     await this.resultBuffer.flush();
+    await this.unmatchedTitles.flush();
 
     // Final sweep for any remaining notifications
     await this.flushNotifications();
@@ -240,5 +286,7 @@ export class PriceMonitor {
     this.config.logger.info('Flushed all changes to database', {
       productResults: resultsCount,
     });
+
+    return resultsCount;
   }
 }
@@ -5,14 +5,22 @@
  */
 
 import { Browser } from 'playwright';
-import { ShopConfig, ProductResult } from '@pokeradar/shared';
+import {
+  ShopConfig,
+  ProductResult,
+  ProductMatchingPipeline,
+  MatchOutcome,
+  matchKeyOf,
+  matchKeysOf,
+} from '@pokeradar/shared';
 import { WatchlistProductInternal } from '../../shared/types';
 import { SetGroup } from '../../shared/utils/product-utils';
 import { ProductCandidate, selectBestCandidate } from '../scrapers/base/helpers/candidate-selector';
 import { IScraper } from '../scrapers/base/base-scraper';
 import { ResultBuffer } from './result-buffer';
 import { ShopCircuitBreaker } from './shop-circuit-breaker';
-import { ProductMatchingPipeline } from '../../matching';
+import { ScanRunCollector } from './scan-run-collector';
+import { UnmatchedTitleBuffer } from './unmatched-title-buffer';
 
 const CHEERIO_CONCURRENCY = 10;
 const PRODUCT_CONCURRENCY = 3;
@@ -97,6 +105,16 @@ export interface IMultiUserDispatcher {
   processResult(product: WatchlistProductInternal, result: ProductResult, shop: ShopConfig): void;
 }
 
+/**
+ * Outcome of one set search for a shop: every candidate the navigator returned,
+ * paired with the `typeId|setId|language` key the pipeline matched it to (null if unmatched).
+ */
+export interface SearchCompleteEvent {
+  shopId: string;
+  searchPhrase: string;
+  candidates: Array<{ candidate: ProductCandidate; matchKey: string | null }>;
+}
+
 /**
  * Configuration for scan cycle runner.
  */
@@ -107,6 +125,12 @@ export interface ScanCycleConfig {
   logger: IScanLogger;
   /** Called after each shop completes scanning (both engines). Used to flush notifications early. */
   onShopComplete?: () => Promise<void>;
+  /** Called after each successful set search with the candidates and their match keys. */
+  onSearchComplete?: (event: SearchCompleteEvent) => void;
+  /** Receives per-shop metrics for the ScanRun report. The runner keeps its own when omitted. */
+  scanRun?: ScanRunCollector;
+  /** Receives titles the pipeline rejected, for the admin unmatched-title inbox. */
+  unmatchedTitles?: UnmatchedTitleBuffer;
 }
 
 /**
@@ -125,25 +149,18 @@ interface ProductTask {
   };
 }
 
-/**
- * Statistics for a shop scan.
- */
-interface ShopStats {
-  shopId: string;
-  found: number;
-  notFound: number;
-}
-
 /**
  * Runs scan cycles for Cheerio and Playwright engines.
  * Uses pipeline reverse-matching with per-shop candidate deduplication.
  */
 export class ScanCycleRunner {
-  private shopStats = new Map<string, ShopStats>();
   private pipeline: ProductMatchingPipeline | null = null;
   private watchlistIndex: Map<string, WatchlistProductInternal[]> | null = null;
+  private scanRun: ScanRunCollector;
 
-  constructor(private config: ScanCycleConfig) {}
+  constructor(private config: ScanCycleConfig) {
+    this.scanRun = config.scanRun ?? new ScanRunCollector();
+  }
 
   /**
    * Called by PriceMonitor after initialize() to provide pipeline + watchlist index.
@@ -156,19 +173,6 @@ export class ScanCycleRunner {
     this.watchlistIndex = watchlistIndex;
   }
 
-  private getOrCreateStats(shopId: string): ShopStats {
-    let stats = this.shopStats.get(shopId);
-    if (!stats) {
-      stats = { shopId, found: 0, notFound: 0 };
-      this.shopStats.set(shopId, stats);
-    }
-    return stats;
-  }
-
-  private resetStats(): void {
-    this.shopStats.clear();
-  }
-
   /**
    * Runs Cheerio scan cycle.
    * Phase 1: Accumulate all candidates across all set searches (per shop).
@@ -196,16 +200,20 @@ export class ScanCycleRunner {
 
     const startTime = Date.now();
     const breaker = new ShopCircuitBreaker();
-    this.resetStats();
 
     const shopTasks = cheerioShops.map((shop) => async () => {
-      await this.scanShopConcurrent(shop, setGroups, breaker);
+      const shopStart = Date.now();
+      try {
+        await this.scanShopConcurrent(shop, setGroups, breaker);
+      } finally {
+        this.scanRun.shop(shop).durationMs += Date.now() - shopStart;
+      }
       await this.config.onShopComplete?.();
     });
 
     await runWithConcurrency(shopTasks, CHEERIO_CONCURRENCY);
 
-    this.logCycleCompletion('Cheerio', startTime, breaker);
+    this.logCycleCompletion('Cheerio', startTime, cheerioShops, breaker);
   }
 
   /**
@@ -243,14 +251,18 @@ export class ScanCycleRunner {
       });
 
       const breaker = new ShopCircuitBreaker();
-      this.resetStats();
 
       for (const shop of playwrightShops) {
-        await this.scanShopSequential(shop, setGroups, browser, breaker);
+        const shopStart = Date.now();
+        try {
+          await this.scanShopSequential(shop, setGroups, browser, breaker);
+        } finally {
+          this.scanRun.shop(shop).durationMs += Date.now() - shopStart;
+        }
         await this.config.onShopComplete?.();
       }
 
-      this.logCycleCompletion('Playwright', startTime, breaker);
+      this.logCycleCompletion('Playwright', startTime, playwrightShops, breaker);
     } finally {
       if (browser) {
         await browser.close();
@@ -285,11 +297,14 @@ export class ScanCycleRunner {
           shop: shop.id,
           timeoutMs: SEARCH_PHASE_TIMEOUT_MS,
         });
+        this.scanRun.recordTimeout(shop, `Search phase: ${error.message}`);
       } else {
+        const message = error instanceof Error ? error.message : String(error);
         this.config.logger.error('Search phase failed', {
           shop: shop.id,
-          error: error instanceof Error ? error.message : String(error),
+          error: message,
         });
+        this.scanRun.recordError(shop, `Search phase: ${message}`);
       }
       return;
     } finally {
@@ -316,12 +331,15 @@ export class ScanCycleRunner {
             url: task.resolvedUrl,
             timeoutMs: TASK_TIMEOUT_MS,
           });
+          this.scanRun.recordTimeout(shop, `Product task: ${error.message}`);
         } else {
+          const message = error instanceof Error ? error.message : String(error);
           this.config.logger.error('Error scanning product', {
             product: task.product.id,
             shop: shop.id,
-            error: error instanceof Error ? error.message : String(error),
+            error: message,
           });
+          this.scanRun.recordError(shop, `Product task: ${message}`);
         }
       } finally {
         await scraper.close();
@@ -364,11 +382,13 @@ export class ScanCycleRunner {
         try {
           await this.executeProductTask(scraper, task, shop);
         } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
           this.config.logger.error('Error scanning product', {
             product: task.product.id,
             shop: shop.id,
-            error: error instanceof Error ? error.message : String(error),
+            error: message,
           });
+          this.scanRun.recordError(shop, `Product task: ${message}`);
         }
       }
     } finally {
@@ -411,14 +431,40 @@ export class ScanCycleRunner {
       );
       if (result) {
         this.handleResult(task.product, result, shop);
+      } else {
+        // The scraper already logged the cause
+        this.scanRun.recordError(shop, 'Product page scrape failed');
       }
     }
   }
 
+  /**
+   * Buffers a rejected candidate for the unmatched-title inbox.
+   * Titles normalization discards (too short to be a product) are not worth reviewing.
+   */
+  private recordUnmatched(
+    shop: ShopConfig,
+    candidate: ProductCandidate,
+    outcome: MatchOutcome,
+  ): void {
+    if (!this.config.unmatchedTitles || !outcome.normalized) return;
+    if (!outcome.rejectedBy || outcome.rejectedBy === 'empty') return;
+
+    this.config.unmatchedTitles.add({
+      shopId: shop.id,
+      title: candidate.title,
+      normalizedTitle: outcome.normalized,
+      reason: outcome.rejectedBy,
+      productTypeId: outcome.productType?.id ?? null,
+      url: candidate.url,
+      seenAt: new Date(),
+    });
+  }
+
   /**
    * Accumulates all candidates from all set searches for a shop,
    * runs pipeline matching + watchlist lookup, returns product tasks.
-   * Deduplication is automatic: same title from different searches → same typeId|setId key.
+   * Deduplication is automatic: same title from different searches → same match key.
    */
   private async collectAndMatchCandidatesWithScraper(
     scraper: IScraper,
@@ -430,7 +476,7 @@ export class ScanCycleRunner {
       throw new Error('Pipeline not initialized — call setPipelineConfig() first');
     }
 
-    // Accumulate all candidates per typeId|setId key across all set searches
+    // Accumulate all candidates per typeId|setId|language key across all set searches
     const allCandidates = new Map<string, ProductCandidate[]>();
     const navigator = scraper.getNavigator();
 
@@ -450,28 +496,53 @@ export class ScanCycleRunner {
           candidates: candidates.length,
         });
 
+        const matched: SearchCompleteEvent['candidates'] = [];
         for (const candidate of candidates) {
-          const matchResult = this.pipeline!.match(candidate.title);
-          if (!matchResult) continue;
-
-          const key = `${matchResult.productType.id}|${matchResult.productSet.id}`;
-          const existing = allCandidates.get(key) ?? [];
-          existing.push(candidate);
-          allCandidates.set(key, existing);
+          const outcome = this.pipeline!.evaluate(candidate.title);
+          const matchResult = outcome.match;
+          const key = matchResult ? matchKeyOf(matchResult) : null;
+          matched.push({ candidate, matchKey: key });
+          if (!matchResult) {
+            this.recordUnmatched(shop, candidate, outcome);
+            continue;
+          }
+
+          // A raw card with a condition also counts for watches on any condition
+          for (const matchKey of matchKeysOf(matchResult)) {
+            const existing = allCandidates.get(matchKey) ?? [];
+            existing.push(candidate);
+            allCandidates.set(matchKey, existing);
+          }
         }
+
+        const metrics = this.scanRun.shop(shop);
+        const matchedCount = matched.filter((m) => m.matchKey !== null).length;
+        metrics.searches++;
+        metrics.candidates += candidates.length;
+        metrics.matched += matchedCount;
+        metrics.unmatched += candidates.length - matchedCount;
+
+        this.config.onSearchComplete?.({
+          shopId: shop.id,
+          searchPhrase: setGroup.searchPhrase,
+          candidates: matched,
+        });
       } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
         this.config.logger.error('Set search failed', {
           shop: shop.id,
           setId: setGroup.setId,
           searchPhrase: setGroup.searchPhrase,
-          error: error instanceof Error ? error.message : String(error),
+          error: message,
         });
+        this.scanRun.recordError(shop, `Set search: ${message}`);
 
         const justTripped = breaker.recordFailure(shop.id);
         if (justTripped) {
           this.config.logger.error('Circuit breaker tripped, skipping remaining searches', {
             shop: shop.id,
           });
+          this.scanRun.shop(shop).breakerTripped = true;
         }
       }
     }
@@ -505,7 +576,7 @@ export class ScanCycleRunner {
     for (const [key, products] of this.watchlistIndex!.entries()) {
       if (!foundKeys.has(key)) {
         for (const product of products) {
-          this.getOrCreateStats(shop.id).notFound++;
+          this.scanRun.shop(shop).notFound++;
           this.config.logger.debug('Product not found in any set search', {
             shop: shop.id,
             product: product.id,
@@ -527,8 +598,7 @@ export class ScanCycleRunner {
   ): void {
     this.config.resultBuffer.add(result);
     this.config.dispatcher.processResult(product, result, shop);
-    const stats = this.getOrCreateStats(shop.id);
-    stats.found++;
+    this.scanRun.shop(shop).found++;
   }
 
   /**
@@ -537,6 +607,7 @@ export class ScanCycleRunner {
   private logCycleCompletion(
     engine: string,
     startTime: number,
+    shops: ShopConfig[],
     breaker?: ShopCircuitBreaker,
   ): void {
     const duration = Date.now() - startTime;
@@ -553,9 +624,9 @@ export class ScanCycleRunner {
     });
 
     // Log per-shop results summary
-    const statsArray = Array.from(this.shopStats.values())
-      .filter((s) => s.found > 0 || s.notFound > 0)
-      .sort((a, b) => a.shopId.localeCompare(b.shopId));
+    const statsArray = this.scanRun
+      .getShops(shops.map((shop) => shop.id))
+      .filter((s) => s.found > 0 || s.notFound > 0);
 
     if (statsArray.length > 0) {
       for (const stats of statsArray) {
@@ -0,0 +1,118 @@
+/**
+ * Collects per-shop health metrics during a scan cycle and builds the ScanRun report.
+ */
+
+import {
+  FetchingTier,
+  ScanRun,
+  ScanRunStatus,
+  ShopConfig,
+  ShopScanMetrics,
+} from '@pokeradar/shared';
+
+const MAX_ERROR_MESSAGES = 5;
+
+/**
+ * Repository interface for scan run reports.
+ */
+export interface IScanRunRepository {
+  save(run: ScanRun): Promise<void>;
+}
+
+/**
+ * Cycle-level totals known only to the caller (PriceMonitor).
+ */
+export interface ScanRunSummary {
+  status: ScanRunStatus;
+  error?: string;
+  fetchingTier: FetchingTier | null;
+  resultsWritten: number;
+  notificationsCreated: number;
+}
+
+/**
+ * Mutable per-shop metrics, shared by the Cheerio and Playwright cycles of one run.
+ */
+export class ScanRunCollector {
+  private shops = new Map<string, ShopScanMetrics>();
+  private startedAt = new Date();
+
+  /**
+   * Clears collected metrics and restarts the run clock.
+   */
+  start(): void {
+    this.shops.clear();
+    this.startedAt = new Date();
+  }
+
+  /**
+   * Returns the metrics record for a shop, creating it on first access.
+   */
+  shop(shop: ShopConfig): ShopScanMetrics {
+    let metrics = this.shops.get(shop.id);
+    if (!metrics) {
+      metrics = {
+        shopId: shop.id,
+        engine: shop.engine ?? 'cheerio',
+        durationMs: 0,
+        searches: 0,
+        candidates: 0,
+        matched: 0,
+        unmatched: 0,
+        found: 0,
+        notFound: 0,
+        errorCount: 0,
+        timeouts: 0,
+        breakerTripped: false,
+        errorMessages: [],
+      };
+      this.shops.set(shop.id, metrics);
+    }
+    return metrics;
+  }
+
+  /**
+   * Counts an error for a shop and keeps its message if it's new.
+   */
+  recordError(shop: ShopConfig, message: string): void {
+    const metrics = this.shop(shop);
+    metrics.errorCount++;
+    if (
+      metrics.errorMessages.length < MAX_ERROR_MESSAGES &&
+      !metrics.errorMessages.includes(message)
+    ) {
+      metrics.errorMessages.push(message);
+    }
+  }
+
+  /**
+   * Counts a timeout for a shop. Timeouts are also errors.
+   */
+  recordTimeout(shop: ShopConfig, message: string): void {
+    this.shop(shop).timeouts++;
+    this.recordError(shop, message);
+  }
+
+  /**
+   * Metrics for the given shop IDs (or all shops), sorted by shop ID.
+   */
+  getShops(shopIds?: string[]): ShopScanMetrics[] {
+    return Array.from(this.shops.values())
+      .filter((m) => !shopIds || shopIds.includes(m.shopId))
+      .sort((a, b) => a.shopId.localeCompare(b.shopId));
+  }
+
+  /**
+   * Builds the report for the run started by the last start() call.
+   */
+  build(summary: ScanRunSummary): ScanRun {
+    const finishedAt = new Date();
+    return {
+      startedAt: this.startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+      ...summary,
+      shops: this.getShops(),
+    };
+  }
+}
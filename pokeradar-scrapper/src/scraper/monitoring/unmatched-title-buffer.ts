@@ -0,0 +1,79 @@
+/**
+ * Buffer for search result titles the matching pipeline rejected.
+ */
+
+import { UnmatchedTitleSighting } from '@pokeradar/shared';
+
+/**
+ * Repository interface for unmatched titles.
+ */
+export interface IUnmatchedTitleRepository {
+  upsertBatch(sightings: UnmatchedTitleSighting[]): Promise<void>;
+}
+
+/**
+ * Logger interface for buffer operations.
+ */
+interface ILogger {
+  info(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+/**
+ * Collects unmatched titles during a cycle, one per shop + title, and writes them in one batch.
+ * A title returned by several searches of the same shop counts as a single sighting.
+ */
+export class UnmatchedTitleBuffer {
+  private buffer = new Map<string, UnmatchedTitleSighting>();
+
+  constructor(
+    private repository?: IUnmatchedTitleRepository,
+    private logger?: ILogger,
+  ) {}
+
+  /**
+   * Adds a sighting unless the shop already reported the same title this cycle.
+   */
+  add(sighting: UnmatchedTitleSighting): void {
+    const key = `${sighting.shopId}|${sighting.title}`;
+    if (!this.buffer.has(key)) {
+      this.buffer.set(key, sighting);
+    }
+  }
+
+  /**
+   * Gets the current buffer size.
+   */
+  size(): number {
+    return this.buffer.size;
+  }
+
+  /**
+   * Flushes all buffered sightings to the database.
+   */
+  async flush(): Promise<void> {
+    const sightings = Array.from(this.buffer.values());
+    this.buffer.clear();
+
+    if (!this.repository || sightings.length === 0) {
+      return;
+    }
+
+    try {
+      await this.repository.upsertBatch(sightings);
+      this.logger?.info('Flushed unmatched titles to database', { count: sightings.length });
+    } catch (error) {
+      this.logger?.error('Failed to flush unmatched titles', {
+        count: sightings.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Clears the buffer without writing to database.
+   */
+  clear(): void {
+    this.buffer.clear();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Offline shop regression tests.
+ *
+ * Replays every recorded fixture in scripts/baseline/fixtures through the
+ * production scan cycle with the shop's current config, and asserts the same
+ * candidates, match keys and ProductResults the recording produced.
+ * Re-record with `npm run fixtures:record <shopId>` after an intended change.
+ */
+
+import { loadShopConfigs } from '@pokeradar/shared';
+import {
+  FixtureHttpClient,
+  FixtureMissError,
+  FixturePageStore,
+  ReplayScraperFactory,
+  listShopFixtures,
+  readShopFixture,
+  runFixtureScan,
+} from '..';
+
+const shopsById = new Map(loadShopConfigs().map((shop) => [shop.id, shop]));
+const recordedShops = listShopFixtures();
+
+describe('shop fixtures', () => {
+  it('has at least one recorded shop', () => {
+    expect(recordedShops.length).toBeGreaterThan(0);
+  });
+
+  describe.each(recordedShops)('%s', (shopId) => {
+    const { manifest, pages } = readShopFixture(shopId);
+
+    it('replays to the recorded searches and results', async () => {
+      const shop = shopsById.get(shopId);
+      if (!shop) {
+        throw new Error(`Fixture for unknown shop '${shopId}' — delete it or restore the config`);
+      }
+
+      const outcome = await runFixtureScan(shop, manifest.catalog, new ReplayScraperFactory(pages));
+
+      expect(outcome.searches).toEqual(manifest.expected.searches);
+      expect(outcome.results).toEqual(manifest.expected.results);
+    });
+  });
+});
+
+describe('FixtureHttpClient', () => {
+  it('serves the recorded body with its final URL', async () => {
+    const pages = new FixturePageStore();
+    pages.set('https://shop.pl/szukaj?q=151', {
+      finalUrl: 'https://shop.pl/p/151-etb',
+      body: '<html></html>',
+    });
+
+    const response = await new FixtureHttpClient(pages).get<string>('https://shop.pl/szukaj?q=151');
+
+    expect(response).toEqual({ data: '<html></html>', url: 'https://shop.pl/p/151-etb' });
+  });
+
+  it('throws FixtureMissError for unrecorded URLs', async () => {
+    const client = new FixtureHttpClient(new FixturePageStore());
+
+    await expect(client.get('https://shop.pl/other')).rejects.toBeInstanceOf(FixtureMissError);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * HTTP clients for fixture replay and recording.
+ */
+
+import { HttpGetOptions, HttpResponse, IHttpClient } from '../engines/http';
+import { FixturePageStore } from './fixture-store';
+
+/**
+ * Thrown when replay requests a URL that was never recorded — usually a
+ * selector change that now resolves a different link or pagination URL.
+ */
+export class FixtureMissError extends Error {
+  constructor(public readonly url: string) {
+    super(`No fixture recorded for ${url}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+/**
+ * Serves recorded pages instead of hitting the network.
+ */
+export class FixtureHttpClient implements IHttpClient {
+  constructor(private pages: FixturePageStore) {}
+
+  async get<T>(url: string): Promise<HttpResponse<T>> {
+    const page = this.pages.get(url);
+    if (!page) {
+      throw new FixtureMissError(url);
+    }
+    return { data: page.body as T, url: page.finalUrl };
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+/**
+ * Passes requests through to a real client and records each response body.
+ */
+export class RecordingHttpClient implements IHttpClient {
+  constructor(
+    private wrapped: IHttpClient,
+    private pages: FixturePageStore,
+  ) {}
+
+  async get<T>(url: string, options?: HttpGetOptions): Promise<HttpResponse<T>> {
+    const response = await this.wrapped.get<T>(url, options);
+    this.pages.set(url, { finalUrl: response.url, body: String(response.data) });
+    return response;
+  }
+
+  close(): void {
+    this.wrapped.close();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Scraper factories for recording and replaying shop fixtures.
+ * Both mirror ScraperFactory.create, swapping only the HTTP layer.
+ */
+
+import { Browser } from 'playwright';
+import { ShopConfig } from '@pokeradar/shared';
+import { CheerioEngine } from '../engines/cheerio';
+import { HttpClient } from '../engines/http';
+import { JsonApiEngine } from '../engines/json-api';
+import { PlaywrightEngine } from '../engines/playwright';
+import { DefaultScraper } from '../scrapers/default-scraper';
+import { JsonApiScraper } from '../scrapers/json-api';
+import { IScraper, IScraperLogger } from '../scrapers/base/base-scraper';
+import { ScraperFactory, EngineGroups } from '../scrapers/scraper-factory';
+import { IScraperFactory } from '../monitoring/scan-cycle-runner';
+import { FixturePageStore } from './fixture-store';
+import { FixtureHttpClient, RecordingHttpClient } from './fixture-http-client';
+import { RecordingEngine } from './recording-engine';
+
+/**
+ * Creates scrapers that serve every request from recorded pages.
+ * Playwright shops are replayed through CheerioEngine against their rendered HTML,
+ * so all shops run in the cheerio group and no browser is launched.
+ */
+export class ReplayScraperFactory implements IScraperFactory {
+  constructor(private pages: FixturePageStore) {}
+
+  create(shop: ShopConfig, logger?: IScraperLogger): IScraper {
+    const http = new FixtureHttpClient(this.pages);
+
+    if (shop.engine === 'json-api') {
+      return new JsonApiScraper(shop, new JsonApiEngine(shop, logger, http), logger);
+    }
+
+    return new DefaultScraper(shop, new CheerioEngine(shop, logger, http), logger);
+  }
+
+  groupByEngine(shops: ShopConfig[]): EngineGroups {
+    return { cheerio: shops, playwright: [] };
+  }
+}
+
+/**
+ * Creates production scrapers that also record every page they load.
+ */
+export class RecordingScraperFactory implements IScraperFactory {
+  constructor(private pages: FixturePageStore) {}
+
+  create(shop: ShopConfig, logger?: IScraperLogger, browser?: Browser): IScraper {
+    if (shop.engine === 'playwright') {
+      const engine = new RecordingEngine(new PlaywrightEngine(shop, browser, logger), this.pages);
+      return new DefaultScraper(shop, engine, logger);
+    }
+
+    const http = new RecordingHttpClient(new HttpClient(shop, logger), this.pages);
+
+    if (shop.engine === 'json-api') {
+      return new JsonApiScraper(shop, new JsonApiEngine(shop, logger, http), logger);
+    }
+
+    return new DefaultScraper(shop, new CheerioEngine(shop, logger, http), logger);
+  }
+
+  groupByEngine(shops: ShopConfig[]): EngineGroups {
+    return ScraperFactory.groupByEngine(shops);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Reads and writes shop fixtures on disk.
+ *
+ * Layout:
+ *   <fixturesDir>/<shopId>/manifest.json
+ *   <fixturesDir>/<shopId>/pages/001.html   (or .json for json-api shops)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FixturePage, FixturePageEntry, ShopFixtureManifest } from './fixture.types';
+
+const MANIFEST_FILE = 'manifest.json';
+const PAGES_DIR = 'pages';
+
+/**
+ * In-memory set of recorded pages keyed by requested URL.
+ * Shared by the recording clients (write) and FixtureHttpClient (read).
+ */
+export class FixturePageStore {
+  private pages = new Map<string, FixturePage>();
+
+  set(url: string, page: FixturePage): void {
+    this.pages.set(url, page);
+  }
+
+  get(url: string): FixturePage | undefined {
+    return this.pages.get(url);
+  }
+
+  size(): number {
+    return this.pages.size;
+  }
+
+  /**
+   * Entries sorted by URL, so concurrent recordings number their files deterministically.
+   */
+  entries(): Array<[string, FixturePage]> {
+    return [...this.pages.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }
+}
+
+/**
+ * Default fixtures directory (`pokeradar-scrapper/scripts/baseline/fixtures`).
+ * Resolves the same from `src/` and `dist/`.
+ */
+export function getFixturesDir(): string {
+  return path.join(__dirname, '../../../scripts/baseline/fixtures');
+}
+
+/**
+ * Lists shop IDs that have a recorded fixture.
+ */
+export function listShopFixtures(fixturesDir: string = getFixturesDir()): string[] {
+  if (!fs.existsSync(fixturesDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(fixturesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .filter((shopId) => fs.existsSync(path.join(fixturesDir, shopId, MANIFEST_FILE)))
+    .sort();
+}
+
+/**
+ * Loads a shop fixture and its page bodies.
+ */
+export function readShopFixture(
+  shopId: string,
+  fixturesDir: string = getFixturesDir(),
+): { manifest: ShopFixtureManifest; pages: FixturePageStore } {
+  const shopDir = path.join(fixturesDir, shopId);
+  const manifest: ShopFixtureManifest = JSON.parse(
+    fs.readFileSync(path.join(shopDir, MANIFEST_FILE), 'utf-8'),
+  );
+
+  const pages = new FixturePageStore();
+  for (const entry of manifest.pages) {
+    pages.set(entry.url, {
+      finalUrl: entry.finalUrl,
+      body: fs.readFileSync(path.join(shopDir, entry.file), 'utf-8'),
+    });
+  }
+
+  return { manifest, pages };
+}
+
+/**
+ * Writes a shop fixture, replacing any previous recording for the shop.
+ */
+export function writeShopFixture(
+  manifest: Omit<ShopFixtureManifest, 'pages'>,
+  pages: FixturePageStore,
+  extension: 'html' | 'json',
+  fixturesDir: string = getFixturesDir(),
+): string {
+  const shopDir = path.join(fixturesDir, manifest.shopId);
+  const pagesDir = path.join(shopDir, PAGES_DIR);
+
+  fs.rmSync(pagesDir, { recursive: true, force: true });
+  fs.mkdirSync(pagesDir, { recursive: true });
+
+  const entries: FixturePageEntry[] = pages.entries().map(([url, page], i) => {
+    const file = `${PAGES_DIR}/${String(i + 1).padStart(3, '0')}.${extension}`;
+    fs.writeFileSync(path.join(shopDir, file), page.body, 'utf-8');
+    return { url, finalUrl: page.finalUrl, file };
+  });
+
+  const full: ShopFixtureManifest = { ...manifest, pages: entries };
+  fs.writeFileSync(
+    path.join(shopDir, MANIFEST_FILE),
+    JSON.stringify(full, null, 2) + '\n',
+    'utf-8',
+  );
+
+  return shopDir;
+}
@@ -0,0 +1,88 @@
+/**
+ * Shop fixture type definitions.
+ * A fixture is a recorded scan of one shop: the pages it served, the catalog the
+ * scan ran against, and the outcome those pages produced.
+ */
+
+import { PipelineConfig } from '@pokeradar/shared';
+import { WatchlistProductInternal } from '../../shared/types';
+
+/**
+ * A recorded response, keyed by the URL the engine requested.
+ */
+export interface FixturePage {
+  /** Final URL after redirects (drives direct-hit detection). */
+  finalUrl: string;
+  body: string;
+}
+
+/**
+ * Manifest entry pointing at a page body stored next to the manifest.
+ */
+export interface FixturePageEntry {
+  url: string;
+  finalUrl: string;
+  /** Path relative to the fixture directory, e.g. `pages/003.html`. */
+  file: string;
+}
+
+/**
+ * Reference data the scan was recorded against, including matching rules.
+ * Stored per fixture so replay doesn't depend on the live database.
+ */
+export interface FixtureCatalog extends PipelineConfig {
+  products: WatchlistProductInternal[];
+}
+
+/**
+ * A search result candidate and the `typeId|setId|language` key it matched (null if unmatched).
+ */
+export interface FixtureCandidate {
+  title: string;
+  url: string;
+  searchPageData?: {
+    price: number | null;
+    isAvailable: boolean;
+  };
+  matchKey: string | null;
+}
+
+export interface FixtureSearch {
+  searchPhrase: string;
+  candidates: FixtureCandidate[];
+}
+
+/**
+ * ProductResult without the timestamp, so outcomes compare stably.
+ */
+export interface FixtureResult {
+  productId: string;
+  productUrl: string;
+  productTitle: string;
+  price: number | null;
+  isAvailable: boolean;
+}
+
+/**
+ * Everything a scan of one shop produced, in a deterministic order.
+ */
+export interface FixtureScanOutcome {
+  searches: FixtureSearch[];
+  results: FixtureResult[];
+}
+
+/**
+ * Contents of `<fixturesDir>/<shopId>/manifest.json`.
+ */
+export interface ShopFixtureManifest {
+  shopId: string;
+  recordedAt: string;
+  /**
+   * Set on hand-written fixtures that were never recorded from the live shop.
+   * `npm run fixtures:record` drops it when it overwrites the fixture.
+   */
+  synthetic?: true;
+  catalog: FixtureCatalog;
+  pages: FixturePageEntry[];
+  expected: FixtureScanOutcome;
+}
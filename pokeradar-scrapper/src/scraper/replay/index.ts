@@ -0,0 +1,16 @@
+/**
+ * Shop fixture record/replay exports.
+ */
+
+export * from './fixture.types';
+export {
+  FixturePageStore,
+  getFixturesDir,
+  listShopFixtures,
+  readShopFixture,
+  writeShopFixture,
+} from './fixture-store';
+export { FixtureHttpClient, FixtureMissError, RecordingHttpClient } from './fixture-http-client';
+export { RecordingEngine } from './recording-engine';
+export { ReplayScraperFactory, RecordingScraperFactory } from './fixture-scraper-factory';
+export { runFixtureScan } from './run-fixture-scan';
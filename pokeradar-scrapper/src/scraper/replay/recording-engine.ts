@@ -0,0 +1,48 @@
+/**
+ * Playwright engine wrapper that records the rendered HTML of every page it loads.
+ */
+
+import { Selector } from '@pokeradar/shared';
+import { IEngine, IElement } from '../engines/engine.interface';
+import { PlaywrightEngine } from '../engines/playwright';
+import { FixturePageStore } from './fixture-store';
+
+/**
+ * Records `page.content()` after each navigation, so JS-rendered shops can be
+ * replayed through CheerioEngine without a browser.
+ */
+export class RecordingEngine implements IEngine {
+  constructor(
+    private wrapped: PlaywrightEngine,
+    private pages: FixturePageStore,
+  ) {}
+
+  async goto(url: string): Promise<void> {
+    await this.wrapped.goto(url);
+
+    const body = await this.wrapped.getContent();
+    if (body !== null) {
+      this.pages.set(url, { finalUrl: this.wrapped.getCurrentUrl() ?? url, body });
+    }
+  }
+
+  getCurrentUrl(): string | null {
+    return this.wrapped.getCurrentUrl();
+  }
+
+  async extract(selector: Selector): Promise<string | null> {
+    return this.wrapped.extract(selector);
+  }
+
+  async extractAll(selector: Selector): Promise<IElement[]> {
+    return this.wrapped.extractAll(selector);
+  }
+
+  async exists(selector: Selector): Promise<boolean> {
+    return this.wrapped.exists(selector);
+  }
+
+  async close(): Promise<void> {
+    return this.wrapped.close();
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Runs the production scan cycle for a single shop and captures its outcome.
+ * Used both to record fixtures (live) and to replay them (offline).
+ */
+
+import { ProductMatchingPipeline, ProductResult, ShopConfig } from '@pokeradar/shared';
+import { buildWatchlistIndex, groupProductsBySet } from '../../shared/utils/product-utils';
+import { ResultBuffer } from '../monitoring/result-buffer';
+import {
+  IScraperFactory,
+  ScanCycleRunner,
+  SearchCompleteEvent,
+} from '../monitoring/scan-cycle-runner';
+import { IScraperLogger } from '../scrapers/base/base-scraper';
+import { FixtureCatalog, FixtureResult, FixtureScanOutcome } from './fixture.types';
+
+const silentLogger: IScraperLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Scans one shop against the given catalog and returns searches and results
+ * in a stable order (searches in set-group order, results by product ID).
+ */
+export async function runFixtureScan(
+  shop: ShopConfig,
+  catalog: FixtureCatalog,
+  scraperFactory: IScraperFactory,
+  logger: IScraperLogger = silentLogger,
+): Promise<FixtureScanOutcome> {
+  const { products, ...pipelineConfig } = catalog;
+  const pipeline = new ProductMatchingPipeline(pipelineConfig);
+
+  const setMap = new Map<string, { name: string; series: string }>();
+  for (const set of catalog.productSets) {
+    setMap.set(set.id, { name: set.name, series: set.series });
+  }
+  const { setGroups, ungrouped } = groupProductsBySet(products, setMap, catalog.cards);
+
+  const searches: SearchCompleteEvent[] = [];
+  const results: ProductResult[] = [];
+
+  const runner = new ScanCycleRunner({
+    scraperFactory,
+    resultBuffer: new ResultBuffer(),
+    dispatcher: { processResult: (_product, result) => results.push(result) },
+    logger,
+    onSearchComplete: (event) => searches.push(event),
+  });
+  runner.setPipelineConfig(pipeline, buildWatchlistIndex(products));
+
+  await runner.runCheerioScanCycle([shop], setGroups, ungrouped);
+  await runner.runPlaywrightScanCycle([shop], setGroups, ungrouped);
+
+  return {
+    searches: searches.map((search) => ({
+      searchPhrase: search.searchPhrase,
+      candidates: search.candidates.map(({ candidate, matchKey }) => ({
+        title: candidate.title,
+        url: candidate.url,
+        ...(candidate.searchPageData && { searchPageData: candidate.searchPageData }),
+        matchKey,
+      })),
+    })),
+    results: results.map(toFixtureResult).sort((a, b) => a.productId.localeCompare(b.productId)),
+  };
+}
+
+function toFixtureResult(result: ProductResult): FixtureResult {
+  return {
+    productId: result.productId,
+    productUrl: result.productUrl,
+    productTitle: result.productTitle,
+    price: result.price,
+    isAvailable: result.isAvailable,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * SearchNavigator pagination unit tests.
+ *
+ * Uses an in-memory IEngine stub that serves fake search pages keyed by URL,
+ * so the navigator logic is exercised independently of Cheerio/Playwright.
+ */
+
+import { PaginationConfig, ShopConfig, Selector } from '@pokeradar/shared';
+import { IEngine, IElement } from '../../../engines/engine.interface';
+import { SearchNavigator } from '../search-navigator';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+interface FakeArticle {
+  title: string;
+  href: string;
+}
+
+interface FakePage {
+  articles: FakeArticle[];
+  nextHref?: string;
+}
+
+function makeArticle(article: FakeArticle): IElement {
+  const element: IElement = {
+    getText: async () => article.title,
+    getOwnText: async () => article.title,
+    getAttribute: async (name) => (name === 'href' ? article.href : null),
+    find: async (selector: Selector) => {
+      if (selector.value === 'a') return element;
+      if (selector.value === '.title') return element;
+      return null;
+    },
+    findAll: async () => [],
+    matches: async () => false,
+  };
+  return element;
+}
+
+function makeEngine(pages: Record<string, FakePage>) {
+  let current: string | null = null;
+  const engine: jest.Mocked<IEngine> = {
+    goto: jest.fn(async (url: string) => {
+      current = url;
+    }),
+    getCurrentUrl: jest.fn(() => current),
+    extract: jest.fn<Promise<string | null>, [Selector]>(async () =>
+      current ? (pages[current]?.nextHref ?? null) : null,
+    ),
+    extractAll: jest.fn<Promise<IElement[]>, [Selector]>(async () =>
+      current ? (pages[current]?.articles ?? []).map(makeArticle) : [],
+    ),
+    exists: jest.fn<Promise<boolean>, [Selector]>(async () => false),
+    close: jest.fn(async () => {}),
+  };
+  return engine;
+}
+
+function makeShop(pagination?: PaginationConfig): ShopConfig {
+  return {
+    id: 'test-shop',
+    name: 'Test Shop',
+    baseUrl: 'https://shop.pl',
+    searchUrl: '/szukaj?q={query}',
+    selectors: {
+      searchPage: {
+        article: { type: 'css', value: '.product' },
+        productUrl: { type: 'css', value: 'a' },
+        title: { type: 'css', value: '.title' },
+        pagination,
+      },
+      productPage: {
+        price: { type: 'css', value: '.price' },
+        available: { type: 'css', value: '.buy' },
+      },
+    },
+  };
+}
+
+const PAGE_1 = 'https://shop.pl/szukaj?q=151';
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('SearchNavigator pagination', () => {
+  it('reads only the first page when pagination is not configured', async () => {
+    const engine = makeEngine({
+      [PAGE_1]: { articles: [{ title: 'A', href: '/a' }], nextHref: '/szukaj?q=151&p=2' },
+    });
+    const navigator = new SearchNavigator(makeShop(), engine);
+
+    const candidates = await navigator.extractSearchCandidates('151');
+
+    expect(candidates.map((c) => c.url)).toEqual(['https://shop.pl/a']);
+    expect(engine.goto).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows the next-page link and dedupes by normalized URL', async () => {
+    const engine = makeEngine({
+      [PAGE_1]: {
+        articles: [
+          { title: 'A', href: '/a' },
+          { title: 'B', href: '/b/' },
+        ],
+        nextHref: '/szukaj?q=151&p=2',
+      },
+      'https://shop.pl/szukaj?q=151&p=2': {
+        articles: [
+          { title: 'B', href: '/b#opis' },
+          { title: 'C', href: 'https://shop.pl/c' },
+        ],
+      },
+    });
+    const navigator = new SearchNavigator(
+      makeShop({ nextPage: { type: 'css', value: 'a.next' } }),
+      engine,
+    );
+
+    const candidates = await navigator.extractSearchCandidates('151');
+
+    expect(candidates.map((c) => c.title)).toEqual(['A', 'B', 'C']);
+    expect(engine.goto).toHaveBeenLastCalledWith('https://shop.pl/szukaj?q=151&p=2');
+    expect(engine.extract).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'a.next', extract: 'href' }),
+    );
+  });
+
+  it('builds page URLs from the {page} template and respects maxPages', async () => {
+    const engine = makeEngine({
+      [PAGE_1]: { articles: [{ title: 'A', href: '/a' }] },
+      'https://shop.pl/szukaj?q=151&page=2': { articles: [{ title: 'B', href: '/b' }] },
+      'https://shop.pl/szukaj?q=151&page=3': { articles: [{ title: 'C', href: '/c' }] },
+    });
+    const navigator = new SearchNavigator(
+      makeShop({ pageUrl: '/szukaj?q={query}&page={page}', maxPages: 2 }),
+      engine,
+    );
+
+    const candidates = await navigator.extractSearchCandidates('151');
+
+    expect(candidates.map((c) => c.title)).toEqual(['A', 'B']);
+    expect(engine.goto).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when a page yields no new candidates', async () => {
+    // Shop ignores the page parameter and keeps serving page 1
+    const samePage = { articles: [{ title: 'A', href: '/a' }] };
+    const engine = makeEngine({
+      [PAGE_1]: samePage,
+      'https://shop.pl/szukaj?q=151&page=2': samePage,
+      'https://shop.pl/szukaj?q=151&page=3': samePage,
+    });
+    const navigator = new SearchNavigator(
+      makeShop({ pageUrl: '/szukaj?q={query}&page={page}', maxPages: 5 }),
+      engine,
+    );
+
+    const candidates = await navigator.extractSearchCandidates('151');
+
+    expect(candidates).toHaveLength(1);
+    expect(engine.goto).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when there is no next-page link', async () => {
+    const engine = makeEngine({
+      [PAGE_1]: { articles: [{ title: 'A', href: '/a' }] },
+    });
+    const navigator = new SearchNavigator(
+      makeShop({ nextPage: { type: 'css', value: 'a.next' } }),
+      engine,
+    );
+
+    const candidates = await navigator.extractSearchCandidates('151');
+
+    expect(candidates).toHaveLength(1);
+    expect(engine.goto).toHaveBeenCalledTimes(1);
+  });
+});
@@ -4,7 +4,7 @@
  * Engine-agnostic - works with both Cheerio and Playwright engines.
  */
 
-import { ShopConfig, ProductResult } from '@pokeradar/shared';
+import { ShopConfig, ShopSelectors, ProductResult } from '@pokeradar/shared';
 import { WatchlistProductInternal } from '../../../shared/types';
 import { IEngine } from '../../engines/engine.interface';
 import { PriceParser } from '../../../shared/utils/price-parser';
@@ -55,6 +55,16 @@ export abstract class BaseScraper implements IScraper {
     this.navigator = new SearchNavigator(config, engine, logger);
   }
 
+  /**
+   * HTML selectors of the shop — throws for JSON API shops, which never visit product pages.
+   */
+  protected get selectors(): ShopSelectors {
+    if (!this.config.selectors) {
+      throw new Error(`Shop ${this.config.id} has no selectors configured`);
+    }
+    return this.config.selectors;
+  }
+
   /**
    * Navigates to the product page.
    */
@@ -67,13 +77,13 @@ export abstract class BaseScraper implements IScraper {
    * Can be overridden for custom price extraction logic.
    */
   protected async extractPrice(): Promise<number | null> {
-    const priceText = await this.engine.extract(this.config.selectors.productPage.price);
+    const priceText = await this.engine.extract(this.selectors.productPage.price);
 
     if (!priceText) {
       return null;
     }
 
-    const format = this.config.selectors.productPage.price.format || 'european';
+    const format = this.selectors.productPage.price.format || 'european';
 
     try {
       return this.priceParser.parse(priceText, format);
@@ -93,7 +103,7 @@ export abstract class BaseScraper implements IScraper {
    * Can be overridden for custom availability logic.
    */
   protected async checkAvailability(): Promise<boolean> {
-    const availSelector = this.config.selectors.productPage.available;
+    const availSelector = this.selectors.productPage.available;
 
     // Handle both single selector and array of selectors
     const selectors = Array.isArray(availSelector) ? availSelector : [availSelector];
@@ -107,6 +117,20 @@ export abstract class BaseScraper implements IScraper {
       }
     }
 
+    // Neither marker matching usually means the page layout changed under the selectors
+    const unavailSelector = this.selectors.productPage.unavailable;
+    if (unavailSelector) {
+      const unavailSelectors = Array.isArray(unavailSelector) ? unavailSelector : [unavailSelector];
+      for (const selector of unavailSelectors) {
+        if (await this.engine.exists(selector)) return false;
+      }
+
+      this.logger?.warn('Availability check: neither available nor unavailable matched', {
+        shop: this.config.id,
+      });
+      return false;
+    }
+
     this.logger?.debug('Availability check: no match found', {
       shop: this.config.id,
     });
@@ -2,12 +2,14 @@
  * Search and navigation logic for product scraping.
  */
 
-import { ShopConfig, Selector } from '@pokeradar/shared';
+import { ShopConfig, ShopSelectors, Selector } from '@pokeradar/shared';
 import { IEngine, IElement } from '../../engines/engine.interface';
 import {
   normalizeUrl,
   buildSearchUrl,
+  buildSearchPageUrl,
   extractTitleFromUrl,
+  getUrlDedupeKey,
 } from '../../../shared/utils/url-normalizer';
 import { ProductCandidate } from './helpers/candidate-selector';
 import { PriceParser } from '../../../shared/utils/price-parser';
@@ -15,26 +17,40 @@ import { PriceParser } from '../../../shared/utils/price-parser';
 /**
  * Logger interface for search navigation.
  */
-interface ILogger {
+export interface ILogger {
   debug(message: string, meta?: Record<string, unknown>): void;
   info(message: string, meta?: Record<string, unknown>): void;
 }
 
+const DEFAULT_MAX_SEARCH_PAGES = 3;
+
 /**
  * Handles search page extraction and navigation.
  */
 export class SearchNavigator {
-  private priceParser = new PriceParser();
+  protected priceParser = new PriceParser();
 
   constructor(
-    private config: ShopConfig,
-    private engine: IEngine,
-    private logger?: ILogger,
+    protected config: ShopConfig,
+    protected engine: IEngine,
+    protected logger?: ILogger,
   ) {}
 
+  /**
+   * HTML selectors of the shop. Only JSON API shops may omit them, and those
+   * use a navigator that never reads selectors.
+   */
+  protected get selectors(): ShopSelectors {
+    if (!this.config.selectors) {
+      throw new Error(`Shop ${this.config.id} has no selectors configured`);
+    }
+    return this.config.selectors;
+  }
+
   /**
    * Performs a set-level search and extracts all article candidates (title + URL).
    * Does NOT do product-specific matching — pipeline identifies what each candidate is.
+   * Follows `searchPage.pagination` when configured; candidates are deduplicated by URL.
    */
   async extractSearchCandidates(searchPhrase: string): Promise<ProductCandidate[]> {
     const searchUrl = buildSearchUrl(this.config.baseUrl, this.config.searchUrl, searchPhrase);
@@ -58,20 +74,67 @@ export class SearchNavigator {
       return this.extractDirectHitCandidate(currentUrl!);
     }
 
-    const articles = await this.engine.extractAll(this.config.selectors.searchPage.article);
+    const pagination = this.selectors.searchPage.pagination;
+    const maxPages = pagination ? (pagination.maxPages ?? DEFAULT_MAX_SEARCH_PAGES) : 1;
+    const candidates = new Map<string, ProductCandidate>();
+    const visitedUrls = new Set<string>([searchUrl, currentUrl ?? searchUrl]);
 
-    if (articles.length === 0) {
-      this.logger?.debug('No articles found for set search', {
+    for (let page = 1; page <= maxPages; page++) {
+      const pageCandidates = await this.extractPageCandidates();
+
+      if (pageCandidates.length === 0) {
+        if (page === 1) {
+          this.logger?.debug('No articles found for set search', {
+            shop: this.config.id,
+            phrase: searchPhrase,
+          });
+        }
+        break;
+      }
+
+      let added = 0;
+      for (const candidate of pageCandidates) {
+        const key = getUrlDedupeKey(candidate.url);
+        if (!candidates.has(key)) {
+          candidates.set(key, candidate);
+          added++;
+        }
+      }
+
+      // Shops that ignore the page parameter keep serving page 1 — stop once nothing is new
+      if (page > 1 && added === 0) break;
+      if (page === maxPages) break;
+
+      const nextUrl = await this.resolveNextPageUrl(searchPhrase, page + 1);
+      if (!nextUrl || visitedUrls.has(nextUrl)) break;
+      visitedUrls.add(nextUrl);
+
+      this.logger?.debug('Following search pagination', {
         shop: this.config.id,
         phrase: searchPhrase,
+        page: page + 1,
+        url: nextUrl,
       });
+      await this.engine.goto(nextUrl);
+    }
+
+    return [...candidates.values()];
+  }
+
+  /**
+   * Extracts all article candidates (title + URL) from the currently loaded search page.
+   */
+  private async extractPageCandidates(): Promise<ProductCandidate[]> {
+    const articles = await this.engine.extractAll(this.selectors.searchPage.article);
+
+    if (articles.length === 0) {
       return [];
     }
 
     // Process all articles in parallel
     const candidatePromises = articles.map(async (article): Promise<ProductCandidate | null> => {
-      const titleSelector = this.config.selectors.searchPage.title;
-      const useTitleFromUrl = this.config.selectors.searchPage.titleFromUrl;
+      const titleSelector = this.selectors.searchPage.title;
+      const useTitleFromUrl = this.selectors.searchPage.titleFromUrl;
 
       // Parallelize all element lookups for this article
       const [titleResult, urlElement, searchPageData] = await Promise.all([
@@ -84,7 +147,7 @@ export class SearchNavigator {
               ? article.find(titleSelector).then((el) => el?.getText() ?? null)
               : Promise.resolve(null),
         // Get URL
-        article.find(this.config.selectors.searchPage.productUrl),
+        article.find(this.selectors.searchPage.productUrl),
         // Get search page data (price, availability)
         this.extractSearchPageData(article),
       ]);
@@ -113,6 +176,29 @@ export class SearchNavigator {
     return results.filter((c): c is ProductCandidate => c !== null);
   }
 
+  /**
+   * Resolves the URL of the next search results page.
+   * A `pageUrl` template takes precedence over following the "next page" link.
+   */
+  private async resolveNextPageUrl(searchPhrase: string, page: number): Promise<string | null> {
+    const pagination = this.selectors.searchPage.pagination;
+    if (!pagination) return null;
+
+    if (pagination.pageUrl) {
+      return buildSearchPageUrl(this.config.baseUrl, pagination.pageUrl, searchPhrase, page);
+    }
+
+    if (pagination.nextPage) {
+      const href = await this.engine.extract({
+        ...pagination.nextPage,
+        extract: pagination.nextPage.extract ?? 'href',
+      });
+      return href ? normalizeUrl(href, this.config.baseUrl) : null;
+    }
+
+    return null;
+  }
+
   /**
    * Attempts to extract price and availability from a search page article element.
    * Returns enriched data if BOTH price and availability can be determined, null otherwise.
@@ -120,7 +206,7 @@ export class SearchNavigator {
   private async extractSearchPageData(
     article: IElement,
   ): Promise<{ price: number | null; isAvailable: boolean } | null> {
-    const searchSelectors = this.config.selectors.searchPage;
+    const searchSelectors = this.selectors.searchPage;
 
     const hasAvailabilitySelector = !!searchSelectors.available || !!searchSelectors.unavailable;
 
@@ -215,7 +301,7 @@ export class SearchNavigator {
    * downstream flow skips a redundant product page visit.
    */
   private async extractDirectHitCandidate(productUrl: string): Promise<ProductCandidate[]> {
-    const pageSelectors = this.config.selectors.productPage;
+    const pageSelectors = this.selectors.productPage;
 
     // Extract title
     let title: string | null = null;
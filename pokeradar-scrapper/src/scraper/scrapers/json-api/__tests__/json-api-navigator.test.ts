@@ -0,0 +1,226 @@
+/**
+ * JsonApiNavigator unit tests.
+ *
+ * Serves canned platform responses through a mocked axios, so the presets are
+ * exercised end to end through the real JsonApiEngine.
+ */
+
+import axios from 'axios';
+import { JsonApiConfig, ShopConfig } from '@pokeradar/shared';
+import { JsonApiEngine } from '../../../engines/json-api';
+import { JsonApiNavigator } from '../json-api-navigator';
+import { parseJsonAvailability, parseJsonPrice } from '../json-api-presets';
+
+jest.mock('axios');
+jest.mock('../../../../shared/utils', () => ({
+  getProxyConfig: jest.fn().mockReturnValue(null),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function makeShop(jsonApi: JsonApiConfig): ShopConfig {
+  return {
+    id: 'json-shop',
+    name: 'JSON Shop',
+    engine: 'json-api',
+    baseUrl: 'https://shop.pl',
+    searchUrl: '/api/search?q={query}',
+    jsonApi,
+  };
+}
+
+function mockJsonResponse(body: unknown) {
+  mockedAxios.get.mockResolvedValueOnce({
+    data: JSON.stringify(body),
+    request: { res: {} },
+  });
+}
+
+async function search(jsonApi: JsonApiConfig, body: unknown) {
+  mockJsonResponse(body);
+  const shop = makeShop(jsonApi);
+  const navigator = new JsonApiNavigator(shop, new JsonApiEngine(shop));
+  return navigator.extractSearchCandidates('151');
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ─── Presets ─────────────────────────────────────────────────────────────────
+
+describe('JsonApiNavigator presets', () => {
+  it('maps Shopify predictive search results', async () => {
+    const candidates = await search(
+      { platform: 'shopify' },
+      {
+        resources: {
+          results: {
+            products: [
+              {
+                title: 'Scarlet & Violet 151 Booster Box',
+                url: '/products/151-bb',
+                price: '899.99',
+                available: true,
+              },
+              { title: '151 ETB', url: '/products/151-etb', price: '279.00', available: false },
+            ],
+          },
+        },
+      },
+    );
+
+    expect(candidates).toEqual([
+      {
+        title: 'Scarlet & Violet 151 Booster Box',
+        url: 'https://shop.pl/products/151-bb',
+        score: 0,
+        searchPageData: { price: 899.99, isAvailable: true },
+      },
+      {
+        title: '151 ETB',
+        url: 'https://shop.pl/products/151-etb',
+        score: 0,
+        searchPageData: { price: 279, isAvailable: false },
+      },
+    ]);
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'https://shop.pl/api/search?q=151',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Accept: expect.stringContaining('application/json') }),
+      }),
+    );
+  });
+
+  it('maps WooCommerce Store API products with minor-unit prices and escaped names', async () => {
+    const candidates = await search({ platform: 'woocommerce-store-api' }, [
+      {
+        name: 'Pok&eacute;mon 151 &#8211; Booster',
+        permalink: 'https://shop.pl/produkt/151-booster/',
+        prices: { price: '2499', currency_minor_unit: 2 },
+        is_in_stock: true,
+      },
+    ]);
+
+    expect(candidates).toEqual([
+      {
+        title: 'Pokémon 151 – Booster',
+        url: 'https://shop.pl/produkt/151-booster/',
+        score: 0,
+        searchPageData: { price: 24.99, isAvailable: true },
+      },
+    ]);
+  });
+
+  it('maps Shoper search results', async () => {
+    const candidates = await search(
+      { platform: 'shoper' },
+      {
+        list: [
+          {
+            name: '151 Mini Tin',
+            url: '/pl/p/151-Mini-Tin/123',
+            price: { gross: { final_float: 59.9 } },
+            can_buy: false,
+          },
+        ],
+      },
+    );
+
+    expect(candidates).toEqual([
+      {
+        title: '151 Mini Tin',
+        url: 'https://shop.pl/pl/p/151-Mini-Tin/123',
+        score: 0,
+        searchPageData: { price: 59.9, isAvailable: false },
+      },
+    ]);
+  });
+
+  it('applies per-shop field overrides on top of the preset', async () => {
+    const candidates = await search(
+      { platform: 'woocommerce-store-api', fields: { items: 'data', price: 'price_html' } },
+      {
+        data: [
+          {
+            name: 'Booster',
+            permalink: '/produkt/booster',
+            price_html: '1 299,99 zł',
+            is_in_stock: 'instock',
+          },
+        ],
+      },
+    );
+
+    expect(candidates[0].searchPageData).toEqual({ price: 1299.99, isAvailable: true });
+  });
+});
+
+// ─── Candidate handling ──────────────────────────────────────────────────────
+
+describe('JsonApiNavigator candidates', () => {
+  it('skips items without a title or URL and dedupes by normalized URL', async () => {
+    const candidates = await search(
+      { platform: 'shopify' },
+      {
+        resources: {
+          results: {
+            products: [
+              { title: 'A', url: '/products/a', price: '10.00', available: true },
+              { title: 'A (duplicate)', url: '/products/a/', price: '10.00', available: true },
+              { title: '', url: '/products/b', price: '10.00', available: true },
+              { title: 'C', price: '10.00', available: true },
+            ],
+          },
+        },
+      },
+    );
+
+    expect(candidates.map((c) => c.title)).toEqual(['A']);
+  });
+
+  it('returns no candidates when the items path does not hold an array', async () => {
+    const candidates = await search({ platform: 'shoper' }, { error: 'not found' });
+
+    expect(candidates).toEqual([]);
+  });
+
+  it('rejects shops without a jsonApi config', () => {
+    const shop = { ...makeShop({ platform: 'shopify' }), jsonApi: undefined };
+
+    expect(() => new JsonApiNavigator(shop, new JsonApiEngine(shop))).toThrow('no jsonApi config');
+  });
+});
+
+// ─── Value parsing ───────────────────────────────────────────────────────────
+
+describe('parseJsonPrice', () => {
+  it.each([
+    [129.99, 129.99],
+    ['129.99', 129.99],
+    ['129', 129],
+    ['1 299,99 zł', 1299.99],
+    [null, null],
+    [{ amount: 1 }, null],
+    [Number.NaN, null],
+  ])('parses %p as %p', (input, expected) => {
+    expect(parseJsonPrice(input)).toBe(expected);
+  });
+});
+
+describe('parseJsonAvailability', () => {
+  it.each([
+    [true, true],
+    [false, false],
+    [1, true],
+    [0, false],
+    ['instock', true],
+    ['outofstock', false],
+    ['false', false],
+    [undefined, false],
+  ])('treats %p as %p', (input, expected) => {
+    expect(parseJsonAvailability(input)).toBe(expected);
+  });
+});
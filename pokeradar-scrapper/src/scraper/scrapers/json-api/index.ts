@@ -0,0 +1,12 @@
+/**
+ * JSON API scraper exports.
+ */
+
+export { JsonApiScraper } from './json-api-scraper';
+export { JsonApiNavigator } from './json-api-navigator';
+export {
+  JSON_API_PRESETS,
+  type JsonApiPreset,
+  type JsonApiMapping,
+  resolveJsonApiMapping,
+} from './json-api-presets';
@@ -0,0 +1,91 @@
+/**
+ * Search navigation for shops scraped through a JSON search endpoint.
+ */
+
+import { ShopConfig } from '@pokeradar/shared';
+import { JsonApiEngine, jsonValueToString, resolveJsonPath } from '../../engines/json-api';
+import {
+  buildSearchUrl,
+  getUrlDedupeKey,
+  normalizeUrl,
+} from '../../../shared/utils/url-normalizer';
+import { ILogger, SearchNavigator } from '../base/search-navigator';
+import { ProductCandidate } from '../base/helpers/candidate-selector';
+import {
+  JsonApiMapping,
+  decodeHtmlTitle,
+  parseJsonAvailability,
+  resolveJsonApiMapping,
+} from './json-api-presets';
+
+/**
+ * Reads candidates straight from the JSON response. Every candidate carries
+ * price and availability, so product pages are never visited.
+ */
+export class JsonApiNavigator extends SearchNavigator {
+  private mapping: JsonApiMapping;
+
+  constructor(
+    config: ShopConfig,
+    private jsonEngine: JsonApiEngine,
+    logger?: ILogger,
+  ) {
+    super(config, jsonEngine, logger);
+
+    if (!config.jsonApi) {
+      throw new Error(`Shop ${config.id} uses the json-api engine but has no jsonApi config`);
+    }
+    this.mapping = resolveJsonApiMapping(config.jsonApi);
+  }
+
+  async extractSearchCandidates(searchPhrase: string): Promise<ProductCandidate[]> {
+    const searchUrl = buildSearchUrl(this.config.baseUrl, this.config.searchUrl, searchPhrase);
+
+    await this.jsonEngine.goto(searchUrl);
+
+    const items = resolveJsonPath(this.jsonEngine.getJson(), this.mapping.fields.items);
+    if (!Array.isArray(items) || items.length === 0) {
+      this.logger?.debug('No items found in JSON search response', {
+        shop: this.config.id,
+        phrase: searchPhrase,
+        itemsPath: this.mapping.fields.items,
+      });
+      return [];
+    }
+
+    const candidates = new Map<string, ProductCandidate>();
+    for (const item of items) {
+      const candidate = this.toCandidate(item);
+      if (!candidate) continue;
+
+      const key = getUrlDedupeKey(candidate.url);
+      if (!candidates.has(key)) {
+        candidates.set(key, candidate);
+      }
+    }
+
+    return [...candidates.values()];
+  }
+
+  private toCandidate(item: unknown): ProductCandidate | null {
+    const { fields, readPrice, htmlTitles } = this.mapping;
+
+    const rawTitle = jsonValueToString(resolveJsonPath(item, fields.title));
+    const rawUrl = jsonValueToString(resolveJsonPath(item, fields.url));
+    const title = rawTitle && htmlTitles ? decodeHtmlTitle(rawTitle) : rawTitle;
+
+    if (!title || !rawUrl) {
+      return null;
+    }
+
+    return {
+      title,
+      url: normalizeUrl(rawUrl, this.config.baseUrl),
+      score: 0,
+      searchPageData: {
+        price: readPrice(item),
+        isAvailable: parseJsonAvailability(resolveJsonPath(item, fields.available)),
+      },
+    };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Field mappings for storefront platforms with JSON search endpoints.
+ */
+
+import * as cheerio from 'cheerio';
+import { JsonApiConfig, JsonApiFieldMap, JsonApiPlatform } from '@pokeradar/shared';
+import { resolveJsonPath } from '../../engines/json-api';
+import { PriceParser } from '../../../shared/utils/price-parser';
+
+const priceParser = new PriceParser();
+
+/**
+ * Field paths plus platform-specific value handling.
+ */
+export interface JsonApiPreset {
+  fields: Required<JsonApiFieldMap>;
+  /** Reads the price when it spans several fields (e.g. minor units). Skipped if `fields.price` is overridden. */
+  readPrice?: (item: unknown) => number | null;
+  /** Titles are HTML-escaped in the response. */
+  htmlTitles?: boolean;
+}
+
+/**
+ * Resolved mapping used by the navigator for one shop.
+ */
+export interface JsonApiMapping {
+  fields: Required<JsonApiFieldMap>;
+  readPrice: (item: unknown) => number | null;
+  htmlTitles: boolean;
+}
+
+/**
+ * Platform presets. Endpoints each preset expects as `searchUrl`:
+ *   - shopify:               /search/suggest.json?q={query}&resources[type]=product&resources[limit]=10
+ *   - woocommerce-store-api: /wp-json/wc/store/v1/products?search={query}&per_page=50
+ *   - shoper:                /webapi/front/pl_PL/products/PLN/search?phrase={query}&limit=50
+ */
+export const JSON_API_PRESETS: Record<JsonApiPlatform, JsonApiPreset> = {
+  shopify: {
+    fields: {
+      items: 'resources.results.products',
+      title: 'title',
+      url: 'url',
+      price: 'price',
+      available: 'available',
+    },
+  },
+  'woocommerce-store-api': {
+    fields: {
+      items: '',
+      title: 'name',
+      url: 'permalink',
+      price: 'prices.price',
+      available: 'is_in_stock',
+    },
+    // Store API returns prices as integer strings in minor units ("12999" = 129.99)
+    readPrice: (item) => {
+      const minor = parseJsonPrice(resolveJsonPath(item, 'prices.price'));
+      const unit = Number(resolveJsonPath(item, 'prices.currency_minor_unit') ?? 2);
+      return minor === null ? null : minor / 10 ** (Number.isFinite(unit) ? unit : 2);
+    },
+    htmlTitles: true,
+  },
+  shoper: {
+    fields: {
+      items: 'list',
+      title: 'name',
+      url: 'url',
+      price: 'price.gross.final_float',
+      available: 'can_buy',
+    },
+  },
+};
+
+/**
+ * Merges the platform preset with per-shop field overrides.
+ */
+export function resolveJsonApiMapping(config: JsonApiConfig): JsonApiMapping {
+  const preset = JSON_API_PRESETS[config.platform];
+  if (!preset) {
+    throw new Error(`Unknown JSON API platform: ${config.platform}`);
+  }
+
+  const fields = { ...preset.fields, ...config.fields };
+  const readPrice =
+    preset.readPrice && config.fields?.price === undefined
+      ? preset.readPrice
+      : (item: unknown) => parseJsonPrice(resolveJsonPath(item, fields.price));
+
+  return { fields, readPrice, htmlTitles: preset.htmlTitles ?? false };
+}
+
+/**
+ * Parses a JSON price value. Numbers pass through; strings may be a plain
+ * decimal ("129.99") or a formatted Polish price ("1 299,99 zł").
+ */
+export function parseJsonPrice(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  return priceParser.parse(trimmed, 'european');
+}
+
+/**
+ * Interprets a JSON availability value. Strings such as "false", "0" or
+ * "outofstock" count as unavailable; everything else uses JS truthiness.
+ */
+export function parseJsonAvailability(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return !['', 'false', '0', 'outofstock'].includes(value.trim().toLowerCase());
+  }
+  return Boolean(value);
+}
+
+/**
+ * Decodes HTML entities and strips tags from a title (WooCommerce escapes names).
+ */
+export function decodeHtmlTitle(title: string): string {
+  return cheerio.load(title, null, false).text().trim();
+}
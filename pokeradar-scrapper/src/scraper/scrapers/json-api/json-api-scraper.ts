@@ -0,0 +1,36 @@
+/**
+ * Scraper for shops exposing a JSON search endpoint.
+ */
+
+import { ProductResult, ShopConfig } from '@pokeradar/shared';
+import { WatchlistProductInternal } from '../../../shared/types';
+import { JsonApiEngine } from '../../engines/json-api';
+import { BaseScraper, IScraperLogger } from '../base/base-scraper';
+import { JsonApiNavigator } from './json-api-navigator';
+
+/**
+ * All product data comes from the search response, so there is no product
+ * page to scrape — candidates always carry search page data.
+ */
+export class JsonApiScraper extends BaseScraper {
+  constructor(config: ShopConfig, engine: JsonApiEngine, logger?: IScraperLogger) {
+    super(config, engine, logger);
+    this.navigator = new JsonApiNavigator(config, engine, logger);
+  }
+
+  /**
+   * Only reached when the JSON had the product in stock without a price.
+   * Nothing more can be learned without HTML selectors, so the result is dropped.
+   */
+  async scrapeProductWithUrl(
+    product: WatchlistProductInternal,
+    productUrl: string,
+  ): Promise<ProductResult | null> {
+    this.logger?.warn('JSON API item has no price, skipping', {
+      shop: this.config.id,
+      product: product.id,
+      url: productUrl,
+    });
+    return null;
+  }
+}
@@ -6,11 +6,14 @@ import { Browser } from 'playwright';
 import { ShopConfig } from '@pokeradar/shared';
 import { CheerioEngine } from '../engines/cheerio';
 import { PlaywrightEngine } from '../engines/playwright';
+import { JsonApiEngine } from '../engines/json-api';
 import { DefaultScraper } from './default-scraper';
+import { JsonApiScraper } from './json-api';
 import { IScraper, IScraperLogger } from './base/base-scraper';
 
 /**
  * Groups shops by their configured engine type.
+ * JSON API shops are plain HTTP and run alongside the cheerio group.
  */
 export interface EngineGroups {
   cheerio: ShopConfig[];
@@ -25,6 +28,10 @@ export class ScraperFactory {
    * Creates a scraper for the given shop configuration.
    */
   static create(shop: ShopConfig, logger?: IScraperLogger, browser?: Browser): IScraper {
+    if (shop.engine === 'json-api') {
+      return new JsonApiScraper(shop, new JsonApiEngine(shop, logger), logger);
+    }
+
     const engine =
       shop.engine === 'playwright'
         ? new PlaywrightEngine(shop, browser, logger)
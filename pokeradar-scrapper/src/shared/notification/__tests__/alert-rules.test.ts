@@ -0,0 +1,108 @@
+import { ProductResult, WatchAlertRules } from '@pokeradar/shared';
+import { evaluateAlertRules } from '../alert-rules';
+
+function makeResult(overrides?: Partial<ProductResult>): ProductResult {
+  return {
+    productId: 'p1',
+    shopId: 'shop-1',
+    productUrl: 'https://shop.com/p1',
+    productTitle: 'p1',
+    price: 150,
+    isAvailable: true,
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+function watcher(maxPrice: number, alertRules?: WatchAlertRules) {
+  return { maxPrice, alertRules };
+}
+
+describe('evaluateAlertRules', () => {
+  it('fires on price at or below maxPrice', () => {
+    expect(evaluateAlertRules(watcher(150), makeResult())).toBe('max-price');
+    expect(evaluateAlertRules(watcher(149.99), makeResult())).toBeNull();
+  });
+
+  it('never fires for unavailable or unpriced offers', () => {
+    const rules = { anyRestock: true };
+    expect(evaluateAlertRules(watcher(200, rules), makeResult({ isAvailable: false }))).toBeNull();
+    expect(evaluateAlertRules(watcher(200, rules), makeResult({ price: null }))).toBeNull();
+  });
+
+  describe('restock', () => {
+    const rules = { anyRestock: true };
+
+    it('fires when the offer was tracked as unavailable, regardless of price', () => {
+      expect(evaluateAlertRules(watcher(100, rules), makeResult(), undefined, [], false)).toBe(
+        'restock',
+      );
+    });
+
+    it('does not fire for an offer that stayed in stock, even after a price rise', () => {
+      const rose = makeResult({ price: 180 });
+      expect(evaluateAlertRules(watcher(100, rules), rose, undefined, [], true)).toBeNull();
+    });
+
+    it('does not fire for an offer with no tracked availability', () => {
+      expect(evaluateAlertRules(watcher(100, rules), makeResult())).toBeNull();
+    });
+  });
+
+  describe('price drop below the 7-day average', () => {
+    const rules = { dropBelowAveragePercent: 20 };
+
+    it('fires when the price is far enough below the average', () => {
+      expect(evaluateAlertRules(watcher(100, rules), makeResult({ price: 160 }), 200)).toBe(
+        'price-drop',
+      );
+    });
+
+    it('does not fire for a smaller drop', () => {
+      expect(evaluateAlertRules(watcher(100, rules), makeResult({ price: 161 }), 200)).toBeNull();
+    });
+
+    it('does not fire without price history', () => {
+      expect(evaluateAlertRules(watcher(100, rules), makeResult({ price: 101 }))).toBeNull();
+    });
+  });
+
+  it('reports maxPrice first when several triggers apply', () => {
+    const rules = { anyRestock: true, dropBelowAveragePercent: 10 };
+    expect(evaluateAlertRules(watcher(200, rules), makeResult(), 300, [], false)).toBe('max-price');
+  });
+
+  describe('filters', () => {
+    it('ignores shops outside the shop list', () => {
+      const rules = { shopIds: ['shop-2'] };
+      expect(evaluateAlertRules(watcher(200, rules), makeResult())).toBeNull();
+      expect(evaluateAlertRules(watcher(200, rules), makeResult({ shopId: 'shop-2' }))).toBe(
+        'max-price',
+      );
+    });
+
+    it("skips the user's excluded shops", () => {
+      expect(evaluateAlertRules(watcher(200), makeResult(), undefined, ['shop-1'])).toBeNull();
+      expect(evaluateAlertRules(watcher(200), makeResult(), undefined, ['shop-2'])).toBe(
+        'max-price',
+      );
+    });
+
+    it("lets the entry's shop list override the user's excluded shops", () => {
+      const rules = { shopIds: ['shop-1'] };
+      expect(evaluateAlertRules(watcher(200, rules), makeResult(), undefined, ['shop-1'])).toBe(
+        'max-price',
+      );
+    });
+
+    it('treats an empty shop list as every shop', () => {
+      expect(evaluateAlertRules(watcher(200, { shopIds: [] }), makeResult())).toBe('max-price');
+    });
+
+    it('skips listings under the minimum price for every trigger', () => {
+      const rules = { minPrice: 151, anyRestock: true };
+      expect(evaluateAlertRules(watcher(200, rules), makeResult())).toBeNull();
+      expect(evaluateAlertRules(watcher(200, rules), makeResult({ price: 151 }))).toBe('max-price');
+    });
+  });
+});
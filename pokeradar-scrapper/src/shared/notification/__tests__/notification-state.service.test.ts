@@ -0,0 +1,65 @@
+import { ProductResult } from '@pokeradar/shared';
+import { NotificationStateService } from '../notification-state.service';
+
+function makeResult(overrides?: Partial<ProductResult>): ProductResult {
+  return {
+    productId: 'p1',
+    shopId: 'shop-1',
+    productUrl: 'https://shop.com/p1',
+    productTitle: 'p1',
+    price: 150,
+    isAvailable: true,
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+describe('NotificationStateService', () => {
+  let service: NotificationStateService;
+
+  /** Mirrors the dispatcher: reads availability, then updates the state. */
+  function scan(result: ProductResult, trackAvailability = true): boolean | undefined {
+    const wasAvailable = service.getState('u1', 'p1', 'shop-1')?.wasAvailable;
+    service.updateTrackedState('u1', 'p1', 'shop-1', result, trackAvailability);
+    return wasAvailable;
+  }
+
+  beforeEach(() => {
+    service = new NotificationStateService();
+  });
+
+  it('blocks repeat notifications until a reset condition', () => {
+    service.markNotified('u1', 'p1', 'shop-1', makeResult());
+    expect(service.shouldNotify('u1', 'p1', 'shop-1')).toBe(false);
+
+    scan(makeResult({ price: 160 }));
+    expect(service.shouldNotify('u1', 'p1', 'shop-1')).toBe(true);
+  });
+
+  describe('availability tracking', () => {
+    it('reports an offer that was unavailable at the previous scan', () => {
+      scan(makeResult({ isAvailable: false, price: null }));
+      expect(scan(makeResult())).toBe(false);
+      expect(scan(makeResult())).toBeUndefined();
+    });
+
+    it('keeps tracking a notified offer after it sells out', () => {
+      service.markNotified('u1', 'p1', 'shop-1', makeResult());
+      scan(makeResult({ isAvailable: false, price: null }));
+
+      expect(service.shouldNotify('u1', 'p1', 'shop-1')).toBe(true);
+      expect(scan(makeResult())).toBe(false);
+    });
+
+    it('does not report a restock after a price rise that stays in stock', () => {
+      service.markNotified('u1', 'p1', 'shop-1', makeResult());
+      expect(scan(makeResult({ price: 180 }))).toBe(true);
+      expect(scan(makeResult({ price: 180 }))).toBeUndefined();
+    });
+
+    it('only tracks unavailable offers for watchers that ask for it', () => {
+      scan(makeResult({ isAvailable: false, price: null }), false);
+      expect(service.getState('u1', 'p1', 'shop-1')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Per-watcher alert rule evaluation.
+ * Decides whether a scrape result should notify one watcher, and which rule fired.
+ */
+
+import { AlertTrigger, ProductResult, WatchAlertRules } from '@pokeradar/shared';
+
+/** Days of daily price history averaged for the price-drop rule. */
+export const AVERAGE_PRICE_WINDOW_DAYS = 7;
+
+/**
+ * Watcher fields the rules read.
+ */
+export interface AlertRuleWatcher {
+  maxPrice: number;
+  alertRules?: WatchAlertRules;
+}
+
+/**
+ * Returns the rule that makes this result worth a notification, or null.
+ *
+ * Filters (unavailable offers, shops, minPrice) are checked first, then the
+ * triggers in order: maxPrice, price drop against the 7-day average, restock.
+ * The entry's own shop list, when set, takes the place of the user's excluded shops.
+ * averagePrice is undefined when the product has no recent history.
+ * wasAvailable is the offer's tracked availability from the previous scan,
+ * undefined when untracked; restock fires only when it was tracked as unavailable.
+ */
+export function evaluateAlertRules(
+  watcher: AlertRuleWatcher,
+  result: ProductResult,
+  averagePrice?: number,
+  excludedShopIds: string[] = [],
+  wasAvailable?: boolean,
+): AlertTrigger | null {
+  if (!result.isAvailable || result.price === null) return null;
+
+  const rules = watcher.alertRules ?? {};
+  if (rules.shopIds?.length) {
+    if (!rules.shopIds.includes(result.shopId)) return null;
+  } else if (excludedShopIds.includes(result.shopId)) {
+    return null;
+  }
+  if (rules.minPrice !== undefined && result.price < rules.minPrice) return null;
+
+  if (result.price <= watcher.maxPrice) return 'max-price';
+
+  if (rules.dropBelowAveragePercent !== undefined && averagePrice !== undefined) {
+    const threshold = averagePrice * (1 - rules.dropBelowAveragePercent / 100);
+    if (result.price <= threshold) return 'price-drop';
+  }
+
+  if (rules.anyRestock && wasAvailable === false) return 'restock';
+
+  return null;
+}
@@ -4,5 +4,6 @@
 
 export { NotificationStateService } from './notification-state.service';
 export { MultiUserNotificationDispatcher } from './multi-user-dispatcher';
+export { evaluateAlertRules, AVERAGE_PRICE_WINDOW_DAYS } from './alert-rules';
 // Re-export type separately to avoid conflicts with repository interfaces
 export type { INotificationStateRepository } from './notification-state.service';
@@ -6,11 +6,13 @@
  *
  * Design for scale (25K+ users):
  * - Preloads all watch entries and user targets in 2 DB queries at cycle start
+ * - Preloads 7-day average prices (1 more query) only when some watcher uses the price-drop rule
  * - Zero per-result DB queries during scraping
- * - Total DB queries per cycle: 4 (3 preloads + 1 state flush) + 1 batch insert for notifications
+ * - Set names for alert payloads come from the monitor's already-loaded reference data
+ * - Total DB queries per cycle: 4-5 (3-4 preloads + 1 state flush) + 1 batch insert for notifications
  */
 
-import { ProductResult, ShopConfig } from '@pokeradar/shared';
+import { AlertTrigger, ProductResult, ShopConfig } from '@pokeradar/shared';
 import { WatchlistProductInternal } from '../types';
 import { NotificationStateService } from './notification-state.service';
 import { MongoUserRepository, UserNotificationTarget } from '../repositories/mongo/user.repository';
@@ -22,6 +24,8 @@ import {
   MongoNotificationRepository,
   NotificationInsert,
 } from '../repositories/mongo/notification.repository';
+import { MongoProductResultRepository } from '../repositories/mongo/product-result.repository';
+import { AVERAGE_PRICE_WINDOW_DAYS, evaluateAlertRules } from './alert-rules';
 import { ILogger } from '@pokeradar/shared';
 
 interface QueuedNotification {
@@ -30,11 +34,15 @@ interface QueuedNotification {
   shop: ShopConfig;
   userId: string;
   userMaxPrice: number;
+  trigger: AlertTrigger;
+  averagePrice?: number;
 }
 
 export class MultiUserNotificationDispatcher {
   private watchersByProduct: Map<string, UserWatchInfo[]> = new Map();
   private userTargets: Map<string, UserNotificationTarget> = new Map();
+  private averagePrices: Map<string, number> = new Map();
+  private productSetNames: Map<string, string> = new Map();
   private messageQueue: QueuedNotification[] = [];
 
   constructor(
@@ -42,6 +50,7 @@ export class MultiUserNotificationDispatcher {
     private userWatchEntryRepo: MongoUserWatchEntryRepository,
     private userRepo: MongoUserRepository,
     private notificationRepo: MongoNotificationRepository,
+    private productResultRepo: MongoProductResultRepository,
     private logger: ILogger,
   ) {}
 
@@ -66,37 +75,76 @@ export class MultiUserNotificationDispatcher {
     // 3. Batch load user notification targets — only those with at least one channel (1 DB query)
     this.userTargets = await this.userRepo.getNotificationTargets([...allUserIds]);
 
+    // 4. Averages for the price-drop rule — skipped when nobody uses it (0-1 DB query)
+    const priceDropProductIds = [...this.watchersByProduct.entries()]
+      .filter(([, watchers]) => watchers.some((w) => w.alertRules?.dropBelowAveragePercent))
+      .map(([productId]) => productId);
+    this.averagePrices =
+      priceDropProductIds.length > 0
+        ? await this.productResultRepo.getAveragePrices(
+            priceDropProductIds,
+            AVERAGE_PRICE_WINDOW_DAYS,
+          )
+        : new Map();
+
     const subscribedProductIds = new Set(this.watchersByProduct.keys());
 
     this.logger.info('Dispatcher preloaded for cycle', {
       subscribedProducts: subscribedProductIds.size,
       totalWatchers: allUserIds.size,
       notificationTargets: this.userTargets.size,
+      averagePrices: this.averagePrices.size,
     });
 
     return subscribedProductIds;
   }
 
+  /** Set names keyed by set ID, copied into alert payloads. */
+  setProductSetNames(names: Map<string, string>): void {
+    this.productSetNames = names;
+  }
+
   /**
-   * Processes a scrape result against all watching users.
+   * Processes a scrape result against all watching users and their alert rules.
    * Enqueues notifications for later batch insertion. Zero DB queries.
    */
   processResult(product: WatchlistProductInternal, result: ProductResult, shop: ShopConfig): void {
     const watchers = this.watchersByProduct.get(product.id);
     if (!watchers || watchers.length === 0) return;
 
+    const averagePrice = this.averagePrices.get(product.id);
+
     for (const watcher of watchers) {
-      // Update tracked state for this user (detects reset conditions)
-      this.stateService.updateTrackedState(watcher.userId, product.id, shop.id, result);
+      // Availability at the previous scan, read before this result updates it
+      const wasAvailable = this.stateService.getState(
+        watcher.userId,
+        product.id,
+        shop.id,
+      )?.wasAvailable;
 
-      // Check if result meets this user's criteria
-      if (!result.isAvailable || result.price === null) continue;
-      if (result.price > watcher.maxPrice) continue;
+      // Update tracked state for this user (detects reset conditions)
+      this.stateService.updateTrackedState(
+        watcher.userId,
+        product.id,
+        shop.id,
+        result,
+        watcher.alertRules?.anyRestock === true,
+      );
 
       // Check if user has any linked notification channel
       const target = this.userTargets.get(watcher.userId);
       if (!target?.hasAnyChannel) continue;
 
+      // Check if result meets this user's rules and shop preferences
+      const trigger = evaluateAlertRules(
+        watcher,
+        result,
+        averagePrice,
+        target.excludedShopIds,
+        wasAvailable,
+      );
+      if (!trigger) continue;
+
       // Check notification state (avoid duplicate sends)
       if (!this.stateService.shouldNotify(watcher.userId, product.id, shop.id)) {
         continue;
@@ -108,6 +156,8 @@ export class MultiUserNotificationDispatcher {
         shop,
         userId: watcher.userId,
         userMaxPrice: watcher.maxPrice,
+        trigger,
+        averagePrice: trigger === 'price-drop' ? averagePrice : undefined,
       });
     }
   }
@@ -116,9 +166,10 @@ export class MultiUserNotificationDispatcher {
    * Inserts all enqueued notifications as channel-agnostic documents.
    * The notifications service resolves delivery channels at delivery time.
    * Marks notification state as notified for each queued notification.
+   * Returns the number of notifications created.
    */
-  async flushNotifications(): Promise<void> {
-    if (this.messageQueue.length === 0) return;
+  async flushNotifications(): Promise<number> {
+    if (this.messageQueue.length === 0) return 0;
 
     this.logger.info('Flushing notifications', { count: this.messageQueue.length });
 
@@ -132,6 +183,12 @@ export class MultiUserNotificationDispatcher {
         price: msg.result.price!,
         maxPrice: msg.userMaxPrice,
         productUrl: msg.result.productUrl,
+        trigger: msg.trigger,
+        ...(msg.averagePrice !== undefined && { averagePrice: msg.averagePrice }),
+        ...(msg.product.imageUrl && { imageUrl: msg.product.imageUrl }),
+        ...(this.productSetNames.has(msg.product.productSetId) && {
+          productSetName: this.productSetNames.get(msg.product.productSetId),
+        }),
       },
     }));
 
@@ -144,5 +201,6 @@ export class MultiUserNotificationDispatcher {
 
     this.logger.info('Notifications created', { count: inserts.length });
     this.messageQueue = [];
+    return inserts.length;
   }
 }
@@ -80,27 +80,35 @@ export class NotificationStateService {
       wasAvailable: result.isAvailable,
     };
 
-    this.state.set(key, state);
-
-    // Buffer for batch persistence
-    this.pendingDeletes.delete(key);
-    this.pendingUpserts.set(key, state);
+    this.saveState(key, state);
   }
 
   /**
    * Updates tracked state for a user/product/shop (called on every scan for each watcher).
    * Enables reset condition detection.
+   *
+   * With trackAvailability (the watcher's restock rule), an unavailable offer is
+   * kept as a state with no lastNotified and wasAvailable false, so the scan that
+   * sees it back in stock can tell a restock from an offer that never sold out.
    */
   updateTrackedState(
     userId: string,
     productId: string,
     shopId: string,
     result: ProductResult,
+    trackAvailability = false,
   ): void {
     const key = this.getKey(userId, productId, shopId);
     const prevState = this.state.get(key);
+    const keepUnavailable = trackAvailability && !result.isAvailable;
 
     if (!prevState || !prevState.lastNotified) {
+      if (keepUnavailable && !prevState) {
+        this.saveState(key, this.unavailableState(userId, productId, shopId));
+      } else if (!keepUnavailable && prevState) {
+        // Back in stock: the caller has already read wasAvailable for this scan
+        this.resetState(key);
+      }
       return;
     }
 
@@ -113,7 +121,11 @@ export class NotificationStateService {
         shop: shopId,
         reason: this.getResetReason(prevState, result),
       });
-      this.resetState(key);
+      if (keepUnavailable) {
+        this.saveState(key, this.unavailableState(userId, productId, shopId));
+      } else {
+        this.resetState(key);
+      }
     }
   }
 
@@ -208,6 +220,18 @@ export class NotificationStateService {
     return 'unknown';
   }
 
+  private unavailableState(userId: string, productId: string, shopId: string): NotificationState {
+    return { userId, productId, shopId, lastNotified: null, lastPrice: null, wasAvailable: false };
+  }
+
+  private saveState(key: string, state: NotificationState): void {
+    this.state.set(key, state);
+
+    // Buffer for batch persistence
+    this.pendingDeletes.delete(key);
+    this.pendingUpserts.set(key, state);
+  }
+
   private resetState(key: string): void {
     this.state.delete(key);
     this.pendingUpserts.delete(key);
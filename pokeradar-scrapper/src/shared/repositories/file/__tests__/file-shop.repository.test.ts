@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ShopConfigValidationError, getShopConfigDir } from '@pokeradar/shared';
+import { FileShopRepository } from '../file-shop.repository';
+
+const VALID_SHOP = {
+  id: 'test-shop',
+  name: 'Test Shop',
+  baseUrl: 'https://shop.pl',
+  searchUrl: '/szukaj?q={query}',
+  selectors: {
+    searchPage: {
+      article: { type: 'css', value: '.product' },
+      productUrl: { type: 'css', value: 'a', extract: 'href' },
+    },
+    productPage: {
+      price: { type: 'css', value: '.price' },
+      available: { type: 'css', value: '.buy' },
+    },
+  },
+};
+
+let dir: string;
+
+function writeShop(file: string, content: unknown) {
+  fs.writeFileSync(
+    path.join(dir, file),
+    typeof content === 'string' ? content : JSON.stringify(content),
+  );
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shops-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('FileShopRepository', () => {
+  it('loads every shipped shop config without schema issues', async () => {
+    const shops = await new FileShopRepository(getShopConfigDir()).getAll();
+    expect(shops.length).toBeGreaterThan(0);
+  });
+
+  it('loads valid configs', async () => {
+    writeShop('test-shop.json', VALID_SHOP);
+
+    const shops = await new FileShopRepository(dir).getAll();
+
+    expect(shops).toEqual([VALID_SHOP]);
+  });
+
+  it('reports every issue with file and path context', async () => {
+    writeShop('broken.json', {
+      ...VALID_SHOP,
+      directHitPattern: '(unclosed',
+      selectors: {
+        ...VALID_SHOP.selectors,
+        productPage: {
+          available: [{ type: 'json-attribute', value: 'form', attribute: 'data-x' }],
+        },
+      },
+    });
+    writeShop('not-json.json', '{ "id": ');
+
+    const error = await new FileShopRepository(dir).getAll().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ShopConfigValidationError);
+    expect(error.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ file: 'broken.json', path: 'directHitPattern' }),
+        expect.objectContaining({ file: 'broken.json', path: 'selectors.productPage.price' }),
+        expect.objectContaining({
+          file: 'broken.json',
+          path: 'selectors.productPage.available[0].jsonFilter',
+        }),
+        expect.objectContaining({ file: 'not-json.json', path: '(root)' }),
+      ]),
+    );
+    expect(error.message).toContain('broken.json directHitPattern: Invalid regex');
+  });
+
+  it('rejects unknown keys and duplicate ids', async () => {
+    writeShop('a.json', VALID_SHOP);
+    writeShop('b.json', { ...VALID_SHOP, headless: true });
+    writeShop('c.json', VALID_SHOP);
+
+    const error = await new FileShopRepository(dir).getAll().catch((e) => e);
+
+    expect(error.issues).toEqual([
+      expect.objectContaining({ file: 'b.json', path: '(root)' }),
+      expect.objectContaining({
+        file: 'c.json',
+        path: 'id',
+        message: expect.stringContaining('a.json'),
+      }),
+    ]);
+  });
+
+  it('requires jsonApi instead of selectors for json-api shops', async () => {
+    writeShop('json.json', { ...VALID_SHOP, selectors: undefined, engine: 'json-api' });
+
+    const error = await new FileShopRepository(dir).getAll().catch((e) => e);
+
+    expect(error.issues).toEqual([expect.objectContaining({ path: 'jsonApi' })]);
+  });
+});
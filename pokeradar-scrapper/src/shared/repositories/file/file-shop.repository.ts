@@ -1,11 +1,10 @@
 /**
  * File-based implementation of shop repository.
- * Reads shop configurations from JSON files in a directory.
+ * Reads shop configurations from JSON files in a directory, validating each
+ * against the shared schema — an invalid file fails the load with file/path context.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import { ShopConfig } from '@pokeradar/shared';
+import { ShopConfig, loadShopConfigs } from '@pokeradar/shared';
 import { IShopRepository } from '../interfaces';
 
 export class FileShopRepository implements IShopRepository {
@@ -24,16 +23,7 @@ export class FileShopRepository implements IShopRepository {
   }
 
   async getAll(): Promise<ShopConfig[]> {
-    const files = fs.readdirSync(this.shopsDir).filter((f) => f.endsWith('.json'));
-    const shops: ShopConfig[] = [];
-
-    for (const file of files) {
-      const filePath = path.join(this.shopsDir, file);
-      const content = fs.readFileSync(filePath, 'utf-8');
-      shops.push(JSON.parse(content));
-    }
-
-    return shops;
+    return loadShopConfigs(this.shopsDir);
   }
 
   async getById(id: string): Promise<ShopConfig | null> {
@@ -10,11 +10,13 @@ import { ProductResult } from '@pokeradar/shared';
 export interface IProductResultRepository {
   save(result: ProductResult): Promise<void>;
   saveBatch(results: ProductResult[]): Promise<void>;
-  /** Upsert results with hourly deduplication - 1 record per product/shop/hour */
+  /** Upsert results with hourly deduplication - 1 record per product/shop/hour, plus daily history */
   upsertHourlyBatch(results: ProductResult[]): Promise<void>;
   getByProduct(productId: string, shopId: string, limit?: number): Promise<ProductResult[]>;
   getCurrentBestOffer(productId: string): Promise<ProductResult | null>;
   /** Get best offers for multiple products. null = fresh data but unavailable, absent = no fresh data */
   getBestOffersForProducts(productIds: string[]): Promise<Map<string, ProductResult | null>>;
   getRecent(limit?: number): Promise<ProductResult[]>;
+  /** Average daily best price over the last `days` days, per product. Products without history are absent. */
+  getAveragePrices(productIds: string[], days: number): Promise<Map<string, number>>;
 }
@@ -0,0 +1,140 @@
+/**
+ * Tests for the daily price history kept by MongoProductResultRepository.
+ *
+ * The history model's bulkWrite is replaced with a small in-memory store that
+ * applies the upserts the way MongoDB would ($set, $setOnInsert, $min, $max),
+ * so the tests check the resulting documents rather than the raw operations.
+ */
+
+import { ProductResult } from '@pokeradar/shared';
+import { MongoProductResultRepository } from '../product-result.repository';
+
+type HistoryDoc = Record<string, unknown>;
+
+interface UpsertOperation {
+  updateOne: {
+    filter: HistoryDoc;
+    update: Record<string, HistoryDoc>;
+    upsert: boolean;
+  };
+}
+
+const mockHistory: HistoryDoc[] = [];
+
+function applyUpsert({ updateOne: { filter, update } }: UpsertOperation): void {
+  const matches = (doc: HistoryDoc) => Object.entries(filter).every(([k, v]) => doc[k] === v);
+  let doc = mockHistory.find(matches);
+  if (!doc) {
+    doc = { ...filter, ...update.$setOnInsert };
+    mockHistory.push(doc);
+  }
+  Object.assign(doc, update.$set);
+  for (const [field, value] of Object.entries(update.$min ?? {})) {
+    if (doc[field] === undefined || (value as number) < (doc[field] as number)) doc[field] = value;
+  }
+  for (const [field, value] of Object.entries(update.$max ?? {})) {
+    if (doc[field] === undefined || (value as number) > (doc[field] as number)) doc[field] = value;
+  }
+}
+
+jest.mock('@pokeradar/shared', () => {
+  const actual = jest.requireActual('@pokeradar/shared');
+  return {
+    ...actual,
+    ProductResultModel: { bulkWrite: jest.fn() },
+    ProductPriceHistoryModel: {
+      bulkWrite: jest.fn(async (operations: UpsertOperation[]) => operations.forEach(applyUpsert)),
+    },
+  };
+});
+
+function makeResult(overrides?: Partial<ProductResult>): ProductResult {
+  return {
+    productId: 'p1',
+    shopId: 'shop-1',
+    productUrl: 'https://shop.com/p1',
+    productTitle: 'p1',
+    price: 150,
+    isAvailable: true,
+    timestamp: new Date('2024-03-10T08:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('MongoProductResultRepository daily history', () => {
+  let repository: MongoProductResultRepository;
+
+  beforeEach(() => {
+    mockHistory.length = 0;
+    repository = new MongoProductResultRepository();
+  });
+
+  it('keeps one entry per product, shop and day', async () => {
+    await repository.upsertHourlyBatch([makeResult()]);
+    await repository.upsertHourlyBatch([
+      makeResult({ timestamp: new Date('2024-03-10T14:00:00Z') }),
+    ]);
+    await repository.upsertHourlyBatch([
+      makeResult({ shopId: 'shop-2', timestamp: new Date('2024-03-10T14:00:00Z') }),
+    ]);
+
+    expect(mockHistory).toHaveLength(2);
+    expect(mockHistory.map((d) => [d.shopId, d.dayBucket])).toEqual([
+      ['shop-1', '2024-03-10'],
+      ['shop-2', '2024-03-10'],
+    ]);
+  });
+
+  it('moves min and max within the day and closes on the latest price', async () => {
+    await repository.upsertHourlyBatch([makeResult({ price: 150 })]);
+    await repository.upsertHourlyBatch([
+      makeResult({ price: 120, timestamp: new Date('2024-03-10T12:00:00Z') }),
+    ]);
+    await repository.upsertHourlyBatch([
+      makeResult({ price: 180, timestamp: new Date('2024-03-10T16:00:00Z') }),
+    ]);
+    await repository.upsertHourlyBatch([
+      makeResult({ price: 160, timestamp: new Date('2024-03-10T20:00:00Z') }),
+    ]);
+
+    expect(mockHistory).toHaveLength(1);
+    expect(mockHistory[0]).toMatchObject({
+      minPrice: 120,
+      maxPrice: 180,
+      closePrice: 160,
+      wasAvailable: true,
+    });
+  });
+
+  it('leaves prices untouched by unavailable samples', async () => {
+    await repository.upsertHourlyBatch([makeResult({ isAvailable: false, price: null })]);
+    expect(mockHistory[0]).toMatchObject({ wasAvailable: false });
+    expect(mockHistory[0].minPrice).toBeUndefined();
+
+    await repository.upsertHourlyBatch([
+      makeResult({ price: 140, timestamp: new Date('2024-03-10T12:00:00Z') }),
+    ]);
+    await repository.upsertHourlyBatch([
+      makeResult({ isAvailable: false, price: 90, timestamp: new Date('2024-03-10T16:00:00Z') }),
+    ]);
+
+    expect(mockHistory).toHaveLength(1);
+    expect(mockHistory[0]).toMatchObject({
+      minPrice: 140,
+      maxPrice: 140,
+      closePrice: 140,
+      wasAvailable: true,
+    });
+  });
+
+  it('starts a new entry on a new day', async () => {
+    await repository.upsertHourlyBatch([makeResult({ price: 150 })]);
+    await repository.upsertHourlyBatch([
+      makeResult({ price: 170, timestamp: new Date('2024-03-11T00:30:00Z') }),
+    ]);
+
+    expect(mockHistory).toHaveLength(2);
+    expect(mockHistory[0]).toMatchObject({ dayBucket: '2024-03-10', minPrice: 150, maxPrice: 150 });
+    expect(mockHistory[1]).toMatchObject({ dayBucket: '2024-03-11', minPrice: 170, maxPrice: 170 });
+  });
+});
@@ -8,4 +8,6 @@ export { MongoProductResultRepository } from './product-result.repository';
 export { MongoUserRepository, type UserNotificationTarget } from './user.repository';
 export { MongoUserWatchEntryRepository, type UserWatchInfo } from './user-watch-entry.repository';
 export { MongoNotificationRepository, type NotificationInsert } from './notification.repository';
+export { MongoScanRunRepository } from './scan-run.repository';
+export { MongoUnmatchedTitleRepository } from './unmatched-title.repository';
 export * from './mappers';
@@ -27,6 +27,14 @@ export function getHourBucket(date: Date): string {
   return date.toISOString().slice(0, 13);
 }
 
+/**
+ * Generates a day bucket string from a date (UTC).
+ * Format: "YYYY-MM-DD" (e.g., "2026-01-26")
+ */
+export function getDayBucket(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
 /**
  * Maps a MongoDB document to ProductResult domain model.
  */
@@ -14,6 +14,11 @@ export function toWatchlistProduct(doc: IWatchlistProductDoc): WatchlistProductI
     name: doc.name,
     productSetId: doc.productSetId,
     productTypeId: doc.productTypeId,
+    language: doc.language,
+    cardId: doc.cardId,
+    grade: doc.grade,
+    condition: doc.condition,
+    imageUrl: doc.imageUrl,
     disabled: doc.disabled,
   };
 }
@@ -36,6 +41,10 @@ export function toWatchlistProductDoc(
     name: product.name,
     productSetId: product.productSetId,
     productTypeId: product.productTypeId,
+    language: product.language,
+    cardId: product.cardId,
+    grade: product.grade,
+    condition: product.condition,
     disabled: product.disabled,
   };
 }
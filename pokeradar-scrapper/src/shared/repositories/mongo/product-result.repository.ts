@@ -6,10 +6,17 @@ import { IProductResultRepository } from '../interfaces';
 import {
   ProductResult,
   ProductResultModel,
+  ProductPriceHistoryModel,
   getFreshnessCutoff,
   buildBestPriceAggregation,
 } from '@pokeradar/shared';
-import { toProductResult, toProductResultArray, getHourBucket, IProductResultDoc } from './mappers';
+import {
+  toProductResult,
+  toProductResultArray,
+  getHourBucket,
+  getDayBucket,
+  IProductResultDoc,
+} from './mappers';
 
 export class MongoProductResultRepository implements IProductResultRepository {
   async save(result: ProductResult): Promise<void> {
@@ -75,6 +82,51 @@ export class MongoProductResultRepository implements IProductResultRepository {
     });
 
     await ProductResultModel.bulkWrite(operations, { ordered: false });
+    await this.upsertDailyHistory(results);
+  }
+
+  /**
+   * Folds results into the long-lived daily history (1 record per product/shop/day).
+   * Only available offers with a known price contribute to min/max/close. Price fields
+   * stay unset until the first priced sample — $min/$max would never move off a null.
+   */
+  private async upsertDailyHistory(results: ProductResult[]): Promise<void> {
+    const operations = results.map((result) => {
+      const dayBucket = getDayBucket(result.timestamp);
+      const hasPrice = result.isAvailable && result.price !== null;
+
+      const update: Record<string, Record<string, unknown>> = {
+        $set: {
+          productUrl: result.productUrl,
+          lastSeenAt: result.timestamp,
+        },
+        $setOnInsert: {
+          productId: result.productId,
+          shopId: result.shopId,
+          dayBucket,
+          createdAt: new Date(),
+        },
+      };
+
+      if (hasPrice) {
+        update.$set.closePrice = result.price;
+        update.$set.wasAvailable = true;
+        update.$min = { minPrice: result.price };
+        update.$max = { maxPrice: result.price };
+      } else {
+        update.$setOnInsert.wasAvailable = false;
+      }
+
+      return {
+        updateOne: {
+          filter: { productId: result.productId, shopId: result.shopId, dayBucket },
+          update,
+          upsert: true,
+        },
+      };
+    });
+
+    await ProductPriceHistoryModel.bulkWrite(operations, { ordered: false });
   }
 
   async getByProduct(productId: string, shopId: string, limit = 100): Promise<ProductResult[]> {
@@ -137,4 +189,35 @@ export class MongoProductResultRepository implements IProductResultRepository {
     const docs = await ProductResultModel.find().sort({ timestamp: -1 }).limit(limit).lean();
     return toProductResultArray(docs as IProductResultDoc[]);
   }
+
+  /**
+   * Averages the cheapest price of each day across shops, from the daily history.
+   * Days without any priced offer don't count towards the average.
+   */
+  async getAveragePrices(productIds: string[], days: number): Promise<Map<string, number>> {
+    if (productIds.length === 0) return new Map();
+
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+
+    const docs: Array<{ _id: string; averagePrice: number }> =
+      await ProductPriceHistoryModel.aggregate([
+        {
+          $match: {
+            productId: { $in: productIds },
+            dayBucket: { $gte: getDayBucket(from) },
+            minPrice: { $ne: null },
+          },
+        },
+        {
+          $group: {
+            _id: { productId: '$productId', dayBucket: '$dayBucket' },
+            bestPrice: { $min: '$minPrice' },
+          },
+        },
+        { $group: { _id: '$_id.productId', averagePrice: { $avg: '$bestPrice' } } },
+      ]);
+
+    return new Map(docs.map((d) => [d._id, d.averagePrice]));
+  }
 }
@@ -0,0 +1,12 @@
+/**
+ * MongoDB repository for scan cycle reports.
+ * Written once per cycle; the API reads them for admin shop health trends.
+ */
+
+import { ScanRun, ScanRunModel } from '@pokeradar/shared';
+
+export class MongoScanRunRepository {
+  async save(run: ScanRun): Promise<void> {
+    await ScanRunModel.create(run);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * MongoDB repository for titles the matching pipeline rejected.
+ * One document per shop + title; the API groups them for the admin inbox.
+ */
+
+import { UnmatchedTitleSighting, UnmatchedTitleModel } from '@pokeradar/shared';
+
+export class MongoUnmatchedTitleRepository {
+  async upsertBatch(sightings: UnmatchedTitleSighting[]): Promise<void> {
+    if (sightings.length === 0) return;
+
+    await UnmatchedTitleModel.bulkWrite(
+      sightings.map((sighting) => ({
+        updateOne: {
+          filter: { shopId: sighting.shopId, title: sighting.title },
+          update: {
+            $set: {
+              normalizedTitle: sighting.normalizedTitle,
+              reason: sighting.reason,
+              productTypeId: sighting.productTypeId,
+              url: sighting.url,
+              lastSeenAt: sighting.seenAt,
+            },
+            $setOnInsert: { firstSeenAt: sighting.seenAt },
+            $inc: { seenCount: 1 },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+  }
+}
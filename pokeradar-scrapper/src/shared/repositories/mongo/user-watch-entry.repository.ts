@@ -2,7 +2,7 @@
  * MongoDB repository for UserWatchEntry (read-only).
  */
 
-import { UserWatchEntryModel } from '@pokeradar/shared';
+import { UserWatchEntryModel, WatchAlertRules } from '@pokeradar/shared';
 
 /**
  * Simplified watch entry for notification processing.
@@ -11,11 +11,13 @@ export interface UserWatchInfo {
   userId: string;
   productId: string;
   maxPrice: number;
+  alertRules?: WatchAlertRules;
 }
 
 export class MongoUserWatchEntryRepository {
   /**
    * Returns a map of productId → active watchers for the given product IDs.
+   * Snoozed entries are left out until their snooze ends.
    * Single DB query for all products.
    */
   async getActiveWatchersByProductIds(productIds: string[]): Promise<Map<string, UserWatchInfo[]>> {
@@ -24,6 +26,7 @@ export class MongoUserWatchEntryRepository {
     const entries = await UserWatchEntryModel.find({
       productId: { $in: productIds },
       isActive: { $ne: false },
+      snoozedUntil: { $not: { $gt: new Date() } },
     }).lean();
 
     const map = new Map<string, UserWatchInfo[]>();
@@ -33,6 +36,7 @@ export class MongoUserWatchEntryRepository {
         userId: entry.userId.toString(),
         productId: entry.productId,
         maxPrice: entry.maxPrice,
+        alertRules: entry.alertRules,
       });
       map.set(entry.productId, list);
     }
@@ -10,6 +10,8 @@ import { UserModel } from '@pokeradar/shared';
 export interface UserNotificationTarget {
   userId: string;
   hasAnyChannel: boolean;
+  /** Shops the user doesn't want alerts from. */
+  excludedShopIds: string[];
 }
 
 export class MongoUserRepository {
@@ -22,15 +24,25 @@ export class MongoUserRepository {
 
     const docs = await UserModel.find({
       _id: { $in: userIds },
-      $or: [{ 'telegram.channelId': { $ne: null } }, { 'discord.channelId': { $ne: null } }],
+      $or: [
+        { 'telegram.channelId': { $ne: null } },
+        { 'discord.channelId': { $ne: null } },
+        { 'email.channelId': { $ne: null } },
+        { 'pushSubscriptions.0': { $exists: true } },
+        { webhooks: { $elemMatch: { disabled: false } } },
+      ],
     })
-      .select('_id')
+      .select('_id excludedShopIds')
       .lean();
 
     const map = new Map<string, UserNotificationTarget>();
     for (const doc of docs) {
       const userId = doc._id.toString();
-      map.set(userId, { userId, hasAnyChannel: true });
+      map.set(userId, {
+        userId,
+        hasAnyChannel: true,
+        excludedShopIds: doc.excludedShopIds ?? [],
+      });
     }
     return map;
   }
@@ -26,6 +26,10 @@ export class MongoWatchlistRepository implements IWatchlistRepository {
       name: product.name,
       productSetId: product.productSetId,
       productTypeId: product.productTypeId,
+      language: product.language,
+      cardId: product.cardId,
+      grade: product.grade,
+      condition: product.condition,
       disabled: product.disabled,
     });
   }
@@ -37,6 +41,10 @@ export class MongoWatchlistRepository implements IWatchlistRepository {
         name: product.name,
         productSetId: product.productSetId,
         productTypeId: product.productTypeId,
+        language: product.language,
+        cardId: product.cardId,
+        grade: product.grade,
+        condition: product.condition,
         disabled: product.disabled,
       },
     );
@@ -9,6 +9,16 @@ export interface WatchlistProduct {
   name: string;
   productSetId: string;
   productTypeId: string;
+  /** Print language the product is matched in; English when unset. */
+  language?: string;
+  /** Card tracked by a single-card product. */
+  cardId?: string;
+  /** Grade of a graded slab, e.g. "psa 10"; unset for raw cards. */
+  grade?: string;
+  /** Condition of a raw card, e.g. "nm"; unset for any condition. */
+  condition?: string;
+  /** Product photo, shown in rich alerts. */
+  imageUrl?: string;
   disabled?: boolean;
 }
 
@@ -2,6 +2,7 @@
  * Product utility functions.
  */
 
+import { MatchableCard, productMatchKey } from '@pokeradar/shared';
 import { WatchlistProduct, WatchlistProductInternal } from '../types';
 
 /**
@@ -37,7 +38,8 @@ export function toInternalProducts(products: WatchlistProduct[]): WatchlistProdu
 }
 
 /**
- * A group of products belonging to the same Pokemon TCG set.
+ * A group of products found through one shop search: every sealed product of
+ * a Pokemon TCG set, or every watched grade and condition of one single card.
  */
 export interface SetGroup {
   setId: string;
@@ -48,17 +50,30 @@ export interface SetGroup {
 /**
  * Groups products by their productSetId.
  * All products with a known set become SetGroups (even single-member sets).
- * Products whose set is not in the setMap are ungrouped.
+ * Single cards are grouped per card instead and searched by card name and
+ * number, since a set search mostly lists sealed products.
+ * Products whose set (or card) is unknown are ungrouped.
  */
 export function groupProductsBySet(
   products: WatchlistProductInternal[],
   setMap: Map<string, { name: string; series: string }>,
+  cards: MatchableCard[] = [],
 ): { setGroups: SetGroup[]; ungrouped: WatchlistProductInternal[] } {
   const bySet = new Map<string, WatchlistProductInternal[]>();
+  const byCard = new Map<string, WatchlistProductInternal[]>();
+  const cardMap = new Map(cards.map((card) => [card.id, card]));
   const ungrouped: WatchlistProductInternal[] = [];
 
   for (const product of products) {
-    if (setMap.has(product.productSetId)) {
+    if (product.cardId) {
+      if (cardMap.has(product.cardId)) {
+        const existing = byCard.get(product.cardId) || [];
+        existing.push(product);
+        byCard.set(product.cardId, existing);
+      } else {
+        ungrouped.push(product);
+      }
+    } else if (setMap.has(product.productSetId)) {
       const existing = bySet.get(product.productSetId) || [];
       existing.push(product);
       bySet.set(product.productSetId, existing);
@@ -72,6 +87,39 @@ export function groupProductsBySet(
     const set = setMap.get(setId)!;
     setGroups.push({ setId, searchPhrase: set.name, products: members });
   }
+  for (const [cardId, members] of byCard.entries()) {
+    const card = cardMap.get(cardId)!;
+    setGroups.push({
+      setId: card.productSetId,
+      searchPhrase: cardSearchPhrase(card),
+      products: members,
+    });
+  }
 
   return { setGroups, ungrouped };
 }
+
+/**
+ * Card name and the number part of its collector number ("Pikachu ex 238"):
+ * shop search engines tend to split or drop the slash of "238/191".
+ */
+export function cardSearchPhrase(card: MatchableCard): string {
+  return `${card.name} ${card.number.split('/')[0].trim()}`;
+}
+
+/**
+ * Indexes products by `productTypeId|productSetId|language` (or the single-card
+ * key for singles), the key produced by pipeline matching.
+ */
+export function buildWatchlistIndex(
+  products: WatchlistProductInternal[],
+): Map<string, WatchlistProductInternal[]> {
+  const index = new Map<string, WatchlistProductInternal[]>();
+  for (const product of products) {
+    const key = productMatchKey(product);
+    const existing = index.get(key) ?? [];
+    existing.push(product);
+    index.set(key, existing);
+  }
+  return index;
+}
@@ -64,3 +64,38 @@ export function buildSearchUrl(baseUrl: string, searchUrl: string, query: string
 
   return `${baseUrl}${searchPath}`;
 }
+
+/**
+ * Builds the URL of a specific search results page from a pagination template.
+ *
+ * @param baseUrl - The base URL of the shop
+ * @param pageUrl - The search URL template with {query} and {page} placeholders
+ * @param query - The search query to insert
+ * @param page - The 1-based page number
+ * @returns Complete search page URL
+ */
+export function buildSearchPageUrl(
+  baseUrl: string,
+  pageUrl: string,
+  query: string,
+  page: number,
+): string {
+  return buildSearchUrl(baseUrl, pageUrl.replace('{page}', String(page)), query);
+}
+
+/**
+ * Produces a comparison key for deduplicating product URLs that point to the
+ * same page — ignores the fragment, host casing and a trailing slash.
+ *
+ * @example
+ * getUrlDedupeKey("https://Shop.pl/produkt/abc/#opis") // => "https://shop.pl/produkt/abc"
+ */
+export function getUrlDedupeKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}